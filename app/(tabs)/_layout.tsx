@@ -1,6 +1,6 @@
 import { Tabs, router } from 'expo-router';
 import { View, ActivityIndicator, StyleSheet, Platform } from 'react-native';
-import { Home, Package, Users, User } from 'lucide-react-native';
+import { Home, Package, Users, User, Bike } from 'lucide-react-native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useEffect } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -29,6 +29,7 @@ export default function TabLayout() {
   const isCustomer = profile.role === 'customer';
   const isVendor = profile.role === 'vendor';
   const isAdmin = profile.role === 'admin';
+  const isRider = profile.role === 'rider';
 
   return (
     <Tabs
@@ -60,6 +61,7 @@ export default function TabLayout() {
         options={{
           title: 'Home',
           tabBarIcon: ({ size, color }) => <Home size={size} color={color} />,
+          href: isRider ? null : '/(tabs)',
         }}
       />
 
@@ -108,6 +110,15 @@ export default function TabLayout() {
         }}
       />
 
+      <Tabs.Screen
+        name="rider"
+        options={{
+          title: 'Deliveries',
+          tabBarIcon: ({ size, color }) => <Bike size={size} color={color} />,
+          href: isRider ? '/(tabs)/rider' : null,
+        }}
+      />
+
       <Tabs.Screen
         name="profile"
         options={{
@@ -23,6 +23,9 @@ import {
   ChevronRight,
   BarChart3,
   Shield,
+  Wallet,
+  Webhook,
+  Search,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { Fonts } from '@/constants/fonts';
@@ -36,6 +39,9 @@ import BankAccountManagement from '@/components/admin/BankAccountManagement';
 import AdvertManagement from '@/components/admin/AdvertManagement';
 import CategoryManagement from '@/components/admin/CategoryManagement';
 import ReviewModeration from '@/components/admin/ReviewModeration';
+import PayoutManagement from '@/components/admin/PayoutManagement';
+import WebhookEvents from '@/components/admin/WebhookEvents';
+import SearchInsights from '@/components/admin/SearchInsights';
 import { useLocalSearchParams } from 'expo-router';
 
 interface Stats {
@@ -54,9 +60,12 @@ const MENU_ITEMS = [
   { key: 'orders', icon: TrendingUp, label: 'Manage Orders', desc: 'Track and manage orders', color: '#ef4444' },
   { key: 'content', icon: FileText, label: 'Manage Content', desc: 'Edit pages and FAQs', color: '#8b5cf6' },
   { key: 'delivery', icon: Truck, label: 'Delivery Management', desc: 'Zones, pricing and logs', color: '#06b6d4' },
+  { key: 'payouts', icon: Wallet, label: 'Vendor Payouts', desc: 'Payouts and commission rates', color: '#059669' },
+  { key: 'webhooks', icon: Webhook, label: 'Payment Webhooks', desc: 'Inspect and replay Paystack events', color: '#6366f1' },
   { key: 'bank', icon: Building2, label: 'Bank Accounts', desc: 'Payment account settings', color: '#64748b' },
   { key: 'adverts', icon: Megaphone, label: 'Advert Management', desc: 'Manage promotional adverts', color: '#ec4899' },
   { key: 'reviews', icon: Star, label: 'Review Moderation', desc: 'Moderate customer reviews', color: '#f59e0b' },
+  { key: 'search', icon: Search, label: 'Search Insights', desc: 'Top searches and catalog gaps', color: '#0ea5e9' },
 ];
 
 export default function AdminScreen() {
@@ -128,10 +137,13 @@ export default function AdminScreen() {
 
   const subScreens: Record<string, { title: string; component: React.ReactNode }> = {
     delivery: { title: 'Delivery Management', component: <DeliveryManagement /> },
+    payouts: { title: 'Vendor Payouts', component: <PayoutManagement /> },
+    webhooks: { title: 'Payment Webhooks', component: <WebhookEvents /> },
     bank: { title: 'Bank Accounts', component: <BankAccountManagement /> },
     adverts: { title: 'Advert Management', component: <AdvertManagement /> },
     categories: { title: 'Category Management', component: <CategoryManagement /> },
     reviews: { title: 'Review Moderation', component: <ReviewModeration /> },
+    search: { title: 'Search Insights', component: <SearchInsights /> },
   };
 
   if (activeScreen && subScreens[activeScreen]) {
@@ -17,6 +17,8 @@ import { router, useFocusEffect } from 'expo-router';
 import ProductDetailModal from '@/components/ProductDetailModal';
 import { Product } from '@/types/database';
 import { Fonts } from '@/constants/fonts';
+import { getAvailableStock, getStockLabel, LOW_STOCK_THRESHOLD } from '@/lib/stock';
+import { formatItemName } from '@/lib/productVariants';
 
 interface CartItemWithProduct {
   id: string;
@@ -29,9 +31,23 @@ interface CartItemWithProduct {
     unit: string;
     image_url: string;
     vendor_id: string;
+    stock_quantity: number;
+    reserved_quantity: number;
   };
+  variant: {
+    id: string;
+    name: string;
+    price: number;
+    image_url: string | null;
+    stock_quantity: number;
+    reserved_quantity: number;
+  } | null;
 }
 
+// Variant lines price and stock from the chosen variant rather than the product
+const getLinePrice = (item: CartItemWithProduct) => item.variant?.price ?? item.product.price;
+const getLineStock = (item: CartItemWithProduct) => item.variant ?? item.product;
+
 export default function CartScreen() {
   const { profile } = useAuth();
   const insets = useSafeAreaInsets();
@@ -69,6 +85,32 @@ export default function CartScreen() {
           }, 100);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'products',
+        },
+        (payload) => {
+          // Keep the "only N left" hints live as other customers reserve stock
+          const updated = payload.new as Product;
+          setCartItems((items) =>
+            items.map((item) =>
+              item.product_id === updated.id
+                ? {
+                    ...item,
+                    product: {
+                      ...item.product,
+                      stock_quantity: updated.stock_quantity,
+                      reserved_quantity: updated.reserved_quantity,
+                    },
+                  }
+                : item
+            )
+          );
+        }
+      )
       .subscribe();
 
     return () => {
@@ -94,7 +136,17 @@ export default function CartScreen() {
             price,
             unit,
             image_url,
-            vendor_id
+            vendor_id,
+            stock_quantity,
+            reserved_quantity
+          ),
+          product_variants (
+            id,
+            name,
+            price,
+            image_url,
+            stock_quantity,
+            reserved_quantity
           )
         `
         )
@@ -107,6 +159,9 @@ export default function CartScreen() {
         quantity: item.quantity,
         product_id: item.product_id,
         product: item.products,
+        variant: item.product_variants
+          ? { ...item.product_variants, price: Number(item.product_variants.price) }
+          : null,
       }));
 
       setCartItems(formattedData);
@@ -157,11 +212,15 @@ export default function CartScreen() {
   };
 
   const calculateTotal = () => {
-    return cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+    return cartItems.reduce((sum, item) => sum + getLinePrice(item) * item.quantity, 0);
   };
 
+  const hasStockShortage = cartItems.some(
+    (item) => item.quantity > getAvailableStock(getLineStock(item))
+  );
+
   const handleCheckout = () => {
-    if (cartItems.length === 0) return;
+    if (cartItems.length === 0 || hasStockShortage) return;
     router.push('/checkout');
   };
 
@@ -215,57 +274,75 @@ export default function CartScreen() {
         data={cartItems}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.list}
-        renderItem={({ item, index }) => (
-          <TouchableOpacity
-            activeOpacity={0.7}
-            onPress={() => handleViewProduct(item.product_id)}
-          >
-            <View style={styles.cartItem}>
-              <Image
-                source={{
-                  uri: item.product.image_url || 'https://images.pexels.com/photos/1640777/pexels-photo-1640777.jpeg',
-                }}
-                style={styles.itemImage}
-              />
-              <View style={styles.itemInfo}>
-                <Text style={styles.itemName}>{item.product.name}</Text>
-                <Text style={styles.itemPrice}>
-                  ₦{item.product.price.toFixed(2)} / {item.product.unit}
-                </Text>
-                <View style={styles.quantityContainer}>
-                  <TouchableOpacity
-                    style={styles.quantityButton}
-                    onPress={(e) => {
-                      e.stopPropagation();
-                      updateQuantity(item.id, item.quantity - 1);
-                    }}
-                  >
-                    <Minus size={16} color="#6b7280" />
-                  </TouchableOpacity>
-                  <Text style={styles.quantity}>{item.quantity}</Text>
-                  <TouchableOpacity
-                    style={styles.quantityButton}
-                    onPress={(e) => {
-                      e.stopPropagation();
-                      updateQuantity(item.id, item.quantity + 1);
-                    }}
-                  >
-                    <Plus size={16} color="#6b7280" />
-                  </TouchableOpacity>
+        renderItem={({ item, index }) => {
+          const availableStock = getAvailableStock(getLineStock(item));
+          const exceedsStock = item.quantity > availableStock;
+
+          return (
+            <TouchableOpacity
+              activeOpacity={0.7}
+              onPress={() => handleViewProduct(item.product_id)}
+            >
+              <View style={styles.cartItem}>
+                <Image
+                  source={{
+                    uri: item.variant?.image_url || item.product.image_url || 'https://images.pexels.com/photos/1640777/pexels-photo-1640777.jpeg',
+                  }}
+                  style={styles.itemImage}
+                />
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName}>{formatItemName(item.product.name, item.variant?.name)}</Text>
+                  <Text style={styles.itemPrice}>
+                    ₦{getLinePrice(item).toFixed(2)} / {item.product.unit}
+                  </Text>
+                  {exceedsStock ? (
+                    <Text style={styles.stockWarning}>
+                      {availableStock === 0
+                        ? 'Out of stock - remove to continue'
+                        : `Only ${availableStock} left - reduce quantity to continue`}
+                    </Text>
+                  ) : availableStock <= LOW_STOCK_THRESHOLD ? (
+                    <Text style={styles.stockHint}>{getStockLabel(getLineStock(item))}</Text>
+                  ) : null}
+                  <View style={styles.quantityContainer}>
+                    <TouchableOpacity
+                      style={styles.quantityButton}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        updateQuantity(item.id, item.quantity - 1);
+                      }}
+                    >
+                      <Minus size={16} color="#6b7280" />
+                    </TouchableOpacity>
+                    <Text style={styles.quantity}>{item.quantity}</Text>
+                    <TouchableOpacity
+                      style={[
+                        styles.quantityButton,
+                        item.quantity >= availableStock && styles.quantityButtonDisabled,
+                      ]}
+                      onPress={(e) => {
+                        e.stopPropagation();
+                        updateQuantity(item.id, item.quantity + 1);
+                      }}
+                      disabled={item.quantity >= availableStock}
+                    >
+                      <Plus size={16} color={item.quantity >= availableStock ? '#d1d5db' : '#6b7280'} />
+                    </TouchableOpacity>
+                  </View>
                 </View>
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={(e) => {
+                    e.stopPropagation();
+                    removeItem(item.id);
+                  }}
+                >
+                  <Trash2 size={20} color="#ef4444" />
+                </TouchableOpacity>
               </View>
-              <TouchableOpacity
-                style={styles.deleteButton}
-                onPress={(e) => {
-                  e.stopPropagation();
-                  removeItem(item.id);
-                }}
-              >
-                <Trash2 size={20} color="#ef4444" />
-              </TouchableOpacity>
-            </View>
-          </TouchableOpacity>
-        )}
+            </TouchableOpacity>
+          );
+        }}
       />
 
       <View style={[styles.footer, { paddingBottom: insets.bottom + 20 }]}>
@@ -273,8 +350,14 @@ export default function CartScreen() {
           <Text style={styles.totalLabel}>Total</Text>
           <Text style={styles.totalAmount}>₦{calculateTotal().toFixed(2)}</Text>
         </View>
-        <TouchableOpacity style={styles.checkoutButton} onPress={handleCheckout}>
-          <Text style={styles.checkoutButtonText}>Proceed to Checkout</Text>
+        <TouchableOpacity
+          style={[styles.checkoutButton, hasStockShortage && styles.checkoutButtonDisabled]}
+          onPress={handleCheckout}
+          disabled={hasStockShortage}
+        >
+          <Text style={styles.checkoutButtonText}>
+            {hasStockShortage ? 'Update Cart to Continue' : 'Proceed to Checkout'}
+          </Text>
         </TouchableOpacity>
       </View>
 
@@ -379,6 +462,21 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#f0ebe4',
   },
+  quantityButtonDisabled: {
+    opacity: 0.5,
+  },
+  stockHint: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#ea580c',
+    marginTop: 4,
+  },
+  stockWarning: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#dc2626',
+    marginTop: 4,
+  },
   quantity: {
     fontSize: 18,
     fontFamily: Fonts.headingBold,
@@ -427,6 +525,10 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 5,
   },
+  checkoutButtonDisabled: {
+    backgroundColor: '#d1d5db',
+    shadowOpacity: 0,
+  },
   checkoutButtonText: {
     color: '#ffffff',
     fontSize: 18,
@@ -1,3 +1,4 @@
+import { Redirect } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import CustomerHome from '@/components/home/CustomerHome';
 import VendorHome from '@/components/home/VendorHome';
@@ -18,5 +19,9 @@ export default function HomeScreen() {
     return <AdminHome />;
   }
 
+  if (profile.role === 'rider') {
+    return <Redirect href="/(tabs)/rider" />;
+  }
+
   return <CustomerHome />;
 }
@@ -9,15 +9,17 @@ import {
   TextInput,
   Platform,
   Modal,
+  Alert,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Package, Clock, CheckCircle, Truck, XCircle, ShoppingBag, Search, X, Star, Receipt } from 'lucide-react-native';
+import { Package, Clock, CheckCircle, Truck, XCircle, ShoppingBag, Search, X, Star, Receipt, Wallet } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
-import { Order, OrderStatus, OrderItem, Product } from '@/types/database';
+import { CheckoutGroup, Order, OrderStatus, OrderItem, Product } from '@/types/database';
 import { router } from 'expo-router';
 import ReviewForm from '@/components/ReviewForm';
 import OrderReceipt from '@/components/OrderReceipt';
+import CancelOrderModal, { CancelOrderResult, getCancellationMode } from '@/components/CancelOrderModal';
 import { Fonts } from '@/constants/fonts';
 
 const statusIcons: Record<OrderStatus, any> = {
@@ -45,6 +47,12 @@ interface OrderItemWithProduct extends OrderItem {
   hasReview: boolean;
 }
 
+interface Purchase {
+  key: string;
+  group?: CheckoutGroup;
+  orders: Order[];
+}
+
 export default function OrdersScreen() {
   const { profile } = useAuth();
   const insets = useSafeAreaInsets();
@@ -55,6 +63,11 @@ export default function OrdersScreen() {
   const [reviewProduct, setReviewProduct] = useState<{ productId: string; orderId: string } | null>(null);
   const [receiptOrder, setReceiptOrder] = useState<Order | null>(null);
   const [receiptItems, setReceiptItems] = useState<any[]>([]);
+  const [receiptPurchase, setReceiptPurchase] = useState<Purchase | null>(null);
+  const [checkoutGroups, setCheckoutGroups] = useState<Record<string, CheckoutGroup>>({});
+  const [vendorNames, setVendorNames] = useState<Record<string, string>>({});
+  const [orderToCancel, setOrderToCancel] = useState<Order | null>(null);
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     if (profile) {
@@ -98,8 +111,52 @@ export default function OrdersScreen() {
         fetchOrderItems(order.id);
       }
     });
+
+    const missingGroupIds = [...new Set(
+      orders
+        .map((order) => order.checkout_group_id)
+        .filter((id): id is string => !!id && !checkoutGroups[id])
+    )];
+    if (missingGroupIds.length > 0) {
+      fetchCheckoutGroups(missingGroupIds);
+    }
   }, [orders]);
 
+  const fetchCheckoutGroups = async (groupIds: string[]) => {
+    try {
+      const { data: groups, error } = await supabase
+        .from('checkout_groups')
+        .select('*')
+        .in('id', groupIds);
+
+      if (error) throw error;
+
+      const groupedOrders = orders.filter((order) => order.checkout_group_id && groupIds.includes(order.checkout_group_id));
+      const vendorIds = [...new Set(groupedOrders.map((order) => order.vendor_id))];
+      const { data: vendorsData } = await supabase
+        .from('vendors')
+        .select('user_id, business_name')
+        .in('user_id', vendorIds);
+
+      setCheckoutGroups((prev) => {
+        const next = { ...prev };
+        (groups || []).forEach((group: CheckoutGroup) => {
+          next[group.id] = group;
+        });
+        return next;
+      });
+      setVendorNames((prev) => {
+        const next = { ...prev };
+        (vendorsData || []).forEach((vendor: any) => {
+          next[vendor.user_id] = vendor.business_name;
+        });
+        return next;
+      });
+    } catch (error) {
+      console.error('Error fetching checkout groups:', error);
+    }
+  };
+
   const fetchOrders = async () => {
     if (!profile) return;
 
@@ -195,6 +252,26 @@ export default function OrdersScreen() {
     }
   };
 
+  const handleViewPurchaseReceipt = async (purchase: Purchase) => {
+    try {
+      const { data: items, error: itemsError } = await supabase
+        .from('order_items')
+        .select(`
+          *,
+          products (*)
+        `)
+        .in('order_id', purchase.orders.map((order) => order.id));
+
+      if (itemsError) throw itemsError;
+
+      setReceiptItems(items || []);
+      setReceiptPurchase(purchase);
+      setReceiptOrder(purchase.orders[0]);
+    } catch (error) {
+      console.error('Error fetching receipt data:', error);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -208,10 +285,7 @@ export default function OrdersScreen() {
     return status.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
   };
 
-  const filteredOrders = orders.filter((order) => {
-    if (!searchQuery.trim()) return true;
-
-    const query = searchQuery.toLowerCase();
+  const matchesSearch = (order: Order, query: string) => {
     const orderNumber = order.order_number.toString();
     const orderId = order.id.toLowerCase();
     const status = order.status.toLowerCase().replace('_', ' ');
@@ -225,8 +299,377 @@ export default function OrdersScreen() {
       total.includes(query) ||
       address.includes(query)
     );
+  };
+
+  const purchases = orders.reduce<Purchase[]>((list, order) => {
+    const existing = order.checkout_group_id
+      ? list.find((purchase) => purchase.key === order.checkout_group_id)
+      : undefined;
+
+    if (existing) {
+      existing.orders.push(order);
+    } else {
+      list.push({
+        key: order.checkout_group_id || order.id,
+        group: order.checkout_group_id ? checkoutGroups[order.checkout_group_id] : undefined,
+        orders: [order],
+      });
+    }
+    return list;
+  }, []);
+
+  const filteredPurchases = purchases.filter((purchase) => {
+    if (!searchQuery.trim()) return true;
+
+    const query = searchQuery.toLowerCase();
+    return (
+      (purchase.group?.group_number || '').toLowerCase().includes(query) ||
+      purchase.orders.some((order) => matchesSearch(order, query))
+    );
   });
 
+  const getPaymentMethodLabel = (order: Order) => {
+    return order.payment_method === 'cash_on_delivery' ? 'Cash on Delivery' :
+      order.payment_method === 'wallet' ? 'Wallet' :
+      order.payment_method === 'online' ? 'Online Payment' :
+      'Bank Transfer';
+  };
+
+  const renderReviewSection = (order: Order) => {
+    const items = orderItems[order.id] || [];
+
+    if (order.status !== 'delivered' || items.length === 0) return null;
+
+    return (
+      <View style={styles.reviewSection}>
+        <Text style={styles.reviewSectionTitle}>Rate Your Purchase</Text>
+        {items.map((orderItem) => (
+          <View key={orderItem.id} style={styles.reviewItem}>
+            <View style={styles.reviewItemInfo}>
+              <Text style={styles.reviewItemName} numberOfLines={1}>
+                {orderItem.product.name}
+              </Text>
+              <Text style={styles.reviewItemQuantity}>
+                Qty: {orderItem.quantity}
+              </Text>
+            </View>
+            {orderItem.hasReview ? (
+              <View style={styles.reviewedBadge}>
+                <CheckCircle size={14} color="#059669" />
+                <Text style={styles.reviewedText}>Reviewed</Text>
+              </View>
+            ) : (
+              <TouchableOpacity
+                style={styles.reviewButton}
+                onPress={() =>
+                  setReviewProduct({
+                    productId: orderItem.product_id,
+                    orderId: order.id,
+                  })
+                }
+              >
+                <Star size={14} color="#ff8c00" />
+                <Text style={styles.reviewButtonText}>Review</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const handleCancelComplete = (result: CancelOrderResult) => {
+    if (result.action === 'requested') {
+      Alert.alert(
+        'Request Sent',
+        'Your cancellation request has been sent to the vendor. You will see the outcome on the order.'
+      );
+    } else {
+      Alert.alert(
+        'Order Cancelled',
+        result.refunded
+          ? 'Your order has been cancelled and the payment refunded to your wallet.'
+          : 'Your order has been cancelled.'
+      );
+    }
+  };
+
+  const payOrderWithWallet = async (order: Order) => {
+    try {
+      setPayingOrderId(order.id);
+
+      const { data, error } = await supabase.rpc('pay_order_with_wallet', {
+        p_order_id: order.id,
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to pay with wallet');
+      }
+
+      Alert.alert(
+        'Payment Successful',
+        `₦${order.total.toFixed(2)} was paid from your wallet. New balance: ₦${Number(data.balance_after).toFixed(2)}`
+      );
+      await fetchOrders();
+    } catch (error: any) {
+      console.error('Error paying with wallet:', error);
+      Alert.alert('Payment Failed', error.message || 'Failed to pay with wallet. Please try again.');
+    } finally {
+      setPayingOrderId(null);
+    }
+  };
+
+  const handlePayWithWallet = (order: Order) => {
+    Alert.alert(
+      'Pay with Wallet',
+      `Pay ₦${order.total.toFixed(2)} for order #${order.order_number} from your wallet balance?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Pay', onPress: () => payOrderWithWallet(order) },
+      ]
+    );
+  };
+
+  const renderPayWithWalletButton = (order: Order, label?: string) => {
+    if (
+      order.payment_status !== 'pending' ||
+      order.payment_method === 'wallet' ||
+      order.status === 'cancelled'
+    ) {
+      return null;
+    }
+
+    const paying = payingOrderId === order.id;
+
+    return (
+      <TouchableOpacity
+        key={order.id}
+        style={[styles.payWalletButton, paying && styles.payWalletButtonDisabled]}
+        onPress={() => handlePayWithWallet(order)}
+        disabled={!!payingOrderId}
+        activeOpacity={0.7}
+      >
+        {paying ? (
+          <ActivityIndicator size="small" color="#059669" />
+        ) : (
+          <>
+            <Wallet size={18} color="#059669" />
+            <Text style={styles.payWalletButtonText}>{label || 'Pay with Wallet'}</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderCancelButton = (order: Order, label?: string) => {
+    const mode = getCancellationMode(order.status);
+    if (!mode) return null;
+
+    return (
+      <TouchableOpacity
+        key={order.id}
+        style={styles.cancelOrderButton}
+        onPress={() => setOrderToCancel(order)}
+        activeOpacity={0.7}
+      >
+        <XCircle size={18} color="#ef4444" />
+        <Text style={styles.cancelOrderButtonText}>
+          {label || (mode === 'request' ? 'Request Cancellation' : 'Cancel Order')}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderOrderCard = (item: Order) => {
+    const StatusIcon = statusIcons[item.status];
+    const statusColor = statusColors[item.status];
+
+    return (
+      <View style={styles.orderCard}>
+        <TouchableOpacity
+          onPress={() => router.push(`/order-tracking?orderId=${item.id}`)}
+        >
+          <View style={styles.orderHeader}>
+            <View style={styles.orderInfo}>
+              <Text style={styles.orderNumber}>Order #{item.order_number}</Text>
+              <Text style={styles.orderDate}>{formatDate(item.created_at)}</Text>
+            </View>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+              <StatusIcon size={16} color={statusColor} />
+              <Text style={[styles.statusText, { color: statusColor }]}>
+                {getStatusLabel(item.status)}
+              </Text>
+            </View>
+          </View>
+
+          <View style={styles.orderDetails}>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Subtotal</Text>
+              <Text style={styles.detailValue}>₦{item.subtotal.toFixed(2)}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Delivery Fee</Text>
+              <Text style={styles.detailValue}>₦{item.delivery_fee.toFixed(2)}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Tax</Text>
+              <Text style={styles.detailValue}>₦{item.tax.toFixed(2)}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Payment Method</Text>
+              <View style={styles.paymentContainer}>
+                <Text style={styles.paymentMethod}>
+                  {getPaymentMethodLabel(item)}
+                </Text>
+                {item.payment_method === 'transfer' && item.payment_status === 'completed' && (
+                  <View style={styles.paidBadge}>
+                    <CheckCircle size={12} color="#059669" />
+                    <Text style={styles.paidText}>Paid</Text>
+                  </View>
+                )}
+              </View>
+            </View>
+            <View style={[styles.detailRow, styles.totalRow]}>
+              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalValue}>₦{item.total.toFixed(2)}</Text>
+            </View>
+          </View>
+
+          <View style={styles.addressContainer}>
+            <Text style={styles.addressLabel}>Delivery Address</Text>
+            <Text style={styles.addressText}>{item.delivery_address}</Text>
+          </View>
+
+          {item.status === 'cancelled' && item.cancellation_reason && (
+            <View style={styles.cancellationContainer}>
+              <Text style={styles.cancellationLabel}>Cancellation Reason</Text>
+              <Text style={styles.cancellationText}>{item.cancellation_reason}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.receiptButton}
+          onPress={() => handleViewReceipt(item)}
+          activeOpacity={0.7}
+        >
+          <Receipt size={18} color="#ff8c00" />
+          <Text style={styles.receiptButtonText}>View Receipt</Text>
+        </TouchableOpacity>
+
+        {renderPayWithWalletButton(item)}
+
+        {renderCancelButton(item)}
+
+        {renderReviewSection(item)}
+      </View>
+    );
+  };
+
+  const renderPurchaseCard = (purchase: Purchase) => {
+    const first = purchase.orders[0];
+    const sum = (field: 'subtotal' | 'delivery_fee' | 'tax' | 'total') =>
+      purchase.orders.reduce((total, order) => total + (order[field] || 0), 0);
+    const discount = purchase.orders.reduce((total, order) => total + (order.discount_amount || 0), 0);
+
+    return (
+      <View style={styles.orderCard}>
+        <View style={styles.orderHeader}>
+          <View style={styles.orderInfo}>
+            <Text style={styles.orderNumber}>
+              Purchase #{purchase.group?.group_number || first.order_number}
+            </Text>
+            <Text style={styles.orderDate}>
+              {formatDate(first.created_at)} · {purchase.orders.length} vendor orders
+            </Text>
+          </View>
+        </View>
+
+        {purchase.orders.map((order) => {
+          const StatusIcon = statusIcons[order.status];
+          const statusColor = statusColors[order.status];
+
+          return (
+            <TouchableOpacity
+              key={order.id}
+              style={styles.subOrderRow}
+              onPress={() => router.push(`/order-tracking?orderId=${order.id}`)}
+            >
+              <View style={styles.orderInfo}>
+                <Text style={styles.subOrderVendor} numberOfLines={1}>
+                  {vendorNames[order.vendor_id] || 'Vendor'}
+                </Text>
+                <Text style={styles.orderDate}>#{order.order_number} · ₦{order.total.toFixed(2)}</Text>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
+                <StatusIcon size={14} color={statusColor} />
+                <Text style={[styles.statusText, { color: statusColor }]}>
+                  {getStatusLabel(order.status)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={styles.orderDetails}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Subtotal</Text>
+            <Text style={styles.detailValue}>₦{sum('subtotal').toFixed(2)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Delivery Fee</Text>
+            <Text style={styles.detailValue}>₦{sum('delivery_fee').toFixed(2)}</Text>
+          </View>
+          {discount > 0 && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Discount</Text>
+              <Text style={styles.detailValue}>-₦{discount.toFixed(2)}</Text>
+            </View>
+          )}
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Payment Method</Text>
+            <Text style={styles.paymentMethod}>{getPaymentMethodLabel(first)}</Text>
+          </View>
+          <View style={[styles.detailRow, styles.totalRow]}>
+            <Text style={styles.totalLabel}>Total</Text>
+            <Text style={styles.totalValue}>₦{sum('total').toFixed(2)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.addressContainer}>
+          <Text style={styles.addressLabel}>Delivery Address</Text>
+          <Text style={styles.addressText}>{first.delivery_address}</Text>
+        </View>
+
+        <TouchableOpacity
+          style={styles.receiptButton}
+          onPress={() => handleViewPurchaseReceipt(purchase)}
+          activeOpacity={0.7}
+        >
+          <Receipt size={18} color="#ff8c00" />
+          <Text style={styles.receiptButtonText}>View Receipt</Text>
+        </TouchableOpacity>
+
+        {purchase.orders.map((order) =>
+          renderPayWithWalletButton(order, `Pay with Wallet · ${vendorNames[order.vendor_id] || 'Vendor'}`)
+        )}
+
+        {purchase.orders.map((order) =>
+          renderCancelButton(
+            order,
+            `${getCancellationMode(order.status) === 'request' ? 'Request Cancellation' : 'Cancel'} · ${vendorNames[order.vendor_id] || 'Vendor'}`
+          )
+        )}
+
+        {purchase.orders.map((order) => (
+          <View key={order.id}>{renderReviewSection(order)}</View>
+        ))}
+      </View>
+    );
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -236,7 +679,7 @@ export default function OrdersScreen() {
   }
 
   const showEmptyOrders = orders.length === 0;
-  const showNoResults = !showEmptyOrders && filteredOrders.length === 0;
+  const showNoResults = !showEmptyOrders && filteredPurchases.length === 0;
 
   if (showEmptyOrders) {
     return (
@@ -288,122 +731,12 @@ export default function OrdersScreen() {
         </View>
       ) : (
         <FlatList
-          data={filteredOrders}
-          keyExtractor={(item) => item.id}
+          data={filteredPurchases}
+          keyExtractor={(item) => item.key}
           contentContainerStyle={styles.list}
-          renderItem={({ item, index }) => {
-            const StatusIcon = statusIcons[item.status];
-            const statusColor = statusColors[item.status];
-            const items = orderItems[item.id] || [];
-
-            return (
-              <View style={styles.orderCard}>
-                <TouchableOpacity
-                  onPress={() => router.push(`/order-tracking?orderId=${item.id}`)}
-                >
-                  <View style={styles.orderHeader}>
-                    <View style={styles.orderInfo}>
-                      <Text style={styles.orderNumber}>Order #{item.order_number}</Text>
-                      <Text style={styles.orderDate}>{formatDate(item.created_at)}</Text>
-                    </View>
-                    <View style={[styles.statusBadge, { backgroundColor: statusColor + '20' }]}>
-                      <StatusIcon size={16} color={statusColor} />
-                      <Text style={[styles.statusText, { color: statusColor }]}>
-                        {getStatusLabel(item.status)}
-                      </Text>
-                    </View>
-                  </View>
-
-                  <View style={styles.orderDetails}>
-                    <View style={styles.detailRow}>
-                      <Text style={styles.detailLabel}>Subtotal</Text>
-                      <Text style={styles.detailValue}>₦{item.subtotal.toFixed(2)}</Text>
-                    </View>
-                    <View style={styles.detailRow}>
-                      <Text style={styles.detailLabel}>Delivery Fee</Text>
-                      <Text style={styles.detailValue}>₦{item.delivery_fee.toFixed(2)}</Text>
-                    </View>
-                    <View style={styles.detailRow}>
-                      <Text style={styles.detailLabel}>Tax</Text>
-                      <Text style={styles.detailValue}>₦{item.tax.toFixed(2)}</Text>
-                    </View>
-                    <View style={styles.detailRow}>
-                      <Text style={styles.detailLabel}>Payment Method</Text>
-                      <View style={styles.paymentContainer}>
-                        <Text style={styles.paymentMethod}>
-                          {item.payment_method === 'cash_on_delivery' ? 'Cash on Delivery' :
-                           item.payment_method === 'wallet' ? 'Wallet' :
-                           item.payment_method === 'online' ? 'Online Payment' :
-                           'Bank Transfer'}
-                        </Text>
-                        {item.payment_method === 'transfer' && item.payment_status === 'completed' && (
-                          <View style={styles.paidBadge}>
-                            <CheckCircle size={12} color="#059669" />
-                            <Text style={styles.paidText}>Paid</Text>
-                          </View>
-                        )}
-                      </View>
-                    </View>
-                    <View style={[styles.detailRow, styles.totalRow]}>
-                      <Text style={styles.totalLabel}>Total</Text>
-                      <Text style={styles.totalValue}>₦{item.total.toFixed(2)}</Text>
-                    </View>
-                  </View>
-
-                  <View style={styles.addressContainer}>
-                    <Text style={styles.addressLabel}>Delivery Address</Text>
-                    <Text style={styles.addressText}>{item.delivery_address}</Text>
-                  </View>
-                </TouchableOpacity>
-
-                <TouchableOpacity
-                  style={styles.receiptButton}
-                  onPress={() => handleViewReceipt(item)}
-                  activeOpacity={0.7}
-                >
-                  <Receipt size={18} color="#ff8c00" />
-                  <Text style={styles.receiptButtonText}>View Receipt</Text>
-                </TouchableOpacity>
-
-                {item.status === 'delivered' && items.length > 0 && (
-                  <View style={styles.reviewSection}>
-                    <Text style={styles.reviewSectionTitle}>Rate Your Purchase</Text>
-                    {items.map((orderItem) => (
-                      <View key={orderItem.id} style={styles.reviewItem}>
-                        <View style={styles.reviewItemInfo}>
-                          <Text style={styles.reviewItemName} numberOfLines={1}>
-                            {orderItem.product.name}
-                          </Text>
-                          <Text style={styles.reviewItemQuantity}>
-                            Qty: {orderItem.quantity}
-                          </Text>
-                        </View>
-                        {orderItem.hasReview ? (
-                          <View style={styles.reviewedBadge}>
-                            <CheckCircle size={14} color="#059669" />
-                            <Text style={styles.reviewedText}>Reviewed</Text>
-                          </View>
-                        ) : (
-                          <TouchableOpacity
-                            style={styles.reviewButton}
-                            onPress={() =>
-                              setReviewProduct({
-                                productId: orderItem.product_id,
-                                orderId: item.id,
-                              })
-                            }
-                          >
-                            <Star size={14} color="#ff8c00" />
-                            <Text style={styles.reviewButtonText}>Review</Text>
-                          </TouchableOpacity>
-                        )}
-                      </View>
-                    ))}
-                  </View>
-                )}
-              </View>
-            );
-          }}
+          renderItem={({ item }) =>
+            item.orders.length === 1 ? renderOrderCard(item.orders[0]) : renderPurchaseCard(item)
+          }
         />
       )}
 
@@ -431,11 +764,22 @@ export default function OrdersScreen() {
         visible={!!receiptOrder}
         order={receiptOrder}
         orderItems={receiptItems}
+        checkoutGroup={receiptPurchase?.group}
+        groupOrders={receiptPurchase?.orders}
+        vendorNames={vendorNames}
         onClose={() => {
           setReceiptOrder(null);
           setReceiptItems([]);
+          setReceiptPurchase(null);
         }}
       />
+
+      <CancelOrderModal
+        visible={!!orderToCancel}
+        order={orderToCancel}
+        onClose={() => setOrderToCancel(null)}
+        onComplete={handleCancelComplete}
+      />
     </View>
   );
 }
@@ -591,6 +935,19 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.semiBold,
     flexShrink: 1,
   },
+  subOrderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0ebe4',
+  },
+  subOrderVendor: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1a1a1a',
+  },
   orderDetails: {
     marginBottom: 16,
   },
@@ -689,6 +1046,62 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.semiBold,
     color: '#ff8c00',
   },
+  payWalletButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ecfdf5',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    marginTop: 10,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#a7f3d0',
+  },
+  payWalletButtonDisabled: {
+    opacity: 0.6,
+  },
+  payWalletButtonText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#059669',
+  },
+  cancelOrderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fef2f2',
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    marginTop: 10,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  cancelOrderButtonText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#ef4444',
+  },
+  cancellationContainer: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+  },
+  cancellationLabel: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#b91c1c',
+    marginBottom: 4,
+  },
+  cancellationText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#7f1d1d',
+  },
   reviewSection: {
     marginTop: 16,
     paddingTop: 16,
@@ -6,6 +6,7 @@ import { router } from 'expo-router';
 import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
 import WalletManagement from '@/components/WalletManagement';
+import AddressBook from '@/components/AddressBook';
 import VendorSettings from '@/components/vendor/VendorSettings';
 import { useToast } from '@/contexts/ToastContext';
 import { Fonts } from '@/constants/fonts';
@@ -19,6 +20,7 @@ export default function ProfileScreen() {
   const [isSaving, setIsSaving] = useState(false);
   const [showWallet, setShowWallet] = useState(false);
   const [showVendorSettings, setShowVendorSettings] = useState(false);
+  const [showAddressBook, setShowAddressBook] = useState(false);
   const [walletBalance, setWalletBalance] = useState(0);
   const [showSignOutConfirmation, setShowSignOutConfirmation] = useState(false);
   const [signingOut, setSigningOut] = useState(false);
@@ -182,6 +184,7 @@ export default function ProfileScreen() {
     switch (role) {
       case 'admin': return 'Administrator';
       case 'vendor': return 'Vendor';
+      case 'rider': return 'Rider';
       case 'customer': return 'Customer';
       default: return role;
     }
@@ -212,6 +215,28 @@ export default function ProfileScreen() {
     );
   }
 
+  if (showAddressBook) {
+    return (
+      <View style={styles.container}>
+        <LinearGradient
+          colors={['#ff9a1f', '#ff8c00', '#e67a00']}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+          style={[styles.subHeader, { paddingTop: insets.top + 16 }]}
+        >
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => setShowAddressBook(false)}
+          >
+            <ChevronRight size={20} color="#fff" style={{ transform: [{ rotate: '180deg' }] }} />
+            <Text style={styles.backButtonText}>Back to Profile</Text>
+          </TouchableOpacity>
+        </LinearGradient>
+        <AddressBook />
+      </View>
+    );
+  }
+
   if (showVendorSettings) {
     return (
       <View style={styles.container}>
@@ -480,6 +505,36 @@ export default function ProfileScreen() {
           </TouchableOpacity>
         </View>
 
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <View style={styles.cardIconWrap}>
+              <MapPin size={18} color="#ff8c00" strokeWidth={2.2} />
+            </View>
+            <Text style={styles.cardTitle}>Delivery Addresses</Text>
+          </View>
+          <TouchableOpacity
+            style={styles.actionCard}
+            onPress={() => setShowAddressBook(true)}
+            activeOpacity={0.7}
+          >
+            <LinearGradient
+              colors={['#fff7ed', '#fff1e0']}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 0 }}
+              style={styles.actionCardInner}
+            >
+              <View style={styles.actionCardIcon}>
+                <MapPin size={22} color="#e67a00" strokeWidth={2} />
+              </View>
+              <View style={styles.actionCardInfo}>
+                <Text style={styles.actionCardLabel}>Address Book</Text>
+                <Text style={styles.actionCardDesc}>Add, edit and choose your default address</Text>
+              </View>
+              <ChevronRight size={20} color="#e67a00" />
+            </LinearGradient>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.card}>
           <View style={styles.cardHeader}>
             <View style={styles.cardIconWrap}>
@@ -0,0 +1,710 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Linking,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import {
+  Bike,
+  Store,
+  MapPin,
+  Phone,
+  Navigation,
+  Package,
+  CheckCircle,
+  Banknote,
+  Clock,
+  XCircle,
+} from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { Order, OrderStatus } from '@/types/database';
+import DeliveryLocationSharer from '@/components/DeliveryLocationSharer';
+import ConfirmDeliveryModal from '@/components/ConfirmDeliveryModal';
+import { Fonts } from '@/constants/fonts';
+import { formatAddressLines } from '@/lib/deliveryAddress';
+import { formatItemName } from '@/lib/productVariants';
+
+interface DeliveryCustomer {
+  full_name: string;
+  phone: string | null;
+}
+
+interface Delivery extends Order {
+  // Only known while the delivery is active (get_delivery_customers)
+  customer: DeliveryCustomer | null;
+  order_items: {
+    id: string;
+    quantity: number;
+    variant_name: string | null;
+    products: { name: string } | null;
+  }[];
+}
+
+interface PickupStore {
+  business_name: string;
+  address: string | null;
+  phone: string | null;
+}
+
+const statusLabels: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'Confirmed',
+  preparing: 'Being prepared',
+  ready_for_pickup: 'Ready for pickup',
+  out_for_delivery: 'On the way',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+const statusColors: Partial<Record<OrderStatus, string>> = {
+  confirmed: '#3b82f6',
+  preparing: '#8b5cf6',
+  ready_for_pickup: '#06b6d4',
+  out_for_delivery: '#f97316',
+  delivered: '#059669',
+  cancelled: '#ef4444',
+};
+
+const FINISHED_STATUSES: OrderStatus[] = ['delivered', 'cancelled'];
+
+export default function RiderScreen() {
+  const { profile, refreshProfile } = useAuth();
+  const insets = useSafeAreaInsets();
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [stores, setStores] = useState<Record<string, PickupStore>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [activeFilter, setActiveFilter] = useState<'active' | 'completed'>('active');
+  const [updatingOrderId, setUpdatingOrderId] = useState<string | null>(null);
+  const [confirmingOrder, setConfirmingOrder] = useState<Delivery | null>(null);
+
+  useEffect(() => {
+    if (profile) {
+      fetchDeliveries();
+
+      const channel = supabase
+        .channel('rider_deliveries')
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'orders',
+            filter: `rider_id=eq.${profile.id}`,
+          },
+          () => {
+            fetchDeliveries();
+          }
+        )
+        .subscribe();
+
+      return () => {
+        supabase.removeChannel(channel);
+      };
+    }
+  }, [profile]);
+
+  const fetchDeliveries = async () => {
+    if (!profile) return;
+
+    try {
+      const [{ data, error }, customersResult] = await Promise.all([
+        supabase
+          .from('orders')
+          .select(
+            `
+            *,
+            order_items (
+              id,
+              quantity,
+              variant_name,
+              products (
+                name
+              )
+            )
+          `
+          )
+          .eq('rider_id', profile.id)
+          .order('rider_assigned_at', { ascending: false }),
+        supabase.rpc('get_delivery_customers'),
+      ]);
+
+      if (error) throw error;
+      if (customersResult.error) throw customersResult.error;
+      if (!customersResult.data?.success) {
+        throw new Error(customersResult.data?.error || 'Failed to load delivery customers');
+      }
+
+      const customers: Record<string, DeliveryCustomer> = customersResult.data?.customers || {};
+      const orders = ((data as Omit<Delivery, 'customer'>[]) || []).map((order) => ({
+        ...order,
+        customer: customers[order.id] ?? null,
+      }));
+      setDeliveries(orders);
+
+      const vendorIds = [...new Set(orders.map((order) => order.vendor_id))];
+      if (vendorIds.length > 0) {
+        fetchStores(vendorIds);
+      }
+    } catch (error) {
+      console.error('Error fetching deliveries:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Pickup details come from the vendor's store, falling back to their business profile
+  const fetchStores = async (vendorIds: string[]) => {
+    try {
+      const [vendorsResult, profilesResult] = await Promise.all([
+        supabase
+          .from('vendors')
+          .select('user_id, business_name, address, city')
+          .in('user_id', vendorIds),
+        supabase
+          .from('profiles')
+          .select('id, business_name, business_address, business_phone')
+          .in('id', vendorIds),
+      ]);
+
+      const storesByVendor: Record<string, PickupStore> = {};
+      vendorIds.forEach((vendorId) => {
+        const vendor = vendorsResult.data?.find((v: any) => v.user_id === vendorId);
+        const vendorProfile = profilesResult.data?.find((p: any) => p.id === vendorId);
+
+        storesByVendor[vendorId] = {
+          business_name: vendor?.business_name || vendorProfile?.business_name || 'Store',
+          address: vendor?.address
+            ? [vendor.address, vendor.city].filter(Boolean).join(', ')
+            : vendorProfile?.business_address || null,
+          phone: vendorProfile?.business_phone || null,
+        };
+      });
+
+      setStores(storesByVendor);
+    } catch (error) {
+      console.error('Error fetching pickup stores:', error);
+    }
+  };
+
+  const updateStatus = async (order: Delivery, status: OrderStatus) => {
+    try {
+      setUpdatingOrderId(order.id);
+      const { data: result, error } = await supabase.rpc('update_order_status', {
+        p_order_id: order.id,
+        p_status: status,
+        p_note: null,
+      });
+
+      if (error) throw error;
+
+      if (!result?.success) {
+        Alert.alert('Error', result?.error || 'Failed to update delivery');
+        return;
+      }
+
+      await fetchDeliveries();
+    } catch (error) {
+      console.error('Error updating delivery:', error);
+      Alert.alert('Error', 'Failed to update delivery');
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const callNumber = (phone: string) => {
+    Linking.openURL(`tel:${phone}`).catch(() => {
+      Alert.alert('Error', 'Unable to start a call on this device');
+    });
+  };
+
+  const openDirections = (address: string) => {
+    Linking.openURL(
+      `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(address)}`
+    ).catch(() => {
+      Alert.alert('Error', 'Unable to open maps on this device');
+    });
+  };
+
+  const activeDeliveries = deliveries.filter((order) => !FINISHED_STATUSES.includes(order.status));
+  const completedDeliveries = deliveries.filter((order) => FINISHED_STATUSES.includes(order.status));
+  const visibleDeliveries = activeFilter === 'active' ? activeDeliveries : completedDeliveries;
+
+  const renderDelivery = ({ item }: { item: Delivery }) => {
+    const store = stores[item.vendor_id];
+    // Orders placed from the address book carry the recipient's own name and number
+    const dropOff = item.delivery_address_snapshot;
+    const dropOffAddress = dropOff ? formatAddressLines(dropOff) : item.delivery_address;
+    const dropOffPhone = dropOff?.phone || item.customer?.phone;
+    const itemCount = item.order_items.reduce((sum, orderItem) => sum + orderItem.quantity, 0);
+    const collectCash = item.payment_method === 'cash_on_delivery' && item.payment_status !== 'completed';
+    const isUpdating = updatingOrderId === item.id;
+    const canPickUp = item.status === 'preparing' || item.status === 'ready_for_pickup';
+
+    return (
+      <View style={styles.deliveryCard}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardHeaderInfo}>
+            <Text style={styles.orderNumber}>#{item.order_number}</Text>
+            <Text style={styles.itemCount}>
+              {itemCount} {itemCount === 1 ? 'item' : 'items'}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: (statusColors[item.status] || '#6b7280') + '1a' }]}>
+            <Text style={[styles.statusText, { color: statusColors[item.status] || '#6b7280' }]}>
+              {statusLabels[item.status] || item.status.replace(/_/g, ' ')}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.stop}>
+          <View style={styles.stopIcon}>
+            <Store size={16} color="#ff8c00" />
+          </View>
+          <View style={styles.stopInfo}>
+            <Text style={styles.stopLabel}>Pick up</Text>
+            <Text style={styles.stopName}>{store?.business_name || 'Store'}</Text>
+            {store?.address && <Text style={styles.stopAddress}>{store.address}</Text>}
+          </View>
+          {store?.phone && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => callNumber(store.phone!)}>
+              <Phone size={16} color="#1a1a1a" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.stopConnector} />
+
+        <View style={styles.stop}>
+          <View style={styles.stopIcon}>
+            <MapPin size={16} color="#ff8c00" />
+          </View>
+          <View style={styles.stopInfo}>
+            <Text style={styles.stopLabel}>Drop off</Text>
+            <Text style={styles.stopName}>{dropOff?.recipient_name || item.customer?.full_name || 'Customer'}</Text>
+            <Text style={styles.stopAddress}>{dropOffAddress}</Text>
+          </View>
+          <View style={styles.stopActions}>
+            {dropOffPhone && (
+              <TouchableOpacity style={styles.iconButton} onPress={() => callNumber(dropOffPhone)}>
+                <Phone size={16} color="#1a1a1a" />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.iconButton} onPress={() => openDirections(dropOffAddress)}>
+              <Navigation size={16} color="#1a1a1a" />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {item.order_items.length > 0 && (
+          <Text style={styles.itemsText} numberOfLines={2}>
+            {item.order_items
+              .map((orderItem) => `${orderItem.quantity} x ${formatItemName(orderItem.products?.name || 'Item', orderItem.variant_name)}`)
+              .join(', ')}
+          </Text>
+        )}
+
+        {collectCash && !FINISHED_STATUSES.includes(item.status) && (
+          <View style={styles.cashBanner}>
+            <Banknote size={16} color="#92400e" />
+            <Text style={styles.cashText}>
+              Collect {'₦'}{Number(item.total).toLocaleString()} cash on delivery
+            </Text>
+          </View>
+        )}
+
+        {canPickUp && (
+          <TouchableOpacity
+            style={[styles.actionButton, isUpdating && styles.actionButtonDisabled]}
+            onPress={() => updateStatus(item, 'out_for_delivery')}
+            disabled={isUpdating}
+            activeOpacity={0.8}
+          >
+            {isUpdating ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <>
+                <Package size={18} color="#ffffff" />
+                <Text style={styles.actionButtonText}>Picked Up</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {item.status === 'out_for_delivery' && <DeliveryLocationSharer orderId={item.id} autoStart />}
+
+        {item.status === 'out_for_delivery' && (
+          <TouchableOpacity
+            style={[styles.actionButton, styles.deliveredButton, isUpdating && styles.actionButtonDisabled]}
+            onPress={() => setConfirmingOrder(item)}
+            disabled={isUpdating}
+            activeOpacity={0.8}
+          >
+            {isUpdating ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <>
+                <CheckCircle size={18} color="#ffffff" />
+                <Text style={styles.actionButtonText}>Mark Delivered</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {item.status === 'confirmed' && (
+          <Text style={styles.waitingText}>The store has not started preparing this order yet.</Text>
+        )}
+      </View>
+    );
+  };
+
+  // Riders only receive deliveries once an admin has approved them
+  if (profile?.rider_status === 'pending' || profile?.rider_status === 'rejected') {
+    const rejected = profile.rider_status === 'rejected';
+
+    return (
+      <View style={[styles.emptyContainer, { paddingTop: insets.top + 40 }]}>
+        {rejected ? <XCircle size={64} color="#dc2626" /> : <Clock size={64} color="#d97706" />}
+        <Text style={styles.emptyTitle}>{rejected ? 'Application Rejected' : 'Application Under Review'}</Text>
+        <Text style={styles.emptyText}>
+          {rejected
+            ? profile.rejection_reason || 'Unfortunately, your rider application was not approved. Please contact support for more information.'
+            : 'Your rider application is being reviewed by our admin team. Stores can assign you deliveries once you are approved.'}
+        </Text>
+        {!rejected && (
+          <TouchableOpacity style={styles.checkStatusButton} onPress={refreshProfile} activeOpacity={0.8}>
+            <Text style={styles.checkStatusButtonText}>Check Again</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 20 }]}>
+        <Text style={styles.title}>My Deliveries</Text>
+        <Text style={styles.subtitle}>
+          {activeDeliveries.length} active {activeDeliveries.length === 1 ? 'delivery' : 'deliveries'}
+        </Text>
+      </View>
+
+      <View style={styles.filterRow}>
+        {(['active', 'completed'] as const).map((filter) => (
+          <TouchableOpacity
+            key={filter}
+            style={[styles.filterTab, activeFilter === filter && styles.filterTabActive]}
+            onPress={() => setActiveFilter(filter)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.filterTabText, activeFilter === filter && styles.filterTabTextActive]}>
+              {filter === 'active'
+                ? `Active (${activeDeliveries.length})`
+                : `Completed (${completedDeliveries.length})`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <FlatList
+        data={visibleDeliveries}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        renderItem={renderDelivery}
+        refreshing={refreshing}
+        onRefresh={() => {
+          setRefreshing(true);
+          fetchDeliveries();
+        }}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Bike size={64} color="#d1d5db" />
+            <Text style={styles.emptyTitle}>
+              {activeFilter === 'active' ? 'No deliveries assigned' : 'No completed deliveries'}
+            </Text>
+            <Text style={styles.emptyText}>
+              {activeFilter === 'active'
+                ? 'Orders assigned to you by stores will appear here'
+                : 'Deliveries you complete will appear here'}
+            </Text>
+          </View>
+        }
+      />
+
+      <ConfirmDeliveryModal
+        visible={!!confirmingOrder}
+        order={confirmingOrder}
+        customerName={confirmingOrder?.customer?.full_name}
+        onClose={() => setConfirmingOrder(null)}
+        onComplete={(order) => {
+          Alert.alert('Delivery Complete', `Order #${order.order_number} has been delivered.`);
+          fetchDeliveries();
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#faf8f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    backgroundColor: '#ff8c00',
+    paddingHorizontal: 20,
+    paddingBottom: 24,
+    borderBottomLeftRadius: 32,
+    borderBottomRightRadius: 32,
+    shadowColor: '#ff8c00',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 12,
+    elevation: 8,
+  },
+  title: {
+    fontSize: 28,
+    fontFamily: Fonts.displayBold,
+    color: '#ffffff',
+    letterSpacing: 0.3,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: 'rgba(255,255,255,0.85)',
+    marginTop: 4,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  filterTab: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#f0ebe4',
+    alignItems: 'center',
+  },
+  filterTabActive: {
+    backgroundColor: '#fff7ed',
+    borderColor: '#ff8c00',
+  },
+  filterTabText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+  },
+  filterTabTextActive: {
+    fontFamily: Fonts.semiBold,
+    color: '#c2410c',
+  },
+  list: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  deliveryCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 18,
+    padding: 18,
+    marginBottom: 14,
+    borderWidth: 1,
+    borderColor: '#f0ebe4',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0ebe4',
+    gap: 12,
+  },
+  cardHeaderInfo: {
+    flex: 1,
+    minWidth: 0,
+  },
+  orderNumber: {
+    fontSize: 17,
+    fontFamily: Fonts.display,
+    color: '#1a1a1a',
+    letterSpacing: 0.2,
+  },
+  itemCount: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 24,
+  },
+  statusText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+  },
+  stop: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  stopIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 10,
+    backgroundColor: '#fff7ed',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stopConnector: {
+    width: 2,
+    height: 16,
+    backgroundColor: '#fed7aa',
+    marginLeft: 15,
+    marginVertical: 4,
+  },
+  stopInfo: {
+    flex: 1,
+    minWidth: 0,
+  },
+  stopLabel: {
+    fontSize: 11,
+    fontFamily: Fonts.semiBold,
+    color: '#999',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  stopName: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1a1a1a',
+    marginTop: 2,
+  },
+  stopAddress: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginTop: 2,
+    lineHeight: 18,
+  },
+  stopActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: '#f8f5f0',
+    borderWidth: 1,
+    borderColor: '#f0ebe4',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  itemsText: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginTop: 14,
+    lineHeight: 18,
+  },
+  cashBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 14,
+  },
+  cashText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#92400e',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ff8c00',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  deliveredButton: {
+    backgroundColor: '#059669',
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#ffffff',
+  },
+  waitingText: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#94a3b8',
+    marginTop: 14,
+    textAlign: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontFamily: Fonts.displayBold,
+    color: '#1a1a1a',
+    marginTop: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#999',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  checkStatusButton: {
+    marginTop: 24,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#ff8c00',
+  },
+  checkStatusButtonText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#fff',
+  },
+});
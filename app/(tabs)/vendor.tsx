@@ -12,13 +12,14 @@ import {
   Platform,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Plus, Package, Edit, Trash2, Search, X, SlidersHorizontal, ChevronDown } from 'lucide-react-native';
+import { Plus, Package, Edit, Trash2, Search, X, SlidersHorizontal, ChevronDown, FileSpreadsheet } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { Product, Vendor } from '@/types/database';
 import StoreSetup from '@/components/vendor/StoreSetup';
 import AddProduct from '@/components/vendor/AddProduct';
 import EditProduct from '@/components/vendor/EditProduct';
+import ProductImport from '@/components/vendor/ProductImport';
 import { Fonts } from '@/constants/fonts';
 
 export default function VendorScreen() {
@@ -31,6 +32,7 @@ export default function VendorScreen() {
   const [loadingVendorData, setLoadingVendorData] = useState(false);
   const [showAddProduct, setShowAddProduct] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [showImport, setShowImport] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'inactive'>('all');
   const [sortBy, setSortBy] = useState<'name' | 'price' | 'stock' | 'recent'>('recent');
@@ -215,6 +217,20 @@ export default function VendorScreen() {
     );
   }
 
+  if (showImport && vendor && profile) {
+    return (
+      <ProductImport
+        vendorId={profile.id}
+        businessName={vendor.business_name}
+        onBack={() => setShowImport(false)}
+        onSuccess={() => {
+          setShowImport(false);
+          fetchProducts();
+        }}
+      />
+    );
+  }
+
   if (!vendor) {
     return (
       <View style={styles.container}>
@@ -269,13 +285,22 @@ export default function VendorScreen() {
             <Text style={styles.title}>{vendor.business_name}</Text>
             <Text style={styles.subtitle}>{products.length} product{products.length !== 1 ? 's' : ''} in catalog</Text>
           </View>
-          <TouchableOpacity
-            style={styles.addBtn}
-            onPress={() => setShowAddProduct(true)}
-            activeOpacity={0.8}
-          >
-            <Plus size={20} color="#ffffff" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.importBtn}
+              onPress={() => setShowImport(true)}
+              activeOpacity={0.8}
+            >
+              <FileSpreadsheet size={20} color="#ff8c00" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.addBtn}
+              onPress={() => setShowAddProduct(true)}
+              activeOpacity={0.8}
+            >
+              <Plus size={20} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
         </View>
       </View>
 
@@ -472,6 +497,18 @@ const styles = StyleSheet.create({
     color: '#94a3b8',
     marginTop: 3,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  importBtn: {
+    width: 44,
+    height: 44,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255, 140, 0, 0.15)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   addBtn: {
     width: 44,
     height: 44,
@@ -14,12 +14,14 @@ import { useWishlist } from '@/contexts/WishlistContext';
 import { supabase } from '@/lib/supabase';
 import { Product } from '@/types/database';
 import { cartEvents } from '@/lib/cartEvents';
+import ProductDetailModal from '@/components/ProductDetailModal';
 import { Fonts } from '@/constants/fonts';
 
 export default function WishlistScreen() {
   const { wishlistItems, removeFromWishlist, loading: wishlistLoading } = useWishlist();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
 
   useEffect(() => {
     fetchWishlistProducts();
@@ -53,6 +55,12 @@ export default function WishlistScreen() {
   };
 
   const handleAddToCart = async (product: Product) => {
+    // Variant products are added from the detail view once an option is picked
+    if (product.has_variants) {
+      setSelectedProduct(product);
+      return;
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
@@ -65,6 +73,7 @@ export default function WishlistScreen() {
         .select('*')
         .eq('user_id', user.id)
         .eq('product_id', product.id)
+        .is('variant_id', null)
         .maybeSingle();
 
       if (fetchError) throw fetchError;
@@ -154,7 +163,9 @@ export default function WishlistScreen() {
                   onPress={() => handleAddToCart(product)}
                 >
                   <ShoppingCart size={18} color="#ffffff" strokeWidth={2.5} />
-                  <Text style={styles.addToCartText}>Add to Cart</Text>
+                  <Text style={styles.addToCartText}>
+                    {product.has_variants ? 'Choose Options' : 'Add to Cart'}
+                  </Text>
                 </TouchableOpacity>
                 <TouchableOpacity
                   style={styles.removeButton}
@@ -167,6 +178,12 @@ export default function WishlistScreen() {
           </View>
         ))}
       </ScrollView>
+
+      <ProductDetailModal
+        visible={!!selectedProduct}
+        product={selectedProduct}
+        onClose={() => setSelectedProduct(null)}
+      />
     </SafeAreaView>
   );
 }
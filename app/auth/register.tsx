@@ -13,7 +13,8 @@ import {
 } from 'react-native';
 import { Link, router } from 'expo-router';
 import { supabase } from '@/lib/supabase';
-import { UserRole } from '@/types/database';
+import { RiderVehicleType, UserRole } from '@/types/database';
+import { VEHICLE_LABELS } from '@/lib/riders';
 import { Fonts } from '@/constants/fonts';
 import { LinearGradient } from 'expo-linear-gradient';
 import {
@@ -23,6 +24,7 @@ import {
   Store,
   User,
   Briefcase,
+  Bike,
 } from 'lucide-react-native';
 
 export default function RegisterScreen() {
@@ -39,6 +41,8 @@ export default function RegisterScreen() {
   const [businessAddress, setBusinessAddress] = useState('');
   const [businessPhone, setBusinessPhone] = useState('');
   const [businessLicense, setBusinessLicense] = useState('');
+  const [vehicleType, setVehicleType] = useState<RiderVehicleType>('motorcycle');
+  const [vehiclePlateNumber, setVehiclePlateNumber] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -80,6 +84,18 @@ export default function RegisterScreen() {
       }
     }
 
+    if (accountType === 'rider') {
+      if (!phone) {
+        setError('Please enter a phone number customers can reach you on');
+        return;
+      }
+
+      if (vehicleType !== 'bicycle' && !vehiclePlateNumber.trim()) {
+        setError('Please enter your vehicle plate number');
+        return;
+      }
+    }
+
     if (password !== confirmPassword) {
       setError('Passwords do not match');
       return;
@@ -109,6 +125,7 @@ export default function RegisterScreen() {
           phone: phone || null,
           role: accountType,
           vendor_status: accountType === 'vendor' ? 'pending' : 'approved',
+          rider_status: accountType === 'rider' ? 'pending' : 'approved',
         };
 
         if (accountType === 'vendor') {
@@ -119,6 +136,11 @@ export default function RegisterScreen() {
           profileData.business_license = businessLicense || null;
         }
 
+        if (accountType === 'rider') {
+          profileData.vehicle_type = vehicleType;
+          profileData.vehicle_plate_number = vehiclePlateNumber.trim().toUpperCase() || null;
+        }
+
         const { error: profileError } = await supabase.from('profiles').insert(profileData);
 
         if (profileError) throw profileError;
@@ -268,6 +290,44 @@ export default function RegisterScreen() {
                   Open a store
                 </Text>
               </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[
+                  styles.accountTypeButton,
+                  accountType === 'rider' && styles.accountTypeActive,
+                ]}
+                onPress={() => setAccountType('rider')}
+                activeOpacity={0.8}
+              >
+                <View
+                  style={[
+                    styles.accountTypeIcon,
+                    accountType === 'rider' && styles.accountTypeIconActive,
+                  ]}
+                >
+                  <Bike
+                    size={20}
+                    color={accountType === 'rider' ? '#ffffff' : '#ff8c00'}
+                    strokeWidth={2}
+                  />
+                </View>
+                <Text
+                  style={[
+                    styles.accountTypeText,
+                    accountType === 'rider' && styles.accountTypeTextActive,
+                  ]}
+                >
+                  Deliver
+                </Text>
+                <Text
+                  style={[
+                    styles.accountTypeDesc,
+                    accountType === 'rider' && styles.accountTypeDescActive,
+                  ]}
+                >
+                  Ride with us
+                </Text>
+              </TouchableOpacity>
             </View>
 
             <View style={styles.sectionHeader}>
@@ -300,7 +360,7 @@ export default function RegisterScreen() {
             </View>
 
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Phone Number</Text>
+              <Text style={styles.inputLabel}>Phone Number{accountType === 'rider' ? ' *' : ''}</Text>
               <TextInput
                 style={styles.input}
                 placeholder="Enter your phone number"
@@ -434,6 +494,63 @@ export default function RegisterScreen() {
               </>
             )}
 
+            {accountType === 'rider' && (
+              <>
+                <View style={styles.sectionDivider} />
+
+                <View style={styles.sectionHeader}>
+                  <Bike size={16} color="#ff8c00" strokeWidth={2.5} />
+                  <Text style={styles.sectionTitle}>Vehicle Information</Text>
+                </View>
+
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Vehicle Type *</Text>
+                  <View style={styles.vehicleOptions}>
+                    {(Object.keys(VEHICLE_LABELS) as RiderVehicleType[]).map((type) => (
+                      <TouchableOpacity
+                        key={type}
+                        style={[
+                          styles.vehicleOption,
+                          vehicleType === type && styles.vehicleOptionActive,
+                        ]}
+                        onPress={() => setVehicleType(type)}
+                        activeOpacity={0.8}
+                      >
+                        <Text
+                          style={[
+                            styles.vehicleOptionText,
+                            vehicleType === type && styles.vehicleOptionTextActive,
+                          ]}
+                        >
+                          {VEHICLE_LABELS[type]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {vehicleType !== 'bicycle' && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Plate Number *</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="e.g. KAN 123 AB"
+                      placeholderTextColor="#b0b0b0"
+                      value={vehiclePlateNumber}
+                      onChangeText={setVehiclePlateNumber}
+                      autoCapitalize="characters"
+                    />
+                  </View>
+                )}
+
+                <View style={styles.vendorNote}>
+                  <Text style={styles.vendorNoteText}>
+                    Stores and our team assign deliveries to you. Your name and phone number are shown to the customers you deliver to.
+                  </Text>
+                </View>
+              </>
+            )}
+
             <TouchableOpacity
               style={[styles.submitButton, loading && styles.submitButtonDisabled]}
               onPress={handleRegister}
@@ -704,6 +821,32 @@ const styles = StyleSheet.create({
     color: '#92400e',
     lineHeight: 20,
   },
+  vehicleOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  vehicleOption: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    backgroundColor: '#fafafa',
+    borderWidth: 2,
+    borderColor: '#eee',
+  },
+  vehicleOptionActive: {
+    backgroundColor: '#fff7ed',
+    borderColor: '#ff8c00',
+  },
+  vehicleOptionText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#555',
+  },
+  vehicleOptionTextActive: {
+    color: '#c2410c',
+    fontFamily: Fonts.semiBold,
+  },
   submitButton: {
     borderRadius: 14,
     overflow: 'hidden',
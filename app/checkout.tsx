@@ -13,12 +13,20 @@ import {
   Linking,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Package, Truck, MapPin, CreditCard, ChevronLeft, CheckCircle, Clock, Wallet, DollarSign, Building2, Banknote } from 'lucide-react-native';
+import { Package, Truck, MapPin, CreditCard, ChevronLeft, CheckCircle, Clock, Wallet, DollarSign, Building2, Banknote, Plus, Edit } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
-import { BankAccount } from '@/types/database';
+import { BankAccount, CheckoutGroup, DeliveryAddress, Order } from '@/types/database';
 import { Fonts } from '@/constants/fonts';
+import { Coordinates } from '@/lib/deliveryTracking';
+import { vendorStoreLocation } from '@/lib/storeLocation';
+import { DeliveryQuote, fetchDeliveryQuote } from '@/lib/deliveryQuote';
+import { addressCoordinates, formatAddressLines } from '@/lib/deliveryAddress';
+import DeliveryAddressForm from '@/components/DeliveryAddressForm';
+import { TimeSlot, fetchVendorTimeSlots, formatSlot, formatSlotDay, formatSlotTime } from '@/lib/timeSlots';
+import { StoreStatus, fetchStoreStatuses, formatStoreClosed } from '@/lib/storeHours';
+import { formatItemName } from '@/lib/productVariants';
 
 interface CartItemWithProduct {
   id: string;
@@ -30,16 +38,20 @@ interface CartItemWithProduct {
     price: number;
     unit: string;
     vendor_id: string;
+    discount_percentage: number;
+    discount_active: boolean;
   };
+  variant: {
+    id: string;
+    name: string;
+    price: number;
+  } | null;
 }
 
-interface DeliveryZone {
-  id: string;
-  name: string;
-  min_distance_km: number;
-  max_distance_km: number;
-  price: number;
-  is_active: boolean;
+// Delivery from one vendor's store to the address
+interface VendorDelivery {
+  distanceKm: number;
+  quote: DeliveryQuote;
 }
 
 export default function CheckoutScreen() {
@@ -47,24 +59,34 @@ export default function CheckoutScreen() {
   const insets = useSafeAreaInsets();
   const [cartItems, setCartItems] = useState<CartItemWithProduct[]>([]);
   const [deliveryType, setDeliveryType] = useState<'pickup' | 'delivery'>('pickup');
-  const [deliveryAddress, setDeliveryAddress] = useState('');
-  const [deliveryName, setDeliveryName] = useState('');
-  const [deliveryPhone, setDeliveryPhone] = useState('');
-  const [geocodedCoordinates, setGeocodedCoordinates] = useState<{ lat: number; lon: number } | null>(null);
-  const [calculatedDeliveryFee, setCalculatedDeliveryFee] = useState<number>(0);
-  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [addresses, setAddresses] = useState<DeliveryAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState<string | null>(null);
+  const [showAddressForm, setShowAddressForm] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<DeliveryAddress | null>(null);
+  const [vendorSlots, setVendorSlots] = useState<Record<string, TimeSlot[]>>({});
+  // Chosen slot start per vendor; vendors without one are as soon as possible
+  const [selectedSlots, setSelectedSlots] = useState<Record<string, string>>({});
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [storeStatuses, setStoreStatuses] = useState<Record<string, StoreStatus>>({});
+  const [vendorDeliveries, setVendorDeliveries] = useState<Record<string, VendorDelivery>>({});
+  const [deliveryCoordinates, setDeliveryCoordinates] = useState<Coordinates | null>(null);
   const [loading, setLoading] = useState(true);
   const [geocoding, setGeocoding] = useState(false);
   const [geocodeError, setGeocodeError] = useState<string>('');
   const [submitting, setSubmitting] = useState(false);
   const [orderPlaced, setOrderPlaced] = useState(false);
   const [orderNumber, setOrderNumber] = useState('');
+  const [placedOrderTotal, setPlacedOrderTotal] = useState<number>(0);
+  const [placedOrders, setPlacedOrders] = useState<Order[]>([]);
+  const [vendorNames, setVendorNames] = useState<Record<string, string>>({});
+  const [vendorLocations, setVendorLocations] = useState<Record<string, Coordinates>>({});
   const [showPaymentOptions, setShowPaymentOptions] = useState(false);
   const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<'transfer' | 'online' | 'wallet' | 'cash_on_delivery' | null>(null);
   const [walletBalance, setWalletBalance] = useState<number>(0);
   const [showPaymentWebView, setShowPaymentWebView] = useState(false);
   const [paymentUrl, setPaymentUrl] = useState('');
   const [paymentReference, setPaymentReference] = useState('');
+  const [pendingCheckout, setPendingCheckout] = useState<{ checkoutGroup: CheckoutGroup; orders: Order[] } | null>(null);
   const [initializingPayment, setInitializingPayment] = useState(false);
   const [promoCode, setPromoCode] = useState('');
   const [appliedPromo, setAppliedPromo] = useState<any>(null);
@@ -72,14 +94,15 @@ export default function CheckoutScreen() {
   const [applyingPromo, setApplyingPromo] = useState(false);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
   const [loadingBankAccounts, setLoadingBankAccounts] = useState(false);
-  const storeLocation = { latitude: 12.0022, longitude: 8.5919 };
 
   useEffect(() => {
     fetchCartItems();
-    loadZones();
     fetchWalletBalance();
+    fetchAddresses();
   }, []);
 
+  const selectedAddress = addresses.find((address) => address.id === selectedAddressId) ?? null;
+
   const fetchBankAccounts = async () => {
     try {
       setLoadingBankAccounts(true);
@@ -99,25 +122,18 @@ export default function CheckoutScreen() {
   };
 
   useEffect(() => {
-    if (deliveryType === 'delivery' && deliveryAddress.trim()) {
-      const timeoutId = setTimeout(() => {
-        calculateDistanceFromAddress(deliveryAddress);
-      }, 1000);
-      return () => clearTimeout(timeoutId);
+    if (deliveryType === 'delivery' && selectedAddress) {
+      calculateDistanceFromAddress(selectedAddress);
     } else {
-      setGeocodedCoordinates(null);
-      setCalculatedDeliveryFee(0);
+      setVendorDeliveries({});
+      setDeliveryCoordinates(null);
       setGeocodeError('');
     }
-  }, [deliveryAddress, deliveryType]);
+  }, [selectedAddress, deliveryType, vendorLocations]);
 
   useEffect(() => {
-    if (geocodedCoordinates) {
-      calculateDeliveryFee();
-    } else {
-      setCalculatedDeliveryFee(0);
-    }
-  }, [geocodedCoordinates]);
+    fetchTimeSlots();
+  }, [deliveryType, cartItems]);
 
   useEffect(() => {
     if (paymentUrl && showPaymentWebView) {
@@ -128,90 +144,157 @@ export default function CheckoutScreen() {
     }
   }, [paymentUrl, showPaymentWebView]);
 
-  const loadZones = async () => {
-    const { data } = await supabase
-      .from('delivery_zones')
-      .select('*')
-      .eq('is_active', true)
-      .order('min_distance_km');
-    if (data) setZones(data);
-  };
+  const fetchTimeSlots = async () => {
+    const vendorIds = [...new Set(cartItems.map((item) => item.product.vendor_id))];
+    setSelectedSlots({});
+    if (vendorIds.length === 0) {
+      setVendorSlots({});
+      setStoreStatuses({});
+      return;
+    }
 
-  const calculateDistanceFromAddress = async (address: string) => {
+    setLoadingSlots(true);
     try {
-      setGeocoding(true);
-      setGeocodeError('');
-
-      const origin = `${storeLocation.latitude},${storeLocation.longitude}`;
-      const apiUrl = `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/calculate-distance`;
-
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
-        },
-        body: JSON.stringify({
-          origin,
-          destination: address,
-        }),
-      });
-
-      const data = await response.json();
+      setStoreStatuses(await fetchStoreStatuses(vendorIds));
+    } catch (error) {
+      console.error('Error fetching store hours:', error);
+      setStoreStatuses({});
+    }
 
-      if (data.success && data.distanceKm) {
-        setGeocodedCoordinates({ lat: data.distanceKm, lon: 0 });
-        setGeocodeError('');
-      } else if (data.error) {
-        setGeocodeError(data.error);
-        setGeocodedCoordinates(null);
-      } else {
-        setGeocodeError('Address not found. Please check and try again.');
-        setGeocodedCoordinates(null);
+    try {
+      const slots: Record<string, TimeSlot[]> = {};
+      for (const vendorId of vendorIds) {
+        slots[vendorId] = await fetchVendorTimeSlots(vendorId, deliveryType);
       }
+      setVendorSlots(slots);
     } catch (error) {
-      console.error('Distance calculation error:', error);
-      setGeocodeError('Failed to calculate distance. Please try again.');
-      setGeocodedCoordinates(null);
+      console.error('Error fetching time slots:', error);
+      setVendorSlots({});
     } finally {
-      setGeocoding(false);
+      setLoadingSlots(false);
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371;
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  const selectSlot = (vendorId: string, start: string | null) => {
+    setSelectedSlots((current) => {
+      const next = { ...current };
+      if (start) {
+        next[vendorId] = start;
+      } else {
+        delete next[vendorId];
+      }
+      return next;
+    });
   };
 
-  const findZoneForDistance = (distance: number): DeliveryZone | null => {
-    for (const zone of zones) {
-      if (distance >= zone.min_distance_km && distance <= zone.max_distance_km) {
-        return zone;
-      }
+  const fetchAddresses = async (selectId?: string) => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('delivery_addresses')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const saved: DeliveryAddress[] = data || [];
+      setAddresses(saved);
+      setSelectedAddressId((current) => {
+        const preferred = selectId ?? current;
+        if (preferred && saved.some((address) => address.id === preferred)) return preferred;
+        return saved[0]?.id ?? null;
+      });
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
     }
-    return null;
   };
 
-  const calculateDeliveryFee = () => {
-    if (!geocodedCoordinates) {
-      setCalculatedDeliveryFee(0);
+  const openAddressForm = (address: DeliveryAddress | null) => {
+    setEditingAddress(address);
+    setShowAddressForm(true);
+  };
+
+  const closeAddressForm = () => {
+    setShowAddressForm(false);
+    setEditingAddress(null);
+  };
+
+  const handleAddressSaved = (address: DeliveryAddress) => {
+    closeAddressForm();
+    fetchAddresses(address.id);
+  };
+
+  // Each vendor delivers from its own store, so the address is priced from every store in the cart.
+  // The server measures each distance; the address only has to be located once.
+  // Stores without a pinned location are not quoted; they are listed as unable to deliver.
+  const calculateDistanceFromAddress = async (address: DeliveryAddress) => {
+    const vendorIds = [...new Set(cartItems.map((item) => item.product.vendor_id))].filter(
+      (vendorId) => vendorLocations[vendorId]
+    );
+    if (vendorIds.length === 0) {
+      setVendorDeliveries({});
+      setDeliveryCoordinates(null);
       return;
     }
 
-    const distance = geocodedCoordinates.lat;
-    const zone = findZoneForDistance(distance);
+    try {
+      setGeocoding(true);
+      setGeocodeError('');
 
-    if (zone) {
-      setCalculatedDeliveryFee(zone.price);
-    } else {
-      setCalculatedDeliveryFee(0);
+      // Saved coordinates spare the address lookup
+      let destination: Coordinates | null = addressCoordinates(address);
+
+      if (!destination) {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) throw new Error('Session expired. Please log in again.');
+
+        const response: Response = await fetch(`${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/calculate-distance`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({
+            destination: formatAddressLines(address),
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!data.success || !data.destination) {
+          setGeocodeError(data.error || 'Address not found. Please check and try again.');
+          setVendorDeliveries({});
+          setDeliveryCoordinates(null);
+          return;
+        }
+
+        destination = { latitude: data.destination.latitude, longitude: data.destination.longitude };
+      }
+
+      const deliveries: Record<string, VendorDelivery> = {};
+      for (const vendorId of vendorIds) {
+        const quote = await fetchDeliveryQuote({
+          vendorId,
+          orderSubtotal: calculateVendorSubtotal(vendorId),
+          addressId: address.id,
+          coordinates: destination,
+        });
+        deliveries[vendorId] = { distanceKm: Number(quote.distance_km), quote };
+      }
+
+      setVendorDeliveries(deliveries);
+      setDeliveryCoordinates(destination);
+      setGeocodeError('');
+    } catch (error) {
+      console.error('Distance calculation error:', error);
+      setGeocodeError(error instanceof Error ? error.message : 'Failed to calculate distance. Please try again.');
+      setVendorDeliveries({});
+      setDeliveryCoordinates(null);
+    } finally {
+      setGeocoding(false);
     }
   };
 
@@ -232,7 +315,14 @@ export default function CheckoutScreen() {
             name,
             price,
             unit,
-            vendor_id
+            vendor_id,
+            discount_percentage,
+            discount_active
+          ),
+          product_variants (
+            id,
+            name,
+            price
           )
         `
         )
@@ -245,9 +335,30 @@ export default function CheckoutScreen() {
         quantity: item.quantity,
         product_id: item.product_id,
         product: item.products,
+        variant: item.product_variants
+          ? { ...item.product_variants, price: Number(item.product_variants.price) }
+          : null,
       }));
 
       setCartItems(formattedData);
+
+      const vendorIds = [...new Set(formattedData.map((item) => item.product.vendor_id))];
+      if (vendorIds.length > 0) {
+        const { data: vendorsData } = await supabase
+          .from('vendors')
+          .select('user_id, business_name, latitude, longitude')
+          .in('user_id', vendorIds);
+
+        const names: Record<string, string> = {};
+        const locations: Record<string, Coordinates> = {};
+        (vendorsData || []).forEach((vendor: any) => {
+          names[vendor.user_id] = vendor.business_name;
+          const location = vendorStoreLocation(vendor);
+          if (location) locations[vendor.user_id] = location;
+        });
+        setVendorNames(names);
+        setVendorLocations(locations);
+      }
     } catch (error) {
       console.error('Error fetching cart:', error);
       Alert.alert('Error', 'Failed to load cart items');
@@ -275,8 +386,59 @@ export default function CheckoutScreen() {
     }
   };
 
+  const getUnitPrice = (item: CartItemWithProduct) => {
+    const { product } = item;
+    const price = item.variant?.price ?? product.price;
+    if (product.discount_active && product.discount_percentage > 0) {
+      return Math.round(price * (1 - product.discount_percentage / 100) * 100) / 100;
+    }
+    return price;
+  };
+
+  const vendorGroups = cartItems.reduce<{ vendorId: string; items: CartItemWithProduct[] }[]>((groups, item) => {
+    const group = groups.find((g) => g.vendorId === item.product.vendor_id);
+    if (group) {
+      group.items.push(item);
+    } else {
+      groups.push({ vendorId: item.product.vendor_id, items: [item] });
+    }
+    return groups;
+  }, []);
+
+  const getVendorDeliveryFee = (vendorId: string) => vendorDeliveries[vendorId]?.quote.final_price ?? 0;
+
+  const deliveryCalculated = Object.keys(vendorDeliveries).length > 0;
+  const calculatedDeliveryFee = vendorGroups.reduce((sum, group) => sum + getVendorDeliveryFee(group.vendorId), 0);
+  const undeliverableVendors = vendorGroups.filter(
+    (group) => vendorDeliveries[group.vendorId] && !vendorDeliveries[group.vendorId].quote.deliverable
+  );
+  // Stores that have not pinned their location cannot be quoted for delivery
+  const unlocatedVendors = vendorGroups.filter(
+    (group) => vendorNames[group.vendorId] && !vendorLocations[group.vendorId]
+  );
+  // Closed stores only take orders scheduled for when they open
+  const closedVendors = vendorGroups.filter(
+    (group) => storeStatuses[group.vendorId] && !storeStatuses[group.vendorId].is_open
+  );
+  const deliveryAdjustments = [
+    ...new Set(
+      Object.values(vendorDeliveries).flatMap((delivery) => (delivery.quote.adjustments || []).map((adjustment) => adjustment.label))
+    ),
+  ];
+
+  const cartVendorIds = [...new Set(cartItems.map((item) => item.product.vendor_id))];
+  // The address form can only quote when the order comes from one store
+  const singleVendorId = cartVendorIds.length === 1 ? cartVendorIds[0] : null;
+
   const calculateSubtotal = () => {
-    return cartItems.reduce((sum, item) => sum + item.product.price * item.quantity, 0);
+    return cartItems.reduce((sum, item) => sum + getUnitPrice(item) * item.quantity, 0);
+  };
+
+  // Each vendor's delivery is quoted on its own items, as place_order does
+  const calculateVendorSubtotal = (vendorId: string) => {
+    return cartItems
+      .filter((item) => item.product.vendor_id === vendorId)
+      .reduce((sum, item) => sum + getUnitPrice(item) * item.quantity, 0);
   };
 
   const calculateDiscount = () => {
@@ -299,6 +461,8 @@ export default function CheckoutScreen() {
     return 0;
   };
 
+  const getVendorSlots = () => (Object.keys(selectedSlots).length > 0 ? selectedSlots : null);
+
   const calculateTotal = () => {
     const subtotal = calculateSubtotal();
     const deliveryFee = deliveryType === 'delivery' ? calculatedDeliveryFee : 0;
@@ -374,28 +538,34 @@ export default function CheckoutScreen() {
   const handleContinueToPayment = () => {
     if (!profile) return;
 
-    if (deliveryType === 'delivery' && !deliveryAddress.trim()) {
-      Alert.alert('Missing Address', 'Please provide a delivery address');
+    if (deliveryType === 'delivery' && !selectedAddress) {
+      Alert.alert('Missing Address', 'Please choose a delivery address');
       return;
     }
 
-    if (deliveryType === 'delivery' && !deliveryName.trim()) {
-      Alert.alert('Missing Name', 'Please provide a delivery name');
+    if (deliveryType === 'delivery' && (!selectedAddress?.recipient_name || !selectedAddress?.phone)) {
+      Alert.alert('Incomplete Address', 'Please add a recipient name and phone number to this address');
       return;
     }
 
-    if (deliveryType === 'delivery' && !deliveryPhone.trim()) {
-      Alert.alert('Missing Phone', 'Please provide a delivery phone number');
+    if (deliveryType === 'delivery' && unlocatedVendors.length > 0) {
+      Alert.alert(
+        'Store Location Not Set',
+        `${vendorNames[unlocatedVendors[0].vendorId]} has not set its store location yet, so it cannot deliver. Please remove its items or choose pickup.`
+      );
       return;
     }
 
-    if (deliveryType === 'delivery' && !geocodedCoordinates) {
+    if (deliveryType === 'delivery' && !deliveryCalculated) {
       Alert.alert('Invalid Address', 'Please enter a valid address that can be located on the map.');
       return;
     }
 
-    if (deliveryType === 'delivery' && calculatedDeliveryFee === 0) {
-      Alert.alert('Delivery Not Available', 'No delivery zone covers your location. Please try a different address.');
+    if (deliveryType === 'delivery' && undeliverableVendors.length > 0) {
+      Alert.alert(
+        'Delivery Not Available',
+        `${vendorDeliveries[undeliverableVendors[0].vendorId].quote.reason || 'Delivery is not available to this address'}. Please try a different address or choose pickup.`
+      );
       return;
     }
 
@@ -404,6 +574,24 @@ export default function CheckoutScreen() {
       return;
     }
 
+    const vacationVendor = closedVendors.find((group) => storeStatuses[group.vendorId].on_vacation);
+    if (vacationVendor) {
+      Alert.alert(
+        'Store Closed',
+        `${vendorNames[vacationVendor.vendorId] || 'A store in your cart'} is not taking orders right now (${formatStoreClosed(storeStatuses[vacationVendor.vendorId])}). Please remove its items to continue.`
+      );
+      return;
+    }
+
+    const unscheduledVendor = closedVendors.find((group) => !selectedSlots[group.vendorId]);
+    if (unscheduledVendor) {
+      Alert.alert(
+        'Choose a Time',
+        `${vendorNames[unscheduledVendor.vendorId] || 'A store in your cart'} is closed right now. Please choose a ${deliveryType} time for when it opens.`
+      );
+      return;
+    }
+
     setShowPaymentOptions(true);
   };
 
@@ -413,7 +601,6 @@ export default function CheckoutScreen() {
     try {
       setInitializingPayment(true);
 
-      const total = calculateTotal();
       const { data: { session } } = await supabase.auth.getSession();
 
       if (!session) {
@@ -430,8 +617,16 @@ export default function CheckoutScreen() {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
-            amount: total,
+            type: 'order',
             email: profile.email,
+            order: {
+              delivery_type: deliveryType,
+              delivery_address_id: deliveryType === 'delivery' ? selectedAddressId : null,
+              vendor_slots: getVendorSlots(),
+              delivery_latitude: deliveryType === 'delivery' ? deliveryCoordinates?.latitude ?? null : null,
+              delivery_longitude: deliveryType === 'delivery' ? deliveryCoordinates?.longitude ?? null : null,
+              promo_code: appliedPromo?.code || null,
+            },
           }),
         }
       );
@@ -452,6 +647,7 @@ export default function CheckoutScreen() {
 
       setPaymentUrl(result.data.authorization_url);
       setPaymentReference(result.data.reference);
+      setPendingCheckout({ checkoutGroup: result.data.checkout_group, orders: result.data.orders });
 
       if (Platform.OS === 'web') {
         window.open(result.data.authorization_url, '_blank');
@@ -479,6 +675,31 @@ export default function CheckoutScreen() {
     }
   };
 
+  const fetchPaymentStatus = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Session expired. Please try again.');
+    }
+
+    const verifyUrl = `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/verify-payment?reference=${encodeURIComponent(paymentReference)}`;
+
+    const response = await fetch(verifyUrl, {
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+    });
+
+    return response.json();
+  };
+
+  const resetOnlinePayment = () => {
+    setShowPaymentWebView(false);
+    setPaymentUrl('');
+    setPaymentReference('');
+    setPendingCheckout(null);
+  };
+
+  // The order already exists; Paystack's webhook marks it paid even if this screen is closed
   const handleVerifyPayment = async () => {
     if (!paymentReference) {
       Alert.alert('Error', 'Payment reference is missing');
@@ -488,44 +709,70 @@ export default function CheckoutScreen() {
     try {
       setSubmitting(true);
 
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        Alert.alert('Error', 'Session expired. Please try again.');
-        return;
+      const result = await fetchPaymentStatus();
+
+      if (result.success) {
+        const checkout = pendingCheckout;
+        resetOnlinePayment();
+        if (checkout) {
+          showOrderPlaced(checkout.checkoutGroup, checkout.orders);
+        }
+      } else if (result.status && result.status !== 'failed' && result.status !== 'abandoned') {
+        Alert.alert(
+          'Payment Pending',
+          'We have not received confirmation from Paystack yet. If you completed the payment, your order will be updated automatically and you can follow it in the Orders tab.'
+        );
+      } else {
+        console.error('Payment verification failed:', result.error);
+        Alert.alert('Payment Failed', result.error || 'Payment verification failed. Please try again or contact support.');
       }
+    } catch (error) {
+      console.error('Error verifying payment:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', `Failed to verify payment: ${errorMessage}. Please contact support if amount was deducted.`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelOnlinePayment = async () => {
+    if (!paymentReference) {
+      resetOnlinePayment();
+      setShowPaymentOptions(true);
+      return;
+    }
 
-      const verifyUrl = `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/verify-payment?reference=${paymentReference}&type=order`;
+    try {
+      setSubmitting(true);
 
-      console.log('Verifying payment with reference:', paymentReference);
+      // The customer may have paid before backing out
+      const status = await fetchPaymentStatus().catch(() => null);
+      if (status?.success) {
+        const checkout = pendingCheckout;
+        resetOnlinePayment();
+        if (checkout) {
+          showOrderPlaced(checkout.checkoutGroup, checkout.orders);
+        }
+        return;
+      }
 
-      const response = await fetch(verifyUrl, {
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-        },
+      const { data: result, error } = await supabase.rpc('abandon_online_checkout', {
+        p_reference: paymentReference,
       });
 
-      console.log('Verify response status:', response.status);
+      if (error) throw error;
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Verify response error:', errorText);
-        throw new Error(`Server error: ${response.status}`);
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to cancel payment');
       }
 
-      const result = await response.json();
-      console.log('Verify result:', result);
-
-      if (result.success) {
-        setShowPaymentWebView(false);
-        await handlePlaceOrder('online', true);
-      } else {
-        console.error('Payment verification failed:', result.error);
-        Alert.alert('Payment Failed', result.error || 'Payment verification failed. Please try again or contact support.');
-      }
+      resetOnlinePayment();
+      await fetchCartItems();
+      setShowPaymentOptions(true);
     } catch (error) {
-      console.error('Error verifying payment:', error);
+      console.error('Error cancelling payment:', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      Alert.alert('Error', `Failed to verify payment: ${errorMessage}. Please contact support if amount was deducted.`);
+      Alert.alert('Error', `${errorMessage}. Your order is still waiting for payment in the Orders tab.`);
     } finally {
       setSubmitting(false);
     }
@@ -535,109 +782,50 @@ export default function CheckoutScreen() {
     const url = event.nativeEvent.url;
 
     if (url.includes('/functions/v1/verify-payment') && url.includes('reference=')) {
-      setShowPaymentWebView(false);
-
-      try {
-        const response = await fetch(url);
-        const result = await response.json();
-
-        if (result.success) {
-          await handlePlaceOrder('online', true);
-        } else {
-          Alert.alert('Payment Failed', result.error || 'Payment verification failed');
-        }
-      } catch (error) {
-        console.error('Error verifying payment:', error);
-        Alert.alert('Error', 'Failed to verify payment. Please contact support if amount was deducted.');
-      }
+      await handleVerifyPayment();
     }
   };
 
-  const handlePlaceOrder = async (paymentMethod: 'transfer' | 'online' | 'wallet' | 'cash_on_delivery', paymentCompleted: boolean = false) => {
+  const showOrderPlaced = (checkoutGroup: CheckoutGroup, orders: Order[]) => {
+    setOrderNumber(orders.length > 1 ? checkoutGroup.group_number : orders[0].order_number);
+    setPlacedOrderTotal(checkoutGroup.total);
+    setPlacedOrders(orders);
+    setOrderPlaced(true);
+    setShowPaymentOptions(false);
+    setSelectedPaymentMethod(null);
+  };
+
+  const handlePlaceOrder = async (paymentMethod: 'transfer' | 'wallet' | 'cash_on_delivery') => {
     if (!profile) return;
 
     try {
       setSubmitting(true);
 
-      const vendorId = cartItems[0].product.vendor_id;
-      const orderNumber = `ORD-${Date.now()}`;
-      const subtotal = calculateSubtotal();
-      const deliveryFee = deliveryType === 'delivery' ? calculatedDeliveryFee : 0;
-      const discount = calculateDiscount();
       const total = calculateTotal();
 
-      if (paymentMethod === 'wallet') {
-        if (walletBalance < total) {
-          Alert.alert('Insufficient Balance', `Your wallet balance is ₦${walletBalance.toFixed(2)}. You need ₦${total.toFixed(2)} to complete this order.`);
-          setSubmitting(false);
-          return;
-        }
-
-        const { data: debitResult, error: debitError } = await supabase
-          .rpc('debit_wallet', {
-            p_user_id: profile.id,
-            p_amount: total,
-            p_description: `Payment for order ${orderNumber}`,
-            p_reference_type: 'order'
-          });
-
-        if (debitError || !debitResult.success) {
-          throw new Error(debitResult?.error || 'Failed to process wallet payment');
-        }
+      if (paymentMethod === 'wallet' && walletBalance < total) {
+        Alert.alert('Insufficient Balance', `Your wallet balance is ₦${walletBalance.toFixed(2)}. You need ₦${total.toFixed(2)} to complete this order.`);
+        return;
       }
 
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          customer_id: profile.id,
-          vendor_id: vendorId,
-          order_number: orderNumber,
-          subtotal: subtotal,
-          delivery_fee: deliveryFee,
-          discount_amount: discount,
-          promo_code: appliedPromo?.code || null,
-          promo_id: appliedPromo?.id || null,
-          total: total,
-          delivery_type: deliveryType,
-          delivery_address: deliveryType === 'delivery' ? `${deliveryName}\n${deliveryPhone}\n${deliveryAddress}` : 'N/A',
-          status: 'pending',
-          payment_method: paymentMethod,
-          payment_status: (paymentMethod === 'wallet' || paymentCompleted) ? 'completed' : 'pending',
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      const orderItems = cartItems.map((item) => ({
-        order_id: orderData.id,
-        product_id: item.product_id,
-        quantity: item.quantity,
-        unit_price: item.product.price,
-        subtotal: item.product.price * item.quantity,
-      }));
-
-      const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      const { error: deleteError } = await supabase
-        .from('carts')
-        .delete()
-        .eq('user_id', profile.id);
+      const { data: result, error } = await supabase.rpc('place_order', {
+        p_delivery_type: deliveryType,
+        p_payment_method: paymentMethod,
+        p_delivery_address_id: deliveryType === 'delivery' ? selectedAddressId : null,
+        p_vendor_slots: getVendorSlots(),
+        p_promo_code: appliedPromo?.code || null,
+        p_delivery_latitude: deliveryType === 'delivery' ? deliveryCoordinates?.latitude ?? null : null,
+        p_delivery_longitude: deliveryType === 'delivery' ? deliveryCoordinates?.longitude ?? null : null,
+      });
 
-      if (deleteError) throw deleteError;
+      if (error) throw error;
 
-      if (appliedPromo) {
-        await supabase
-          .from('promotions')
-          .update({ usage_count: (appliedPromo.usage_count || 0) + 1 })
-          .eq('id', appliedPromo.id);
+      if (!result?.success) {
+        Alert.alert('Order Failed', result?.error || 'Failed to place order. Please try again.');
+        return;
       }
 
-      setOrderNumber(orderNumber);
-      setOrderPlaced(true);
-      setShowPaymentOptions(false);
+      showOrderPlaced(result.checkout_group, result.orders);
       if (paymentMethod === 'wallet') {
         await fetchWalletBalance();
       }
@@ -680,10 +868,21 @@ export default function CheckoutScreen() {
             <Text style={styles.orderDetailsTitle}>Order Details</Text>
 
             <View style={styles.orderDetailRow}>
-              <Text style={styles.orderDetailLabel}>Order Number</Text>
+              <Text style={styles.orderDetailLabel}>
+                {placedOrders.length > 1 ? 'Purchase Number' : 'Order Number'}
+              </Text>
               <Text style={styles.orderDetailValue}>#{orderNumber}</Text>
             </View>
 
+            {placedOrders.length > 1 && placedOrders.map((order) => (
+              <View key={order.id} style={styles.orderDetailRow}>
+                <Text style={styles.orderDetailLabel}>
+                  {vendorNames[order.vendor_id] || 'Vendor'} · #{order.order_number}
+                </Text>
+                <Text style={styles.orderDetailValue}>₦{order.total.toFixed(2)}</Text>
+              </View>
+            ))}
+
             <View style={styles.orderDetailRow}>
               <Text style={styles.orderDetailLabel}>Delivery Type</Text>
               <Text style={styles.orderDetailValue}>
@@ -691,11 +890,22 @@ export default function CheckoutScreen() {
               </Text>
             </View>
 
+            {placedOrders.map((order) => order.scheduled_slot_start && order.scheduled_slot_end && storeStatuses[order.vendor_id] && (
+              <View key={`slot-${order.id}`} style={styles.orderDetailRow}>
+                <Text style={styles.orderDetailLabel}>
+                  {placedOrders.length > 1 ? `${vendorNames[order.vendor_id] || 'Vendor'} Time` : 'Scheduled For'}
+                </Text>
+                <Text style={styles.orderDetailValue}>
+                  {formatSlot(order.scheduled_slot_start, order.scheduled_slot_end, storeStatuses[order.vendor_id].timezone)}
+                </Text>
+              </View>
+            ))}
+
             {deliveryType === 'delivery' && (
               <View style={styles.orderDetailRow}>
                 <Text style={styles.orderDetailLabel}>Delivery Address</Text>
                 <Text style={[styles.orderDetailValue, styles.addressText]}>
-                  {deliveryAddress}
+                  {selectedAddress ? formatAddressLines(selectedAddress) : ''}
                 </Text>
               </View>
             )}
@@ -704,7 +914,7 @@ export default function CheckoutScreen() {
 
             <View style={styles.orderDetailRow}>
               <Text style={styles.orderDetailLabel}>Total Amount</Text>
-              <Text style={styles.orderTotalValue}>₦{calculateTotal().toFixed(2)}</Text>
+              <Text style={styles.orderTotalValue}>₦{placedOrderTotal.toFixed(2)}</Text>
             </View>
           </View>
 
@@ -838,39 +1048,119 @@ export default function CheckoutScreen() {
           </TouchableOpacity>
         </View>
 
+        {(loadingSlots || closedVendors.length > 0 || vendorGroups.some((group) => (vendorSlots[group.vendorId] || []).length > 0)) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{deliveryType === 'delivery' ? 'Delivery Time' : 'Pickup Time'}</Text>
+
+            {loadingSlots ? (
+              <ActivityIndicator size="small" color="#ff8c00" />
+            ) : (
+              vendorGroups.map((group) => {
+                const slots = vendorSlots[group.vendorId] || [];
+                const selectedStart = selectedSlots[group.vendorId];
+                const status = storeStatuses[group.vendorId];
+                const closed = !!status && !status.is_open;
+
+                return (
+                  <View key={group.vendorId} style={styles.slotGroup}>
+                    {vendorGroups.length > 1 && (
+                      <Text style={styles.vendorGroupTitle}>{vendorNames[group.vendorId] || 'Vendor'}</Text>
+                    )}
+                    {closed && (
+                      <View style={styles.storeClosedCard}>
+                        <Clock size={16} color="#9a3412" />
+                        <Text style={styles.storeClosedText}>
+                          {status.on_vacation
+                            ? `${formatStoreClosed(status)}. This store is not taking orders.`
+                            : slots.length > 0
+                              ? `${formatStoreClosed(status)}. Choose a time below.`
+                              : `${formatStoreClosed(status)}. No times are open for booking yet.`}
+                        </Text>
+                      </View>
+                    )}
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.slotList}>
+                      {!closed && (
+                        <TouchableOpacity
+                          style={[styles.slotChip, !selectedStart && styles.slotChipActive]}
+                          onPress={() => selectSlot(group.vendorId, null)}
+                        >
+                          <Text style={[styles.slotDay, !selectedStart && styles.slotTextActive]}>Now</Text>
+                          <Text style={[styles.slotTime, !selectedStart && styles.slotTextActive]}>As soon as possible</Text>
+                        </TouchableOpacity>
+                      )}
+                      {status && slots.map((slot) => {
+                        const selected = selectedStart === slot.start;
+                        const full = slot.available < 1;
+
+                        return (
+                          <TouchableOpacity
+                            key={slot.start}
+                            style={[styles.slotChip, selected && styles.slotChipActive, full && styles.slotChipFull]}
+                            onPress={() => selectSlot(group.vendorId, slot.start)}
+                            disabled={full}
+                          >
+                            <Text style={[styles.slotDay, selected && styles.slotTextActive]}>{formatSlotDay(slot.start, status.timezone)}</Text>
+                            <Text style={[styles.slotTime, selected && styles.slotTextActive]}>
+                              {formatSlotTime(slot.start, slot.end, status.timezone)}
+                            </Text>
+                            {full && <Text style={styles.slotFullText}>Full</Text>}
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </ScrollView>
+                  </View>
+                );
+              })
+            )}
+          </View>
+        )}
+
         {deliveryType === 'delivery' && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Delivery Information</Text>
-
-            <TextInput
-              style={styles.input}
-              placeholder="Full Name"
-              placeholderTextColor="#9ca3af"
-              value={deliveryName}
-              onChangeText={setDeliveryName}
-            />
-
-            <TextInput
-              style={styles.input}
-              placeholder="Phone Number"
-              placeholderTextColor="#9ca3af"
-              value={deliveryPhone}
-              onChangeText={setDeliveryPhone}
-              keyboardType="phone-pad"
-            />
-
-            <View style={styles.addressInputContainer}>
-              <MapPin size={20} color="#6b7280" style={styles.addressIcon} />
-              <TextInput
-                style={styles.addressInput}
-                placeholder="Enter your delivery address (e.g., 123 Main St, Lagos, Nigeria)"
-                placeholderTextColor="#9ca3af"
-                value={deliveryAddress}
-                onChangeText={setDeliveryAddress}
-                multiline
-                numberOfLines={3}
-              />
-            </View>
+            <Text style={styles.sectionTitle}>Deliver To</Text>
+
+            {addresses.map((address) => {
+              const selected = address.id === selectedAddressId;
+              const incomplete = !address.recipient_name || !address.phone;
+
+              return (
+                <TouchableOpacity
+                  key={address.id}
+                  style={[styles.optionCard, selected && styles.optionCardActive]}
+                  onPress={() => setSelectedAddressId(address.id)}
+                >
+                  <View style={styles.optionIcon}>
+                    <MapPin size={22} color={selected ? '#ff8c00' : '#64748b'} />
+                  </View>
+                  <View style={styles.optionContent}>
+                    <Text style={styles.optionTitle}>
+                      {address.label || address.recipient_name || 'Address'}
+                      {address.is_default ? ' · Default' : ''}
+                    </Text>
+                    {address.recipient_name || address.phone ? (
+                      <Text style={styles.optionDescription}>
+                        {[address.recipient_name, address.phone].filter(Boolean).join(' · ')}
+                      </Text>
+                    ) : null}
+                    <Text style={styles.optionDescription}>{formatAddressLines(address)}</Text>
+                    {incomplete && (
+                      <Text style={styles.addressWarningText}>Add a recipient name and phone number</Text>
+                    )}
+                  </View>
+                  <TouchableOpacity style={styles.editAddressButton} onPress={() => openAddressForm(address)}>
+                    <Edit size={16} color="#64748b" />
+                  </TouchableOpacity>
+                  {selected && <View style={styles.selectedDot} />}
+                </TouchableOpacity>
+              );
+            })}
+
+            <TouchableOpacity style={styles.addAddressButton} onPress={() => openAddressForm(null)}>
+              <Plus size={18} color="#ff8c00" />
+              <Text style={styles.addAddressText}>
+                {addresses.length === 0 ? 'Add a Delivery Address' : 'Add New Address'}
+              </Text>
+            </TouchableOpacity>
 
             {geocoding && (
               <View style={styles.geocodingStatus}>
@@ -885,41 +1175,79 @@ export default function CheckoutScreen() {
               </View>
             )}
 
-            {geocodedCoordinates && !geocoding && (
-              <View style={styles.successCard}>
+            {deliveryCalculated && !geocoding && vendorGroups.map((group) => vendorDeliveries[group.vendorId] && (
+              <View key={group.vendorId} style={styles.successCard}>
                 <CheckCircle size={20} color="#10b981" />
                 <Text style={styles.successText}>
-                  Distance: {geocodedCoordinates.lat.toFixed(2)} km from store
+                  Distance: {vendorDeliveries[group.vendorId].distanceKm.toFixed(2)} km from {vendorNames[group.vendorId] || 'store'}
                 </Text>
               </View>
-            )}
+            ))}
 
-            {calculatedDeliveryFee > 0 && (
-              <View style={styles.deliveryFeeCard}>
-                <Text style={styles.deliveryFeeLabel}>Calculated Delivery Fee:</Text>
-                <Text style={styles.deliveryFeeValue}>₦{calculatedDeliveryFee.toFixed(2)}</Text>
+            {unlocatedVendors.map((group) => (
+              <View key={group.vendorId} style={styles.warningCard}>
+                <Text style={styles.warningText}>
+                  {vendorNames[group.vendorId]} has not set its store location yet, so it cannot deliver. Please remove its items or choose pickup.
+                </Text>
               </View>
+            ))}
+
+            {deliveryCalculated && !geocoding && undeliverableVendors.length === 0 && unlocatedVendors.length === 0 && (
+              <>
+                <View style={styles.deliveryFeeCard}>
+                  <Text style={styles.deliveryFeeLabel}>Calculated Delivery Fee:</Text>
+                  <Text style={styles.deliveryFeeValue}>₦{calculatedDeliveryFee.toFixed(2)}</Text>
+                </View>
+                {deliveryAdjustments.map((label) => (
+                  <Text key={label} style={styles.deliveryFeeNote}>{label}</Text>
+                ))}
+              </>
             )}
 
-            {geocodedCoordinates && calculatedDeliveryFee === 0 && (
-              <View style={styles.warningCard}>
-                <Text style={styles.warningText}>Your location is outside our delivery zones. Please try a different address.</Text>
+            {!geocoding && undeliverableVendors.map((group) => (
+              <View key={group.vendorId} style={styles.warningCard}>
+                <Text style={styles.warningText}>
+                  {vendorDeliveries[group.vendorId].quote.reason || 'Delivery is not available to this address'}. Please try a different address or choose pickup.
+                </Text>
               </View>
-            )}
+            ))}
           </View>
         )}
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Order Summary</Text>
           <View style={styles.summaryCard}>
-            {cartItems.map((item) => (
-              <View key={item.id} style={styles.summaryRow}>
-                <Text style={styles.summaryText}>
-                  {item.product.name} x{item.quantity}
-                </Text>
-                <Text style={styles.summaryPrice}>
-                  ₦{(item.product.price * item.quantity).toFixed(2)}
-                </Text>
+            {vendorGroups.length > 1 && (
+              <Text style={styles.splitNote}>
+                Your cart has items from {vendorGroups.length} vendors. They will be placed as separate orders under one purchase.
+              </Text>
+            )}
+
+            {vendorGroups.map((group) => (
+              <View key={group.vendorId}>
+                {vendorGroups.length > 1 && (
+                  <Text style={styles.vendorGroupTitle}>
+                    {vendorNames[group.vendorId] || 'Vendor'}
+                  </Text>
+                )}
+                {group.items.map((item) => (
+                  <View key={item.id} style={styles.summaryRow}>
+                    <Text style={styles.summaryText}>
+                      {formatItemName(item.product.name, item.variant?.name)} x{item.quantity}
+                    </Text>
+                    <Text style={styles.summaryPrice}>
+                      ₦{(getUnitPrice(item) * item.quantity).toFixed(2)}
+                    </Text>
+                  </View>
+                ))}
+                {vendorGroups.length > 1 && deliveryType === 'delivery' && vendorDeliveries[group.vendorId] && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryText}>
+                      Delivery ({vendorDeliveries[group.vendorId].distanceKm.toFixed(1)} km)
+                    </Text>
+                    <Text style={styles.summaryPrice}>₦{getVendorDeliveryFee(group.vendorId).toFixed(2)}</Text>
+                  </View>
+                )}
               </View>
             ))}
 
@@ -1282,14 +1610,23 @@ export default function CheckoutScreen() {
         </View>
       )}
 
+      <Modal visible={showAddressForm} animationType="slide" onRequestClose={closeAddressForm}>
+        <View style={[styles.addressFormContainer, { paddingTop: insets.top }]}>
+          <DeliveryAddressForm
+            address={editingAddress}
+            onSaved={handleAddressSaved}
+            onCancel={closeAddressForm}
+            orderTotal={calculateSubtotal()}
+            vendorId={singleVendorId}
+            storeLocation={singleVendorId ? vendorLocations[singleVendorId] : undefined}
+          />
+        </View>
+      </Modal>
+
       <Modal
         visible={showPaymentWebView}
         animationType="slide"
-        onRequestClose={() => {
-          setShowPaymentWebView(false);
-          setPaymentUrl('');
-          setPaymentReference('');
-        }}
+        onRequestClose={handleCancelOnlinePayment}
       >
         {Platform.OS === 'web' ? (
           <View style={styles.paymentModal}>
@@ -1298,12 +1635,8 @@ export default function CheckoutScreen() {
                 <Text style={styles.paymentTitle}>Complete Payment</Text>
                 <TouchableOpacity
                   style={styles.closeButtonContainer}
-                  onPress={() => {
-                    setShowPaymentWebView(false);
-                    setPaymentUrl('');
-                    setPaymentReference('');
-                    setShowPaymentOptions(true);
-                  }}
+                  onPress={handleCancelOnlinePayment}
+                  disabled={submitting}
                 >
                   <Text style={styles.closeButton}>✕</Text>
                 </TouchableOpacity>
@@ -1347,12 +1680,8 @@ export default function CheckoutScreen() {
 
               <TouchableOpacity
                 style={styles.cancelButton}
-                onPress={() => {
-                  setShowPaymentWebView(false);
-                  setPaymentUrl('');
-                  setPaymentReference('');
-                  setShowPaymentOptions(true);
-                }}
+                onPress={handleCancelOnlinePayment}
+                disabled={submitting}
               >
                 <Text style={styles.cancelButtonText}>Cancel</Text>
               </TouchableOpacity>
@@ -1365,12 +1694,8 @@ export default function CheckoutScreen() {
                 <Text style={styles.paymentTitle}>Complete Payment</Text>
                 <TouchableOpacity
                   style={styles.closeButtonContainer}
-                  onPress={() => {
-                    setShowPaymentWebView(false);
-                    setPaymentUrl('');
-                    setPaymentReference('');
-                    setShowPaymentOptions(true);
-                  }}
+                  onPress={handleCancelOnlinePayment}
+                  disabled={submitting}
                 >
                   <Text style={styles.closeButton}>✕</Text>
                 </TouchableOpacity>
@@ -1414,12 +1739,8 @@ export default function CheckoutScreen() {
 
               <TouchableOpacity
                 style={styles.cancelButton}
-                onPress={() => {
-                  setShowPaymentWebView(false);
-                  setPaymentUrl('');
-                  setPaymentReference('');
-                  setShowPaymentOptions(true);
-                }}
+                onPress={handleCancelOnlinePayment}
+                disabled={submitting}
               >
                 <Text style={styles.cancelButtonText}>Cancel</Text>
               </TouchableOpacity>
@@ -1562,36 +1883,96 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
-  input: {
+  slotGroup: {
+    marginBottom: 12,
+  },
+  slotList: {
+    gap: 10,
+  },
+  slotChip: {
     backgroundColor: '#ffffff',
     borderRadius: 14,
-    padding: 18,
-    fontSize: 16,
-    fontFamily: Fonts.medium,
-    color: '#1a1a1a',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
     borderWidth: 1,
     borderColor: '#f0ebe4',
-    marginBottom: 16,
+    minWidth: 130,
+  },
+  slotChipActive: {
+    borderColor: '#ff8c00',
+    backgroundColor: '#fff7ed',
+    borderWidth: 2,
+  },
+  slotChipFull: {
+    opacity: 0.5,
+  },
+  slotDay: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#1a1a1a',
+  },
+  slotTime: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginTop: 2,
   },
-  addressInputContainer: {
+  slotTextActive: {
+    color: '#e67a00',
+  },
+  slotFullText: {
+    fontSize: 11,
+    fontFamily: Fonts.semiBold,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  storeClosedCard: {
     flexDirection: 'row',
-    backgroundColor: '#ffffff',
-    borderRadius: 14,
-    padding: 18,
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff7ed',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 10,
     borderWidth: 1,
-    borderColor: '#f0ebe4',
+    borderColor: '#fed7aa',
   },
-  addressIcon: {
-    marginRight: 12,
-    marginTop: 2,
+  storeClosedText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#9a3412',
   },
-  addressInput: {
+  addressFormContainer: {
     flex: 1,
-    fontSize: 16,
+    backgroundColor: '#f9fafb',
+  },
+  addressWarningText: {
+    fontSize: 13,
     fontFamily: Fonts.medium,
-    color: '#1a1a1a',
-    minHeight: 80,
-    textAlignVertical: 'top',
+    color: '#d97706',
+    marginTop: 4,
+  },
+  editAddressButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  addAddressButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 14,
+    padding: 16,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#fdba74',
+    backgroundColor: '#ffffff',
+  },
+  addAddressText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
   },
   geocodingStatus: {
     flexDirection: 'row',
@@ -1668,6 +2049,12 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.displayBold,
     color: '#1e40af',
   },
+  deliveryFeeNote: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#1e40af',
+    marginTop: 8,
+  },
   summaryCard: {
     backgroundColor: '#ffffff',
     borderRadius: 18,
@@ -1691,6 +2078,22 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.medium,
     color: '#1f2937',
   },
+  splitNote: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#92400e',
+    backgroundColor: '#fef3c7',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 12,
+  },
+  vendorGroupTitle: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+    marginBottom: 8,
+    marginTop: 4,
+  },
   summaryLabel: {
     fontSize: 16,
     fontFamily: Fonts.regular,
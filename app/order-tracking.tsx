@@ -6,6 +6,8 @@ import {
   ScrollView,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
+  Linking,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, router } from 'expo-router';
@@ -20,10 +22,34 @@ import {
   Calendar,
   ShoppingBag,
   XCircle,
+  AlertCircle,
+  Bike,
+  Navigation,
+  KeyRound,
 } from 'lucide-react-native';
+import * as Location from 'expo-location';
 import { supabase } from '@/lib/supabase';
-import { Order, OrderStatus } from '@/types/database';
+import {
+  DeliveryLocation,
+  Order,
+  OrderCancellationRequest,
+  OrderStatus,
+  OrderStatusHistory,
+} from '@/types/database';
 import OrderItemsList from '@/components/OrderItemsList';
+import CancelOrderModal, { CancelOrderResult, getCancellationMode } from '@/components/CancelOrderModal';
+import DeliveryLocationMap from '@/components/DeliveryLocationMap';
+import {
+  Coordinates,
+  STALE_LOCATION_MS,
+  distanceKm,
+  estimateEtaMinutes,
+  formatDistance,
+} from '@/lib/deliveryTracking';
+import { formatSlot } from '@/lib/timeSlots';
+import { fetchStoreTimezones } from '@/lib/storeHours';
+import { formatItemName } from '@/lib/productVariants';
+import { fetchOrderRider, OrderRider } from '@/lib/riders';
 import { Fonts } from '@/constants/fonts';
 
 interface OrderItem {
@@ -75,24 +101,43 @@ const statusLabels: Record<OrderStatus, string> = {
   cancelled: 'Cancelled',
 };
 
-const statusSteps: { status: OrderStatus; label: string; icon: any }[] = [
-  { status: 'pending', label: 'Order Placed', icon: Clock },
-  { status: 'confirmed', label: 'Confirmed', icon: CheckCircle },
-  { status: 'preparing', label: 'Preparing', icon: Package },
-  { status: 'ready_for_pickup', label: 'Ready for Pickup', icon: ShoppingBag },
-  { status: 'out_for_delivery', label: 'Out for Delivery', icon: Truck },
-  { status: 'delivered', label: 'Delivered', icon: CheckCircle },
+const statusSteps: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'preparing',
+  'ready_for_pickup',
+  'out_for_delivery',
+  'delivered',
 ];
 
+interface TimelineStep {
+  key: string;
+  status: OrderStatus;
+  reached: boolean;
+  time?: string;
+  note?: string;
+}
+
 export default function OrderTrackingScreen() {
   const { orderId } = useLocalSearchParams();
   const insets = useSafeAreaInsets();
   const [order, setOrder] = useState<OrderWithItems | null>(null);
   const [loading, setLoading] = useState(true);
+  const [cancellationRequest, setCancellationRequest] = useState<OrderCancellationRequest | null>(null);
+  const [showCancelModal, setShowCancelModal] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<OrderStatusHistory[]>([]);
+  const [rider, setRider] = useState<OrderRider | null>(null);
+  const [deliveryLocation, setDeliveryLocation] = useState<DeliveryLocation | null>(null);
+  const [destination, setDestination] = useState<Coordinates | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [deliveryCode, setDeliveryCode] = useState<string | null>(null);
+  const [storeTimezone, setStoreTimezone] = useState<string | null>(null);
 
   useEffect(() => {
     if (orderId) {
       fetchOrderDetails();
+      fetchCancellationRequest();
+      fetchStatusHistory();
 
       // Set up real-time subscription
       const channel = supabase
@@ -111,6 +156,48 @@ export default function OrderTrackingScreen() {
             }
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'order_cancellation_requests',
+            filter: `order_id=eq.${orderId}`,
+          },
+          () => {
+            fetchCancellationRequest();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'order_status_history',
+            filter: `order_id=eq.${orderId}`,
+          },
+          (payload) => {
+            const entry = payload.new as OrderStatusHistory;
+            setStatusHistory((prev) =>
+              prev.some((item) => item.id === entry.id) ? prev : [...prev, entry]
+            );
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'delivery_locations',
+            filter: `order_id=eq.${orderId}`,
+          },
+          (payload) => {
+            const ping = payload.new as DeliveryLocation;
+            setDeliveryLocation((prev) =>
+              prev && new Date(prev.recorded_at) > new Date(ping.recorded_at) ? prev : ping
+            );
+          }
+        )
         .subscribe();
 
       return () => {
@@ -119,6 +206,47 @@ export default function OrderTrackingScreen() {
     }
   }, [orderId]);
 
+  // Realtime order updates only carry rider_id, so the rider's details are looked up whenever it or the
+  // status changes; they are no longer shared once the order is delivered or cancelled
+  useEffect(() => {
+    if (order?.rider_id) {
+      fetchRider(order.id);
+    } else {
+      setRider(null);
+    }
+  }, [order?.rider_id, order?.status]);
+
+  const isLiveTracking = order?.delivery_type === 'delivery' && order?.status === 'out_for_delivery';
+
+  useEffect(() => {
+    if (!order || !isLiveTracking) return;
+
+    fetchLatestLocation();
+    resolveDestination(order);
+
+    // Keeps the "last updated" time and stale warning current between pings
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, [order?.id, isLiveTracking]);
+
+  // Scheduled times are shown in the store's time zone
+  useEffect(() => {
+    if (!order?.vendor_id || !order.scheduled_slot_start) return;
+
+    fetchStoreTimezones([order.vendor_id])
+      .then((timezones) => setStoreTimezone(timezones[order.vendor_id] ?? null))
+      .catch((error) => console.error('Error fetching store time zone:', error));
+  }, [order?.vendor_id, order?.scheduled_slot_start]);
+
+  const awaitingDelivery =
+    order?.delivery_type === 'delivery' && order?.status !== 'delivered' && order?.status !== 'cancelled';
+
+  useEffect(() => {
+    if (order && awaitingDelivery) {
+      fetchDeliveryCode();
+    }
+  }, [order?.id, awaitingDelivery]);
+
   const fetchOrderDetails = async () => {
     try {
       setLoading(true);
@@ -132,6 +260,7 @@ export default function OrderTrackingScreen() {
             quantity,
             unit_price,
             subtotal,
+            variant_name,
             products (
               name,
               image_url
@@ -164,7 +293,7 @@ export default function OrderTrackingScreen() {
           unit_price: item.unit_price,
           subtotal: item.subtotal,
           product: {
-            name: item.products?.name || 'Unknown Product',
+            name: formatItemName(item.products?.name || 'Unknown Product', item.variant_name),
             image_url: item.products?.image_url || '',
           },
         })),
@@ -182,6 +311,112 @@ export default function OrderTrackingScreen() {
     }
   };
 
+  const fetchRider = async (id: string) => {
+    try {
+      setRider(await fetchOrderRider(id));
+    } catch (error) {
+      console.error('Error fetching rider:', error);
+    }
+  };
+
+  const fetchLatestLocation = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_locations')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('recorded_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) setDeliveryLocation(data);
+    } catch (error) {
+      console.error('Error fetching delivery location:', error);
+    }
+  };
+
+  // Orders placed before coordinates were stored fall back to geocoding the address on the device
+  const resolveDestination = async (currentOrder: Order) => {
+    if (currentOrder.delivery_latitude != null && currentOrder.delivery_longitude != null) {
+      setDestination({
+        latitude: Number(currentOrder.delivery_latitude),
+        longitude: Number(currentOrder.delivery_longitude),
+      });
+      return;
+    }
+
+    try {
+      const [result] = await Location.geocodeAsync(currentOrder.delivery_address);
+      if (result) {
+        setDestination({ latitude: result.latitude, longitude: result.longitude });
+      }
+    } catch (error) {
+      console.error('Delivery address could not be geocoded:', error);
+    }
+  };
+
+  const fetchStatusHistory = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('order_status_history')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setStatusHistory(data || []);
+    } catch (error) {
+      console.error('Error fetching status history:', error);
+    }
+  };
+
+  const fetchDeliveryCode = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('order_delivery_codes')
+        .select('code')
+        .eq('order_id', orderId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setDeliveryCode(data?.code || null);
+    } catch (error) {
+      console.error('Error fetching delivery code:', error);
+    }
+  };
+
+  const fetchCancellationRequest = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('order_cancellation_requests')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setCancellationRequest(data);
+    } catch (error) {
+      console.error('Error fetching cancellation request:', error);
+    }
+  };
+
+  const handleCancelComplete = (result: CancelOrderResult) => {
+    if (result.action === 'requested') {
+      fetchCancellationRequest();
+      Alert.alert('Request Sent', 'Your cancellation request has been sent to the vendor.');
+    } else {
+      Alert.alert(
+        'Order Cancelled',
+        result.refunded
+          ? 'Your order has been cancelled and the payment refunded to your wallet.'
+          : 'Your order has been cancelled.'
+      );
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -204,23 +439,27 @@ export default function OrderTrackingScreen() {
     });
   };
 
-  const getStepTimestamp = (status: OrderStatus): string | null => {
-    if (!order) return null;
-    const timestamps: Record<string, string | null> = {
-      'pending': order.created_at,
-      'confirmed': (order as any).confirmed_at || null,
-      'preparing': (order as any).preparing_at || null,
-      'ready_for_pickup': (order as any).ready_for_pickup_at || null,
-      'out_for_delivery': (order as any).out_for_delivery_at || null,
-      'delivered': (order as any).delivered_at || null,
-    };
-    return timestamps[status];
-  };
+  // Reached steps come from order_status_history; the remaining happy-path steps are shown greyed out
+  const getTimelineSteps = (): TimelineStep[] => {
+    if (!order) return [];
 
-  const getCurrentStepIndex = () => {
-    if (!order) return 0;
-    if (order.status === 'cancelled') return -1;
-    return statusSteps.findIndex((step) => step.status === order.status);
+    const reached: TimelineStep[] = statusHistory.map((entry) => ({
+      key: entry.id,
+      status: entry.to_status,
+      reached: true,
+      time: entry.created_at,
+      note: entry.note,
+    }));
+
+    if (order.status === 'delivered' || order.status === 'cancelled') return reached;
+
+    const skipped: OrderStatus = order.delivery_type === 'pickup' ? 'out_for_delivery' : 'ready_for_pickup';
+    const upcoming: TimelineStep[] = statusSteps
+      .slice(statusSteps.indexOf(order.status) + 1)
+      .filter((status) => status !== skipped)
+      .map((status) => ({ key: status, status, reached: false }));
+
+    return [...reached, ...upcoming];
   };
 
   if (loading) {
@@ -239,8 +478,11 @@ export default function OrderTrackingScreen() {
     );
   }
 
-  const currentStepIndex = getCurrentStepIndex();
+  const timelineSteps = getTimelineSteps();
+  const currentStepIndex = timelineSteps.reduce((last, step, index) => (step.reached ? index : last), -1);
   const isCancelled = order.status === 'cancelled';
+  const cancellationMode = getCancellationMode(order.status);
+  const hasPendingRequest = cancellationRequest?.status === 'pending';
 
   return (
     <View style={styles.container}>
@@ -274,19 +516,86 @@ export default function OrderTrackingScreen() {
             <Text style={[styles.currentStatusText, { color: statusColors[order.status] }]}>
               {statusLabels[order.status]}
             </Text>
+            {isCancelled && order.cancelled_at && (
+              <Text style={styles.cancelledAtText}>{formatDate(order.cancelled_at)}</Text>
+            )}
           </View>
+          {isCancelled && order.cancellation_reason && (
+            <View style={styles.cancellationInfo}>
+              <Text style={styles.cancellationLabel}>Reason</Text>
+              <Text style={styles.cancellationText}>{order.cancellation_reason}</Text>
+              {order.payment_status === 'refunded' && (
+                <Text style={styles.refundText}>
+                  ₦{Number(order.refunded_amount || order.total).toFixed(2)} was refunded
+                </Text>
+              )}
+            </View>
+          )}
         </View>
 
-        {!isCancelled && (
+        {awaitingDelivery && deliveryCode && (
+          <View style={styles.deliveryCodeCard}>
+            <View style={styles.deliveryCodeHeader}>
+              <KeyRound size={18} color="#ff8c00" />
+              <Text style={styles.deliveryCodeTitle}>Delivery Code</Text>
+            </View>
+            <Text style={styles.deliveryCodeValue}>{deliveryCode}</Text>
+            <Text style={styles.deliveryCodeText}>
+              Give this code to your rider only once you have received your order.
+            </Text>
+          </View>
+        )}
+
+        {!isCancelled && cancellationRequest && cancellationRequest.status !== 'approved' && (
+          <View
+            style={[
+              styles.requestBanner,
+              cancellationRequest.status === 'rejected' && styles.requestBannerRejected,
+            ]}
+          >
+            <AlertCircle
+              size={20}
+              color={cancellationRequest.status === 'rejected' ? '#b91c1c' : '#b45309'}
+            />
+            <View style={styles.requestBannerContent}>
+              <Text style={styles.requestBannerTitle}>
+                {hasPendingRequest
+                  ? 'Cancellation requested'
+                  : 'Cancellation request declined'}
+              </Text>
+              <Text style={styles.requestBannerText}>
+                {hasPendingRequest
+                  ? 'Waiting for the vendor to respond to your request.'
+                  : cancellationRequest.vendor_response || 'The vendor is going ahead with your order.'}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {cancellationMode && !hasPendingRequest && (
+          <TouchableOpacity
+            style={styles.cancelOrderButton}
+            onPress={() => setShowCancelModal(true)}
+            activeOpacity={0.7}
+          >
+            <XCircle size={18} color="#ef4444" />
+            <Text style={styles.cancelOrderButtonText}>
+              {cancellationMode === 'request' ? 'Request Cancellation' : 'Cancel Order'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {timelineSteps.length > 0 && (
           <View style={styles.trackingContainer}>
-            {statusSteps.map((step, index) => {
-              const StepIcon = step.icon;
-              const isCompleted = index <= currentStepIndex;
+            {timelineSteps.map((step, index) => {
+              const StepIcon = statusIcons[step.status];
+              const isCompleted = step.reached;
               const isCurrent = index === currentStepIndex;
+              const isCancelledStep = step.status === 'cancelled';
 
               return (
                 <View
-                  key={step.status}
+                  key={step.key}
                   style={styles.stepContainer}
                 >
                   <View style={styles.stepIndicator}>
@@ -295,6 +604,7 @@ export default function OrderTrackingScreen() {
                         styles.stepIconContainer,
                         isCompleted && styles.stepIconCompleted,
                         isCurrent && styles.stepIconCurrent,
+                        isCancelledStep && styles.stepIconCancelled,
                       ]}
                     >
                       <StepIcon
@@ -302,11 +612,11 @@ export default function OrderTrackingScreen() {
                         color={isCompleted ? '#ffffff' : '#94a3b8'}
                       />
                     </View>
-                    {index < statusSteps.length - 1 && (
+                    {index < timelineSteps.length - 1 && (
                       <View
                         style={[
                           styles.stepLine,
-                          isCompleted && styles.stepLineCompleted,
+                          index < currentStepIndex && styles.stepLineCompleted,
                         ]}
                       />
                     )}
@@ -317,16 +627,20 @@ export default function OrderTrackingScreen() {
                         styles.stepLabel,
                         isCompleted && styles.stepLabelCompleted,
                         isCurrent && styles.stepLabelCurrent,
+                        isCurrent && isCancelledStep && styles.stepLabelCancelled,
                       ]}
                     >
-                      {step.label}
+                      {statusLabels[step.status]}
                     </Text>
-                    {isCompleted && getStepTimestamp(step.status) && (
+                    {step.time && (
                       <Text style={styles.stepTime}>
-                        {formatStepTime(getStepTimestamp(step.status))}
+                        {formatStepTime(step.time)}
                       </Text>
                     )}
-                    {isCurrent && (
+                    {step.note && (
+                      <Text style={styles.stepNote}>{step.note}</Text>
+                    )}
+                    {isCurrent && !isCancelledStep && (
                       <Text style={styles.currentStepBadge}>Current Status</Text>
                     )}
                   </View>
@@ -348,6 +662,16 @@ export default function OrderTrackingScreen() {
                 {order.delivery_type === 'delivery' ? 'Home Delivery' : 'Pickup'}
               </Text>
             </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{order.delivery_type === 'delivery' ? 'Delivery Time' : 'Pickup Time'}</Text>
+              <Text style={styles.infoValue}>
+                {order.scheduled_slot_start && order.scheduled_slot_end
+                  ? storeTimezone
+                    ? formatSlot(order.scheduled_slot_start, order.scheduled_slot_end, storeTimezone)
+                    : 'Loading...'
+                  : 'As soon as possible'}
+              </Text>
+            </View>
             <View style={styles.infoRow}>
               <Text style={styles.infoLabel}>Address</Text>
               <Text style={styles.infoValue}>{order.delivery_address}</Text>
@@ -355,6 +679,106 @@ export default function OrderTrackingScreen() {
           </View>
         </View>
 
+        {isLiveTracking && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Navigation size={20} color="#ff8c00" />
+              <Text style={styles.cardTitle}>Live Tracking</Text>
+            </View>
+            <View style={styles.cardContent}>
+              {deliveryLocation ? (
+                (() => {
+                  const riderPosition = {
+                    latitude: Number(deliveryLocation.latitude),
+                    longitude: Number(deliveryLocation.longitude),
+                  };
+                  const remainingKm = destination ? distanceKm(riderPosition, destination) : null;
+                  const updatedAgo = now - new Date(deliveryLocation.recorded_at).getTime();
+                  const isStale = updatedAgo > STALE_LOCATION_MS;
+
+                  return (
+                    <>
+                      <DeliveryLocationMap rider={riderPosition} destination={destination} />
+                      <View style={styles.trackingStats}>
+                        {remainingKm !== null && (
+                          <>
+                            <View style={styles.infoRow}>
+                              <Text style={styles.infoLabel}>Distance Away</Text>
+                              <Text style={styles.infoValue}>{formatDistance(remainingKm)}</Text>
+                            </View>
+                            <View style={styles.infoRow}>
+                              <Text style={styles.infoLabel}>Estimated Arrival</Text>
+                              <Text style={styles.infoValue}>
+                                ~{estimateEtaMinutes(remainingKm, isStale ? null : deliveryLocation.speed_mps)} min
+                              </Text>
+                            </View>
+                          </>
+                        )}
+                        <View style={styles.infoRow}>
+                          <Text style={styles.infoLabel}>Last Updated</Text>
+                          <Text style={styles.infoValue}>
+                            {updatedAgo < 60000 ? 'Just now' : `${Math.floor(updatedAgo / 60000)} min ago`}
+                          </Text>
+                        </View>
+                      </View>
+                      {isStale && (
+                        <Text style={styles.trackingNote}>
+                          Your rider's location hasn't updated recently. It will refresh once their
+                          connection is back.
+                        </Text>
+                      )}
+                    </>
+                  );
+                })()
+              ) : (
+                <Text style={styles.trackingNote}>
+                  Your order is on the way. Its live location will appear here once your rider
+                  starts sharing it.
+                </Text>
+              )}
+            </View>
+          </View>
+        )}
+
+        {order.delivery_type === 'delivery' && order.status !== 'cancelled' && (
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Bike size={20} color="#ff8c00" />
+              <Text style={styles.cardTitle}>Your Rider</Text>
+            </View>
+            <View style={styles.cardContent}>
+              {rider ? (
+                <>
+                  <View style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>Name</Text>
+                    <Text style={styles.infoValue}>{rider.full_name}</Text>
+                  </View>
+                  {order.delivery_confirmed_at && (
+                    <View style={styles.infoRow}>
+                      <Text style={styles.infoLabel}>Handed Over</Text>
+                      <Text style={styles.infoValue}>{formatDate(order.delivery_confirmed_at)}</Text>
+                    </View>
+                  )}
+                  {rider.phone && (
+                    <TouchableOpacity
+                      style={styles.riderCallButton}
+                      onPress={() => Linking.openURL(`tel:${rider.phone}`)}
+                      activeOpacity={0.7}
+                    >
+                      <Phone size={16} color="#ff8c00" />
+                      <Text style={styles.riderCallText}>Call {rider.phone}</Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              ) : (
+                <Text style={styles.riderPendingText}>
+                  A rider will be assigned once the store is preparing your order.
+                </Text>
+              )}
+            </View>
+          </View>
+        )}
+
         <View style={styles.card}>
           <View style={styles.cardHeader}>
             <Package size={20} color="#ff8c00" />
@@ -441,6 +865,13 @@ export default function OrderTrackingScreen() {
 
         <View style={styles.bottomSpacer} />
       </ScrollView>
+
+      <CancelOrderModal
+        visible={showCancelModal}
+        order={order}
+        onClose={() => setShowCancelModal(false)}
+        onComplete={handleCancelComplete}
+      />
     </View>
   );
 }
@@ -504,6 +935,84 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.displayBold,
     letterSpacing: 0.3,
   },
+  cancelledAtText: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+    marginTop: 6,
+  },
+  cancellationInfo: {
+    marginHorizontal: 18,
+    marginBottom: 18,
+    padding: 12,
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+  },
+  cancellationLabel: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#b91c1c',
+    marginBottom: 4,
+  },
+  cancellationText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#7f1d1d',
+  },
+  refundText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#059669',
+    marginTop: 8,
+  },
+  requestBanner: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    padding: 14,
+    backgroundColor: '#fffbeb',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  requestBannerRejected: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  requestBannerContent: {
+    flex: 1,
+  },
+  requestBannerTitle: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+  },
+  requestBannerText: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#4b5563',
+    marginTop: 2,
+  },
+  cancelOrderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    paddingVertical: 14,
+    backgroundColor: '#fef2f2',
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  cancelOrderButtonText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#ef4444',
+  },
   header: {
     backgroundColor: '#ff8c00',
     paddingBottom: 24,
@@ -600,6 +1109,20 @@ const styles = StyleSheet.create({
   stepLineCompleted: {
     backgroundColor: '#ff8c00',
   },
+  stepIconCancelled: {
+    backgroundColor: '#ef4444',
+    borderColor: '#ef4444',
+    shadowColor: '#ef4444',
+  },
+  stepLabelCancelled: {
+    color: '#ef4444',
+  },
+  stepNote: {
+    marginTop: 4,
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#4b5563',
+  },
   stepContent: {
     flex: 1,
     paddingTop: 8,
@@ -679,6 +1202,68 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     lineHeight: 20,
   },
+  deliveryCodeCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 18,
+    padding: 20,
+    marginHorizontal: 16,
+    marginBottom: 16,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#fed7aa',
+  },
+  deliveryCodeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  deliveryCodeTitle: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1a1a1a',
+  },
+  deliveryCodeValue: {
+    fontSize: 36,
+    fontFamily: Fonts.bold,
+    color: '#ff8c00',
+    letterSpacing: 12,
+    marginVertical: 8,
+  },
+  deliveryCodeText: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+  trackingStats: {
+    marginTop: 16,
+  },
+  trackingNote: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    lineHeight: 20,
+  },
+  riderCallButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  riderCallText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
+  riderPendingText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    lineHeight: 20,
+  },
   paymentContainer: {
     flex: 1,
     flexDirection: 'row',
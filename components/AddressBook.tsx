@@ -0,0 +1,448 @@
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator, Modal } from 'react-native';
+import { MapPin, Plus, Edit, Trash2, Star, Phone } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { formatAddressLines } from '@/lib/deliveryAddress';
+import { DeliveryAddress } from '@/types/database';
+import DeliveryAddressForm from '@/components/DeliveryAddressForm';
+import { Fonts } from '@/constants/fonts';
+
+export default function AddressBook() {
+  const { profile } = useAuth();
+  const { showToast } = useToast();
+  const [addresses, setAddresses] = useState<DeliveryAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<DeliveryAddress | null>(null);
+  const [addressToDelete, setAddressToDelete] = useState<DeliveryAddress | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [updatingDefault, setUpdatingDefault] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (profile) {
+      fetchAddresses();
+    }
+  }, [profile]);
+
+  const fetchAddresses = async () => {
+    if (!profile) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('delivery_addresses')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('is_default', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setAddresses(data || []);
+    } catch (error) {
+      console.error('Error fetching addresses:', error);
+      showToast('Failed to load your addresses', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openForm = (address: DeliveryAddress | null) => {
+    setEditingAddress(address);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingAddress(null);
+  };
+
+  const handleSaved = () => {
+    closeForm();
+    fetchAddresses();
+  };
+
+  const setDefaultAddress = async (address: DeliveryAddress) => {
+    try {
+      setUpdatingDefault(address.id);
+
+      const { error } = await supabase
+        .from('delivery_addresses')
+        .update({ is_default: true, updated_at: new Date().toISOString() })
+        .eq('id', address.id);
+
+      if (error) throw error;
+
+      showToast('Default address updated', 'success');
+      await fetchAddresses();
+    } catch (error) {
+      console.error('Error setting default address:', error);
+      showToast('Failed to update default address', 'error');
+    } finally {
+      setUpdatingDefault(null);
+    }
+  };
+
+  // Orders keep their own copy of the address, so deleting it does not change past orders
+  const deleteAddress = async () => {
+    if (!addressToDelete) return;
+
+    try {
+      setDeleting(true);
+
+      const { error } = await supabase
+        .from('delivery_addresses')
+        .delete()
+        .eq('id', addressToDelete.id);
+
+      if (error) throw error;
+
+      showToast('Address deleted', 'success');
+      setAddressToDelete(null);
+      await fetchAddresses();
+    } catch (error) {
+      console.error('Error deleting address:', error);
+      showToast('Failed to delete address', 'error');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#ff8c00" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>My Addresses</Text>
+          <TouchableOpacity style={styles.addButton} onPress={() => openForm(null)} activeOpacity={0.8}>
+            <Plus size={16} color="#ffffff" />
+            <Text style={styles.addButtonText}>Add Address</Text>
+          </TouchableOpacity>
+        </View>
+
+        {addresses.length === 0 ? (
+          <View style={styles.emptyState}>
+            <MapPin size={40} color="#d6d3d1" />
+            <Text style={styles.emptyTitle}>No saved addresses</Text>
+            <Text style={styles.emptyText}>Save an address to check out faster with delivery.</Text>
+          </View>
+        ) : (
+          addresses.map((address) => (
+            <View key={address.id} style={[styles.addressCard, address.is_default && styles.addressCardDefault]}>
+              <View style={styles.addressTop}>
+                <Text style={styles.addressLabel}>{address.label || 'Address'}</Text>
+                {address.is_default && (
+                  <View style={styles.defaultBadge}>
+                    <Text style={styles.defaultBadgeText}>Default</Text>
+                  </View>
+                )}
+              </View>
+              {address.recipient_name ? (
+                <Text style={styles.recipientText}>{address.recipient_name}</Text>
+              ) : null}
+              {address.phone ? (
+                <View style={styles.phoneRow}>
+                  <Phone size={13} color="#78716c" />
+                  <Text style={styles.phoneText}>{address.phone}</Text>
+                </View>
+              ) : null}
+              <Text style={styles.addressText}>{formatAddressLines(address)}</Text>
+              {(!address.recipient_name || !address.phone) && (
+                <Text style={styles.incompleteText}>Add a recipient name and phone number to deliver here</Text>
+              )}
+
+              <View style={styles.actions}>
+                {!address.is_default && (
+                  <TouchableOpacity
+                    style={styles.actionBtn}
+                    onPress={() => setDefaultAddress(address)}
+                    disabled={updatingDefault !== null}
+                  >
+                    {updatingDefault === address.id ? (
+                      <ActivityIndicator size="small" color="#ff8c00" />
+                    ) : (
+                      <Star size={15} color="#ff8c00" />
+                    )}
+                    <Text style={styles.actionText}>Set Default</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.actionBtn} onPress={() => openForm(address)}>
+                  <Edit size={15} color="#ff8c00" />
+                  <Text style={styles.actionText}>Edit</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionBtn} onPress={() => setAddressToDelete(address)}>
+                  <Trash2 size={15} color="#ef4444" />
+                  <Text style={[styles.actionText, styles.deleteText]}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      <Modal visible={showForm} animationType="slide" onRequestClose={closeForm}>
+        <DeliveryAddressForm address={editingAddress} onSaved={handleSaved} onCancel={closeForm} />
+      </Modal>
+
+      <Modal
+        visible={!!addressToDelete}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setAddressToDelete(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.confirmationModal}>
+            <View style={styles.confirmationIcon}>
+              <Trash2 size={28} color="#ef4444" strokeWidth={2} />
+            </View>
+            <Text style={styles.confirmationTitle}>Delete Address</Text>
+            <Text style={styles.confirmationMessage}>
+              Remove {addressToDelete?.label || 'this address'} from your address book? Past orders keep their delivery details.
+            </Text>
+            <View style={styles.confirmationButtons}>
+              <TouchableOpacity
+                style={styles.confirmCancelBtn}
+                onPress={() => setAddressToDelete(null)}
+                disabled={deleting}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.confirmCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.confirmDeleteBtn}
+                onPress={deleteAddress}
+                disabled={deleting}
+                activeOpacity={0.85}
+              >
+                {deleting ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.confirmDeleteText}>Delete</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#faf8f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontFamily: Fonts.headingBold,
+    color: '#1a1a1a',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#ff8c00',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontFamily: Fonts.groteskSemiBold,
+    color: '#ffffff',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 8,
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontFamily: Fonts.heading,
+    color: '#1a1a1a',
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: Fonts.grotesk,
+    color: '#78716c',
+    textAlign: 'center',
+  },
+  addressCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#f0ebe4',
+  },
+  addressCardDefault: {
+    borderColor: '#fed7aa',
+  },
+  addressTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  addressLabel: {
+    fontSize: 16,
+    fontFamily: Fonts.heading,
+    color: '#1a1a1a',
+  },
+  defaultBadge: {
+    backgroundColor: '#fff7ed',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  defaultBadgeText: {
+    fontSize: 11,
+    fontFamily: Fonts.groteskSemiBold,
+    color: '#e67a00',
+  },
+  recipientText: {
+    fontSize: 14,
+    fontFamily: Fonts.groteskSemiBold,
+    color: '#44403c',
+  },
+  phoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 2,
+  },
+  phoneText: {
+    fontSize: 13,
+    fontFamily: Fonts.grotesk,
+    color: '#78716c',
+  },
+  addressText: {
+    fontSize: 14,
+    fontFamily: Fonts.grotesk,
+    color: '#57534e',
+    marginTop: 6,
+    lineHeight: 20,
+  },
+  incompleteText: {
+    fontSize: 12,
+    fontFamily: Fonts.groteskMedium,
+    color: '#d97706',
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f5f5f4',
+  },
+  actionBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  actionText: {
+    fontSize: 13,
+    fontFamily: Fonts.groteskSemiBold,
+    color: '#ff8c00',
+  },
+  deleteText: {
+    color: '#ef4444',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  confirmationModal: {
+    backgroundColor: '#ffffff',
+    borderRadius: 24,
+    padding: 28,
+    width: '100%',
+    maxWidth: 400,
+  },
+  confirmationIcon: {
+    alignSelf: 'center',
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#fef2f2',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  confirmationTitle: {
+    fontSize: 22,
+    fontFamily: Fonts.headingBold,
+    color: '#1a1a1a',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  confirmationMessage: {
+    fontSize: 15,
+    fontFamily: Fonts.grotesk,
+    color: '#78716c',
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  confirmationButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  confirmCancelBtn: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f5f5f4',
+    borderWidth: 1,
+    borderColor: '#e7e5e4',
+  },
+  confirmCancelText: {
+    fontSize: 15,
+    fontFamily: Fonts.groteskSemiBold,
+    color: '#78716c',
+  },
+  confirmDeleteBtn: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#ef4444',
+  },
+  confirmDeleteText: {
+    fontSize: 15,
+    fontFamily: Fonts.groteskSemiBold,
+    color: '#ffffff',
+  },
+});
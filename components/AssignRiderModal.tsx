@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { Bike, CheckCircle } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { AvailableRider, Order } from '@/types/database';
+import { isRiderDelivery } from '@/lib/orderStatus';
+import { VEHICLE_LABELS } from '@/lib/riders';
+import { Fonts } from '@/constants/fonts';
+
+// Riders can be assigned to delivery orders until they are delivered or cancelled.
+export function canAssignRider(order: Order): boolean {
+  return isRiderDelivery(order) && order.status !== 'delivered' && order.status !== 'cancelled';
+}
+
+interface AssignRiderModalProps {
+  visible: boolean;
+  order: Order | null;
+  onClose: () => void;
+  onComplete?: (order: Order) => void;
+}
+
+export default function AssignRiderModal({
+  visible,
+  order,
+  onClose,
+  onComplete,
+}: AssignRiderModalProps) {
+  const [riders, setRiders] = useState<AvailableRider[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedRiderId, setSelectedRiderId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (visible && order) {
+      setSelectedRiderId(order.rider_id || null);
+      setError('');
+      fetchRiders();
+    }
+  }, [visible, order?.id]);
+
+  const fetchRiders = async () => {
+    try {
+      setLoading(true);
+
+      const { data: result, error: ridersError } = await supabase.rpc('get_available_riders');
+
+      if (ridersError) throw ridersError;
+
+      if (!result?.success) {
+        setError(result?.error || 'Failed to load riders');
+        return;
+      }
+
+      setRiders(result.riders || []);
+    } catch (err) {
+      console.error('Error fetching riders:', err);
+      setError('Failed to load riders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!order) return null;
+
+  const assignRider = async (riderId: string | null) => {
+    try {
+      setSubmitting(true);
+      setError('');
+
+      const { data: result, error: assignError } = await supabase.rpc('assign_order_rider', {
+        p_order_id: order.id,
+        p_rider_id: riderId,
+      });
+
+      if (assignError) throw assignError;
+
+      if (!result?.success) {
+        setError(result?.error || 'Failed to assign rider');
+        return;
+      }
+
+      onComplete?.(result.order);
+      onClose();
+    } catch (err: any) {
+      console.error('Error assigning rider:', err);
+      setError(err.message || 'Failed to assign rider');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!selectedRiderId) {
+      setError('Please choose a rider');
+      return;
+    }
+
+    assignRider(selectedRiderId);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <View style={styles.titleRow}>
+              <Bike size={22} color="#ff8c00" />
+              <Text style={styles.modalTitle}>Assign Rider</Text>
+            </View>
+            <Text style={styles.orderNumber}>
+              Order #{order.order_number} · {order.delivery_address}
+            </Text>
+
+            {loading ? (
+              <ActivityIndicator color="#ff8c00" style={{ marginVertical: 24 }} />
+            ) : riders.length === 0 ? (
+              <Text style={styles.emptyText}>
+                No riders are available yet. Riders appear here once they sign up as a rider.
+              </Text>
+            ) : (
+              <View style={styles.ridersList}>
+                {riders.map((rider) => {
+                  const isSelected = selectedRiderId === rider.id;
+                  const details = [
+                    rider.vehicle_type ? VEHICLE_LABELS[rider.vehicle_type] : null,
+                    rider.vehicle_plate_number,
+                    rider.phone,
+                  ].filter(Boolean);
+
+                  return (
+                    <TouchableOpacity
+                      key={rider.id}
+                      style={[styles.riderRow, isSelected && styles.riderRowActive]}
+                      onPress={() => setSelectedRiderId(rider.id)}
+                      disabled={submitting}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.riderInfo}>
+                        <Text style={styles.riderName}>
+                          {rider.full_name}
+                          {order.rider_id === rider.id ? ' (current)' : ''}
+                        </Text>
+                        {details.length > 0 && (
+                          <Text style={styles.riderMeta} numberOfLines={1}>
+                            {details.join(' · ')}
+                          </Text>
+                        )}
+                        <Text style={styles.riderMeta}>
+                          {rider.active_deliveries === 0
+                            ? 'No active deliveries'
+                            : `${rider.active_deliveries} active ${rider.active_deliveries === 1 ? 'delivery' : 'deliveries'}`}
+                        </Text>
+                      </View>
+                      {isSelected && <CheckCircle size={20} color="#ff8c00" />}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+
+            {order.rider_id && (
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => assignRider(null)}
+                disabled={submitting}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.removeButtonText}>Remove Current Rider</Text>
+              </TouchableOpacity>
+            )}
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={submitting}>
+                <Text style={styles.cancelButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.confirmButton,
+                  (submitting || loading || selectedRiderId === (order.rider_id || null)) && styles.buttonDisabled,
+                ]}
+                onPress={handleSubmit}
+                disabled={submitting || loading || selectedRiderId === (order.rider_id || null)}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.confirmButtonText}>Assign</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '90%',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontFamily: Fonts.bold,
+    color: '#1f2937',
+  },
+  orderNumber: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  ridersList: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  riderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  riderRowActive: {
+    borderColor: '#ff8c00',
+    backgroundColor: '#fff7ed',
+  },
+  riderInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  riderName: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+  },
+  riderMeta: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  removeButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  removeButtonText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#ef4444',
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#ef4444',
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#ff8c00',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,336 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { XCircle } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { Order, OrderStatus } from '@/types/database';
+import { Fonts } from '@/constants/fonts';
+
+export const CANCELLATION_REASONS = [
+  'Changed my mind',
+  'Ordered by mistake',
+  'Found a better price elsewhere',
+  'Delivery is taking too long',
+  'Need to change items or quantity',
+  'Need to change delivery address',
+  'Other',
+];
+
+export type CancellationMode = 'cancel' | 'request';
+
+// Customers cancel outright until the vendor starts preparing, then they can only ask.
+export function getCancellationMode(status: OrderStatus): CancellationMode | null {
+  if (status === 'pending' || status === 'confirmed') return 'cancel';
+  if (status === 'preparing') return 'request';
+  return null;
+}
+
+export interface CancelOrderResult {
+  action: 'cancelled' | 'requested';
+  refunded: boolean;
+}
+
+interface CancelOrderModalProps {
+  visible: boolean;
+  order: Order | null;
+  onClose: () => void;
+  onComplete?: (result: CancelOrderResult) => void;
+}
+
+export default function CancelOrderModal({
+  visible,
+  order,
+  onClose,
+  onComplete,
+}: CancelOrderModalProps) {
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setReason('');
+      setDetails('');
+      setError('');
+    }
+  }, [visible]);
+
+  if (!order) return null;
+
+  const mode = getCancellationMode(order.status);
+  const willRefund =
+    order.payment_status === 'completed' &&
+    (order.payment_method === 'wallet' || order.payment_method === 'online');
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      setError('Please choose a reason');
+      return;
+    }
+
+    if (reason === 'Other' && !details.trim()) {
+      setError('Please tell us why you are cancelling');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+
+      const { data: result, error: rpcError } = await supabase.rpc('cancel_order', {
+        p_order_id: order.id,
+        p_reason: reason,
+        p_details: details.trim() || null,
+      });
+
+      if (rpcError) throw rpcError;
+
+      if (!result?.success) {
+        setError(result?.error || 'Failed to cancel order');
+        return;
+      }
+
+      onComplete?.({
+        action: result.action,
+        refunded: !!result.refunded,
+      });
+      onClose();
+    } catch (err: any) {
+      console.error('Error cancelling order:', err);
+      setError(err.message || 'Failed to cancel order');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <View style={styles.titleRow}>
+              <XCircle size={24} color="#ef4444" />
+              <Text style={styles.modalTitle}>
+                {mode === 'request' ? 'Request Cancellation' : 'Cancel Order'}
+              </Text>
+            </View>
+            <Text style={styles.orderNumber}>Order #{order.order_number}</Text>
+
+            {mode === 'request' ? (
+              <Text style={styles.modalNote}>
+                The vendor has started preparing this order. Your request will be sent to them and
+                the order is only cancelled if they approve it.
+              </Text>
+            ) : willRefund ? (
+              <Text style={styles.modalNote}>
+                ₦{(order.total - Number(order.refunded_amount || 0)).toFixed(2)} will be refunded to your wallet immediately.
+              </Text>
+            ) : null}
+
+            <Text style={styles.inputLabel}>Why are you cancelling?</Text>
+            {CANCELLATION_REASONS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.reasonOption, reason === option && styles.reasonOptionSelected]}
+                onPress={() => setReason(option)}
+                activeOpacity={0.7}
+              >
+                <View style={[styles.radio, reason === option && styles.radioSelected]}>
+                  {reason === option && <View style={styles.radioDot} />}
+                </View>
+                <Text style={[styles.reasonText, reason === option && styles.reasonTextSelected]}>
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+
+            <TextInput
+              style={styles.input}
+              value={details}
+              onChangeText={setDetails}
+              placeholder={reason === 'Other' ? 'Tell us more (required)' : 'Anything else? (optional)'}
+              placeholderTextColor="#9ca3af"
+              multiline
+              maxLength={300}
+            />
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={submitting}>
+                <Text style={styles.cancelButtonText}>Keep Order</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmButton, submitting && styles.buttonDisabled]}
+                onPress={handleSubmit}
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.confirmButtonText}>
+                    {mode === 'request' ? 'Send Request' : 'Cancel Order'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontFamily: Fonts.bold,
+    color: '#1f2937',
+  },
+  orderNumber: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  modalNote: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#92400e',
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    lineHeight: 19,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  reasonOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 8,
+  },
+  reasonOptionSelected: {
+    borderColor: '#ff8c00',
+    backgroundColor: '#fff7ed',
+  },
+  radio: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 2,
+    borderColor: '#d1d5db',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  radioSelected: {
+    borderColor: '#ff8c00',
+  },
+  radioDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#ff8c00',
+  },
+  reasonText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#374151',
+  },
+  reasonTextSelected: {
+    color: '#c2410c',
+    fontFamily: Fonts.semiBold,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#1f2937',
+    minHeight: 70,
+    textAlignVertical: 'top',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#ef4444',
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#ef4444',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,424 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  ScrollView,
+  Image,
+  Platform,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Camera, CheckCircle, KeyRound, RotateCcw, X } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { Order } from '@/types/database';
+import { DELIVERY_PHOTOS_BUCKET } from '@/lib/deliveryTracking';
+import { Fonts } from '@/constants/fonts';
+
+interface ConfirmDeliveryModalProps {
+  visible: boolean;
+  order: Pick<Order, 'id' | 'order_number'> | null;
+  customerName?: string;
+  onClose: () => void;
+  onComplete?: (order: Order) => void;
+}
+
+export default function ConfirmDeliveryModal({
+  visible,
+  order,
+  customerName,
+  onClose,
+  onComplete,
+}: ConfirmDeliveryModalProps) {
+  const cameraRef = useRef<CameraView>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [code, setCode] = useState('');
+  const [showCamera, setShowCamera] = useState(false);
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [uploadedPhoto, setUploadedPhoto] = useState<{ uri: string; path: string } | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setCode('');
+      setShowCamera(false);
+      setPhotoUri(null);
+      setUploadedPhoto(null);
+      setError('');
+    }
+  }, [visible, order?.id]);
+
+  if (!order) return null;
+
+  const openCamera = async () => {
+    setError('');
+
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        setError('Allow camera access to take a delivery photo');
+        return;
+      }
+    }
+
+    setShowCamera(true);
+  };
+
+  const takePhoto = async () => {
+    try {
+      setCapturing(true);
+      const picture = await cameraRef.current?.takePictureAsync({ quality: 0.5 });
+      if (picture?.uri) {
+        setPhotoUri(picture.uri);
+        setShowCamera(false);
+      }
+    } catch (err) {
+      console.error('Error taking delivery photo:', err);
+      setError('Failed to take photo');
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  // Uploaded once per photo, so retrying after a wrong code does not upload it again
+  const uploadPhoto = async (uri: string): Promise<string> => {
+    if (uploadedPhoto?.uri === uri) return uploadedPhoto.path;
+
+    const response = await fetch(uri);
+    const fileData = Platform.OS === 'web' ? await response.blob() : await response.arrayBuffer();
+    const path = `${order.id}/${Date.now()}.jpg`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(DELIVERY_PHOTOS_BUCKET)
+      .upload(path, fileData, { contentType: 'image/jpeg', upsert: false });
+
+    if (uploadError) throw uploadError;
+
+    setUploadedPhoto({ uri, path });
+    return path;
+  };
+
+  const handleSubmit = async () => {
+    if (!/^\d{4}$/.test(code)) {
+      setError('Enter the 4-digit code from the customer');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+
+      const photoPath = photoUri ? await uploadPhoto(photoUri) : null;
+
+      const { data: result, error: confirmError } = await supabase.rpc('confirm_delivery', {
+        p_order_id: order.id,
+        p_code: code,
+        p_photo_path: photoPath,
+      });
+
+      if (confirmError) throw confirmError;
+
+      if (!result?.success) {
+        setError(
+          result?.attempts_remaining !== undefined
+            ? `${result.error}. ${result.attempts_remaining} ${result.attempts_remaining === 1 ? 'attempt' : 'attempts'} left`
+            : result?.error || 'Failed to confirm delivery'
+        );
+        return;
+      }
+
+      onComplete?.(result.order);
+      onClose();
+    } catch (err: any) {
+      console.error('Error confirming delivery:', err);
+      setError(err.message || 'Failed to confirm delivery');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <View style={styles.titleRow}>
+              <KeyRound size={22} color="#ff8c00" />
+              <Text style={styles.modalTitle}>Confirm Delivery</Text>
+            </View>
+            <Text style={styles.orderNumber}>
+              Order #{order.order_number}
+              {customerName ? ` · ${customerName}` : ''}
+            </Text>
+
+            <Text style={styles.label}>Delivery code</Text>
+            <Text style={styles.hint}>Ask the customer for the 4-digit code shown in their order tracking.</Text>
+            <TextInput
+              style={styles.codeInput}
+              value={code}
+              onChangeText={(text) => setCode(text.replace(/\D/g, '').slice(0, 4))}
+              placeholder="0000"
+              placeholderTextColor="#d1d5db"
+              keyboardType="number-pad"
+              maxLength={4}
+              editable={!submitting}
+            />
+
+            <Text style={styles.label}>Photo (optional)</Text>
+            {showCamera ? (
+              <View style={styles.cameraContainer}>
+                <CameraView ref={cameraRef} style={styles.camera} facing="back" />
+                <View style={styles.cameraControls}>
+                  <TouchableOpacity style={styles.cameraCancel} onPress={() => setShowCamera(false)}>
+                    <X size={20} color="#ffffff" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.shutterButton}
+                    onPress={takePhoto}
+                    disabled={capturing}
+                    activeOpacity={0.7}
+                  >
+                    {capturing ? <ActivityIndicator color="#ff8c00" /> : <View style={styles.shutterInner} />}
+                  </TouchableOpacity>
+                  <View style={styles.cameraCancel} />
+                </View>
+              </View>
+            ) : photoUri ? (
+              <View>
+                <Image source={{ uri: photoUri }} style={styles.photoPreview} />
+                <View style={styles.photoActions}>
+                  <TouchableOpacity style={styles.photoAction} onPress={openCamera} disabled={submitting}>
+                    <RotateCcw size={16} color="#1a1a1a" />
+                    <Text style={styles.photoActionText}>Retake</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.photoAction} onPress={() => setPhotoUri(null)} disabled={submitting}>
+                    <X size={16} color="#ef4444" />
+                    <Text style={[styles.photoActionText, { color: '#ef4444' }]}>Remove</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.addPhotoButton} onPress={openCamera} activeOpacity={0.7}>
+                <Camera size={18} color="#ff8c00" />
+                <Text style={styles.addPhotoText}>Take a photo of the handover</Text>
+              </TouchableOpacity>
+            )}
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={submitting}>
+                <Text style={styles.cancelButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmButton, (submitting || code.length !== 4) && styles.buttonDisabled]}
+                onPress={handleSubmit}
+                disabled={submitting || code.length !== 4}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <>
+                    <CheckCircle size={18} color="#ffffff" />
+                    <Text style={styles.confirmButtonText}>Delivered</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '90%',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontFamily: Fonts.bold,
+    color: '#1f2937',
+  },
+  orderNumber: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginBottom: 10,
+  },
+  codeInput: {
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingVertical: 14,
+    fontSize: 28,
+    fontFamily: Fonts.bold,
+    color: '#1f2937',
+    textAlign: 'center',
+    letterSpacing: 16,
+    marginBottom: 20,
+  },
+  cameraContainer: {
+    height: 300,
+    borderRadius: 14,
+    overflow: 'hidden',
+    backgroundColor: '#000000',
+    marginTop: 6,
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraControls: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 16,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+  },
+  cameraCancel: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  shutterButton: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: '#ffffff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  shutterInner: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    borderWidth: 2,
+    borderColor: '#ff8c00',
+  },
+  photoPreview: {
+    width: '100%',
+    height: 220,
+    borderRadius: 14,
+    marginTop: 6,
+    backgroundColor: '#f3f4f6',
+  },
+  photoActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 10,
+  },
+  photoAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: '#f3f4f6',
+  },
+  photoActionText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1a1a1a',
+  },
+  addPhotoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: '#fdba74',
+    backgroundColor: '#fff7ed',
+    marginTop: 6,
+  },
+  addPhotoText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#ef4444',
+    marginTop: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  confirmButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#059669',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -1,74 +1,60 @@
-import { useState, useEffect } from 'react';
-import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView, ActivityIndicator, Alert, Switch } from 'react-native';
 import { CheckCircle, MapPin } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
-
-interface DeliveryZone {
-  id: string;
-  name: string;
-  min_distance_km: number;
-  max_distance_km: number;
-  price: number;
-  is_active: boolean;
-}
-
-interface DeliveryPricing {
-  default_base_price: number;
-  default_price_per_km: number;
-  min_delivery_charge: number;
-  max_delivery_distance_km: number;
-  free_delivery_threshold: number;
-}
-
-interface Promotion {
-  id: string;
-  code: string;
-  discount_type: 'percentage' | 'fixed_amount' | 'free_delivery';
-  discount_value: number;
-  min_order_amount: number;
-  max_discount_amount: number;
-}
+import { Coordinates } from '@/lib/deliveryTracking';
+import { DeliveryQuote, fetchDeliveryQuote } from '@/lib/deliveryQuote';
+import { addressCoordinates } from '@/lib/deliveryAddress';
+import { DeliveryAddress } from '@/types/database';
 
 interface DeliveryAddressFormProps {
-  onAddressAdded?: (addressId: string, deliveryPrice: number) => void;
+  // Address book entry to edit; a new address is added when omitted
+  address?: DeliveryAddress | null;
+  onSaved?: (address: DeliveryAddress) => void;
+  onCancel?: () => void;
   orderTotal?: number;
-  storeLocation?: { latitude: number; longitude: number };
+  // Pinned location of the store below; the distance is only shown when it is known
+  storeLocation?: Coordinates | null;
+  // Store the delivery price is quoted from; without it the address is only located
+  vendorId?: string | null;
 }
 
 export default function DeliveryAddressForm({
-  onAddressAdded,
+  address,
+  onSaved,
+  onCancel,
   orderTotal = 0,
-  storeLocation = { latitude: 12.0022, longitude: 8.5919 }
+  storeLocation = null,
+  vendorId = null
 }: DeliveryAddressFormProps) {
   const { profile } = useAuth();
-  const [addressLine1, setAddressLine1] = useState('');
-  const [addressLine2, setAddressLine2] = useState('');
-  const [city, setCity] = useState('');
-  const [state, setState] = useState('');
-  const [postalCode, setPostalCode] = useState('');
-  const [geocodedCoordinates, setGeocodedCoordinates] = useState<{ lat: number; lon: number } | null>(null);
+  const [label, setLabel] = useState(address?.label || '');
+  const [recipientName, setRecipientName] = useState(address?.recipient_name || profile?.full_name || '');
+  const [phone, setPhone] = useState(address?.phone || profile?.phone || '');
+  const [addressLine1, setAddressLine1] = useState(address?.address_line1 || '');
+  const [addressLine2, setAddressLine2] = useState(address?.address_line2 || '');
+  const [city, setCity] = useState(address?.city || '');
+  const [state, setState] = useState(address?.state || '');
+  const [postalCode, setPostalCode] = useState(address?.postal_code || '');
+  const [isDefault, setIsDefault] = useState(address?.is_default ?? false);
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(address ? addressCoordinates(address) : null);
+  const [distanceKm, setDistanceKm] = useState<number | null>(
+    address && coordinates && address.distance_from_store_km != null ? Number(address.distance_from_store_km) : null
+  );
   const [promotionCode, setPromotionCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [geocoding, setGeocoding] = useState(false);
   const [geocodeError, setGeocodeError] = useState('');
-  const [calculatedPrice, setCalculatedPrice] = useState<number | null>(null);
-  const [priceBreakdown, setPriceBreakdown] = useState<any>(null);
-  const [zones, setZones] = useState<DeliveryZone[]>([]);
-  const [pricing, setPricing] = useState<DeliveryPricing | null>(null);
-
-  useEffect(() => {
-    loadZonesAndPricing();
-  }, []);
-
-  const loadZonesAndPricing = async () => {
-    const [zonesResult, pricingResult] = await Promise.all([
-      supabase.from('delivery_zones').select('*').eq('is_active', true),
-      supabase.from('delivery_pricing').select('*').limit(1).maybeSingle()
-    ]);
-
-    if (zonesResult.data) setZones(zonesResult.data);
-    if (pricingResult.data) setPricing(pricingResult.data);
+  const [quoting, setQuoting] = useState(false);
+  const [quote, setQuote] = useState<DeliveryQuote | null>(null);
+
+  // Changing the address means it has to be located again
+  const editAddressField = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setDistanceKm(null);
+    setCoordinates(null);
+    setQuote(null);
   };
 
   const calculateDistanceFromAddress = async () => {
@@ -80,183 +66,132 @@ export default function DeliveryAddressForm({
     try {
       setGeocoding(true);
       setGeocodeError('');
+      setQuote(null);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
 
       const fullAddress = `${addressLine1}, ${addressLine2 ? addressLine2 + ', ' : ''}${city}, ${state}, ${postalCode}`;
-      const origin = `${storeLocation.latitude},${storeLocation.longitude}`;
       const apiUrl = `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/calculate-distance`;
 
       const response = await fetch(apiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${session.access_token}`,
         },
+        // Without a store the address is only located
         body: JSON.stringify({
-          origin,
+          origin: storeLocation ? `${storeLocation.latitude},${storeLocation.longitude}` : undefined,
           destination: fullAddress,
         }),
       });
 
       const data = await response.json();
 
-      if (data.success && data.distanceKm) {
-        setGeocodedCoordinates({ lat: data.distanceKm, lon: 0 });
+      if (data.success && data.destination) {
+        setDistanceKm(typeof data.distanceKm === 'number' ? data.distanceKm : null);
+        setCoordinates({ latitude: data.destination.latitude, longitude: data.destination.longitude });
         setGeocodeError('');
-      } else if (data.error) {
-        setGeocodeError(data.error);
-        setGeocodedCoordinates(null);
       } else {
-        setGeocodeError('Address not found. Please check and try again.');
-        setGeocodedCoordinates(null);
+        setGeocodeError(data.error || 'Address not found. Please check and try again.');
+        setDistanceKm(null);
+        setCoordinates(null);
       }
     } catch (error) {
       console.error('Distance calculation error:', error);
       setGeocodeError('Failed to calculate distance. Please try again.');
-      setGeocodedCoordinates(null);
+      setDistanceKm(null);
+      setCoordinates(null);
     } finally {
       setGeocoding(false);
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371;
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
-
-  const findZoneForDistance = (distance: number): DeliveryZone | null => {
-    const sortedZones = [...zones].sort((a, b) => a.min_distance_km - b.min_distance_km);
-
-    for (const zone of sortedZones) {
-      if (distance >= zone.min_distance_km && distance <= zone.max_distance_km) {
-        return zone;
-      }
-    }
-    return null;
-  };
-
+  // Priced by the same server-side rules as checkout and order placement
   const calculateDeliveryPrice = async () => {
-    if (!geocodedCoordinates) {
+    if (!vendorId) return;
+
+    if (!coordinates) {
       Alert.alert('Error', 'Please calculate distance first by clicking "Locate Address"');
       return;
     }
 
-    const distance = geocodedCoordinates.lat;
-    const zone = findZoneForDistance(distance);
+    try {
+      setQuoting(true);
 
-    if (!zone) {
-      Alert.alert('Error', `Delivery not available for ${distance.toFixed(2)} km. No zone covers this distance.`);
-      return;
-    }
+      const result = await fetchDeliveryQuote({
+        vendorId,
+        orderSubtotal: orderTotal,
+        promoCode: promotionCode.toUpperCase(),
+        coordinates,
+      });
 
-    let totalPrice = zone.price;
-    let zoneName = zone.name;
-
-    let promotionDiscount = 0;
-    let appliedPromotion = null;
-
-    if (promotionCode) {
-      const { data: promo } = await supabase
-        .from('promotions')
-        .select('*')
-        .eq('code', promotionCode.toUpperCase())
-        .eq('is_active', true)
-        .gte('valid_until', new Date().toISOString())
-        .lte('valid_from', new Date().toISOString())
-        .maybeSingle();
-
-      if (promo && orderTotal >= promo.min_order_amount) {
-        if (promo.discount_type === 'free_delivery') {
-          promotionDiscount = totalPrice;
-        } else if (promo.discount_type === 'percentage') {
-          promotionDiscount = (totalPrice * promo.discount_value) / 100;
-          if (promo.max_discount_amount && promotionDiscount > promo.max_discount_amount) {
-            promotionDiscount = promo.max_discount_amount;
-          }
-        } else if (promo.discount_type === 'fixed_amount') {
-          promotionDiscount = promo.discount_value;
-        }
-        appliedPromotion = promo;
+      if (!result.deliverable) {
+        setQuote(null);
+        Alert.alert('Error', result.reason || `Delivery not available for ${Number(result.distance_km).toFixed(2)} km.`);
+        return;
       }
-    }
 
-    if (pricing && orderTotal >= pricing.free_delivery_threshold) {
-      promotionDiscount = totalPrice;
+      setQuote(result);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to calculate delivery price');
+    } finally {
+      setQuoting(false);
     }
-
-    const finalPrice = Math.max(0, totalPrice - promotionDiscount);
-
-    const breakdown = {
-      distance: distance.toFixed(2),
-      zone: zoneName,
-      zonePrice: totalPrice.toFixed(2),
-      subtotal: totalPrice.toFixed(2),
-      promotionDiscount: promotionDiscount.toFixed(2),
-      finalPrice: finalPrice.toFixed(2),
-      appliedPromotion: appliedPromotion?.name || (pricing && orderTotal >= pricing.free_delivery_threshold ? 'Free Delivery Threshold' : null),
-    };
-
-    setCalculatedPrice(finalPrice);
-    setPriceBreakdown(breakdown);
-
-    await supabase.from('delivery_logs').insert([{
-      user_id: profile?.id,
-      action: 'calculate',
-      details: breakdown,
-      zone_id: zone.id,
-      distance_km: distance,
-      base_price: totalPrice,
-      distance_price: 0,
-      promotion_discount: promotionDiscount,
-      final_price: finalPrice,
-    }]);
   };
 
   const saveAddress = async () => {
-    if (!addressLine1 || !city || !state || !postalCode) {
-      Alert.alert('Error', 'Please fill in all required fields');
+    if (!recipientName.trim() || !phone.trim()) {
+      Alert.alert('Error', 'Please provide the recipient name and phone number');
       return;
     }
 
-    if (!geocodedCoordinates) {
-      Alert.alert('Error', 'Please calculate distance first');
+    if (!addressLine1 || !city || !state || !postalCode) {
+      Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
 
-    if (calculatedPrice === null) {
-      Alert.alert('Error', 'Please calculate delivery price first');
+    if (!coordinates) {
+      Alert.alert('Error', 'Please calculate distance first');
       return;
     }
 
     setLoading(true);
 
     try {
-      const distance = geocodedCoordinates.lat;
-      const zone = findZoneForDistance(distance);
-
-      const { data, error } = await supabase
-        .from('delivery_addresses')
-        .insert([{
-          user_id: profile?.id,
-          address_line1: addressLine1,
-          address_line2: addressLine2,
-          city,
-          state,
-          postal_code: postalCode,
-          latitude: null,
-          longitude: null,
-          zone_id: zone?.id,
-          distance_from_store_km: distance,
-          estimated_delivery_price: calculatedPrice,
-        }])
-        .select()
-        .single();
+      const distance = quote ? Number(quote.distance_km) : distanceKm;
+      const price = quote?.final_price ?? address?.estimated_delivery_price ?? null;
+      const fields = {
+        label: label.trim() || null,
+        recipient_name: recipientName.trim(),
+        phone: phone.trim(),
+        address_line1: addressLine1,
+        address_line2: addressLine2,
+        city,
+        state,
+        postal_code: postalCode,
+        latitude: coordinates.latitude,
+        longitude: coordinates.longitude,
+        zone_id: quote ? quote.zone?.id ?? null : address?.zone_id ?? null,
+        distance_from_store_km: distance,
+        estimated_delivery_price: price,
+        // Only ever switched on here; the database clears the previous default
+        ...(isDefault && { is_default: true }),
+      };
+
+      const { data, error } = address
+        ? await supabase
+            .from('delivery_addresses')
+            .update({ ...fields, updated_at: new Date().toISOString() })
+            .eq('id', address.id)
+            .select()
+            .single()
+        : await supabase
+            .from('delivery_addresses')
+            .insert([{ ...fields, user_id: profile?.id }])
+            .select()
+            .single();
 
       if (error) throw error;
 
@@ -264,16 +199,16 @@ export default function DeliveryAddressForm({
         user_id: profile?.id,
         address_id: data.id,
         action: 'address_saved',
-        details: { address: data, price_breakdown: priceBreakdown },
-        zone_id: zone?.id,
+        details: { address: data, quote },
+        zone_id: fields.zone_id,
         distance_km: distance,
-        final_price: calculatedPrice,
+        final_price: price,
       }]);
 
       Alert.alert('Success', 'Delivery address saved successfully');
 
-      if (onAddressAdded) {
-        onAddressAdded(data.id, calculatedPrice);
+      if (onSaved) {
+        onSaved(data);
       }
     } catch (error: any) {
       Alert.alert('Error', error.message || 'Failed to save address');
@@ -285,20 +220,44 @@ export default function DeliveryAddressForm({
   return (
     <ScrollView style={styles.container}>
       <View style={styles.content}>
-        <Text style={styles.title}>Delivery Address</Text>
+        <Text style={styles.title}>{address ? 'Edit Address' : 'New Address'}</Text>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Label (e.g. Home, Work)"
+          value={label}
+          onChangeText={setLabel}
+        />
+
+        <Text style={styles.sectionTitle}>Recipient</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Full Name *"
+          value={recipientName}
+          onChangeText={setRecipientName}
+        />
+
+        <TextInput
+          style={styles.input}
+          placeholder="Phone Number *"
+          value={phone}
+          onChangeText={setPhone}
+          keyboardType="phone-pad"
+        />
 
+        <Text style={styles.sectionTitle}>Address</Text>
         <TextInput
           style={styles.input}
           placeholder="Address Line 1 *"
           value={addressLine1}
-          onChangeText={setAddressLine1}
+          onChangeText={editAddressField(setAddressLine1)}
         />
 
         <TextInput
           style={styles.input}
           placeholder="Address Line 2 (Optional)"
           value={addressLine2}
-          onChangeText={setAddressLine2}
+          onChangeText={editAddressField(setAddressLine2)}
         />
 
         <View style={styles.row}>
@@ -306,14 +265,14 @@ export default function DeliveryAddressForm({
             style={[styles.input, styles.halfInput]}
             placeholder="City *"
             value={city}
-            onChangeText={setCity}
+            onChangeText={editAddressField(setCity)}
           />
 
           <TextInput
             style={[styles.input, styles.halfInput]}
             placeholder="State *"
             value={state}
-            onChangeText={setState}
+            onChangeText={editAddressField(setState)}
           />
         </View>
 
@@ -321,7 +280,7 @@ export default function DeliveryAddressForm({
           style={styles.input}
           placeholder="Postal Code *"
           value={postalCode}
-          onChangeText={setPostalCode}
+          onChangeText={editAddressField(setPostalCode)}
         />
 
         <TouchableOpacity
@@ -345,69 +304,111 @@ export default function DeliveryAddressForm({
           </View>
         )}
 
-        {geocodedCoordinates && !geocoding && (
+        {coordinates && !geocoding && (
           <View style={styles.successCard}>
             <CheckCircle size={20} color="#10b981" />
             <Text style={styles.successText}>
-              Distance calculated: {geocodedCoordinates.lat.toFixed(2)} km from store
+              {distanceKm !== null ? `Distance calculated: ${distanceKm.toFixed(2)} km from store` : 'Address located'}
             </Text>
           </View>
         )}
 
-        <Text style={styles.sectionTitle}>Promotion Code (Optional)</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="Enter promotion code"
-          value={promotionCode}
-          onChangeText={setPromotionCode}
-          autoCapitalize="characters"
-        />
-
-        <TouchableOpacity
-          style={styles.calculateButton}
-          onPress={calculateDeliveryPrice}
-        >
-          <Text style={styles.calculateButtonText}>Calculate Delivery Price</Text>
-        </TouchableOpacity>
+        {vendorId && !storeLocation && (
+          <View style={styles.errorCard}>
+            <Text style={styles.errorText}>
+              This store has not set its store location yet, so delivery to this address cannot be priced.
+            </Text>
+          </View>
+        )}
 
-        {priceBreakdown && (
-          <View style={styles.breakdownCard}>
-            <Text style={styles.breakdownTitle}>Price Breakdown</Text>
-            <View style={styles.breakdownRow}>
-              <Text style={styles.breakdownLabel}>Distance:</Text>
-              <Text style={styles.breakdownValue}>{priceBreakdown.distance} km</Text>
-            </View>
-            <View style={styles.breakdownRow}>
-              <Text style={styles.breakdownLabel}>Delivery Zone:</Text>
-              <Text style={styles.breakdownValue}>{priceBreakdown.zone}</Text>
-            </View>
-            <View style={styles.breakdownRow}>
-              <Text style={styles.breakdownLabel}>Zone Price:</Text>
-              <Text style={styles.breakdownValue}>₦{priceBreakdown.zonePrice}</Text>
-            </View>
-            {parseFloat(priceBreakdown.promotionDiscount) > 0 && (
-              <>
+        {vendorId && storeLocation && (
+          <>
+            <Text style={styles.sectionTitle}>Promotion Code (Optional)</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Enter promotion code"
+              value={promotionCode}
+              onChangeText={setPromotionCode}
+              autoCapitalize="characters"
+            />
+
+            <TouchableOpacity
+              style={styles.calculateButton}
+              onPress={calculateDeliveryPrice}
+              disabled={quoting}
+            >
+              {quoting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.calculateButtonText}>Calculate Delivery Price</Text>
+              )}
+            </TouchableOpacity>
+
+            {quote && (
+              <View style={styles.breakdownCard}>
+                <Text style={styles.breakdownTitle}>Price Breakdown</Text>
+                <View style={styles.breakdownRow}>
+                  <Text style={styles.breakdownLabel}>Distance:</Text>
+                  <Text style={styles.breakdownValue}>{Number(quote.distance_km).toFixed(2)} km</Text>
+                </View>
+                <View style={styles.breakdownRow}>
+                  <Text style={styles.breakdownLabel}>Delivery Zone:</Text>
+                  <Text style={styles.breakdownValue}>{quote.zone?.name || 'Standard rate'}</Text>
+                </View>
                 <View style={styles.breakdownRow}>
-                  <Text style={[styles.breakdownLabel, styles.discountText]}>
-                    Discount {priceBreakdown.appliedPromotion ? `(${priceBreakdown.appliedPromotion})` : ''}:
-                  </Text>
-                  <Text style={[styles.breakdownValue, styles.discountText]}>
-                    -₦{priceBreakdown.promotionDiscount}
-                  </Text>
+                  <Text style={styles.breakdownLabel}>Base Price:</Text>
+                  <Text style={styles.breakdownValue}>₦{(quote.base_price ?? 0).toFixed(2)}</Text>
                 </View>
-              </>
+                {(quote.distance_price ?? 0) > 0 && (
+                  <View style={styles.breakdownRow}>
+                    <Text style={styles.breakdownLabel}>Distance Charge:</Text>
+                    <Text style={styles.breakdownValue}>₦{(quote.distance_price ?? 0).toFixed(2)}</Text>
+                  </View>
+                )}
+                {(quote.adjustments || []).map((adjustment) => (
+                  <View key={adjustment.type} style={styles.breakdownRow}>
+                    <Text style={[styles.breakdownLabel, adjustment.amount < 0 && styles.discountText]}>{adjustment.label}:</Text>
+                    <Text style={[styles.breakdownValue, adjustment.amount < 0 && styles.discountText]}>
+                      {adjustment.amount < 0 ? '-' : '+'}₦{Math.abs(adjustment.amount).toFixed(2)}
+                    </Text>
+                  </View>
+                ))}
+                {(quote.promotion_discount ?? 0) > 0 && (
+                  <View style={styles.breakdownRow}>
+                    <Text style={[styles.breakdownLabel, styles.discountText]}>
+                      Discount {quote.promo_code ? `(${quote.promo_code})` : ''}:
+                    </Text>
+                    <Text style={[styles.breakdownValue, styles.discountText]}>
+                      -₦{(quote.promotion_discount ?? 0).toFixed(2)}
+                    </Text>
+                  </View>
+                )}
+                <View style={[styles.breakdownRow, styles.totalRow]}>
+                  <Text style={styles.totalLabel}>Total Delivery:</Text>
+                  <Text style={styles.totalValue}>₦{(quote.final_price ?? 0).toFixed(2)}</Text>
+                </View>
+              </View>
             )}
-            <View style={[styles.breakdownRow, styles.totalRow]}>
-              <Text style={styles.totalLabel}>Total Delivery:</Text>
-              <Text style={styles.totalValue}>₦{priceBreakdown.finalPrice}</Text>
-            </View>
+          </>
+        )}
+
+        {!address?.is_default && (
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>Use as my default address</Text>
+            <Switch
+              value={isDefault}
+              onValueChange={setIsDefault}
+              trackColor={{ false: '#e2e8f0', true: '#fed7aa' }}
+              thumbColor={isDefault ? '#ff8c00' : '#cbd5e1'}
+              ios_backgroundColor="#e2e8f0"
+            />
           </View>
         )}
 
         <TouchableOpacity
-          style={[styles.saveButton, (!calculatedPrice && styles.disabledButton)]}
+          style={[styles.saveButton, (distanceKm === null && styles.disabledButton)]}
           onPress={saveAddress}
-          disabled={loading || calculatedPrice === null}
+          disabled={loading || distanceKm === null}
         >
           {loading ? (
             <ActivityIndicator color="#fff" />
@@ -415,6 +416,12 @@ export default function DeliveryAddressForm({
             <Text style={styles.saveButtonText}>Save Address</Text>
           )}
         </TouchableOpacity>
+
+        {onCancel && (
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel} disabled={loading}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
       </View>
     </ScrollView>
   );
@@ -580,4 +587,25 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  cancelButton: {
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
 });
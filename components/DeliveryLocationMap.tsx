@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, Image, LayoutChangeEvent } from 'react-native';
+import { Bike, MapPin } from 'lucide-react-native';
+import { Coordinates } from '@/lib/deliveryTracking';
+import { Fonts } from '@/constants/fonts';
+
+interface DeliveryLocationMapProps {
+  rider: Coordinates;
+  destination?: Coordinates | null;
+  height?: number;
+}
+
+const TILE_SIZE = 256;
+const MAX_ZOOM = 16;
+const MIN_ZOOM = 10;
+const MARKER_PADDING = 36;
+
+// Web Mercator pixel position of a coordinate at a zoom level (standard slippy map tiles)
+function toWorldPixels({ latitude, longitude }: Coordinates, zoom: number) {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const latRad = (latitude * Math.PI) / 180;
+
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale,
+  };
+}
+
+// Renders OpenStreetMap tiles around the rider, zoomed out far enough to also show the destination.
+export default function DeliveryLocationMap({ rider, destination, height = 200 }: DeliveryLocationMapProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  let zoom = MAX_ZOOM;
+  if (destination && width > 0) {
+    while (zoom > MIN_ZOOM) {
+      const a = toWorldPixels(rider, zoom);
+      const b = toWorldPixels(destination, zoom);
+      if (
+        Math.abs(a.x - b.x) <= width - MARKER_PADDING * 2 &&
+        Math.abs(a.y - b.y) <= height - MARKER_PADDING * 2
+      ) {
+        break;
+      }
+      zoom -= 1;
+    }
+  }
+
+  const riderPixels = toWorldPixels(rider, zoom);
+  const destinationPixels = destination ? toWorldPixels(destination, zoom) : null;
+  const center = destinationPixels
+    ? { x: (riderPixels.x + destinationPixels.x) / 2, y: (riderPixels.y + destinationPixels.y) / 2 }
+    : riderPixels;
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+
+  const tiles: { key: string; uri: string; x: number; y: number }[] = [];
+  if (width > 0) {
+    const tileCount = 2 ** zoom;
+    for (let tileX = Math.floor(left / TILE_SIZE); tileX <= Math.floor((left + width) / TILE_SIZE); tileX++) {
+      for (let tileY = Math.floor(top / TILE_SIZE); tileY <= Math.floor((top + height) / TILE_SIZE); tileY++) {
+        if (tileY < 0 || tileY >= tileCount) continue;
+        const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${zoom}-${tileX}-${tileY}`,
+          uri: `https://tile.openstreetmap.org/${zoom}/${wrappedX}/${tileY}.png`,
+          x: tileX * TILE_SIZE - left,
+          y: tileY * TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={handleLayout}>
+      {tiles.map((tile) => (
+        <Image
+          key={tile.key}
+          source={{ uri: tile.uri }}
+          style={[styles.tile, { left: tile.x, top: tile.y }]}
+        />
+      ))}
+
+      {width > 0 && destinationPixels && (
+        <View
+          style={[
+            styles.destinationMarker,
+            { left: destinationPixels.x - left - 14, top: destinationPixels.y - top - 28 },
+          ]}
+        >
+          <MapPin size={28} color="#1a1a1a" fill="#ffffff" />
+        </View>
+      )}
+
+      {width > 0 && (
+        <View style={[styles.riderMarker, { left: riderPixels.x - left - 18, top: riderPixels.y - top - 18 }]}>
+          <Bike size={18} color="#ffffff" />
+        </View>
+      )}
+
+      <Text style={styles.attribution}>© OpenStreetMap contributors</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    borderRadius: 14,
+    overflow: 'hidden',
+    backgroundColor: '#e5e7eb',
+  },
+  tile: {
+    position: 'absolute',
+    width: TILE_SIZE,
+    height: TILE_SIZE,
+  },
+  destinationMarker: {
+    position: 'absolute',
+  },
+  riderMarker: {
+    position: 'absolute',
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#ff8c00',
+    borderWidth: 3,
+    borderColor: '#ffffff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  attribution: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    fontSize: 10,
+    fontFamily: Fonts.regular,
+    color: '#4b5563',
+    backgroundColor: 'rgba(255,255,255,0.8)',
+  },
+});
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Navigation } from 'lucide-react-native';
+import { useDeliveryLocationSharing } from '@/hooks/useDeliveryLocationSharing';
+import { Fonts } from '@/constants/fonts';
+
+interface DeliveryLocationSharerProps {
+  orderId: string;
+  autoStart?: boolean;
+}
+
+export default function DeliveryLocationSharer({ orderId, autoStart = false }: DeliveryLocationSharerProps) {
+  const [enabled, setEnabled] = useState(autoStart);
+  const { sharing, lastSentAt, error } = useDeliveryLocationSharing(orderId, enabled);
+
+  const statusText = error
+    ? error
+    : !enabled
+    ? 'The customer cannot see where you are'
+    : !sharing
+    ? 'Starting location sharing...'
+    : lastSentAt
+    ? `Live location shared · updated ${lastSentAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+    : 'Live location shared with the customer';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.statusRow}>
+        <View style={[styles.dot, sharing && !error ? styles.dotActive : error ? styles.dotError : null]} />
+        <Text style={[styles.statusText, error ? styles.statusTextError : null]} numberOfLines={2}>
+          {statusText}
+        </Text>
+        {enabled && !sharing && !error && <ActivityIndicator size="small" color="#ff8c00" />}
+      </View>
+      <TouchableOpacity
+        style={[styles.toggleButton, enabled && styles.toggleButtonActive]}
+        onPress={() => setEnabled(!enabled)}
+        activeOpacity={0.7}
+      >
+        <Navigation size={14} color={enabled ? '#6b7280' : '#ff8c00'} />
+        <Text style={[styles.toggleText, enabled && styles.toggleTextActive]}>
+          {enabled ? 'Stop Sharing' : 'Share Live Location'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f8f5f0',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 14,
+    gap: 10,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#d1d5db',
+  },
+  dotActive: {
+    backgroundColor: '#059669',
+  },
+  dotError: {
+    backgroundColor: '#ef4444',
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#4b5563',
+  },
+  statusTextError: {
+    color: '#ef4444',
+  },
+  toggleButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#ff8c00',
+    backgroundColor: '#ffffff',
+  },
+  toggleButtonActive: {
+    borderColor: '#e5e7eb',
+  },
+  toggleText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
+  toggleTextActive: {
+    color: '#6b7280',
+  },
+});
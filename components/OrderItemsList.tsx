@@ -10,6 +10,7 @@ import {
 } from 'react-native';
 import { Star } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { formatItemName } from '@/lib/productVariants';
 import ReviewForm from './ReviewForm';
 
 interface OrderItem {
@@ -17,6 +18,7 @@ interface OrderItem {
   product_id: string;
   quantity: number;
   unit_price: number;
+  variant_name: string | null;
   product: {
     name: string;
     image_url: string;
@@ -50,6 +52,7 @@ export default function OrderItemsList({ orderId, orderStatus }: OrderItemsListP
           product_id,
           quantity,
           unit_price,
+          variant_name,
           products (
             name,
             image_url
@@ -76,6 +79,7 @@ export default function OrderItemsList({ orderId, orderStatus }: OrderItemsListP
         product_id: item.product_id,
         quantity: item.quantity,
         unit_price: item.unit_price,
+        variant_name: item.variant_name,
         product: {
           name: item.products?.name || 'Unknown Product',
           image_url: item.products?.image_url || '',
@@ -105,7 +109,7 @@ export default function OrderItemsList({ orderId, orderStatus }: OrderItemsListP
   const renderItem = ({ item }: { item: OrderItem }) => (
     <View style={styles.itemCard}>
       <View style={styles.itemInfo}>
-        <Text style={styles.productName}>{item.product.name}</Text>
+        <Text style={styles.productName}>{formatItemName(item.product.name, item.variant_name)}</Text>
         <Text style={styles.itemDetails}>
           {item.quantity} × ₦{item.unit_price.toFixed(2)}
         </Text>
@@ -1,8 +1,14 @@
-import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, Platform, Dimensions, Alert } from 'react-native';
+import { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, Platform, Dimensions, Alert, Image } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { X, Download, Package, MapPin, CreditCard, Calendar, CheckCircle, Share2, Printer } from 'lucide-react-native';
-import { Order, OrderItem, Product } from '@/types/database';
+import { CheckoutGroup, Order, OrderItem, Product } from '@/types/database';
 import { Fonts } from '@/constants/fonts';
+import { supabase } from '@/lib/supabase';
+import { DELIVERY_PHOTOS_BUCKET } from '@/lib/deliveryTracking';
+import { formatSlot } from '@/lib/timeSlots';
+import { fetchStoreTimezones } from '@/lib/storeHours';
+import { formatItemName } from '@/lib/productVariants';
 import * as Print from 'expo-print';
 import * as Sharing from 'expo-sharing';
 
@@ -16,6 +22,9 @@ interface OrderReceiptProps {
   visible: boolean;
   order: Order | null;
   orderItems: OrderItemWithProduct[];
+  checkoutGroup?: CheckoutGroup;
+  groupOrders?: Order[];
+  vendorNames?: Record<string, string>;
   onClose: () => void;
 }
 
@@ -23,15 +32,68 @@ export default function OrderReceipt({
   visible,
   order,
   orderItems,
+  checkoutGroup,
+  groupOrders,
+  vendorNames = {},
   onClose,
 }: OrderReceiptProps) {
   const insets = useSafeAreaInsets();
+  const [deliveryPhotoUrl, setDeliveryPhotoUrl] = useState<string | null>(null);
+  const [storeTimezones, setStoreTimezones] = useState<Record<string, string>>({});
+
+  // Delivery photos are in a private bucket, so they are shown through a short-lived signed URL
+  useEffect(() => {
+    setDeliveryPhotoUrl(null);
+    if (!visible || !order?.delivery_photo_path) return;
+
+    supabase.storage
+      .from(DELIVERY_PHOTOS_BUCKET)
+      .createSignedUrl(order.delivery_photo_path, 60 * 60)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading delivery photo:', error);
+          return;
+        }
+        setDeliveryPhotoUrl(data.signedUrl);
+      });
+  }, [visible, order?.delivery_photo_path]);
+
+  // Scheduled times are printed in each store's own time zone
+  const scheduledVendorIds = (groupOrders && groupOrders.length > 1 ? groupOrders : order ? [order] : [])
+    .filter((o) => o.scheduled_slot_start)
+    .map((o) => o.vendor_id);
+
+  useEffect(() => {
+    if (!visible || scheduledVendorIds.length === 0) return;
+
+    fetchStoreTimezones(scheduledVendorIds)
+      .then(setStoreTimezones)
+      .catch((error) => console.error('Error fetching store time zones:', error));
+  }, [visible, scheduledVendorIds.join(',')]);
 
   console.log('OrderReceipt - order:', order);
   console.log('OrderReceipt - orderItems:', orderItems);
 
   if (!order) return null;
 
+  const isPurchase = !!groupOrders && groupOrders.length > 1;
+  const summaryOrders = isPurchase ? groupOrders : [order];
+  const scheduledOrders = summaryOrders.filter(
+    (o) => o.scheduled_slot_start && o.scheduled_slot_end && storeTimezones[o.vendor_id]
+  );
+  const slotLabel = (o: Order) => (isPurchase ? `${vendorNames[o.vendor_id] || 'Vendor'} Time` : 'Scheduled For');
+  const receiptNumber = isPurchase ? checkoutGroup?.group_number || order.order_number : order.order_number;
+  const sumOf = (field: 'subtotal' | 'delivery_fee' | 'tax' | 'total' | 'discount_amount' | 'refunded_amount') =>
+    summaryOrders.reduce((total, o) => total + Number(o[field] || 0), 0);
+  const totals = {
+    subtotal: sumOf('subtotal'),
+    deliveryFee: sumOf('delivery_fee'),
+    discount: sumOf('discount_amount'),
+    tax: sumOf('tax'),
+    total: sumOf('total'),
+    refunded: sumOf('refunded_amount'),
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -283,17 +345,24 @@ export default function OrderReceipt({
 
       <div class="section">
         <div class="row">
-          <span class="label">Order Number:</span>
-          <span class="value">${order.order_number}</span>
+          <span class="label">${isPurchase ? 'Purchase Number:' : 'Order Number:'}</span>
+          <span class="value">${receiptNumber}</span>
         </div>
         <div class="row">
           <span class="label">Date:</span>
           <span class="value">${new Date(order.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
         </div>
+        ${isPurchase ? summaryOrders.map(o => `
+        <div class="row">
+          <span class="label">${vendorNames[o.vendor_id] || 'Vendor'} (${o.order_number}):</span>
+          <span class="value">${getStatusLabel(o.status)}</span>
+        </div>
+        `).join('') : `
         <div class="row">
           <span class="label">Status:</span>
           <span class="value">${getStatusLabel(order.status)}</span>
         </div>
+        `}
       </div>
 
       <div class="divider"></div>
@@ -302,6 +371,18 @@ export default function OrderReceipt({
         <div class="section-title">Delivery Information</div>
         ${order.delivery_type ? `<div class="delivery-type">${order.delivery_type === 'home_delivery' ? 'Home Delivery' : 'Self Pickup'}</div>` : ''}
         <div class="address">${order.delivery_address}</div>
+        ${scheduledOrders.map(o => `
+        <div class="row">
+          <span class="label">${slotLabel(o)}:</span>
+          <span class="value">${formatSlot(o.scheduled_slot_start!, o.scheduled_slot_end!, storeTimezones[o.vendor_id])}</span>
+        </div>
+        `).join('')}
+        ${!isPurchase && order.delivery_confirmed_at ? `
+        <div class="row">
+          <span class="label">Delivery Confirmed:</span>
+          <span class="value">${new Date(order.delivery_confirmed_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+        </div>
+        ` : ''}
       </div>
 
       <div class="divider"></div>
@@ -310,9 +391,9 @@ export default function OrderReceipt({
         <div class="section-title">Order Items (${orderItems.length})</div>
         ${orderItems.map(item => `
           <div class="item">
-            <div class="item-name">${item.products.name}</div>
+            <div class="item-name">${formatItemName(item.products.name, item.variant_name)}</div>
             <div class="item-detail">
-              <span>₦${item.unit_price.toFixed(2)} × ${item.quantity}</span>
+              <span>₦${item.unit_price.toFixed(2)} × ${item.quantity}${item.refunded_quantity ? ` (${item.refunded_quantity} refunded)` : ''}</span>
               <span>₦${(item.unit_price * item.quantity).toFixed(2)}</span>
             </div>
           </div>
@@ -322,20 +403,36 @@ export default function OrderReceipt({
       <div class="summary">
         <div class="summary-row">
           <span>Subtotal:</span>
-          <span>₦${order.subtotal.toFixed(2)}</span>
+          <span>₦${totals.subtotal.toFixed(2)}</span>
         </div>
         <div class="summary-row">
           <span>Delivery Fee:</span>
-          <span>₦${order.delivery_fee.toFixed(2)}</span>
+          <span>₦${totals.deliveryFee.toFixed(2)}</span>
+        </div>
+        ${totals.discount > 0 ? `
+        <div class="summary-row">
+          <span>Discount:</span>
+          <span>-₦${totals.discount.toFixed(2)}</span>
         </div>
+        ` : ''}
         <div class="summary-row">
           <span>Tax:</span>
-          <span>₦${order.tax.toFixed(2)}</span>
+          <span>₦${totals.tax.toFixed(2)}</span>
         </div>
         <div class="total">
           <span>TOTAL</span>
-          <span>₦${order.total.toFixed(2)}</span>
+          <span>₦${totals.total.toFixed(2)}</span>
+        </div>
+        ${totals.refunded > 0 ? `
+        <div class="summary-row" style="margin-top: 12px;">
+          <span>Refunded:</span>
+          <span>-₦${totals.refunded.toFixed(2)}</span>
         </div>
+        <div class="summary-row">
+          <span>Net Paid:</span>
+          <span>₦${(totals.total - totals.refunded).toFixed(2)}</span>
+        </div>
+        ` : ''}
       </div>
 
       <div class="divider"></div>
@@ -348,7 +445,7 @@ export default function OrderReceipt({
         </div>
         <div class="row">
           <span class="label">Status:</span>
-          <span class="payment-status ${order.payment_status === 'completed' ? 'paid' : 'pending'}">${order.payment_status === 'completed' ? 'PAID' : 'PENDING'}</span>
+          <span class="payment-status ${order.payment_status === 'completed' ? 'paid' : 'pending'}">${order.payment_status === 'completed' ? 'PAID' : order.payment_status === 'refunded' ? 'REFUNDED' : 'PENDING'}</span>
         </div>
       </div>
 
@@ -408,7 +505,7 @@ export default function OrderReceipt({
       if (Platform.OS === 'web') {
         // For web, use html2pdf.js to generate and download PDF
         const html2pdf = (await import('html2pdf.js')).default;
-        const fileName = `Receipt_${order.order_number}.pdf`;
+        const fileName = `Receipt_${receiptNumber}.pdf`;
 
         // Create a temporary div element to hold the HTML
         const tempContainer = document.createElement('div');
@@ -467,7 +564,7 @@ export default function OrderReceipt({
 
         console.log('PDF generated at:', uri);
 
-        const fileName = `Receipt_${order.order_number}.pdf`;
+        const fileName = `Receipt_${receiptNumber}.pdf`;
 
         // Check if sharing is available
         const isAvailable = await Sharing.isAvailableAsync();
@@ -575,19 +672,32 @@ export default function OrderReceipt({
 
               <View style={styles.orderInfoSection}>
                 <View style={styles.infoRow}>
-                  <Text style={styles.infoLabel}>Order Number</Text>
-                  <Text style={styles.infoValue}>#{order.order_number}</Text>
+                  <Text style={styles.infoLabel}>{isPurchase ? 'Purchase Number' : 'Order Number'}</Text>
+                  <Text style={styles.infoValue}>#{receiptNumber}</Text>
                 </View>
                 <View style={styles.infoRow}>
                   <Text style={styles.infoLabel}>Order Date</Text>
                   <Text style={styles.infoValue}>{formatDate(order.created_at)}</Text>
                 </View>
-                <View style={styles.infoRow}>
-                  <Text style={styles.infoLabel}>Status</Text>
-                  <View style={styles.statusBadge}>
-                    <Text style={styles.statusText}>{getStatusLabel(order.status)}</Text>
+                {isPurchase ? (
+                  summaryOrders.map((o) => (
+                    <View key={o.id} style={styles.infoRow}>
+                      <Text style={styles.infoLabel} numberOfLines={1}>
+                        {vendorNames[o.vendor_id] || 'Vendor'} · #{o.order_number}
+                      </Text>
+                      <View style={styles.statusBadge}>
+                        <Text style={styles.statusText}>{getStatusLabel(o.status)}</Text>
+                      </View>
+                    </View>
+                  ))
+                ) : (
+                  <View style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>Status</Text>
+                    <View style={styles.statusBadge}>
+                      <Text style={styles.statusText}>{getStatusLabel(order.status)}</Text>
+                    </View>
                   </View>
-                </View>
+                )}
                 {order.delivered_at && (
                   <View style={styles.infoRow}>
                     <Text style={styles.infoLabel}>Delivered On</Text>
@@ -611,6 +721,25 @@ export default function OrderReceipt({
                   </View>
                 )}
                 <Text style={styles.addressText}>{order.delivery_address}</Text>
+                {scheduledOrders.map((o) => (
+                  <View key={o.id} style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>{slotLabel(o)}</Text>
+                    <Text style={styles.infoValue}>{formatSlot(o.scheduled_slot_start!, o.scheduled_slot_end!, storeTimezones[o.vendor_id])}</Text>
+                  </View>
+                ))}
+                {!isPurchase && order.delivery_confirmed_at && (
+                  <View style={styles.proofContainer}>
+                    <View style={styles.proofHeader}>
+                      <CheckCircle size={16} color="#059669" />
+                      <Text style={styles.proofText}>
+                        Confirmed with delivery code · {formatDate(order.delivery_confirmed_at)}
+                      </Text>
+                    </View>
+                    {deliveryPhotoUrl && (
+                      <Image source={{ uri: deliveryPhotoUrl }} style={styles.proofPhoto} resizeMode="cover" />
+                    )}
+                  </View>
+                )}
               </View>
 
               <View style={styles.divider} />
@@ -627,10 +756,15 @@ export default function OrderReceipt({
                       return (
                         <View key={item.id} style={styles.itemRow}>
                           <View style={styles.itemInfo}>
-                            <Text style={styles.itemName}>{item.products.name}</Text>
+                            <Text style={styles.itemName}>{formatItemName(item.products.name, item.variant_name)}</Text>
                             <Text style={styles.itemDetails}>
                               ₦{item.unit_price.toFixed(2)} × {item.quantity}
                             </Text>
+                            {!!item.refunded_quantity && (
+                              <Text style={styles.itemRefunded}>
+                                {item.refunded_quantity} refunded
+                              </Text>
+                            )}
                           </View>
                           <Text style={styles.itemTotal}>
                             ₦{(item.unit_price * item.quantity).toFixed(2)}
@@ -649,20 +783,40 @@ export default function OrderReceipt({
               <View style={styles.section}>
                 <View style={styles.summaryRow}>
                   <Text style={styles.summaryLabel}>Subtotal</Text>
-                  <Text style={styles.summaryValue}>₦{order.subtotal.toFixed(2)}</Text>
+                  <Text style={styles.summaryValue}>₦{totals.subtotal.toFixed(2)}</Text>
                 </View>
                 <View style={styles.summaryRow}>
                   <Text style={styles.summaryLabel}>Delivery Fee</Text>
-                  <Text style={styles.summaryValue}>₦{order.delivery_fee.toFixed(2)}</Text>
+                  <Text style={styles.summaryValue}>₦{totals.deliveryFee.toFixed(2)}</Text>
                 </View>
+                {totals.discount > 0 && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Discount</Text>
+                    <Text style={styles.summaryValue}>-₦{totals.discount.toFixed(2)}</Text>
+                  </View>
+                )}
                 <View style={styles.summaryRow}>
                   <Text style={styles.summaryLabel}>Tax</Text>
-                  <Text style={styles.summaryValue}>₦{order.tax.toFixed(2)}</Text>
+                  <Text style={styles.summaryValue}>₦{totals.tax.toFixed(2)}</Text>
                 </View>
                 <View style={[styles.summaryRow, styles.totalRow]}>
                   <Text style={styles.totalLabel}>Total Amount</Text>
-                  <Text style={styles.totalValue}>₦{order.total.toFixed(2)}</Text>
+                  <Text style={styles.totalValue}>₦{totals.total.toFixed(2)}</Text>
                 </View>
+                {totals.refunded > 0 && (
+                  <>
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>Refunded</Text>
+                      <Text style={[styles.summaryValue, styles.refundedValue]}>
+                        -₦{totals.refunded.toFixed(2)}
+                      </Text>
+                    </View>
+                    <View style={styles.summaryRow}>
+                      <Text style={styles.summaryLabel}>Net Paid</Text>
+                      <Text style={styles.summaryValue}>₦{(totals.total - totals.refunded).toFixed(2)}</Text>
+                    </View>
+                  </>
+                )}
               </View>
 
               <View style={styles.divider} />
@@ -692,7 +846,7 @@ export default function OrderReceipt({
                         styles.paymentStatusText,
                         order.payment_status === 'completed' && styles.paymentStatusTextCompleted
                       ]}>
-                        {order.payment_status === 'completed' ? 'Paid' : 'Pending'}
+                        {order.payment_status === 'completed' ? 'Paid' : order.payment_status === 'refunded' ? 'Refunded' : 'Pending'}
                       </Text>
                     </View>
                   </View>
@@ -872,6 +1026,27 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.bold,
     color: '#111827',
   },
+  proofContainer: {
+    marginTop: 12,
+    gap: 10,
+  },
+  proofHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  proofText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#059669',
+  },
+  proofPhoto: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
   addressText: {
     fontSize: 15,
     fontFamily: Fonts.regular,
@@ -920,6 +1095,11 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.regular,
     color: '#6b7280',
   },
+  itemRefunded: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#059669',
+  },
   itemTotal: {
     fontSize: 15,
     fontFamily: Fonts.bold,
@@ -942,6 +1122,9 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.semiBold,
     color: '#111827',
   },
+  refundedValue: {
+    color: '#059669',
+  },
   totalRow: {
     paddingTop: 16,
     marginTop: 8,
@@ -6,19 +6,21 @@ import {
   TouchableOpacity,
   Image,
 } from 'react-native';
-import { Star, ShoppingCart, Heart } from 'lucide-react-native';
+import { Star, ShoppingCart, Heart, Clock } from 'lucide-react-native';
 import { Product, ProductImage } from '@/types/database';
 import { supabase } from '@/lib/supabase';
 import { useWishlist } from '@/contexts/WishlistContext';
+import { StoreStatus, formatStoreClosed } from '@/lib/storeHours';
 import { Fonts } from '@/constants/fonts';
 
 interface ProductCardProps {
   product: Product;
   onPress: () => void;
   onAddToCart: (e: any) => void;
+  storeStatus?: StoreStatus;
 }
 
-export default function ProductCard({ product, onPress, onAddToCart }: ProductCardProps) {
+export default function ProductCard({ product, onPress, onAddToCart, storeStatus }: ProductCardProps) {
   const [images, setImages] = useState<ProductImage[]>([]);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
@@ -84,6 +86,7 @@ export default function ProductCard({ product, onPress, onAddToCart }: ProductCa
   const hasFailed = failedImages.has(currentImageUrl);
   const finalImageUrl = (hasFailed || !isValidUrl) ? fallbackUrl : currentImageUrl;
   const inWishlist = isInWishlist(product.id);
+  const isClosed = !!storeStatus && !storeStatus.is_open;
   const hasDiscount = product.discount_active && product.discount_percentage > 0;
   const discountedPrice = hasDiscount
     ? product.price * (1 - product.discount_percentage / 100)
@@ -124,8 +127,17 @@ export default function ProductCard({ product, onPress, onAddToCart }: ProductCa
             />
           </TouchableOpacity>
 
+          {storeStatus && isClosed && (
+            <View style={styles.closedBanner}>
+              <Clock size={12} color="#ffffff" strokeWidth={2.5} />
+              <Text style={styles.closedBannerText} numberOfLines={1}>
+                {formatStoreClosed(storeStatus)}
+              </Text>
+            </View>
+          )}
+
           {images.length > 1 && (
-            <View style={styles.dotsContainer}>
+            <View style={[styles.dotsContainer, isClosed && styles.dotsContainerRaised]}>
               {images.map((_, index) => (
                 <View
                   key={index}
@@ -220,6 +232,25 @@ const styles = StyleSheet.create({
     backgroundColor: '#f0ebe4',
     resizeMode: 'cover',
   },
+  closedBanner: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 5,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    backgroundColor: 'rgba(26, 26, 26, 0.75)',
+    zIndex: 5,
+  },
+  closedBannerText: {
+    fontSize: 11,
+    fontFamily: Fonts.semiBold,
+    color: '#ffffff',
+  },
   dotsContainer: {
     position: 'absolute',
     bottom: 10,
@@ -230,6 +261,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 5,
   },
+  dotsContainerRaised: {
+    bottom: 36,
+  },
   dot: {
     width: 6,
     height: 6,
@@ -14,11 +14,14 @@ import {
   NativeScrollEvent,
   Platform,
 } from 'react-native';
-import { X, Star, ShoppingCart, Plus, Minus, MapPin, ZoomIn, ChevronLeft, ChevronRight, Percent } from 'lucide-react-native';
-import { Product, Review } from '@/types/database';
+import { X, Star, ShoppingCart, Plus, Minus, MapPin, ZoomIn, ChevronLeft, ChevronRight, Percent, Clock } from 'lucide-react-native';
+import { Product, ProductOption, ProductVariant, Review } from '@/types/database';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { cartEvents } from '@/lib/cartEvents';
+import { getAvailableStock, getStockLabel, LOW_STOCK_THRESHOLD } from '@/lib/stock';
+import { StoreStatus, fetchStoreStatuses, formatStoreClosed } from '@/lib/storeHours';
+import { fetchProductVariants, findVariant } from '@/lib/productVariants';
 import ProductReviews from './ProductReviews';
 import ReviewForm from './ReviewForm';
 import ZoomableImage from './ZoomableImage';
@@ -55,7 +58,8 @@ export default function ProductDetailModal({
   const [quantity, setQuantity] = useState(1);
   const [loading, setLoading] = useState(false);
   const [vendorInfo, setVendorInfo] = useState<VendorInfo | null>(null);
-  const [images, setImages] = useState<ProductImage[]>([]);
+  const [storeStatus, setStoreStatus] = useState<StoreStatus | null>(null);
+  const [productImages, setProductImages] = useState<ProductImage[]>([]);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [currentProduct, setCurrentProduct] = useState<Product | null>(product);
   const [showFullScreenImage, setShowFullScreenImage] = useState(false);
@@ -63,10 +67,22 @@ export default function ProductDetailModal({
   const [isImageZoomed, setIsImageZoomed] = useState(false);
   const [editingReview, setEditingReview] = useState<Review | null>(null);
   const [showReviewForm, setShowReviewForm] = useState(false);
+  const [options, setOptions] = useState<ProductOption[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [selection, setSelection] = useState<Record<string, string>>({});
   const flatListRef = useRef<FlatList>(null);
   const fullScreenFlatListRef = useRef<FlatList>(null);
   const autoPlayTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  const selectedVariant = product?.has_variants ? findVariant(variants, selection) : null;
+  // The chosen variant's own photo leads the gallery
+  const images: ProductImage[] = selectedVariant?.image_url
+    ? [
+        { id: `variant_${selectedVariant.id}`, image_url: selectedVariant.image_url, display_order: -1, is_primary: false },
+        ...productImages,
+      ]
+    : productImages;
+
   const fetchVendorInfo = async () => {
     if (!product) return;
 
@@ -84,6 +100,17 @@ export default function ProductDetailModal({
     }
   };
 
+  const fetchStoreStatus = async () => {
+    if (!product) return;
+
+    try {
+      const statuses = await fetchStoreStatuses([product.vendor_id]);
+      setStoreStatus(statuses[product.vendor_id] || null);
+    } catch (error) {
+      console.error('Error fetching store hours:', error);
+    }
+  };
+
   const fetchProductImages = async () => {
     if (!product) return;
 
@@ -96,9 +123,9 @@ export default function ProductDetailModal({
 
       if (error) throw error;
       if (data && data.length > 0) {
-        setImages(data);
+        setProductImages(data);
       } else {
-        setImages([{
+        setProductImages([{
           id: 'default',
           image_url: product.image_url || 'https://images.pexels.com/photos/1640777/pexels-photo-1640777.jpeg',
           display_order: 0,
@@ -107,7 +134,7 @@ export default function ProductDetailModal({
       }
     } catch (error) {
       console.error('Error fetching product images:', error);
-      setImages([{
+      setProductImages([{
         id: 'default',
         image_url: product.image_url || 'https://images.pexels.com/photos/1640777/pexels-photo-1640777.jpeg',
         display_order: 0,
@@ -116,6 +143,47 @@ export default function ProductDetailModal({
     }
   };
 
+  const fetchVariants = async () => {
+    if (!product?.has_variants) return;
+
+    try {
+      const result = await fetchProductVariants(product.id);
+      const available = result.variants.filter((variant) => variant.is_available);
+      setOptions(result.options);
+      setVariants(available);
+
+      // Start on the first variant that can actually be bought
+      const initial = available.find((variant) => getAvailableStock(variant) > 0) || available[0];
+      setSelection(initial ? initial.options : {});
+    } catch (error) {
+      console.error('Error fetching product variants:', error);
+    }
+  };
+
+  const selectOptionValue = (optionName: string, value: string) => {
+    const nextSelection = { ...selection, [optionName]: value };
+    // Jump to the closest combination that exists when this value cannot pair with the rest
+    const match =
+      findVariant(variants, nextSelection) ||
+      variants.find((variant) => variant.options[optionName] === value && getAvailableStock(variant) > 0) ||
+      variants.find((variant) => variant.options[optionName] === value);
+
+    setSelection(match ? match.options : nextSelection);
+    setQuantity(1);
+    setCurrentImageIndex(0);
+    flatListRef.current?.scrollToOffset({ offset: 0, animated: false });
+  };
+
+  const isValueInStock = (optionName: string, value: string) =>
+    variants.some(
+      (variant) =>
+        variant.options[optionName] === value &&
+        getAvailableStock(variant) > 0 &&
+        Object.entries(variant.options).every(
+          ([name, selected]) => name === optionName || !selection[name] || selection[name] === selected
+        )
+    );
+
   const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
     const scrollPosition = event.nativeEvent.contentOffset.x;
     const index = Math.round(scrollPosition / SCREEN_WIDTH);
@@ -183,17 +251,21 @@ export default function ProductDetailModal({
 
   const addToCart = async () => {
     if (!profile || !product) return;
+    if (product.has_variants && !selectedVariant) return;
 
     try {
       setLoading(true);
 
       // Check if item already exists in cart
-      const { data: existingItem } = await supabase
+      let existingQuery = supabase
         .from('carts')
         .select('id, quantity')
         .eq('user_id', profile.id)
-        .eq('product_id', product.id)
-        .maybeSingle();
+        .eq('product_id', product.id);
+      existingQuery = selectedVariant
+        ? existingQuery.eq('variant_id', selectedVariant.id)
+        : existingQuery.is('variant_id', null);
+      const { data: existingItem } = await existingQuery.maybeSingle();
 
       if (existingItem) {
         // Update existing item by adding to the quantity
@@ -210,6 +282,7 @@ export default function ProductDetailModal({
           .insert({
             user_id: profile.id,
             product_id: product.id,
+            variant_id: selectedVariant?.id ?? null,
             quantity: quantity,
           });
 
@@ -231,7 +304,9 @@ export default function ProductDetailModal({
       setCurrentProduct(product);
       setCurrentImageIndex(0);
       fetchVendorInfo();
+      fetchStoreStatus();
       fetchProductImages();
+      fetchVariants();
 
       // Subscribe to real-time product updates for rating changes
       const subscription = supabase
@@ -255,9 +330,13 @@ export default function ProductDetailModal({
       };
     } else if (!visible) {
       setVendorInfo(null);
-      setImages([]);
+      setStoreStatus(null);
+      setProductImages([]);
       setQuantity(1);
       setCurrentProduct(null);
+      setOptions([]);
+      setVariants([]);
+      setSelection({});
     }
   }, [visible, product]);
 
@@ -291,6 +370,16 @@ export default function ProductDetailModal({
 
   if (!currentProduct) return null;
 
+  const stockSource = currentProduct.has_variants
+    ? selectedVariant || { stock_quantity: 0, reserved_quantity: 0 }
+    : currentProduct;
+  const availableStock = getAvailableStock(stockSource);
+  const onVacation = !!storeStatus?.on_vacation;
+  const needsVariant = currentProduct.has_variants && !selectedVariant;
+  const basePrice = selectedVariant ? selectedVariant.price : currentProduct.price;
+  const hasDiscount = currentProduct.discount_active && currentProduct.discount_percentage > 0;
+  const unitPrice = hasDiscount ? basePrice * (1 - currentProduct.discount_percentage / 100) : basePrice;
+
   return (
     <>
       <Modal
@@ -362,9 +451,11 @@ export default function ProductDetailModal({
               <View style={styles.productHeader}>
                 <View style={styles.productTitleRow}>
                   <Text style={styles.productName}>{currentProduct.name}</Text>
-                  <View style={styles.stockBadge}>
-                    <View style={styles.stockDot} />
-                    <Text style={styles.stockText}>{currentProduct.stock_quantity} left</Text>
+                  <View style={[styles.stockBadge, availableStock <= LOW_STOCK_THRESHOLD && styles.stockBadgeLow]}>
+                    <View style={[styles.stockDot, availableStock <= LOW_STOCK_THRESHOLD && styles.stockDotLow]} />
+                    <Text style={[styles.stockText, availableStock <= LOW_STOCK_THRESHOLD && styles.stockTextLow]}>
+                      {getStockLabel(stockSource)}
+                    </Text>
                   </View>
                 </View>
 
@@ -377,38 +468,75 @@ export default function ProductDetailModal({
                 </View>
               </View>
 
+              {storeStatus && !storeStatus.is_open && (
+                <View style={styles.closedNotice}>
+                  <Clock size={18} color="#b45309" strokeWidth={2.2} />
+                  <View style={styles.closedNoticeContent}>
+                    <Text style={styles.closedNoticeTitle}>{formatStoreClosed(storeStatus)}</Text>
+                    <Text style={styles.closedNoticeText}>
+                      {onVacation
+                        ? 'This store is not taking orders until it reopens.'
+                        : 'Add it to your cart now and choose a time for when the store opens at checkout.'}
+                    </Text>
+                  </View>
+                </View>
+              )}
+
               <View style={styles.priceSection}>
                 <View style={styles.priceContainer}>
                   <Text style={styles.priceLabel}>
-                    {currentProduct.discount_active && currentProduct.discount_percentage > 0 ? 'Sale Price' : 'Price'}
+                    {hasDiscount ? 'Sale Price' : 'Price'}
                   </Text>
                   <View style={styles.priceRow}>
-                    {currentProduct.discount_active && currentProduct.discount_percentage > 0 ? (
-                      <>
-                        <Text style={styles.price}>
-                          ₦{(currentProduct.price * (1 - currentProduct.discount_percentage / 100)).toFixed(2)}
-                        </Text>
-                        <Text style={styles.unit}>/ {currentProduct.unit}</Text>
-                      </>
-                    ) : (
-                      <>
-                        <Text style={styles.price}>₦{currentProduct.price.toFixed(2)}</Text>
-                        <Text style={styles.unit}>/ {currentProduct.unit}</Text>
-                      </>
-                    )}
+                    <Text style={styles.price}>₦{unitPrice.toFixed(2)}</Text>
+                    <Text style={styles.unit}>/ {currentProduct.unit}</Text>
                   </View>
-                  {currentProduct.discount_active && currentProduct.discount_percentage > 0 && (
+                  {hasDiscount && (
                     <View style={styles.discountRow}>
                       <View style={styles.discountBadgeInline}>
                         <Percent size={12} color="#ffffff" />
                         <Text style={styles.discountBadgeInlineText}>-{currentProduct.discount_percentage}% OFF</Text>
                       </View>
-                      <Text style={styles.originalPriceText}>₦{currentProduct.price.toFixed(2)}</Text>
+                      <Text style={styles.originalPriceText}>₦{basePrice.toFixed(2)}</Text>
                     </View>
                   )}
                 </View>
               </View>
 
+              {options.map((option) => (
+                <View key={option.id} style={styles.section}>
+                  <Text style={styles.sectionTitle}>{option.name}</Text>
+                  <View style={styles.optionValues}>
+                    {option.values.map((value) => {
+                      const selected = selection[option.name] === value;
+                      const inStock = isValueInStock(option.name, value);
+                      return (
+                        <TouchableOpacity
+                          key={value}
+                          style={[
+                            styles.optionValue,
+                            !inStock && styles.optionValueUnavailable,
+                            selected && styles.optionValueSelected,
+                          ]}
+                          onPress={() => selectOptionValue(option.name, value)}
+                          activeOpacity={0.7}
+                        >
+                          <Text
+                            style={[
+                              styles.optionValueText,
+                              !inStock && styles.optionValueTextUnavailable,
+                              selected && styles.optionValueTextSelected,
+                            ]}
+                          >
+                            {value}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </View>
+              ))}
+
               {currentProduct.description && (
                 <View style={styles.section}>
                   <Text style={styles.sectionTitle}>About this product</Text>
@@ -472,19 +600,17 @@ export default function ProductDetailModal({
                       <Text style={styles.quantity}>{quantity}</Text>
                     </View>
                     <TouchableOpacity
-                      style={[styles.quantityButton, quantity >= currentProduct.stock_quantity && styles.quantityButtonDisabled]}
-                      onPress={() => setQuantity(Math.min(currentProduct.stock_quantity, quantity + 1))}
-                      disabled={quantity >= currentProduct.stock_quantity}
+                      style={[styles.quantityButton, quantity >= availableStock && styles.quantityButtonDisabled]}
+                      onPress={() => setQuantity(Math.min(availableStock, quantity + 1))}
+                      disabled={quantity >= availableStock}
                     >
-                      <Plus size={18} color={quantity >= currentProduct.stock_quantity ? '#d1d5db' : '#6b7280'} strokeWidth={2.5} />
+                      <Plus size={18} color={quantity >= availableStock ? '#d1d5db' : '#6b7280'} strokeWidth={2.5} />
                     </TouchableOpacity>
                   </View>
                   <View style={styles.subtotalContainer}>
                     <Text style={styles.subtotalLabel}>Subtotal</Text>
                     <Text style={styles.subtotalAmount}>
-                      ₦{((currentProduct.discount_active && currentProduct.discount_percentage > 0
-                        ? currentProduct.price * (1 - currentProduct.discount_percentage / 100)
-                        : currentProduct.price) * quantity).toFixed(2)}
+                      ₦{(unitPrice * quantity).toFixed(2)}
                     </Text>
                   </View>
                 </View>
@@ -496,9 +622,9 @@ export default function ProductDetailModal({
 
           <View style={styles.footer}>
             <TouchableOpacity
-              style={[styles.addButton, loading && styles.addButtonDisabled]}
+              style={[styles.addButton, (loading || availableStock === 0 || onVacation || needsVariant) && styles.addButtonDisabled]}
               onPress={addToCart}
-              disabled={loading}
+              disabled={loading || availableStock === 0 || onVacation || needsVariant}
               activeOpacity={0.8}
             >
               {loading ? (
@@ -506,7 +632,15 @@ export default function ProductDetailModal({
               ) : (
                 <>
                   <ShoppingCart size={20} color="#ffffff" strokeWidth={2.5} />
-                  <Text style={styles.addButtonText}>Add to Cart</Text>
+                  <Text style={styles.addButtonText}>
+                    {needsVariant
+                      ? 'Choose an Option'
+                      : availableStock === 0
+                        ? 'Out of Stock'
+                        : onVacation
+                          ? 'Store Closed'
+                          : 'Add to Cart'}
+                  </Text>
                 </>
               )}
             </TouchableOpacity>
@@ -747,6 +881,16 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.semiBold,
     color: '#16a34a',
   },
+  stockBadgeLow: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  stockDotLow: {
+    backgroundColor: '#dc2626',
+  },
+  stockTextLow: {
+    color: '#dc2626',
+  },
   ratingRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -773,6 +917,32 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.regular,
     color: '#6b7280',
   },
+  closedNotice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: '#fffbeb',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fde68a',
+  },
+  closedNoticeContent: {
+    flex: 1,
+    gap: 2,
+  },
+  closedNoticeTitle: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#92400e',
+  },
+  closedNoticeText: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#b45309',
+    lineHeight: 18,
+  },
   priceSection: {
     backgroundColor: '#fff7ed',
     borderRadius: 18,
@@ -810,6 +980,38 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 24,
   },
+  optionValues: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  optionValue: {
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 14,
+    borderWidth: 1.5,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#ffffff',
+  },
+  optionValueSelected: {
+    borderColor: '#ff8c00',
+    backgroundColor: '#fff7ed',
+  },
+  optionValueUnavailable: {
+    borderStyle: 'dashed',
+    backgroundColor: '#f9fafb',
+  },
+  optionValueText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#374151',
+  },
+  optionValueTextSelected: {
+    color: '#ff8c00',
+  },
+  optionValueTextUnavailable: {
+    color: '#9ca3af',
+  },
   sectionTitle: {
     fontSize: 17,
     fontFamily: Fonts.display,
@@ -0,0 +1,582 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { RotateCcw, Minus, Plus } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { Order, OrderItem, Product, Refund, RefundDestination, RefundItem } from '@/types/database';
+import { Fonts } from '@/constants/fonts';
+import { formatItemName } from '@/lib/productVariants';
+
+export const REFUND_STATUS_LABELS: Record<Refund['status'], string> = {
+  pending: 'Pending',
+  processing: 'Processing',
+  completed: 'Refunded',
+  failed: 'Failed',
+};
+
+export const REFUND_STATUS_COLORS: Record<Refund['status'], string> = {
+  pending: '#f59e0b',
+  processing: '#3b82f6',
+  completed: '#10b981',
+  failed: '#ef4444',
+};
+
+// Admins and vendors can refund orders that have been paid and not fully refunded yet.
+export function canRefundOrder(order: Order): boolean {
+  return order.payment_status === 'completed' && Number(order.refunded_amount || 0) < Number(order.total);
+}
+
+interface OrderItemWithProduct extends OrderItem {
+  products: Pick<Product, 'name'> | null;
+}
+
+interface RefundWithItems extends Refund {
+  refund_items: RefundItem[];
+}
+
+interface RefundOrderModalProps {
+  visible: boolean;
+  order: Order | null;
+  onClose: () => void;
+  onComplete?: (refund: Refund) => void;
+}
+
+export default function RefundOrderModal({
+  visible,
+  order,
+  onClose,
+  onComplete,
+}: RefundOrderModalProps) {
+  const [items, setItems] = useState<OrderItemWithProduct[]>([]);
+  const [refunds, setRefunds] = useState<RefundWithItems[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [fullRefund, setFullRefund] = useState(true);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [destination, setDestination] = useState<RefundDestination>('wallet');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (visible && order) {
+      setFullRefund(true);
+      setQuantities({});
+      setDestination(order.payment_method === 'online' ? 'paystack' : 'wallet');
+      setReason('');
+      setError('');
+      fetchRefundData(order.id);
+    }
+  }, [visible, order?.id]);
+
+  const fetchRefundData = async (orderId: string) => {
+    try {
+      setLoading(true);
+
+      const [itemsResult, refundsResult] = await Promise.all([
+        supabase
+          .from('order_items')
+          .select('*, products(name)')
+          .eq('order_id', orderId),
+        supabase
+          .from('refunds')
+          .select('*, refund_items(*)')
+          .eq('order_id', orderId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (itemsResult.error) throw itemsResult.error;
+      if (refundsResult.error) throw refundsResult.error;
+
+      setItems((itemsResult.data as OrderItemWithProduct[]) || []);
+      setRefunds((refundsResult.data as RefundWithItems[]) || []);
+    } catch (err) {
+      console.error('Error fetching refund details:', err);
+      setError('Failed to load order items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!order) return null;
+
+  // Refunds that are still in progress count as refunded so nothing is refunded twice
+  const activeRefunds = refunds.filter((r) => r.status !== 'failed');
+  const remaining = Number(order.total) - activeRefunds.reduce((sum, r) => sum + Number(r.amount), 0);
+
+  const availableQuantity = (item: OrderItem) =>
+    item.quantity -
+    activeRefunds.reduce(
+      (sum, r) =>
+        sum + r.refund_items.filter((ri) => ri.order_item_id === item.id).reduce((s, ri) => s + ri.quantity, 0),
+      0
+    );
+
+  const selectedAmount = items.reduce(
+    (sum, item) => sum + Number(item.unit_price) * (quantities[item.id] || 0),
+    0
+  );
+  const refundAmount = Math.max(0, fullRefund ? remaining : Math.min(selectedAmount, remaining));
+
+  const changeQuantity = (item: OrderItem, delta: number) => {
+    const next = Math.min(Math.max((quantities[item.id] || 0) + delta, 0), availableQuantity(item));
+    setQuantities({ ...quantities, [item.id]: next });
+  };
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      setError('Please enter a reason for the refund');
+      return;
+    }
+
+    if (refundAmount <= 0) {
+      setError(fullRefund ? 'This order has already been fully refunded' : 'Please choose the items to refund');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError('');
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch(
+        `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/issue-refund`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            orderId: order.id,
+            destination,
+            reason: reason.trim(),
+            items: fullRefund
+              ? null
+              : Object.entries(quantities)
+                  .filter(([, quantity]) => quantity > 0)
+                  .map(([order_item_id, quantity]) => ({ order_item_id, quantity })),
+          }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!result.success) {
+        setError(result.error || 'Failed to issue refund');
+        return;
+      }
+
+      onComplete?.(result.data);
+      onClose();
+    } catch (err: any) {
+      console.error('Error issuing refund:', err);
+      setError(err.message || 'Failed to issue refund');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <View style={styles.titleRow}>
+              <RotateCcw size={22} color="#ff8c00" />
+              <Text style={styles.modalTitle}>Refund Order</Text>
+            </View>
+            <Text style={styles.orderNumber}>
+              Order #{order.order_number} · ₦{Number(order.total).toFixed(2)} paid
+            </Text>
+
+            {loading ? (
+              <ActivityIndicator color="#ff8c00" style={{ marginVertical: 24 }} />
+            ) : (
+              <>
+                <View style={styles.segment}>
+                  <TouchableOpacity
+                    style={[styles.segmentOption, fullRefund && styles.segmentOptionActive]}
+                    onPress={() => setFullRefund(true)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.segmentText, fullRefund && styles.segmentTextActive]}>
+                      Full Refund
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.segmentOption, !fullRefund && styles.segmentOptionActive]}
+                    onPress={() => setFullRefund(false)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.segmentText, !fullRefund && styles.segmentTextActive]}>
+                      Select Items
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {!fullRefund && (
+                  <View style={styles.itemsList}>
+                    {items.map((item) => {
+                      const available = availableQuantity(item);
+                      const quantity = quantities[item.id] || 0;
+
+                      return (
+                        <View key={item.id} style={styles.itemRow}>
+                          <View style={styles.itemInfo}>
+                            <Text style={styles.itemName} numberOfLines={1}>
+                              {formatItemName(item.products?.name || 'Product', item.variant_name)}
+                            </Text>
+                            <Text style={styles.itemMeta}>
+                              ₦{Number(item.unit_price).toFixed(2)} · {available} of {item.quantity} refundable
+                            </Text>
+                          </View>
+                          <View style={styles.stepper}>
+                            <TouchableOpacity
+                              style={styles.stepperButton}
+                              onPress={() => changeQuantity(item, -1)}
+                              disabled={quantity === 0}
+                            >
+                              <Minus size={14} color={quantity === 0 ? '#d1d5db' : '#374151'} />
+                            </TouchableOpacity>
+                            <Text style={styles.stepperValue}>{quantity}</Text>
+                            <TouchableOpacity
+                              style={styles.stepperButton}
+                              onPress={() => changeQuantity(item, 1)}
+                              disabled={quantity >= available}
+                            >
+                              <Plus size={14} color={quantity >= available ? '#d1d5db' : '#374151'} />
+                            </TouchableOpacity>
+                          </View>
+                        </View>
+                      );
+                    })}
+                  </View>
+                )}
+
+                <Text style={styles.inputLabel}>Refund to</Text>
+                <View style={styles.segment}>
+                  <TouchableOpacity
+                    style={[styles.segmentOption, destination === 'wallet' && styles.segmentOptionActive]}
+                    onPress={() => setDestination('wallet')}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.segmentText, destination === 'wallet' && styles.segmentTextActive]}>
+                      Wallet
+                    </Text>
+                  </TouchableOpacity>
+                  {order.payment_method === 'online' && (
+                    <TouchableOpacity
+                      style={[styles.segmentOption, destination === 'paystack' && styles.segmentOptionActive]}
+                      onPress={() => setDestination('paystack')}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.segmentText, destination === 'paystack' && styles.segmentTextActive]}>
+                        Card / Bank
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <Text style={styles.helperText}>
+                  {destination === 'wallet'
+                    ? 'The customer can use the refund straight away.'
+                    : 'Paystack returns the money to the card or account used to pay. This can take a few days.'}
+                </Text>
+
+                <Text style={styles.inputLabel}>Reason</Text>
+                <TextInput
+                  style={styles.input}
+                  value={reason}
+                  onChangeText={setReason}
+                  placeholder="e.g. Item arrived damaged"
+                  placeholderTextColor="#9ca3af"
+                  multiline
+                  maxLength={300}
+                />
+
+                <View style={styles.amountRow}>
+                  <Text style={styles.amountLabel}>Refund amount</Text>
+                  <Text style={styles.amountValue}>₦{refundAmount.toFixed(2)}</Text>
+                </View>
+
+                {refunds.length > 0 && (
+                  <View style={styles.history}>
+                    <Text style={styles.inputLabel}>Previous refunds</Text>
+                    {refunds.map((refund) => (
+                      <View key={refund.id} style={styles.historyRow}>
+                        <View style={styles.itemInfo}>
+                          <Text style={styles.historyNumber}>{refund.refund_number}</Text>
+                          <Text style={styles.itemMeta} numberOfLines={1}>
+                            {refund.destination === 'wallet' ? 'Wallet' : 'Card / Bank'} · {refund.reason}
+                          </Text>
+                        </View>
+                        <View style={styles.historyRight}>
+                          <Text style={styles.historyAmount}>₦{Number(refund.amount).toFixed(2)}</Text>
+                          <Text style={[styles.historyStatus, { color: REFUND_STATUS_COLORS[refund.status] }]}>
+                            {REFUND_STATUS_LABELS[refund.status]}
+                          </Text>
+                        </View>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </>
+            )}
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onClose} disabled={submitting}>
+                <Text style={styles.cancelButtonText}>Close</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmButton, (submitting || loading) && styles.buttonDisabled]}
+                onPress={handleSubmit}
+                disabled={submitting || loading}
+              >
+                {submitting ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.confirmButtonText}>Refund</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContent: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '90%',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontFamily: Fonts.bold,
+    color: '#1f2937',
+  },
+  orderNumber: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  segment: {
+    flexDirection: 'row',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 12,
+  },
+  segmentOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  segmentOptionActive: {
+    backgroundColor: '#ffffff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 3,
+    elevation: 1,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+  },
+  segmentTextActive: {
+    color: '#c2410c',
+    fontFamily: Fonts.semiBold,
+  },
+  itemsList: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  itemName: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+  },
+  itemMeta: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#374151',
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginTop: -4,
+    marginBottom: 12,
+    lineHeight: 17,
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#1f2937',
+    minHeight: 70,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+  },
+  amountLabel: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#9a3412',
+  },
+  amountValue: {
+    fontSize: 18,
+    fontFamily: Fonts.bold,
+    color: '#c2410c',
+  },
+  history: {
+    marginBottom: 12,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  historyNumber: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#374151',
+  },
+  historyRight: {
+    alignItems: 'flex-end',
+  },
+  historyAmount: {
+    fontSize: 13,
+    fontFamily: Fonts.bold,
+    color: '#1f2937',
+  },
+  historyStatus: {
+    fontSize: 11,
+    fontFamily: Fonts.semiBold,
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#ef4444',
+    marginBottom: 12,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#f3f4f6',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#6b7280',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  confirmButton: {
+    flex: 1,
+    backgroundColor: '#ff8c00',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  confirmButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -12,7 +12,7 @@ import {
   Platform,
   Clipboard,
 } from 'react-native';
-import { Wallet, Plus, Minus, ArrowUpRight, ArrowDownRight, Clock, CreditCard, CheckCircle, Copy, Building2 } from 'lucide-react-native';
+import { Wallet, Plus, Minus, ArrowUpRight, ArrowDownRight, Clock, CreditCard, CheckCircle, Copy, Building2, ChevronDown, Search } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
@@ -38,6 +38,19 @@ interface VirtualAccount {
   active: boolean;
 }
 
+interface PayoutBankAccount {
+  id: string;
+  bank_code: string;
+  bank_name: string;
+  account_number: string;
+  account_name: string;
+}
+
+interface Bank {
+  name: string;
+  code: string;
+}
+
 export default function WalletManagement() {
   const { profile } = useAuth();
   const { showToast } = useToast();
@@ -57,16 +70,44 @@ export default function WalletManagement() {
   const [virtualAccount, setVirtualAccount] = useState<VirtualAccount | null>(null);
   const [creatingVirtualAccount, setCreatingVirtualAccount] = useState(false);
   const [showVirtualAccountModal, setShowVirtualAccountModal] = useState(false);
+  const [bankAccount, setBankAccount] = useState<PayoutBankAccount | null>(null);
+  const [editingBankAccount, setEditingBankAccount] = useState(false);
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [loadingBanks, setLoadingBanks] = useState(false);
+  const [showBankList, setShowBankList] = useState(false);
+  const [bankSearch, setBankSearch] = useState('');
+  const [selectedBank, setSelectedBank] = useState<Bank | null>(null);
+  const [bankAccountNumber, setBankAccountNumber] = useState('');
+  const [savingBankAccount, setSavingBankAccount] = useState(false);
 
   useEffect(() => {
-    if (profile) {
-      fetchWalletData();
-    }
+    if (!profile) return;
+
+    fetchWalletData();
+
+    // Withdrawals are settled by the Paystack webhook after the modal closes
+    const channel = supabase
+      .channel('wallet-transactions')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'wallet_transactions',
+          filter: `user_id=eq.${profile.id}`,
+        },
+        () => fetchWalletData(false)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [profile]);
 
-  const fetchWalletData = async () => {
+  const fetchWalletData = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
 
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
@@ -97,6 +138,14 @@ export default function WalletManagement() {
         .single();
 
       setVirtualAccount(virtualAccountData);
+
+      const { data: bankAccountData } = await supabase
+        .from('payout_bank_accounts')
+        .select('*')
+        .eq('user_id', profile?.id)
+        .maybeSingle();
+
+      setBankAccount(bankAccountData);
     } catch (error) {
       console.error('Error fetching wallet data:', error);
       Alert.alert('Error', 'Failed to load wallet data');
@@ -155,48 +204,6 @@ export default function WalletManagement() {
     showToast(`${label} copied to clipboard!`, 'success');
   };
 
-  const handleFundWallet = async () => {
-    if (!profile) return;
-
-    const amount = parseFloat(fundAmount);
-    if (isNaN(amount) || amount <= 0) {
-      Alert.alert('Invalid Amount', 'Please enter a valid amount');
-      return;
-    }
-
-    if (amount < 100) {
-      Alert.alert('Minimum Amount', 'Minimum funding amount is ₦100');
-      return;
-    }
-
-    try {
-      setFunding(true);
-
-      const { data, error } = await supabase.rpc('credit_wallet', {
-        p_user_id: profile.id,
-        p_amount: amount,
-        p_description: 'Wallet top-up',
-        p_reference_type: 'topup',
-      });
-
-      if (error) throw error;
-
-      if (data.success) {
-        Alert.alert('Success', `₦${amount.toFixed(2)} has been added to your wallet`);
-        setShowFundModal(false);
-        setFundAmount('');
-        await fetchWalletData();
-      } else {
-        throw new Error(data.error || 'Failed to fund wallet');
-      }
-    } catch (error) {
-      console.error('Error funding wallet:', error);
-      Alert.alert('Error', 'Failed to fund wallet. Please try again.');
-    } finally {
-      setFunding(false);
-    }
-  };
-
   const handlePayOnline = async () => {
     if (!profile) return;
 
@@ -230,6 +237,7 @@ export default function WalletManagement() {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify({
+            type: 'wallet',
             amount,
             email: profile.email,
           }),
@@ -357,8 +365,97 @@ export default function WalletManagement() {
     }
   };
 
+  const callWalletFunction = async (name: string, init: RequestInit = {}) => {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      throw new Error('You must be logged in');
+    }
+
+    const response = await fetch(
+      `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/${name}`,
+      {
+        ...init,
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    return response.json();
+  };
+
+  const openWithdrawModal = () => {
+    setShowWithdrawModal(true);
+    setEditingBankAccount(false);
+
+    if (banks.length === 0) {
+      fetchBanks();
+    }
+  };
+
+  const fetchBanks = async () => {
+    try {
+      setLoadingBanks(true);
+      const result = await callWalletFunction('payout-bank-account', { method: 'GET' });
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to load banks');
+      }
+
+      setBanks(result.data);
+    } catch (error) {
+      console.error('Error loading banks:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      showToast(errorMessage, 'error');
+    } finally {
+      setLoadingBanks(false);
+    }
+  };
+
+  const handleSaveBankAccount = async () => {
+    if (!selectedBank) {
+      Alert.alert('Select Bank', 'Please select your bank');
+      return;
+    }
+
+    if (!/^\d{10}$/.test(bankAccountNumber)) {
+      Alert.alert('Invalid Account Number', 'Account number must be 10 digits');
+      return;
+    }
+
+    try {
+      setSavingBankAccount(true);
+
+      const result = await callWalletFunction('payout-bank-account', {
+        method: 'POST',
+        body: JSON.stringify({
+          account_number: bankAccountNumber,
+          bank_code: selectedBank.code,
+        }),
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to verify bank account');
+      }
+
+      setBankAccount(result.data);
+      setEditingBankAccount(false);
+      setSelectedBank(null);
+      setBankAccountNumber('');
+      showToast(`Account verified: ${result.data.account_name}`, 'success');
+    } catch (error) {
+      console.error('Error saving bank account:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Verification Failed', errorMessage);
+    } finally {
+      setSavingBankAccount(false);
+    }
+  };
+
   const handleWithdrawFunds = async () => {
-    if (!profile) return;
+    if (!profile || !bankAccount) return;
 
     const amount = parseFloat(withdrawAmount);
     if (isNaN(amount) || amount <= 0) {
@@ -379,31 +476,38 @@ export default function WalletManagement() {
     try {
       setWithdrawing(true);
 
-      const { data, error } = await supabase.rpc('debit_wallet', {
-        p_user_id: profile.id,
-        p_amount: amount,
-        p_description: 'Wallet withdrawal',
-        p_reference_type: 'withdrawal',
+      const result = await callWalletFunction('initiate-withdrawal', {
+        method: 'POST',
+        body: JSON.stringify({ amount }),
       });
 
-      if (error) throw error;
-
-      if (data.success) {
-        Alert.alert('Success', `₦${amount.toFixed(2)} has been withdrawn from your wallet`);
-        setShowWithdrawModal(false);
-        setWithdrawAmount('');
-        await fetchWalletData();
-      } else {
-        throw new Error(data.error || 'Failed to withdraw funds');
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to withdraw funds');
       }
+
+      Alert.alert(
+        'Withdrawal Started',
+        `₦${amount.toFixed(2)} is on its way to ${bankAccount.bank_name} ****${bankAccount.account_number.slice(-4)}. If the transfer fails, the money is returned to your wallet.`
+      );
+      setShowWithdrawModal(false);
+      setWithdrawAmount('');
+      await fetchWalletData(false);
     } catch (error) {
       console.error('Error withdrawing funds:', error);
-      Alert.alert('Error', 'Failed to withdraw funds. Please try again.');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      Alert.alert('Error', errorMessage || 'Failed to withdraw funds. Please try again.');
     } finally {
       setWithdrawing(false);
     }
   };
 
+  const getTransactionStatusLabel = (status: string) => {
+    if (status === 'pending') return 'Processing';
+    if (status === 'reversed') return 'Reversed';
+    if (status === 'failed') return 'Failed';
+    return null;
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -447,7 +551,7 @@ export default function WalletManagement() {
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.withdrawButton}
-            onPress={() => setShowWithdrawModal(true)}
+            onPress={openWithdrawModal}
           >
             <Minus size={20} color="#ff8c00" />
             <Text style={styles.withdrawButtonText}>Withdraw</Text>
@@ -540,6 +644,16 @@ export default function WalletManagement() {
                   <Text style={styles.transactionDate}>
                     {formatDate(transaction.created_at)}
                   </Text>
+                  {getTransactionStatusLabel(transaction.status) && (
+                    <Text
+                      style={[
+                        styles.transactionStatus,
+                        transaction.status === 'pending' ? styles.transactionStatusPending : styles.transactionStatusReversed,
+                      ]}
+                    >
+                      {getTransactionStatusLabel(transaction.status)}
+                    </Text>
+                  )}
                 </View>
                 <View style={styles.transactionAmount}>
                   <Text
@@ -602,27 +716,6 @@ export default function WalletManagement() {
               )}
             </TouchableOpacity>
 
-            <View style={styles.divider}>
-              <View style={styles.dividerLine} />
-              <Text style={styles.dividerText}>OR</Text>
-              <View style={styles.dividerLine} />
-            </View>
-
-            <TouchableOpacity
-              style={[styles.manualFundButton, funding && styles.buttonDisabled]}
-              onPress={handleFundWallet}
-              disabled={funding || initializingPayment}
-            >
-              {funding ? (
-                <ActivityIndicator color="#ff8c00" />
-              ) : (
-                <>
-                  <Plus size={20} color="#ff8c00" />
-                  <Text style={styles.manualFundButtonText}>Manual Fund</Text>
-                </>
-              )}
-            </TouchableOpacity>
-
             <TouchableOpacity
               style={styles.cancelModalButton}
               onPress={() => {
@@ -651,17 +744,117 @@ export default function WalletManagement() {
               <Text style={styles.balanceInfoValue}>₦{walletBalance.toFixed(2)}</Text>
             </View>
 
-            <Text style={styles.inputLabel}>Enter Amount</Text>
-            <TextInput
-              style={styles.input}
-              value={withdrawAmount}
-              onChangeText={setWithdrawAmount}
-              keyboardType="numeric"
-              placeholder="0.00"
-              placeholderTextColor="#9ca3af"
-            />
+            {bankAccount && !editingBankAccount ? (
+              <>
+                <View style={styles.payoutAccountCard}>
+                  <Building2 size={20} color="#ff8c00" />
+                  <View style={styles.payoutAccountInfo}>
+                    <Text style={styles.payoutAccountName}>{bankAccount.account_name}</Text>
+                    <Text style={styles.payoutAccountDetails}>
+                      {bankAccount.bank_name} · {bankAccount.account_number}
+                    </Text>
+                  </View>
+                  <TouchableOpacity onPress={() => setEditingBankAccount(true)}>
+                    <Text style={styles.changeAccountText}>Change</Text>
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={styles.inputLabel}>Enter Amount</Text>
+                <TextInput
+                  style={styles.input}
+                  value={withdrawAmount}
+                  onChangeText={setWithdrawAmount}
+                  keyboardType="numeric"
+                  placeholder="0.00"
+                  placeholderTextColor="#9ca3af"
+                />
+
+                <Text style={styles.modalNote}>Minimum withdrawal amount: ₦100</Text>
+              </>
+            ) : (
+              <>
+                <Text style={styles.inputLabel}>Withdraw to Bank Account</Text>
+                <TouchableOpacity
+                  style={styles.bankSelector}
+                  onPress={() => setShowBankList(!showBankList)}
+                  disabled={loadingBanks}
+                >
+                  {loadingBanks ? (
+                    <ActivityIndicator size="small" color="#ff8c00" />
+                  ) : (
+                    <Text style={[styles.bankSelectorText, !selectedBank && styles.bankSelectorPlaceholder]}>
+                      {selectedBank ? selectedBank.name : 'Select your bank'}
+                    </Text>
+                  )}
+                  <ChevronDown size={18} color="#6b7280" />
+                </TouchableOpacity>
+
+                {showBankList && (
+                  <View style={styles.bankList}>
+                    <View style={styles.bankSearchRow}>
+                      <Search size={16} color="#9ca3af" />
+                      <TextInput
+                        style={styles.bankSearchInput}
+                        value={bankSearch}
+                        onChangeText={setBankSearch}
+                        placeholder="Search banks"
+                        placeholderTextColor="#9ca3af"
+                      />
+                    </View>
+                    <ScrollView style={styles.bankListScroll} nestedScrollEnabled>
+                      {banks
+                        .filter((bank) => bank.name.toLowerCase().includes(bankSearch.toLowerCase()))
+                        .map((bank) => (
+                          <TouchableOpacity
+                            key={bank.code}
+                            style={styles.bankOption}
+                            onPress={() => {
+                              setSelectedBank(bank);
+                              setShowBankList(false);
+                              setBankSearch('');
+                            }}
+                          >
+                            <Text style={styles.bankOptionText}>{bank.name}</Text>
+                          </TouchableOpacity>
+                        ))}
+                    </ScrollView>
+                  </View>
+                )}
+
+                <TextInput
+                  style={styles.input}
+                  value={bankAccountNumber}
+                  onChangeText={(text) => setBankAccountNumber(text.replace(/\D/g, '').slice(0, 10))}
+                  keyboardType="number-pad"
+                  placeholder="10-digit account number"
+                  placeholderTextColor="#9ca3af"
+                />
+
+                <Text style={styles.modalNote}>
+                  We confirm the account name with your bank before saving it.
+                </Text>
+
+                <TouchableOpacity
+                  style={[styles.verifyAccountButton, savingBankAccount && styles.buttonDisabled]}
+                  onPress={handleSaveBankAccount}
+                  disabled={savingBankAccount}
+                >
+                  {savingBankAccount ? (
+                    <ActivityIndicator color="#ffffff" />
+                  ) : (
+                    <Text style={styles.confirmButtonText}>Verify Account</Text>
+                  )}
+                </TouchableOpacity>
 
-            <Text style={styles.modalNote}>Minimum withdrawal amount: ₦100</Text>
+                {bankAccount && (
+                  <TouchableOpacity onPress={() => setEditingBankAccount(false)}>
+                    <Text style={[styles.changeAccountText, { textAlign: 'center', marginBottom: 12 }]}>
+                      Keep {bankAccount.bank_name} ****{bankAccount.account_number.slice(-4)}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
 
             <View style={styles.modalButtons}>
               <TouchableOpacity
@@ -675,9 +868,12 @@ export default function WalletManagement() {
               </TouchableOpacity>
 
               <TouchableOpacity
-                style={[styles.confirmButton, withdrawing && styles.buttonDisabled]}
+                style={[
+                  styles.confirmButton,
+                  (withdrawing || !bankAccount || editingBankAccount) && styles.buttonDisabled,
+                ]}
                 onPress={handleWithdrawFunds}
-                disabled={withdrawing}
+                disabled={withdrawing || !bankAccount || editingBankAccount}
               >
                 {withdrawing ? (
                   <ActivityIndicator color="#ffffff" />
@@ -991,6 +1187,17 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.regular,
     color: '#9ca3af',
   },
+  transactionStatus: {
+    fontSize: 11,
+    fontFamily: Fonts.semiBold,
+    marginTop: 2,
+  },
+  transactionStatusPending: {
+    color: '#d97706',
+  },
+  transactionStatusReversed: {
+    color: '#6b7280',
+  },
   transactionAmount: {
     alignItems: 'flex-end',
     justifyContent: 'center',
@@ -1116,6 +1323,97 @@ const styles = StyleSheet.create({
   buttonDisabled: {
     opacity: 0.6,
   },
+  payoutAccountCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderWidth: 1,
+    borderColor: '#fed7aa',
+    backgroundColor: '#fff7ed',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 16,
+  },
+  payoutAccountInfo: {
+    flex: 1,
+  },
+  payoutAccountName: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+  },
+  payoutAccountDetails: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  changeAccountText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
+  bankSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  bankSelectorText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1f2937',
+  },
+  bankSelectorPlaceholder: {
+    color: '#9ca3af',
+  },
+  bankList: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
+  bankSearchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  bankSearchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#1f2937',
+  },
+  bankListScroll: {
+    maxHeight: 200,
+  },
+  bankOption: {
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f9fafb',
+  },
+  bankOptionText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#374151',
+  },
+  verifyAccountButton: {
+    backgroundColor: '#ff8c00',
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
   paymentMethodLabel: {
     fontSize: 16,
     fontFamily: Fonts.semiBold,
@@ -1138,22 +1436,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontFamily: Fonts.bold,
   },
-  divider: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginVertical: 16,
-  },
-  dividerLine: {
-    flex: 1,
-    height: 1,
-    backgroundColor: '#e5e7eb',
-  },
-  dividerText: {
-    marginHorizontal: 12,
-    color: '#9ca3af',
-    fontSize: 14,
-    fontFamily: Fonts.semiBold,
-  },
   manualFundButton: {
     flexDirection: 'row',
     backgroundColor: '#ffffff',
@@ -20,6 +20,7 @@ import {
   Ruler,
   DollarSign,
   FileText,
+  ShoppingBag,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { Fonts } from '@/constants/fonts';
@@ -53,6 +54,7 @@ const ACTION_CONFIG: Record<string, { color: string; bg: string; icon: any; labe
   address_saved: { color: '#059669', bg: '#f0fdf4', icon: Save, label: 'Address Saved' },
   adjustment: { color: '#ff8c00', bg: '#fff7ed', icon: Settings, label: 'Adjustment' },
   promotion_applied: { color: '#e11d48', bg: '#fff1f2', icon: Tag, label: 'Promo Applied' },
+  order_placed: { color: '#7c3aed', bg: '#f5f3ff', icon: ShoppingBag, label: 'Order Placed' },
 };
 
 const DEFAULT_ACTION = { color: '#8b909a', bg: '#f1f5f9', icon: FileText, label: 'Unknown' };
@@ -9,6 +9,7 @@ import {
   Modal,
   ScrollView,
   TextInput,
+  Image,
 } from 'react-native';
 import {
   Package,
@@ -28,11 +29,17 @@ import {
   MapPin,
   CreditCard,
   Filter,
+  RotateCcw,
+  Bike,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { Order, OrderStatus, OrderItem, Product } from '@/types/database';
 import { useToast } from '@/contexts/ToastContext';
 import OrderReceipt from '@/components/OrderReceipt';
+import RefundOrderModal, { canRefundOrder } from '@/components/RefundOrderModal';
+import AssignRiderModal, { canAssignRider } from '@/components/AssignRiderModal';
+import { canTransitionTo } from '@/lib/orderStatus';
+import { DELIVERY_PHOTOS_BUCKET } from '@/lib/deliveryTracking';
 import { Fonts } from '@/constants/fonts';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
@@ -93,6 +100,10 @@ interface OrderWithCustomer extends Order {
   vendor: {
     business_name: string;
   };
+  rider?: {
+    full_name: string;
+    phone?: string;
+  } | null;
 }
 
 interface OrderItemWithProduct extends OrderItem {
@@ -120,6 +131,26 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
   const [showReceipt, setShowReceipt] = useState(false);
   const [receiptOrder, setReceiptOrder] = useState<Order | null>(null);
   const [orderItems, setOrderItems] = useState<OrderItemWithProduct[]>([]);
+  const [refundOrder, setRefundOrder] = useState<OrderWithCustomer | null>(null);
+  const [riderOrder, setRiderOrder] = useState<OrderWithCustomer | null>(null);
+  const [proofPhotoUrl, setProofPhotoUrl] = useState<string | null>(null);
+
+  // Proof of delivery photos are private, so admins view them through a signed URL
+  useEffect(() => {
+    setProofPhotoUrl(null);
+    if (!showStatusModal || !selectedOrder?.delivery_photo_path) return;
+
+    supabase.storage
+      .from(DELIVERY_PHOTOS_BUCKET)
+      .createSignedUrl(selectedOrder.delivery_photo_path, 60 * 60)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading delivery photo:', error);
+          return;
+        }
+        setProofPhotoUrl(data.signedUrl);
+      });
+  }, [showStatusModal, selectedOrder?.delivery_photo_path]);
 
   useEffect(() => {
     fetchOrders();
@@ -272,17 +303,20 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
         },
         body: JSON.stringify({
           status: newStatus,
-          updated_at: new Date().toISOString(),
         }),
       });
 
-      if (!response.ok) throw new Error('Failed to update order');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update order');
+      }
 
       setShowStatusModal(false);
       setSelectedOrder(null);
       await fetchOrders();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error updating order status:', error);
+      showToast(error.message || 'Failed to update order', 'error');
     } finally {
       setUpdatingStatus(false);
     }
@@ -302,7 +336,6 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
         },
         body: JSON.stringify({
           payment_status: 'completed',
-          updated_at: new Date().toISOString(),
         }),
       });
 
@@ -590,8 +623,34 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                     <Text style={styles.modalTotal}>
                       {'\u20A6'}{Number(selectedOrder.total).toLocaleString('en-NG', { minimumFractionDigits: 2 })}
                     </Text>
+                    {Number(selectedOrder.refunded_amount || 0) > 0 && (
+                      <Text style={styles.modalRefunded}>
+                        {'\u20A6'}{Number(selectedOrder.refunded_amount).toLocaleString('en-NG', { minimumFractionDigits: 2 })} refunded
+                      </Text>
+                    )}
+                    {selectedOrder.delivery_type === 'delivery' && (
+                      <Text style={styles.modalRider}>
+                        Rider: {selectedOrder.rider
+                          ? `${selectedOrder.rider.full_name}${selectedOrder.rider.phone ? ` · ${selectedOrder.rider.phone}` : ''}`
+                          : 'Not assigned'}
+                      </Text>
+                    )}
                   </View>
 
+                  {selectedOrder.delivery_confirmed_at && (
+                    <View style={styles.proofSection}>
+                      <Text style={styles.modalSectionLabel}>Proof of Delivery</Text>
+                      <Text style={styles.proofText}>
+                        Delivery code confirmed {new Date(selectedOrder.delivery_confirmed_at).toLocaleString()}
+                      </Text>
+                      {proofPhotoUrl ? (
+                        <Image source={{ uri: proofPhotoUrl }} style={styles.proofPhoto} resizeMode="cover" />
+                      ) : !selectedOrder.delivery_photo_path ? (
+                        <Text style={styles.proofText}>No photo was taken</Text>
+                      ) : null}
+                    </View>
+                  )}
+
                   <Text style={styles.modalSectionLabel}>Set Status</Text>
 
                   <View style={styles.statusOptions}>
@@ -600,6 +659,7 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                       const optionColor = statusColors[option.value];
                       const optionBg = statusBgColors[option.value];
                       const isSelected = selectedOrder.status === option.value;
+                      const isAllowed = canTransitionTo(selectedOrder.status, option.value);
 
                       return (
                         <TouchableOpacity
@@ -607,9 +667,10 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                           style={[
                             styles.statusOption,
                             isSelected && { backgroundColor: optionBg, borderColor: optionColor },
+                            !isSelected && !isAllowed && styles.statusOptionDisabled,
                           ]}
                           onPress={() => updateOrderStatus(selectedOrder.id, option.value)}
-                          disabled={updatingStatus}
+                          disabled={updatingStatus || !isAllowed}
                           activeOpacity={0.6}
                         >
                           <View style={[styles.statusOptionIcon, { backgroundColor: optionBg }]}>
@@ -633,6 +694,36 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
                     </View>
                   )}
 
+                  {canAssignRider(selectedOrder) && (
+                    <TouchableOpacity
+                      style={styles.refundOrderBtn}
+                      onPress={() => {
+                        setShowStatusModal(false);
+                        setTimeout(() => setRiderOrder(selectedOrder), 300);
+                      }}
+                      disabled={updatingStatus}
+                    >
+                      <Bike size={16} color="#ff8c00" />
+                      <Text style={styles.refundOrderBtnText}>
+                        {selectedOrder.rider_id ? 'Change Rider' : 'Assign Rider'}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+
+                  {canRefundOrder(selectedOrder) && (
+                    <TouchableOpacity
+                      style={styles.refundOrderBtn}
+                      onPress={() => {
+                        setShowStatusModal(false);
+                        setTimeout(() => setRefundOrder(selectedOrder), 300);
+                      }}
+                      disabled={updatingStatus}
+                    >
+                      <RotateCcw size={16} color="#ff8c00" />
+                      <Text style={styles.refundOrderBtnText}>Issue Refund</Text>
+                    </TouchableOpacity>
+                  )}
+
                   <TouchableOpacity
                     style={styles.deleteOrderBtn}
                     onPress={() => {
@@ -694,6 +785,31 @@ export default function OrderManagement({ onBack }: OrderManagementProps) {
         </View>
       </Modal>
 
+      <RefundOrderModal
+        visible={!!refundOrder}
+        order={refundOrder}
+        onClose={() => setRefundOrder(null)}
+        onComplete={(refund) => {
+          fetchOrders();
+          showToast(
+            refund.status === 'completed'
+              ? `\u20A6${Number(refund.amount).toFixed(2)} refunded to the customer's wallet`
+              : `Refund of \u20A6${Number(refund.amount).toFixed(2)} sent to Paystack`,
+            'success'
+          );
+        }}
+      />
+
+      <AssignRiderModal
+        visible={!!riderOrder}
+        order={riderOrder}
+        onClose={() => setRiderOrder(null)}
+        onComplete={(order) => {
+          fetchOrders();
+          showToast(order.rider_id ? 'Rider assigned' : 'Rider removed', 'success');
+        }}
+      />
+
       <OrderReceipt
         visible={showReceipt}
         order={receiptOrder}
@@ -1062,6 +1178,33 @@ const styles = StyleSheet.create({
     color: '#1a1d23',
     letterSpacing: -0.3,
   },
+  modalRefunded: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#059669',
+    marginTop: 2,
+  },
+  modalRider: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  proofSection: {
+    marginBottom: 20,
+  },
+  proofText: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: '#059669',
+    marginBottom: 8,
+  },
+  proofPhoto: {
+    width: '100%',
+    height: 200,
+    borderRadius: 12,
+    backgroundColor: '#f3f4f6',
+  },
   modalSectionLabel: {
     fontFamily: Fonts.heading,
     fontSize: 14,
@@ -1070,6 +1213,9 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
     marginBottom: 12,
   },
+  statusOptionDisabled: {
+    opacity: 0.35,
+  },
   statusOptions: {
     gap: 8,
   },
@@ -1114,6 +1260,23 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.medium,
     color: '#8b909a',
   },
+  refundOrderBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff7ed',
+    padding: 14,
+    borderRadius: 14,
+    gap: 8,
+    marginTop: 20,
+    borderWidth: 1,
+    borderColor: '#ffedd5',
+  },
+  refundOrderBtnText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
   deleteOrderBtn: {
     flexDirection: 'row',
     alignItems: 'center',
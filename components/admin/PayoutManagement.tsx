@@ -0,0 +1,828 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Modal,
+} from 'react-native';
+import { Wallet, Percent, Check, X, Banknote, FileText, Store, Layers } from 'lucide-react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { CommissionRate, PayoutStatus, VendorPayout } from '@/types/database';
+import { downloadPayoutStatement, PAYOUT_STATUS_COLORS, PAYOUT_STATUS_LABELS } from '@/lib/payoutStatement';
+import { Fonts } from '@/constants/fonts';
+
+type TabKey = 'payouts' | 'commission';
+
+const TABS: { key: TabKey; label: string; icon: any }[] = [
+  { key: 'payouts', label: 'Payouts', icon: Wallet },
+  { key: 'commission', label: 'Commission', icon: Percent },
+];
+
+const STATUS_FILTERS: { key: PayoutStatus | 'all'; label: string }[] = [
+  { key: 'pending', label: 'Pending' },
+  { key: 'approved', label: 'Approved' },
+  { key: 'paid', label: 'Paid' },
+  { key: 'rejected', label: 'Rejected' },
+  { key: 'all', label: 'All' },
+];
+
+interface PayoutAction {
+  payout: VendorPayout;
+  status: 'approved' | 'rejected' | 'paid';
+}
+
+interface NamedItem {
+  id: string;
+  name: string;
+}
+
+export default function PayoutManagement() {
+  const insets = useSafeAreaInsets();
+  const { showToast } = useToast();
+  const [activeTab, setActiveTab] = useState<TabKey>('payouts');
+  const [loading, setLoading] = useState(true);
+  const [vendors, setVendors] = useState<NamedItem[]>([]);
+  const [categories, setCategories] = useState<NamedItem[]>([]);
+
+  const [payouts, setPayouts] = useState<VendorPayout[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PayoutStatus | 'all'>('pending');
+  const [action, setAction] = useState<PayoutAction | null>(null);
+  const [actionNote, setActionNote] = useState('');
+  const [actionReference, setActionReference] = useState('');
+  const [processing, setProcessing] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const [rates, setRates] = useState<CommissionRate[]>([]);
+  const [globalRate, setGlobalRate] = useState('');
+  const [vendorRates, setVendorRates] = useState<Record<string, string>>({});
+  const [categoryRates, setCategoryRates] = useState<Record<string, string>>({});
+  const [savingRates, setSavingRates] = useState(false);
+
+  useEffect(() => {
+    loadNames();
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [activeTab, statusFilter]);
+
+  const loadNames = async () => {
+    const [{ data: vendorData }, { data: categoryData }] = await Promise.all([
+      supabase.from('vendors').select('user_id, business_name').order('business_name'),
+      supabase.from('categories').select('id, name').order('name'),
+    ]);
+
+    setVendors((vendorData || []).map((v: any) => ({ id: v.user_id, name: v.business_name })));
+    setCategories(categoryData || []);
+  };
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      if (activeTab === 'payouts') await loadPayouts();
+      else await loadRates();
+    } catch (error) {
+      console.error('Error loading data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPayouts = async () => {
+    let query = supabase
+      .from('vendor_payouts')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (statusFilter !== 'all') {
+      query = query.eq('status', statusFilter);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    setPayouts(data || []);
+  };
+
+  const loadRates = async () => {
+    const { data, error } = await supabase.from('commission_rates').select('*');
+    if (error) throw error;
+
+    const list: CommissionRate[] = data || [];
+    setRates(list);
+    setGlobalRate(String(list.find((r) => r.scope === 'global')?.rate ?? ''));
+    setVendorRates(
+      Object.fromEntries(list.filter((r) => r.scope === 'vendor').map((r) => [r.vendor_id, String(r.rate)]))
+    );
+    setCategoryRates(
+      Object.fromEntries(list.filter((r) => r.scope === 'category').map((r) => [r.category_id, String(r.rate)]))
+    );
+  };
+
+  const vendorName = (vendorId: string) => vendors.find((v) => v.id === vendorId)?.name || 'Vendor';
+
+  const openAction = (payout: VendorPayout, status: PayoutAction['status']) => {
+    setAction({ payout, status });
+    setActionNote('');
+    setActionReference('');
+  };
+
+  const handleConfirmAction = async () => {
+    if (!action) return;
+
+    if (action.status === 'rejected' && !actionNote.trim()) {
+      showToast('Please give the vendor a reason', 'error');
+      return;
+    }
+
+    try {
+      setProcessing(true);
+
+      const { data: result, error } = await supabase.rpc('update_vendor_payout_status', {
+        p_payout_id: action.payout.id,
+        p_status: action.status,
+        p_note: actionNote.trim() || null,
+        p_payment_reference: actionReference.trim() || null,
+      });
+
+      if (error) throw error;
+
+      if (!result?.success) {
+        showToast(result?.error || 'Failed to update payout', 'error');
+        return;
+      }
+
+      showToast(`Payout ${PAYOUT_STATUS_LABELS[action.status].toLowerCase()}`, 'success');
+      setAction(null);
+      loadPayouts();
+    } catch (error: any) {
+      console.error('Error updating payout:', error);
+      showToast(error.message || 'Failed to update payout', 'error');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleDownloadStatement = async (payout: VendorPayout) => {
+    setDownloadingId(payout.id);
+    await downloadPayoutStatement(payout, vendorName(payout.vendor_id));
+    setDownloadingId(null);
+  };
+
+  const parseRate = (value: string) => {
+    const rate = parseFloat(value);
+    return isNaN(rate) || rate < 0 || rate > 100 ? null : rate;
+  };
+
+  const saveOverrides = async (
+    scope: 'vendor' | 'category',
+    values: Record<string, string>
+  ) => {
+    const column = scope === 'vendor' ? 'vendor_id' : 'category_id';
+    const existing = rates.filter((r) => r.scope === scope);
+
+    for (const [targetId, value] of Object.entries(values)) {
+      const current = existing.find((r) => r[column] === targetId);
+
+      if (!value.trim()) {
+        if (current) {
+          const { error } = await supabase.from('commission_rates').delete().eq('id', current.id);
+          if (error) throw error;
+        }
+        continue;
+      }
+
+      const rate = parseRate(value);
+      if (rate === null) throw new Error('Rates must be between 0 and 100');
+
+      if (current) {
+        if (Number(current.rate) === rate) continue;
+        const { error } = await supabase
+          .from('commission_rates')
+          .update({ rate, updated_at: new Date().toISOString() })
+          .eq('id', current.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('commission_rates')
+          .insert({ scope, [column]: targetId, rate });
+        if (error) throw error;
+      }
+    }
+  };
+
+  const handleSaveRates = async () => {
+    const global = parseRate(globalRate);
+    if (global === null) {
+      showToast('Global rate must be between 0 and 100', 'error');
+      return;
+    }
+
+    try {
+      setSavingRates(true);
+
+      const { error } = await supabase
+        .from('commission_rates')
+        .update({ rate: global, updated_at: new Date().toISOString() })
+        .eq('scope', 'global');
+      if (error) throw error;
+
+      await saveOverrides('vendor', vendorRates);
+      await saveOverrides('category', categoryRates);
+
+      showToast('Commission rates saved', 'success');
+      await loadRates();
+    } catch (error: any) {
+      console.error('Error saving commission rates:', error);
+      showToast(error.message || 'Failed to save commission rates', 'error');
+    } finally {
+      setSavingRates(false);
+    }
+  };
+
+  const renderPayoutsTab = () => (
+    <ScrollView contentContainerStyle={styles.tabScroll} showsVerticalScrollIndicator={false}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+        {STATUS_FILTERS.map((filter) => (
+          <TouchableOpacity
+            key={filter.key}
+            style={[styles.filterChip, statusFilter === filter.key && styles.filterChipActive]}
+            onPress={() => setStatusFilter(filter.key)}
+          >
+            <Text style={[styles.filterText, statusFilter === filter.key && styles.filterTextActive]}>
+              {filter.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {payouts.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Wallet size={40} color="#cbd5e1" />
+          <Text style={styles.emptyText}>No payouts here</Text>
+        </View>
+      ) : (
+        payouts.map((payout) => (
+          <View key={payout.id} style={styles.card}>
+            <View style={styles.cardHeader}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.cardTitle}>{vendorName(payout.vendor_id)}</Text>
+                <Text style={styles.cardMeta}>
+                  {payout.payout_number} · {new Date(payout.created_at).toLocaleDateString()}
+                </Text>
+              </View>
+              <View style={{ alignItems: 'flex-end', gap: 4 }}>
+                <Text style={styles.cardAmount}>₦{Number(payout.amount).toFixed(2)}</Text>
+                <View style={[styles.statusBadge, { backgroundColor: PAYOUT_STATUS_COLORS[payout.status] + '20' }]}>
+                  <Text style={[styles.statusText, { color: PAYOUT_STATUS_COLORS[payout.status] }]}>
+                    {PAYOUT_STATUS_LABELS[payout.status]}
+                  </Text>
+                </View>
+              </View>
+            </View>
+
+            {payout.vendor_note ? <Text style={styles.noteText}>Vendor: {payout.vendor_note}</Text> : null}
+            {payout.admin_note ? <Text style={styles.noteText}>Admin: {payout.admin_note}</Text> : null}
+            {payout.payment_reference ? (
+              <Text style={styles.noteText}>Reference: {payout.payment_reference}</Text>
+            ) : null}
+
+            <View style={styles.cardActions}>
+              {payout.status === 'pending' && (
+                <>
+                  <TouchableOpacity style={[styles.actionBtn, styles.approveBtn]} onPress={() => openAction(payout, 'approved')}>
+                    <Check size={14} color="#ffffff" />
+                    <Text style={styles.actionBtnText}>Approve</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.actionBtn, styles.rejectBtn]} onPress={() => openAction(payout, 'rejected')}>
+                    <X size={14} color="#ffffff" />
+                    <Text style={styles.actionBtnText}>Reject</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+              {payout.status === 'approved' && (
+                <TouchableOpacity style={[styles.actionBtn, styles.paidBtn]} onPress={() => openAction(payout, 'paid')}>
+                  <Banknote size={14} color="#ffffff" />
+                  <Text style={styles.actionBtnText}>Mark Paid</Text>
+                </TouchableOpacity>
+              )}
+              {payout.status !== 'rejected' && (
+                <TouchableOpacity
+                  style={styles.statementBtn}
+                  onPress={() => handleDownloadStatement(payout)}
+                  disabled={downloadingId === payout.id}
+                >
+                  {downloadingId === payout.id ? (
+                    <ActivityIndicator size="small" color="#ff8c00" />
+                  ) : (
+                    <>
+                      <FileText size={14} color="#ff8c00" />
+                      <Text style={styles.statementBtnText}>Statement</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+
+  const renderRateRow = (
+    item: NamedItem,
+    values: Record<string, string>,
+    setValues: (v: Record<string, string>) => void
+  ) => (
+    <View key={item.id} style={styles.rateRow}>
+      <Text style={styles.rateName} numberOfLines={1}>{item.name}</Text>
+      <View style={styles.rateInputWrap}>
+        <TextInput
+          style={styles.rateInput}
+          value={values[item.id] || ''}
+          onChangeText={(t) => setValues({ ...values, [item.id]: t })}
+          keyboardType="decimal-pad"
+          placeholder="—"
+          placeholderTextColor="#cbd5e1"
+        />
+        <Text style={styles.rateUnit}>%</Text>
+      </View>
+    </View>
+  );
+
+  const renderCommissionTab = () => (
+    <ScrollView contentContainerStyle={styles.tabScroll} showsVerticalScrollIndicator={false}>
+      <View style={styles.formCard}>
+        <Text style={styles.sectionTitle}>Global Commission</Text>
+        <Text style={styles.sectionDesc}>
+          Charged on the item subtotal of every delivered order. Vendor rates take precedence over category
+          rates, which take precedence over this one.
+        </Text>
+        <View style={styles.rateRow}>
+          <Text style={styles.rateName}>All sales</Text>
+          <View style={styles.rateInputWrap}>
+            <TextInput
+              style={styles.rateInput}
+              value={globalRate}
+              onChangeText={setGlobalRate}
+              keyboardType="decimal-pad"
+              placeholder="10"
+              placeholderTextColor="#cbd5e1"
+            />
+            <Text style={styles.rateUnit}>%</Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.formCard}>
+        <View style={styles.sectionTitleRow}>
+          <Store size={16} color="#ff8c00" />
+          <Text style={styles.sectionTitle}>Vendor Rates</Text>
+        </View>
+        <Text style={styles.sectionDesc}>Leave empty to use the category or global rate.</Text>
+        {vendors.map((vendor) => renderRateRow(vendor, vendorRates, setVendorRates))}
+      </View>
+
+      <View style={styles.formCard}>
+        <View style={styles.sectionTitleRow}>
+          <Layers size={16} color="#3b82f6" />
+          <Text style={styles.sectionTitle}>Category Rates</Text>
+        </View>
+        <Text style={styles.sectionDesc}>Leave empty to use the global rate.</Text>
+        {categories.map((category) => renderRateRow(category, categoryRates, setCategoryRates))}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveBtn, savingRates && { opacity: 0.6 }]}
+        onPress={handleSaveRates}
+        disabled={savingRates}
+      >
+        {savingRates ? <ActivityIndicator size="small" color="#ffffff" /> : <Check size={18} color="#ffffff" />}
+        <Text style={styles.saveBtnText}>Save Rates</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.loadingWrap}>
+          <ActivityIndicator size="large" color="#ff8c00" />
+        </View>
+      );
+    }
+    return activeTab === 'payouts' ? renderPayoutsTab() : renderCommissionTab();
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.header, { paddingTop: insets.top + 12 }]}>
+        <Text style={styles.headerTitle}>Payouts</Text>
+        <Text style={styles.headerSubtitle}>Vendor payouts & platform commission</Text>
+
+        <View style={styles.tabBar}>
+          {TABS.map((tab) => {
+            const isActive = activeTab === tab.key;
+            const Icon = tab.icon;
+            return (
+              <TouchableOpacity
+                key={tab.key}
+                style={[styles.tabItem, isActive && styles.tabItemActive]}
+                onPress={() => setActiveTab(tab.key)}
+              >
+                <Icon size={16} color={isActive ? '#ffffff' : 'rgba(255,255,255,0.4)'} />
+                <Text style={[styles.tabLabel, isActive && styles.tabLabelActive]}>{tab.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.contentArea}>
+        {renderContent()}
+      </View>
+
+      <Modal visible={!!action} transparent animationType="fade" onRequestClose={() => setAction(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.confirmModal}>
+            <Text style={styles.confirmTitle}>
+              {action?.status === 'approved' ? 'Approve Payout' : action?.status === 'rejected' ? 'Reject Payout' : 'Mark as Paid'}
+            </Text>
+            <Text style={styles.confirmMessage}>
+              {action && `${vendorName(action.payout.vendor_id)} · ₦${Number(action.payout.amount).toFixed(2)}`}
+            </Text>
+            {action?.status === 'paid' && (
+              <TextInput
+                style={styles.modalInput}
+                value={actionReference}
+                onChangeText={setActionReference}
+                placeholder="Transfer reference"
+                placeholderTextColor="#94a3b8"
+              />
+            )}
+            <TextInput
+              style={[styles.modalInput, { minHeight: 70, textAlignVertical: 'top' }]}
+              value={actionNote}
+              onChangeText={setActionNote}
+              placeholder={action?.status === 'rejected' ? 'Reason (required)' : 'Note for the vendor (optional)'}
+              placeholderTextColor="#94a3b8"
+              multiline
+            />
+            <View style={styles.confirmActions}>
+              <TouchableOpacity style={styles.cancelBtn} onPress={() => setAction(null)} disabled={processing}>
+                <Text style={styles.cancelBtnText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmBtn, action?.status === 'rejected' && { backgroundColor: '#ef4444' }]}
+                onPress={handleConfirmAction}
+                disabled={processing}
+              >
+                {processing ? (
+                  <ActivityIndicator size="small" color="#ffffff" />
+                ) : (
+                  <Text style={styles.confirmBtnText}>Confirm</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fb',
+  },
+  header: {
+    backgroundColor: '#1a1d23',
+    paddingHorizontal: 20,
+    paddingBottom: 0,
+    borderBottomLeftRadius: 24,
+    borderBottomRightRadius: 24,
+  },
+  headerTitle: {
+    fontSize: 22,
+    fontFamily: Fonts.headingBold,
+    color: '#ffffff',
+  },
+  headerSubtitle: {
+    fontSize: 13,
+    fontFamily: Fonts.medium,
+    color: 'rgba(255,255,255,0.5)',
+    marginTop: 2,
+    marginBottom: 16,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: -1,
+  },
+  tabItem: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderTopLeftRadius: 14,
+    borderTopRightRadius: 14,
+  },
+  tabItemActive: {
+    backgroundColor: '#f8f9fb',
+  },
+  tabLabel: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: 'rgba(255,255,255,0.4)',
+  },
+  tabLabelActive: {
+    color: '#1e293b',
+  },
+  contentArea: {
+    flex: 1,
+  },
+  loadingWrap: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tabScroll: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e8ecf1',
+  },
+  filterChipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  filterText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#64748b',
+  },
+  filterTextActive: {
+    color: '#ffffff',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#94a3b8',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.04,
+    shadowRadius: 8,
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1e293b',
+  },
+  cardMeta: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#8b909a',
+    marginTop: 2,
+  },
+  cardAmount: {
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+    color: '#1e293b',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 11,
+    fontFamily: Fonts.semiBold,
+  },
+  noteText: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  actionBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  approveBtn: {
+    backgroundColor: '#10b981',
+  },
+  rejectBtn: {
+    backgroundColor: '#ef4444',
+  },
+  paidBtn: {
+    backgroundColor: '#3b82f6',
+  },
+  actionBtnText: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#ffffff',
+  },
+  statementBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginLeft: 'auto',
+  },
+  statementBtnText: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
+  formCard: {
+    backgroundColor: '#ffffff',
+    borderRadius: 18,
+    padding: 18,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.04,
+    shadowRadius: 8,
+    elevation: 1,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontFamily: Fonts.headingBold,
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  sectionDesc: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#8b909a',
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    gap: 12,
+  },
+  rateName: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#1e293b',
+  },
+  rateInputWrap: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  rateInput: {
+    width: 72,
+    backgroundColor: '#f8f9fb',
+    borderWidth: 1.5,
+    borderColor: '#e8ecf1',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#1e293b',
+    textAlign: 'right',
+  },
+  rateUnit: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#8b909a',
+  },
+  saveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#ff8c00',
+    borderRadius: 14,
+    paddingVertical: 16,
+    marginTop: 4,
+  },
+  saveBtnText: {
+    fontSize: 15,
+    fontFamily: Fonts.bold,
+    color: '#ffffff',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  confirmModal: {
+    backgroundColor: '#ffffff',
+    borderRadius: 20,
+    padding: 24,
+    width: '100%',
+    maxWidth: 380,
+  },
+  confirmTitle: {
+    fontSize: 18,
+    fontFamily: Fonts.headingBold,
+    color: '#1e293b',
+    marginBottom: 4,
+  },
+  confirmMessage: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#64748b',
+    marginBottom: 16,
+  },
+  modalInput: {
+    backgroundColor: '#f8f9fb',
+    borderWidth: 1.5,
+    borderColor: '#e8ecf1',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  confirmActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  cancelBtn: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#f1f5f9',
+    alignItems: 'center',
+  },
+  cancelBtnText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#64748b',
+  },
+  confirmBtn: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#ff8c00',
+    alignItems: 'center',
+  },
+  confirmBtnText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,308 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Search, SearchX, TrendingUp } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { Fonts } from '@/constants/fonts';
+
+interface QueryStat {
+  query: string;
+  searches: number;
+  customers: number;
+  avg_results?: number;
+  last_searched_at: string;
+}
+
+interface SearchInsightsData {
+  total_searches: number;
+  zero_result_searches: number;
+  top_queries: QueryStat[];
+  zero_result_queries: QueryStat[];
+}
+
+type InsightsTab = 'top' | 'zero';
+
+const PERIODS = [7, 30, 90];
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export default function SearchInsights() {
+  const { showToast } = useToast();
+  const [insights, setInsights] = useState<SearchInsightsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState(30);
+  const [activeTab, setActiveTab] = useState<InsightsTab>('top');
+
+  useEffect(() => {
+    loadInsights();
+  }, [days]);
+
+  const loadInsights = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc('get_search_insights', {
+        p_days: days,
+        p_limit: 50,
+      });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to load search insights');
+
+      setInsights(data as SearchInsightsData);
+    } catch (error) {
+      console.error('Error loading search insights:', error);
+      showToast('Failed to load search insights', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const zeroResultRate = insights && insights.total_searches > 0
+    ? Math.round((insights.zero_result_searches / insights.total_searches) * 100)
+    : 0;
+  const queries = (activeTab === 'top' ? insights?.top_queries : insights?.zero_result_queries) || [];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {PERIODS.map((period) => (
+            <TouchableOpacity
+              key={period}
+              style={[styles.filterChip, days === period && styles.filterChipActive]}
+              onPress={() => setDays(period)}
+            >
+              <Text style={[styles.filterText, days === period && styles.filterTextActive]}>
+                Last {period} days
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {loading ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator size="large" color="#ff8c00" />
+          </View>
+        ) : insights ? (
+          <>
+            <View style={styles.statsRow}>
+              <View style={styles.statCard}>
+                <Search size={18} color="#6366f1" />
+                <Text style={styles.statValue}>{insights.total_searches.toLocaleString()}</Text>
+                <Text style={styles.statLabel}>Searches</Text>
+              </View>
+              <View style={styles.statCard}>
+                <SearchX size={18} color="#ef4444" />
+                <Text style={styles.statValue}>{zeroResultRate}%</Text>
+                <Text style={styles.statLabel}>Found nothing</Text>
+              </View>
+            </View>
+
+            <View style={styles.tabRow}>
+              <TouchableOpacity
+                style={[styles.tab, activeTab === 'top' && styles.tabActive]}
+                onPress={() => setActiveTab('top')}
+              >
+                <Text style={[styles.tabText, activeTab === 'top' && styles.tabTextActive]}>Top Searches</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.tab, activeTab === 'zero' && styles.tabActive]}
+                onPress={() => setActiveTab('zero')}
+              >
+                <Text style={[styles.tabText, activeTab === 'zero' && styles.tabTextActive]}>No Results</Text>
+              </TouchableOpacity>
+            </View>
+
+            {activeTab === 'zero' && queries.length > 0 && (
+              <Text style={styles.hintText}>
+                Customers searched for these and found nothing. Add matching products or categories to close the gaps.
+              </Text>
+            )}
+
+            {queries.length === 0 ? (
+              <View style={styles.emptyState}>
+                {activeTab === 'top' ? <TrendingUp size={40} color="#cbd5e1" /> : <SearchX size={40} color="#cbd5e1" />}
+                <Text style={styles.emptyText}>
+                  {activeTab === 'top' ? 'No searches in this period' : 'Every search found something'}
+                </Text>
+              </View>
+            ) : (
+              queries.map((stat, index) => (
+                <View key={stat.query} style={styles.card}>
+                  <Text style={styles.rank}>{index + 1}</Text>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.cardTitle}>{stat.query}</Text>
+                    <Text style={styles.cardMeta}>
+                      {stat.customers} {stat.customers === 1 ? 'customer' : 'customers'} · Last {formatDateTime(stat.last_searched_at)}
+                    </Text>
+                  </View>
+                  <View style={{ alignItems: 'flex-end' }}>
+                    <Text style={styles.cardCount}>{stat.searches}</Text>
+                    <Text style={styles.cardMeta}>
+                      {activeTab === 'top' ? `${stat.avg_results ?? 0} results avg` : 'searches'}
+                    </Text>
+                  </View>
+                </View>
+              ))
+            )}
+          </>
+        ) : null}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fb',
+  },
+  scroll: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingWrap: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e8ecf1',
+  },
+  filterChipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  filterText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#64748b',
+  },
+  filterTextActive: {
+    color: '#ffffff',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    gap: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.04,
+    shadowRadius: 8,
+    elevation: 1,
+  },
+  statValue: {
+    fontSize: 22,
+    fontFamily: Fonts.headingBold,
+    color: '#1e293b',
+  },
+  statLabel: {
+    fontSize: 12,
+    fontFamily: Fonts.medium,
+    color: '#8b909a',
+  },
+  tabRow: {
+    flexDirection: 'row',
+    backgroundColor: '#eef1f5',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 12,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  tabActive: {
+    backgroundColor: '#ffffff',
+  },
+  tabText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#64748b',
+  },
+  tabTextActive: {
+    color: '#1e293b',
+  },
+  hintText: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#94a3b8',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.04,
+    shadowRadius: 8,
+    elevation: 1,
+  },
+  rank: {
+    width: 22,
+    fontSize: 14,
+    fontFamily: Fonts.bold,
+    color: '#94a3b8',
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1e293b',
+  },
+  cardMeta: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#8b909a',
+    marginTop: 2,
+  },
+  cardCount: {
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+    color: '#1e293b',
+  },
+});
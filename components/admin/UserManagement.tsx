@@ -27,6 +27,10 @@ import {
   Phone,
   Calendar,
   User,
+  Bike,
+  Clock,
+  CheckCircle,
+  XCircle,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
@@ -38,7 +42,8 @@ interface UserProfile {
   full_name: string;
   email: string;
   phone: string | null;
-  role: 'customer' | 'vendor' | 'admin';
+  role: 'customer' | 'vendor' | 'admin' | 'rider';
+  rider_status: 'pending' | 'approved' | 'rejected';
   created_at: string;
   is_suspended: boolean;
   suspended_at: string | null;
@@ -52,34 +57,42 @@ const roleIcons = {
   admin: Shield,
   vendor: ShoppingBag,
   customer: UserCircle,
+  rider: Bike,
 };
 
 const roleColors = {
   admin: '#ef4444',
   vendor: '#ff8c00',
   customer: '#3b82f6',
+  rider: '#059669',
 };
 
 const roleBgColors = {
   admin: '#fef2f2',
   vendor: '#fff7ed',
   customer: '#eff6ff',
+  rider: '#ecfdf5',
 };
 
 const roleLabels = {
   admin: 'Admin',
   vendor: 'Vendor',
   customer: 'Customer',
+  rider: 'Rider',
 };
 
 const FILTER_TABS = [
   { key: 'all', label: 'All' },
   { key: 'customer', label: 'Customers' },
   { key: 'vendor', label: 'Vendors' },
+  { key: 'rider', label: 'Riders' },
+  { key: 'pending_riders', label: 'Pending Riders' },
   { key: 'admin', label: 'Admins' },
   { key: 'suspended', label: 'Suspended' },
 ];
 
+const isPendingRider = (user: UserProfile) => user.role === 'rider' && user.rider_status === 'pending';
+
 export default function UserManagement({ onBack }: UserManagementProps) {
   const { profile: currentUser } = useAuth();
   const insets = useSafeAreaInsets();
@@ -91,7 +104,7 @@ export default function UserManagement({ onBack }: UserManagementProps) {
   const [editForm, setEditForm] = useState({
     full_name: '',
     phone: '',
-    role: 'customer' as 'customer' | 'vendor' | 'admin',
+    role: 'customer' as 'customer' | 'vendor' | 'admin' | 'rider',
   });
   const [updating, setUpdating] = useState(false);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
@@ -123,6 +136,8 @@ export default function UserManagement({ onBack }: UserManagementProps) {
     if (activeFilter !== 'all') {
       if (activeFilter === 'suspended') {
         result = result.filter((u) => u.is_suspended);
+      } else if (activeFilter === 'pending_riders') {
+        result = result.filter(isPendingRider);
       } else {
         result = result.filter((u) => u.role === activeFilter);
       }
@@ -147,7 +162,7 @@ export default function UserManagement({ onBack }: UserManagementProps) {
       setLoading(true);
       const { data, error } = await supabase
         .from('profiles')
-        .select('id, full_name, email, phone, role, created_at, is_suspended, suspended_at')
+        .select('id, full_name, email, phone, role, rider_status, created_at, is_suspended, suspended_at')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -302,6 +317,38 @@ export default function UserManagement({ onBack }: UserManagementProps) {
     }
   };
 
+  // Riders only get deliveries once approved; rejected riders can still be approved later
+  const setRiderStatus = async (user: UserProfile, status: 'approved' | 'rejected') => {
+    try {
+      setActionLoading(user.id);
+      const { error } = await supabase
+        .from('profiles')
+        .update({ rider_status: status })
+        .eq('id', user.id)
+        .select();
+
+      if (error) throw error;
+      Alert.alert('Success', status === 'approved' ? 'Rider approved' : 'Rider rejected');
+      await fetchUsers();
+    } catch (error: any) {
+      console.error('Error updating rider status:', error);
+      Alert.alert('Error', error.message || 'Failed to update rider');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const rejectRider = (user: UserProfile) => {
+    Alert.alert(
+      'Reject Rider',
+      `Are you sure you want to reject ${user.full_name}? They will not be assigned deliveries.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reject', style: 'destructive', onPress: () => setRiderStatus(user, 'rejected') },
+      ]
+    );
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -313,6 +360,7 @@ export default function UserManagement({ onBack }: UserManagementProps) {
   const getFilterCount = (key: string) => {
     if (key === 'all') return users.length;
     if (key === 'suspended') return users.filter((u) => u.is_suspended).length;
+    if (key === 'pending_riders') return users.filter(isPendingRider).length;
     return users.filter((u) => u.role === key).length;
   };
 
@@ -387,7 +435,7 @@ export default function UserManagement({ onBack }: UserManagementProps) {
       </View>
 
       <View style={styles.statsRow}>
-        {(['admin', 'vendor', 'customer'] as const).map((role) => {
+        {(['admin', 'vendor', 'rider', 'customer'] as const).map((role) => {
           const Icon = roleIcons[role];
           const color = roleColors[role];
           const bg = roleBgColors[role];
@@ -447,6 +495,18 @@ export default function UserManagement({ onBack }: UserManagementProps) {
                       <Text style={styles.suspendedText}>Suspended</Text>
                     </View>
                   )}
+                  {item.role === 'rider' && item.rider_status !== 'approved' && (
+                    <View style={[styles.suspendedBadge, item.rider_status === 'pending' && styles.pendingBadge]}>
+                      {item.rider_status === 'pending' ? (
+                        <Clock size={10} color="#d97706" />
+                      ) : (
+                        <XCircle size={10} color="#ef4444" />
+                      )}
+                      <Text style={[styles.suspendedText, item.rider_status === 'pending' && styles.pendingText]}>
+                        {item.rider_status === 'pending' ? 'Pending approval' : 'Rejected'}
+                      </Text>
+                    </View>
+                  )}
                 </View>
               </View>
 
@@ -486,6 +546,30 @@ export default function UserManagement({ onBack }: UserManagementProps) {
                 </View>
               )}
 
+              {item.role === 'rider' && item.rider_status !== 'approved' && (
+                <View style={styles.cardActions}>
+                  <TouchableOpacity
+                    style={[styles.actionBtn, styles.actionBtnUnsuspend]}
+                    onPress={() => setRiderStatus(item, 'approved')}
+                    disabled={isLoading}
+                  >
+                    <CheckCircle size={14} color="#059669" />
+                    <Text style={styles.actionBtnTextUnsuspend}>Approve</Text>
+                  </TouchableOpacity>
+
+                  {item.rider_status === 'pending' && (
+                    <TouchableOpacity
+                      style={[styles.actionBtn, styles.actionBtnDelete]}
+                      onPress={() => rejectRider(item)}
+                      disabled={isLoading}
+                    >
+                      <XCircle size={14} color="#ef4444" />
+                      <Text style={styles.actionBtnTextDelete}>Reject</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
               <View style={styles.cardActions}>
                 <TouchableOpacity
                   style={styles.actionBtn}
@@ -577,7 +661,7 @@ export default function UserManagement({ onBack }: UserManagementProps) {
                 <View style={styles.formGroup}>
                   <Text style={styles.formLabel}>Role</Text>
                   <View style={styles.roleOptions}>
-                    {(['customer', 'vendor', 'admin'] as const).map((role) => {
+                    {(['customer', 'vendor', 'rider', 'admin'] as const).map((role) => {
                       const Icon = roleIcons[role];
                       const color = roleColors[role];
                       const isSelected = editForm.role === role;
@@ -922,6 +1006,12 @@ const styles = StyleSheet.create({
     fontFamily: Fonts.semiBold,
     color: '#ef4444',
   },
+  pendingBadge: {
+    backgroundColor: '#fffbeb',
+  },
+  pendingText: {
+    color: '#d97706',
+  },
   cardDivider: {
     height: 1,
     backgroundColor: '#f0f1f3',
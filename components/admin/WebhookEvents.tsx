@@ -0,0 +1,439 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { Webhook, RotateCcw, Search, ChevronDown, ChevronUp, AlertCircle } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { useToast } from '@/contexts/ToastContext';
+import { PaymentWebhookEvent, WebhookEventStatus } from '@/types/database';
+import { Fonts } from '@/constants/fonts';
+
+type StatusFilter = 'failed' | 'pending' | 'processed' | 'ignored' | 'all';
+
+const STATUS_FILTERS: { key: StatusFilter; label: string }[] = [
+  { key: 'failed', label: 'Failed' },
+  { key: 'pending', label: 'In Progress' },
+  { key: 'processed', label: 'Processed' },
+  { key: 'ignored', label: 'Ignored' },
+  { key: 'all', label: 'All' },
+];
+
+const STATUS_LABELS: Record<WebhookEventStatus, string> = {
+  received: 'Received',
+  processing: 'Processing',
+  processed: 'Processed',
+  ignored: 'Ignored',
+  failed: 'Failed',
+};
+
+const STATUS_COLORS: Record<WebhookEventStatus, string> = {
+  received: '#64748b',
+  processing: '#3b82f6',
+  processed: '#10b981',
+  ignored: '#94a3b8',
+  failed: '#ef4444',
+};
+
+// Matches the claim window in start_payment_webhook_event
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const canReplay = (event: PaymentWebhookEvent) =>
+  event.status === 'failed' ||
+  event.status === 'received' ||
+  (event.status === 'processing' &&
+    (!event.last_attempt_at || Date.now() - new Date(event.last_attempt_at).getTime() > STALE_PROCESSING_MS));
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export default function WebhookEvents() {
+  const { showToast } = useToast();
+  const [events, setEvents] = useState<PaymentWebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('failed');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEvents();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('payment-webhook-events')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'payment_webhook_events' },
+        () => loadEvents(false)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [statusFilter, searchQuery]);
+
+  const loadEvents = async (showLoading = true) => {
+    if (showLoading) setLoading(true);
+    try {
+      let query = supabase
+        .from('payment_webhook_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (statusFilter === 'pending') {
+        query = query.in('status', ['received', 'processing']);
+      } else if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const search = searchQuery.trim().replace(/[,()%]/g, '');
+      if (search) {
+        query = query.or(`reference.ilike.%${search}%,event_type.ilike.%${search}%,event_id.ilike.%${search}%`);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error loading webhook events:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplay = async (event: PaymentWebhookEvent) => {
+    try {
+      setReplayingId(event.id);
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
+
+      const response = await fetch(
+        `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/replay-webhook-event`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ eventId: event.id }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to replay event');
+      }
+
+      showToast(
+        result.status === 'ignored' ? 'Event replayed: nothing to do' : 'Event replayed successfully',
+        'success'
+      );
+      await loadEvents(false);
+    } catch (error: any) {
+      console.error('Error replaying webhook event:', error);
+      showToast(error.message || 'Failed to replay event', 'error');
+      await loadEvents(false);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const renderEvent = (event: PaymentWebhookEvent) => {
+    const expanded = expandedId === event.id;
+    const amount = event.payload?.data?.amount;
+
+    return (
+      <View key={event.id} style={styles.card}>
+        <TouchableOpacity
+          style={styles.cardHeader}
+          onPress={() => setExpandedId(expanded ? null : event.id)}
+          activeOpacity={0.7}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={styles.cardTitle}>{event.event_type}</Text>
+            <Text style={styles.cardMeta} numberOfLines={1}>
+              {event.reference || event.event_id}
+            </Text>
+            <Text style={styles.cardMeta}>
+              {formatDateTime(event.created_at)} · {event.attempts} {event.attempts === 1 ? 'attempt' : 'attempts'}
+            </Text>
+          </View>
+          <View style={{ alignItems: 'flex-end', gap: 4 }}>
+            {typeof amount === 'number' && (
+              <Text style={styles.cardAmount}>₦{(amount / 100).toFixed(2)}</Text>
+            )}
+            <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[event.status] + '20' }]}>
+              <Text style={[styles.statusText, { color: STATUS_COLORS[event.status] }]}>
+                {STATUS_LABELS[event.status]}
+              </Text>
+            </View>
+            {expanded ? <ChevronUp size={16} color="#94a3b8" /> : <ChevronDown size={16} color="#94a3b8" />}
+          </View>
+        </TouchableOpacity>
+
+        {event.status === 'failed' && event.last_error ? (
+          <View style={styles.errorBox}>
+            <AlertCircle size={14} color="#ef4444" />
+            <Text style={styles.errorText}>{event.last_error}</Text>
+          </View>
+        ) : null}
+
+        {expanded && (
+          <>
+            <Text style={styles.detailText}>Event ID: {event.event_id}</Text>
+            {event.processed_at ? (
+              <Text style={styles.detailText}>Processed: {formatDateTime(event.processed_at)}</Text>
+            ) : null}
+            {event.last_replayed_at ? (
+              <Text style={styles.detailText}>Last replayed: {formatDateTime(event.last_replayed_at)}</Text>
+            ) : null}
+            <ScrollView horizontal style={styles.payloadBox}>
+              <Text style={styles.payloadText}>{JSON.stringify(event.payload, null, 2)}</Text>
+            </ScrollView>
+          </>
+        )}
+
+        {canReplay(event) && (
+          <View style={styles.cardActions}>
+            <TouchableOpacity
+              style={[styles.replayBtn, replayingId === event.id && { opacity: 0.6 }]}
+              onPress={() => handleReplay(event)}
+              disabled={!!replayingId}
+            >
+              {replayingId === event.id ? (
+                <ActivityIndicator size="small" color="#ffffff" />
+              ) : (
+                <RotateCcw size={14} color="#ffffff" />
+              )}
+              <Text style={styles.replayBtnText}>Replay</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+        <View style={styles.searchBar}>
+          <Search size={18} color="#94a3b8" />
+          <TextInput
+            style={styles.searchInput}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            onSubmitEditing={() => loadEvents()}
+            placeholder="Search reference or event type"
+            placeholderTextColor="#94a3b8"
+            returnKeyType="search"
+            autoCapitalize="none"
+          />
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+          {STATUS_FILTERS.map((filter) => (
+            <TouchableOpacity
+              key={filter.key}
+              style={[styles.filterChip, statusFilter === filter.key && styles.filterChipActive]}
+              onPress={() => setStatusFilter(filter.key)}
+            >
+              <Text style={[styles.filterText, statusFilter === filter.key && styles.filterTextActive]}>
+                {filter.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {loading ? (
+          <View style={styles.loadingWrap}>
+            <ActivityIndicator size="large" color="#ff8c00" />
+          </View>
+        ) : events.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Webhook size={40} color="#cbd5e1" />
+            <Text style={styles.emptyText}>No webhook events here</Text>
+          </View>
+        ) : (
+          events.map(renderEvent)
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fb',
+  },
+  scroll: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingWrap: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e8ecf1',
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#1e293b',
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#e8ecf1',
+  },
+  filterChipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  filterText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#64748b',
+  },
+  filterTextActive: {
+    color: '#ffffff',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    gap: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: Fonts.medium,
+    color: '#94a3b8',
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.04,
+    shadowRadius: 8,
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1e293b',
+  },
+  cardMeta: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#8b909a',
+    marginTop: 2,
+  },
+  cardAmount: {
+    fontSize: 16,
+    fontFamily: Fonts.bold,
+    color: '#1e293b',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 11,
+    fontFamily: Fonts.semiBold,
+  },
+  errorBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+    backgroundColor: '#fef2f2',
+    borderRadius: 10,
+    padding: 10,
+    marginTop: 10,
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: Fonts.medium,
+    color: '#b91c1c',
+  },
+  detailText: {
+    fontSize: 12,
+    fontFamily: Fonts.regular,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  payloadBox: {
+    marginTop: 10,
+    backgroundColor: '#1a1d23',
+    borderRadius: 10,
+    padding: 12,
+    maxHeight: 320,
+  },
+  payloadText: {
+    fontSize: 11,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: '#e2e8f0',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  replayBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#3b82f6',
+  },
+  replayBtnText: {
+    fontSize: 12,
+    fontFamily: Fonts.semiBold,
+    color: '#ffffff',
+  },
+});
@@ -9,19 +9,32 @@ import {
   ScrollView,
   ActivityIndicator,
   Animated,
+  Keyboard,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Search, ShoppingBag } from 'lucide-react-native';
+import { Search, ShoppingBag, SlidersHorizontal } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { LinearGradient } from 'expo-linear-gradient';
 import { supabase } from '@/lib/supabase';
 import { Product, Category } from '@/types/database';
 import { useAuth } from '@/contexts/AuthContext';
 import { cartEvents } from '@/lib/cartEvents';
+import { StoreStatus, fetchStoreStatuses } from '@/lib/storeHours';
+import { DEFAULT_SEARCH_FILTERS, ProductSearchFilters, countActiveFilters, searchProducts } from '@/lib/productSearch';
+import {
+  RecentSearch,
+  addRecentSearch,
+  clearRecentSearches,
+  loadRecentSearches,
+  removeRecentSearch,
+  syncRecentSearches,
+} from '@/lib/recentSearches';
 import ProductDetailModal from '@/components/ProductDetailModal';
 import ProductCard from '@/components/ProductCard';
 import AdModal from '@/components/AdModal';
 import PromoBannerSlider from '@/components/PromoBannerSlider';
+import SearchFiltersModal from '@/components/home/SearchFiltersModal';
+import SearchSuggestions from '@/components/home/SearchSuggestions';
 import { Fonts } from '@/constants/fonts';
 
 interface Advert {
@@ -40,6 +53,7 @@ interface Advert {
 }
 
 const PAGE_SIZE = 16;
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function CustomerHome() {
   const { profile } = useAuth();
@@ -48,6 +62,9 @@ export default function CustomerHome() {
   const [categories, setCategories] = useState<Category[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [filters, setFilters] = useState<ProductSearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
@@ -57,6 +74,11 @@ export default function CustomerHome() {
   const [currentAdvert, setCurrentAdvert] = useState<Advert | null>(null);
   const [showAdModal, setShowAdModal] = useState(false);
   const [searchFocused, setSearchFocused] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
+  const [storeStatuses, setStoreStatuses] = useState<Record<string, StoreStatus>>({});
+  const latestSearch = useRef(0);
+  const searchInputRef = useRef<TextInput>(null);
 
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(20)).current;
@@ -104,12 +126,33 @@ export default function CustomerHome() {
     };
   }, []);
 
+  useEffect(() => {
+    if (profile) loadSearchHistory();
+  }, [profile?.id]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   useEffect(() => {
     setProducts([]);
     setPage(0);
     setHasMore(true);
     fetchProducts(0, true);
-  }, [selectedCategory]);
+  }, [selectedCategory, debouncedQuery, filters]);
+
+  // Show what is on the device straight away, then fold in searches made on other devices
+  const loadSearchHistory = async () => {
+    if (!profile) return;
+
+    setRecentSearches(await loadRecentSearches(profile.id));
+    try {
+      setRecentSearches(await syncRecentSearches(profile.id));
+    } catch (error) {
+      console.error('Error syncing recent searches:', error);
+    }
+  };
 
   const fetchCategories = async () => {
     try {
@@ -127,6 +170,9 @@ export default function CustomerHome() {
   };
 
   const fetchProducts = async (pageNum: number = 0, reset: boolean = false) => {
+    // Typing fires overlapping searches; only the newest one may update the list
+    const searchId = ++latestSearch.current;
+
     try {
       if (reset) {
         setLoading(true);
@@ -135,25 +181,15 @@ export default function CustomerHome() {
       }
 
       const from = pageNum * PAGE_SIZE;
-      const to = from + PAGE_SIZE - 1;
+      const { products: newProducts, totalCount } = await searchProducts({
+        query: debouncedQuery,
+        categoryId: selectedCategory,
+        filters,
+        limit: PAGE_SIZE,
+        offset: from,
+      });
 
-      let query = supabase
-        .from('products')
-        .select('*', { count: 'exact' })
-        .eq('is_available', true)
-        .gt('stock_quantity', 0);
-
-      if (selectedCategory) {
-        query = query.eq('category_id', selectedCategory);
-      }
-
-      const { data, error, count } = await query
-        .order('created_at', { ascending: false })
-        .range(from, to);
-
-      if (error) throw error;
-
-      const newProducts = data || [];
+      if (searchId !== latestSearch.current) return;
 
       if (reset) {
         setProducts(newProducts);
@@ -161,12 +197,27 @@ export default function CustomerHome() {
         setProducts((prev) => [...prev, ...newProducts]);
       }
 
-      setHasMore(newProducts.length === PAGE_SIZE && (count ? (from + PAGE_SIZE) < count : true));
+      setHasMore(newProducts.length === PAGE_SIZE && from + PAGE_SIZE < totalCount);
+      fetchProductStoreStatuses(newProducts);
     } catch (error) {
       console.error('Error fetching products:', error);
     } finally {
-      setLoading(false);
-      setLoadingMore(false);
+      if (searchId === latestSearch.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  const fetchProductStoreStatuses = async (newProducts: Product[]) => {
+    const vendorIds = [...new Set(newProducts.map((product) => product.vendor_id))];
+    if (vendorIds.length === 0) return;
+
+    try {
+      const statuses = await fetchStoreStatuses(vendorIds);
+      setStoreStatuses((prev) => ({ ...prev, ...statuses }));
+    } catch (error) {
+      console.error('Error fetching store hours:', error);
     }
   };
 
@@ -236,16 +287,87 @@ export default function CustomerHome() {
     setSelectedProduct(null);
   };
 
-  const addToCart = async (productId: string, e?: any) => {
+  const closeSuggestions = () => {
+    setShowSuggestions(false);
+    searchInputRef.current?.blur();
+    Keyboard.dismiss();
+  };
+
+  const rememberSearch = async (query: string) => {
+    if (!profile || query.trim().length < 2) return;
+    setRecentSearches(await addRecentSearch(profile.id, query));
+  };
+
+  const runSearch = (query: string) => {
+    setSearchQuery(query);
+    setDebouncedQuery(query.trim());
+    closeSuggestions();
+    rememberSearch(query);
+  };
+
+  const handleSelectSuggestedProduct = async (productId: string) => {
+    closeSuggestions();
+    rememberSearch(searchQuery);
+
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*')
+        .eq('id', productId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) openProductDetail(data);
+    } catch (error) {
+      console.error('Error opening suggested product:', error);
+    }
+  };
+
+  const handleSelectSuggestedCategory = (categoryId: string) => {
+    setSelectedCategory(categoryId);
+    setSearchQuery('');
+    setDebouncedQuery('');
+    closeSuggestions();
+  };
+
+  const handleRemoveRecentSearch = async (query: string) => {
+    if (!profile) return;
+
+    try {
+      setRecentSearches(await removeRecentSearch(profile.id, query));
+    } catch (error) {
+      console.error('Error removing recent search:', error);
+    }
+  };
+
+  const handleClearRecentSearches = async () => {
+    if (!profile) return;
+
+    setRecentSearches([]);
+    try {
+      await clearRecentSearches(profile.id);
+    } catch (error) {
+      console.error('Error clearing recent searches:', error);
+    }
+  };
+
+  const addToCart = async (product: Product, e?: any) => {
     if (e) e.stopPropagation();
     if (!profile) return;
 
+    // Products with variants need a size or color picked first
+    if (product.has_variants) {
+      openProductDetail(product);
+      return;
+    }
+
     try {
       const { data: existingItem } = await supabase
         .from('carts')
         .select('id, quantity')
         .eq('user_id', profile.id)
-        .eq('product_id', productId)
+        .eq('product_id', product.id)
+        .is('variant_id', null)
         .maybeSingle();
 
       if (existingItem) {
@@ -259,7 +381,7 @@ export default function CustomerHome() {
           .from('carts')
           .insert({
             user_id: profile.id,
-            product_id: productId,
+            product_id: product.id,
             quantity: 1,
           });
         if (error) throw error;
@@ -279,9 +401,7 @@ export default function CustomerHome() {
     }
   };
 
-  const filteredProducts = products.filter((product) =>
-    product.name.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const activeFilterCount = countActiveFilters(filters);
 
   const firstName = profile?.full_name?.split(' ')[0] || 'Guest';
 
@@ -312,101 +432,139 @@ export default function CustomerHome() {
             </View>
           </View>
 
-          <View style={[styles.searchContainer, searchFocused && styles.searchContainerFocused]}>
-            <Search size={20} color={searchFocused ? '#ff8c00' : '#9ca3af'} strokeWidth={2} />
-            <TextInput
-              style={styles.searchInput}
-              placeholder="Search products..."
-              placeholderTextColor="#b0b0b0"
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-              onFocus={() => setSearchFocused(true)}
-              onBlur={() => setSearchFocused(false)}
-            />
+          <View style={styles.searchRow}>
+            <View style={[styles.searchContainer, searchFocused && styles.searchContainerFocused]}>
+              <Search size={20} color={searchFocused ? '#ff8c00' : '#9ca3af'} strokeWidth={2} />
+              <TextInput
+                ref={searchInputRef}
+                style={styles.searchInput}
+                placeholder="Search products..."
+                placeholderTextColor="#b0b0b0"
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                onFocus={() => {
+                  setSearchFocused(true);
+                  setShowSuggestions(true);
+                }}
+                onBlur={() => setSearchFocused(false)}
+                onSubmitEditing={() => runSearch(searchQuery)}
+                returnKeyType="search"
+              />
+              <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(true)} activeOpacity={0.8}>
+                <SlidersHorizontal size={18} color={activeFilterCount > 0 ? '#ff8c00' : '#9ca3af'} strokeWidth={2} />
+                {activeFilterCount > 0 && (
+                  <View style={styles.filterBadge}>
+                    <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+                  </View>
+                )}
+              </TouchableOpacity>
+            </View>
+            {showSuggestions && (
+              <TouchableOpacity onPress={closeSuggestions} activeOpacity={0.7}>
+                <Text style={styles.cancelSearchText}>Cancel</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </Animated.View>
       </LinearGradient>
 
-      <View style={styles.categoriesWrapper}>
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.categoriesContent}
-        >
-          <TouchableOpacity
-            style={[styles.categoryChip, !selectedCategory && styles.categoryChipActive]}
-            onPress={() => setSelectedCategory(null)}
-            activeOpacity={0.8}
-          >
-            <Text style={[styles.categoryText, !selectedCategory && styles.categoryTextActive]}>
-              All
-            </Text>
-          </TouchableOpacity>
-          {categories.map((category) => (
-            <TouchableOpacity
-              key={category.id}
-              style={[
-                styles.categoryChip,
-                selectedCategory === category.id && styles.categoryChipActive,
-              ]}
-              onPress={() => setSelectedCategory(category.id)}
-              activeOpacity={0.8}
+      {showSuggestions ? (
+        <SearchSuggestions
+          query={searchQuery}
+          recentSearches={recentSearches}
+          onSelectQuery={runSearch}
+          onSelectProduct={handleSelectSuggestedProduct}
+          onSelectCategory={handleSelectSuggestedCategory}
+          onRemoveRecent={handleRemoveRecentSearch}
+          onClearRecent={handleClearRecentSearches}
+        />
+      ) : (
+        <>
+          <View style={styles.categoriesWrapper}>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.categoriesContent}
             >
-              <Text
-                style={[
-                  styles.categoryText,
-                  selectedCategory === category.id && styles.categoryTextActive,
-                ]}
+              <TouchableOpacity
+                style={[styles.categoryChip, !selectedCategory && styles.categoryChipActive]}
+                onPress={() => setSelectedCategory(null)}
+                activeOpacity={0.8}
               >
-                {category.name}
+                <Text style={[styles.categoryText, !selectedCategory && styles.categoryTextActive]}>
+                  All
+                </Text>
+              </TouchableOpacity>
+              {categories.map((category) => (
+                <TouchableOpacity
+                  key={category.id}
+                  style={[
+                    styles.categoryChip,
+                    selectedCategory === category.id && styles.categoryChipActive,
+                  ]}
+                  onPress={() => setSelectedCategory(category.id)}
+                  activeOpacity={0.8}
+                >
+                  <Text
+                    style={[
+                      styles.categoryText,
+                      selectedCategory === category.id && styles.categoryTextActive,
+                    ]}
+                  >
+                    {category.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#ff8c00" />
+              <Text style={styles.loadingLabel}>Loading products...</Text>
+            </View>
+          ) : products.length === 0 ? (
+            <View style={styles.emptyContainer}>
+              <ShoppingBag size={48} color="#d4d4d4" strokeWidth={1.5} />
+              <Text style={styles.emptyTitle}>No products found</Text>
+              <Text style={styles.emptySubtitle}>
+                {debouncedQuery || activeFilterCount > 0
+                  ? 'Try a different search term or fewer filters'
+                  : 'Check back later for new arrivals'}
               </Text>
-            </TouchableOpacity>
-          ))}
-        </ScrollView>
-      </View>
-
-      {loading ? (
-        <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#ff8c00" />
-          <Text style={styles.loadingLabel}>Loading products...</Text>
-        </View>
-      ) : filteredProducts.length === 0 ? (
-        <View style={styles.emptyContainer}>
-          <ShoppingBag size={48} color="#d4d4d4" strokeWidth={1.5} />
-          <Text style={styles.emptyTitle}>No products found</Text>
-          <Text style={styles.emptySubtitle}>
-            {searchQuery ? 'Try a different search term' : 'Check back later for new arrivals'}
-          </Text>
-        </View>
-      ) : (
-        <FlatList
-          data={filteredProducts}
-          keyExtractor={(item) => item.id}
-          numColumns={2}
-          contentContainerStyle={styles.productList}
-          showsVerticalScrollIndicator={false}
-          columnWrapperStyle={styles.row}
-          onEndReached={loadMoreProducts}
-          onEndReachedThreshold={0.5}
-          ListHeaderComponent={<PromoBannerSlider />}
-          ListFooterComponent={
-            loadingMore ? (
-              <View style={styles.footerLoader}>
-                <ActivityIndicator size="small" color="#ff8c00" />
-                <Text style={styles.loadingText}>Loading more...</Text>
-              </View>
-            ) : null
-          }
-          renderItem={({ item }) => (
-            <View style={styles.cardWrapper}>
-              <ProductCard
-                product={item}
-                onPress={() => openProductDetail(item)}
-                onAddToCart={(e) => addToCart(item.id, e)}
-              />
             </View>
+          ) : (
+            <FlatList
+              data={products}
+              keyExtractor={(item) => item.id}
+              numColumns={2}
+              contentContainerStyle={styles.productList}
+              showsVerticalScrollIndicator={false}
+              columnWrapperStyle={styles.row}
+              onEndReached={loadMoreProducts}
+              onEndReachedThreshold={0.5}
+              ListHeaderComponent={<PromoBannerSlider />}
+              ListFooterComponent={
+                loadingMore ? (
+                  <View style={styles.footerLoader}>
+                    <ActivityIndicator size="small" color="#ff8c00" />
+                    <Text style={styles.loadingText}>Loading more...</Text>
+                  </View>
+                ) : null
+              }
+              renderItem={({ item }) => (
+                <View style={styles.cardWrapper}>
+                  <ProductCard
+                    product={item}
+                    onPress={() => openProductDetail(item)}
+                    onAddToCart={(e) => addToCart(item, e)}
+                    storeStatus={storeStatuses[item.vendor_id]}
+                  />
+                </View>
+              )}
+            />
           )}
-        />
+        </>
       )}
 
       <ProductDetailModal
@@ -415,6 +573,16 @@ export default function CustomerHome() {
         onClose={closeProductDetail}
       />
 
+      <SearchFiltersModal
+        visible={showFilters}
+        filters={filters}
+        onApply={(applied) => {
+          setFilters(applied);
+          setShowFilters(false);
+        }}
+        onClose={() => setShowFilters(false)}
+      />
+
       <AdModal
         visible={showAdModal}
         advert={currentAdvert}
@@ -491,7 +659,18 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cancelSearchText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#ffffff',
+  },
   searchContainer: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     backgroundColor: '#ffffff',
@@ -517,6 +696,27 @@ const styles = StyleSheet.create({
     color: '#1a1a1a',
     outlineStyle: 'none',
   },
+  filterButton: {
+    padding: 6,
+    position: 'relative',
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    backgroundColor: '#ff8c00',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 3,
+  },
+  filterBadgeText: {
+    fontSize: 10,
+    fontFamily: Fonts.bold,
+    color: '#ffffff',
+  },
   categoriesWrapper: {
     paddingVertical: 14,
   },
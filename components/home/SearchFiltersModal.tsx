@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Switch,
+  Platform,
+} from 'react-native';
+import { X, Star } from 'lucide-react-native';
+import { DEFAULT_SEARCH_FILTERS, ProductSearchFilters, SORT_OPTIONS } from '@/lib/productSearch';
+import { Fonts } from '@/constants/fonts';
+
+const RATING_OPTIONS = [null, 3, 4, 4.5];
+
+interface SearchFiltersModalProps {
+  visible: boolean;
+  filters: ProductSearchFilters;
+  onApply: (filters: ProductSearchFilters) => void;
+  onClose: () => void;
+}
+
+const parsePrice = (value: string) => {
+  const price = parseFloat(value);
+  return isNaN(price) || price < 0 ? null : price;
+};
+
+export default function SearchFiltersModal({ visible, filters, onApply, onClose }: SearchFiltersModalProps) {
+  const [draft, setDraft] = useState(filters);
+  const [minPrice, setMinPrice] = useState('');
+  const [maxPrice, setMaxPrice] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+      setMinPrice(filters.minPrice?.toString() ?? '');
+      setMaxPrice(filters.maxPrice?.toString() ?? '');
+    }
+  }, [visible]);
+
+  const handleApply = () => {
+    onApply({ ...draft, minPrice: parsePrice(minPrice), maxPrice: parsePrice(maxPrice) });
+  };
+
+  const handleReset = () => {
+    setDraft(DEFAULT_SEARCH_FILTERS);
+    setMinPrice('');
+    setMaxPrice('');
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.modalOverlay} onPress={onClose}>
+        <Pressable style={styles.modalContent} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.modalHandle} />
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Sort & Filter</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color="#78716c" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalBody} showsVerticalScrollIndicator={false}>
+            <Text style={styles.groupTitle}>Sort By</Text>
+            <View style={styles.chipRow}>
+              {SORT_OPTIONS.map((option) => {
+                const selected = draft.sort === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.chip, selected && styles.chipActive]}
+                    onPress={() => setDraft((current) => ({ ...current, sort: option.value }))}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={styles.groupTitle}>Price Range</Text>
+            <View style={styles.priceRow}>
+              <View style={styles.priceInputWrap}>
+                <Text style={styles.pricePrefix}>{'₦'}</Text>
+                <TextInput
+                  style={[styles.priceInput, Platform.OS === 'web' && { outlineStyle: 'none' } as any]}
+                  value={minPrice}
+                  onChangeText={setMinPrice}
+                  keyboardType="decimal-pad"
+                  placeholder="Min"
+                  placeholderTextColor="#a8a29e"
+                />
+              </View>
+              <Text style={styles.priceDivider}>–</Text>
+              <View style={styles.priceInputWrap}>
+                <Text style={styles.pricePrefix}>{'₦'}</Text>
+                <TextInput
+                  style={[styles.priceInput, Platform.OS === 'web' && { outlineStyle: 'none' } as any]}
+                  value={maxPrice}
+                  onChangeText={setMaxPrice}
+                  keyboardType="decimal-pad"
+                  placeholder="Max"
+                  placeholderTextColor="#a8a29e"
+                />
+              </View>
+            </View>
+
+            <Text style={styles.groupTitle}>Rating</Text>
+            <View style={styles.chipRow}>
+              {RATING_OPTIONS.map((rating) => {
+                const selected = draft.minRating === rating;
+                return (
+                  <TouchableOpacity
+                    key={rating ?? 'any'}
+                    style={[styles.chip, selected && styles.chipActive]}
+                    onPress={() => setDraft((current) => ({ ...current, minRating: rating }))}
+                  >
+                    {rating !== null && <Star size={13} color={selected ? '#ffffff' : '#f59e0b'} fill={selected ? '#ffffff' : '#f59e0b'} />}
+                    <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                      {rating === null ? 'Any' : `${rating}+`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.switchRow}>
+              <View style={styles.switchContent}>
+                <Text style={styles.switchLabel}>On Sale</Text>
+                <Text style={styles.switchDescription}>Only show discounted products</Text>
+              </View>
+              <Switch
+                value={draft.onSale}
+                onValueChange={(value) => setDraft((current) => ({ ...current, onSale: value }))}
+                trackColor={{ false: '#e7e5e4', true: '#fed7aa' }}
+                thumbColor={draft.onSale ? '#ff8c00' : '#d6d3d1'}
+              />
+            </View>
+            <View style={[styles.switchRow, { borderBottomWidth: 0 }]}>
+              <View style={styles.switchContent}>
+                <Text style={styles.switchLabel}>In Stock Only</Text>
+                <Text style={styles.switchDescription}>Hide products that have sold out</Text>
+              </View>
+              <Switch
+                value={draft.inStock}
+                onValueChange={(value) => setDraft((current) => ({ ...current, inStock: value }))}
+                trackColor={{ false: '#e7e5e4', true: '#fed7aa' }}
+                thumbColor={draft.inStock ? '#ff8c00' : '#d6d3d1'}
+              />
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+              <Text style={styles.resetButtonText}>Reset</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.applyButton} onPress={handleApply}>
+              <Text style={styles.applyButtonText}>Show Results</Text>
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 32,
+    maxHeight: '85%',
+  },
+  modalHandle: {
+    width: 36,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#d6d3d1',
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f4',
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: Fonts.headingBold,
+    color: '#1a1a1a',
+  },
+  modalBody: {
+    padding: 20,
+  },
+  groupTitle: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1a1a1a',
+    marginBottom: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 22,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 12,
+    backgroundColor: '#ffffff',
+    borderWidth: 1.5,
+    borderColor: '#eee',
+  },
+  chipActive: {
+    backgroundColor: '#ff8c00',
+    borderColor: '#ff8c00',
+  },
+  chipText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 22,
+  },
+  priceInputWrap: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1.5,
+    borderColor: '#eee',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+  },
+  pricePrefix: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#78716c',
+    marginRight: 4,
+  },
+  priceInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 15,
+    fontFamily: Fonts.regular,
+    color: '#1a1a1a',
+  },
+  priceDivider: {
+    fontSize: 16,
+    fontFamily: Fonts.medium,
+    color: '#a8a29e',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f5f5f4',
+  },
+  switchContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#1a1a1a',
+  },
+  switchDescription: {
+    fontSize: 13,
+    fontFamily: Fonts.regular,
+    color: '#999',
+    marginTop: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f5f5f4',
+  },
+  resetButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: 1.5,
+    borderColor: '#eee',
+    alignItems: 'center',
+  },
+  resetButtonText: {
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#666',
+  },
+  applyButton: {
+    flex: 2,
+    paddingVertical: 14,
+    borderRadius: 14,
+    backgroundColor: '#ff8c00',
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    fontSize: 15,
+    fontFamily: Fonts.bold,
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,234 @@
+import { useState, useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Image, ActivityIndicator } from 'react-native';
+import { Search, Clock, X, Layers, Store, ArrowUpLeft } from 'lucide-react-native';
+import { SearchSuggestions as Suggestions, fetchSearchSuggestions } from '@/lib/productSearch';
+import { RecentSearch } from '@/lib/recentSearches';
+import { Fonts } from '@/constants/fonts';
+
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+const EMPTY_SUGGESTIONS: Suggestions = { products: [], categories: [], stores: [] };
+
+interface SearchSuggestionsProps {
+  query: string;
+  recentSearches: RecentSearch[];
+  onSelectQuery: (query: string) => void;
+  onSelectProduct: (productId: string) => void;
+  onSelectCategory: (categoryId: string) => void;
+  onRemoveRecent: (query: string) => void;
+  onClearRecent: () => void;
+}
+
+export default function SearchSuggestions({
+  query,
+  recentSearches,
+  onSelectQuery,
+  onSelectProduct,
+  onSelectCategory,
+  onRemoveRecent,
+  onClearRecent,
+}: SearchSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<Suggestions>(EMPTY_SUGGESTIONS);
+  const [loading, setLoading] = useState(false);
+  const latestRequest = useRef(0);
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    if (trimmed.length < 2) {
+      latestRequest.current++;
+      setSuggestions(EMPTY_SUGGESTIONS);
+      setLoading(false);
+      return;
+    }
+
+    const requestId = ++latestRequest.current;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await fetchSearchSuggestions(trimmed);
+        if (requestId === latestRequest.current) setSuggestions(result);
+      } catch (error) {
+        console.error('Error fetching search suggestions:', error);
+      } finally {
+        if (requestId === latestRequest.current) setLoading(false);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [trimmed]);
+
+  if (trimmed.length < 2) {
+    return (
+      <ScrollView style={styles.container} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Recent Searches</Text>
+          {recentSearches.length > 0 && (
+            <TouchableOpacity onPress={onClearRecent}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {recentSearches.length === 0 ? (
+          <Text style={styles.emptyText}>Your recent searches will show here</Text>
+        ) : (
+          recentSearches.map((search) => (
+            <TouchableOpacity key={search.query} style={styles.row} onPress={() => onSelectQuery(search.query)}>
+              <Clock size={16} color="#9ca3af" />
+              <Text style={styles.rowText} numberOfLines={1}>{search.query}</Text>
+              <TouchableOpacity
+                style={styles.rowAction}
+                onPress={() => onRemoveRecent(search.query)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <X size={16} color="#9ca3af" />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+    );
+  }
+
+  const hasSuggestions =
+    suggestions.products.length > 0 || suggestions.categories.length > 0 || suggestions.stores.length > 0;
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+      <TouchableOpacity style={styles.row} onPress={() => onSelectQuery(trimmed)}>
+        <Search size={16} color="#ff8c00" />
+        <Text style={styles.searchForText} numberOfLines={1}>
+          Search for “{trimmed}”
+        </Text>
+        <ArrowUpLeft size={16} color="#9ca3af" />
+      </TouchableOpacity>
+
+      {loading && !hasSuggestions ? (
+        <ActivityIndicator size="small" color="#ff8c00" style={styles.loader} />
+      ) : !hasSuggestions ? (
+        <Text style={styles.emptyText}>No matching products, categories or stores</Text>
+      ) : null}
+
+      {suggestions.products.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, styles.groupTitle]}>Products</Text>
+          {suggestions.products.map((product) => (
+            <TouchableOpacity key={product.id} style={styles.row} onPress={() => onSelectProduct(product.id)}>
+              {product.image_url ? (
+                <Image source={{ uri: product.image_url }} style={styles.thumbnail} />
+              ) : (
+                <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                  <Search size={14} color="#d4d4d4" />
+                </View>
+              )}
+              <Text style={styles.rowText} numberOfLines={1}>{product.name}</Text>
+              <Text style={styles.priceText}>
+                {'₦'}{Number(product.price).toLocaleString('en-NG')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+
+      {suggestions.categories.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, styles.groupTitle]}>Categories</Text>
+          {suggestions.categories.map((category) => (
+            <TouchableOpacity key={category.id} style={styles.row} onPress={() => onSelectCategory(category.id)}>
+              <Layers size={16} color="#3b82f6" />
+              <Text style={styles.rowText} numberOfLines={1}>{category.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+
+      {suggestions.stores.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, styles.groupTitle]}>Stores</Text>
+          {suggestions.stores.map((store) => (
+            <TouchableOpacity key={store.vendor_id} style={styles.row} onPress={() => onSelectQuery(store.business_name)}>
+              <Store size={16} color="#10b981" />
+              <Text style={styles.rowText} numberOfLines={1}>{store.business_name}</Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#999',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  groupTitle: {
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  clearText: {
+    fontSize: 13,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: Fonts.regular,
+    color: '#999',
+    paddingVertical: 16,
+  },
+  loader: {
+    paddingVertical: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0ebe4',
+  },
+  rowText: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Fonts.medium,
+    color: '#1a1a1a',
+  },
+  rowAction: {
+    padding: 2,
+  },
+  searchForText: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Fonts.semiBold,
+    color: '#ff8c00',
+  },
+  thumbnail: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    backgroundColor: '#f0ebe4',
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  priceText: {
+    fontSize: 14,
+    fontFamily: Fonts.semiBold,
+    color: '#666',
+  },
+});
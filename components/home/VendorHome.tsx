@@ -21,11 +21,14 @@ import {
   ArrowUpRight,
   BarChart3,
   ChevronRight,
+  Boxes,
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { router, useFocusEffect } from 'expo-router';
 import VendorOrderManagement from '@/components/vendor/VendorOrderManagement';
+import InventoryManager from '@/components/vendor/InventoryManager';
+import { isLowStock } from '@/lib/stock';
 import { Fonts } from '@/constants/fonts';
 
 interface DashboardStats {
@@ -55,6 +58,7 @@ export default function VendorHome() {
   });
   const [loading, setLoading] = useState(true);
   const [showOrders, setShowOrders] = useState(false);
+  const [showInventory, setShowInventory] = useState(false);
   const [bannerUrl, setBannerUrl] = useState<string | null>(null);
 
   const fetchDashboardStats = async (isInitialLoad = false) => {
@@ -86,7 +90,7 @@ export default function VendorHome() {
       const orders = ordersResult.data || [];
 
       const activeProducts = products.filter((p) => p.is_available).length;
-      const lowStockProducts = products.filter((p) => p.stock_quantity < 10).length;
+      const lowStockProducts = products.filter(isLowStock).length;
       const completedOrders = orders.filter((o) => o.status === 'delivered').length;
       const pendingOrders = orders.filter(
         (o) => o.status === 'pending' || o.status === 'confirmed' || o.status === 'preparing'
@@ -266,6 +270,18 @@ export default function VendorHome() {
     return <VendorOrderManagement onBack={() => setShowOrders(false)} />;
   }
 
+  if (showInventory && vendorId) {
+    return (
+      <InventoryManager
+        vendorId={vendorId}
+        onBack={() => {
+          setShowInventory(false);
+          fetchDashboardStats();
+        }}
+      />
+    );
+  }
+
   if (profile?.vendor_status === 'pending') {
     return (
       <View style={[styles.statusContainer, { paddingTop: insets.top + 40 }]}>
@@ -438,7 +454,7 @@ export default function VendorHome() {
                 {stats.lowStockProducts} product{stats.lowStockProducts !== 1 ? 's' : ''} running low
               </Text>
             </View>
-            <TouchableOpacity onPress={() => router.push('/(tabs)/vendor')} activeOpacity={0.7}>
+            <TouchableOpacity onPress={() => setShowInventory(true)} activeOpacity={0.7}>
               <ChevronRight size={18} color="#d97706" />
             </TouchableOpacity>
           </View>
@@ -455,7 +471,7 @@ export default function VendorHome() {
               <Package size={20} color="#16a34a" />
             </View>
             <Text style={styles.actionTitle}>Products</Text>
-            <Text style={styles.actionSub}>Manage inventory</Text>
+            <Text style={styles.actionSub}>Edit listings</Text>
             <View style={styles.actionArrow}>
               <ArrowUpRight size={14} color="#16a34a" />
             </View>
@@ -474,6 +490,20 @@ export default function VendorHome() {
               <ArrowUpRight size={14} color="#2563eb" />
             </View>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionCard}
+            onPress={() => setShowInventory(true)}
+            activeOpacity={0.7}
+          >
+            <View style={[styles.actionIconWrap, { backgroundColor: '#fff7ed' }]}>
+              <Boxes size={20} color="#ea580c" />
+            </View>
+            <Text style={styles.actionTitle}>Inventory</Text>
+            <Text style={styles.actionSub}>Stock & alerts</Text>
+            <View style={styles.actionArrow}>
+              <ArrowUpRight size={14} color="#ea580c" />
+            </View>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.summaryCard}>
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import * as Location from 'expo-location';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { LOCATION_PING_DISTANCE_M, LOCATION_PING_INTERVAL_MS } from '@/lib/deliveryTracking';
+
+// Streams the device's position into delivery_locations for an order while `enabled` is true.
+export function useDeliveryLocationSharing(orderId: string, enabled: boolean) {
+  const { profile } = useAuth();
+  const [sharing, setSharing] = useState(false);
+  const [lastSentAt, setLastSentAt] = useState<Date | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!enabled || !profile) {
+      setSharing(false);
+      return;
+    }
+
+    let cancelled = false;
+    let subscription: Location.LocationSubscription | null = null;
+    let lastSentTime = 0;
+
+    const sendPing = async (location: Location.LocationObject) => {
+      // Some platforms ignore timeInterval, so pings are throttled here as well
+      if (location.timestamp - lastSentTime < LOCATION_PING_INTERVAL_MS) return;
+      lastSentTime = location.timestamp;
+
+      const { coords } = location;
+      const { error: insertError } = await supabase.from('delivery_locations').insert({
+        order_id: orderId,
+        reported_by: profile.id,
+        latitude: coords.latitude,
+        longitude: coords.longitude,
+        accuracy_m: coords.accuracy ?? null,
+        heading: coords.heading !== null && coords.heading >= 0 ? coords.heading : null,
+        speed_mps: coords.speed !== null && coords.speed >= 0 ? coords.speed : null,
+        recorded_at: new Date(location.timestamp).toISOString(),
+      });
+
+      if (cancelled) return;
+
+      if (insertError) {
+        console.error('Error sharing delivery location:', insertError);
+        setError('Your location could not be shared');
+      } else {
+        setError('');
+        setLastSentAt(new Date());
+      }
+    };
+
+    const start = async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (cancelled) return;
+
+        if (status !== 'granted') {
+          setError('Allow location access to share your position with the customer');
+          return;
+        }
+
+        subscription = await Location.watchPositionAsync(
+          {
+            accuracy: Location.Accuracy.High,
+            timeInterval: LOCATION_PING_INTERVAL_MS,
+            distanceInterval: LOCATION_PING_DISTANCE_M,
+          },
+          sendPing
+        );
+
+        if (cancelled) {
+          subscription.remove();
+          return;
+        }
+
+        setSharing(true);
+      } catch (err) {
+        console.error('Error starting location sharing:', err);
+        if (!cancelled) setError('Location is not available on this device');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+      setSharing(false);
+    };
+  }, [orderId, enabled, profile?.id]);
+
+  return { sharing, lastSentAt, error };
+}
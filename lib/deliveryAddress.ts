@@ -0,0 +1,22 @@
+import { Coordinates } from '@/lib/deliveryTracking';
+
+interface AddressLines {
+  address_line1: string;
+  address_line2?: string | null;
+  city: string;
+  state: string;
+  postal_code?: string | null;
+}
+
+// One line for cards and geocoding, e.g. "12 Zoo Road, Flat 3, Kano, KN, 700001"
+export function formatAddressLines(address: AddressLines): string {
+  return [address.address_line1, address.address_line2, address.city, address.state, address.postal_code]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function addressCoordinates(address: { latitude?: number | null; longitude?: number | null }): Coordinates | null {
+  if (address.latitude == null || address.longitude == null) return null;
+  return { latitude: Number(address.latitude), longitude: Number(address.longitude) };
+}
@@ -0,0 +1,58 @@
+import { supabase } from '@/lib/supabase';
+import { Coordinates } from '@/lib/deliveryTracking';
+
+export interface DeliveryQuoteAdjustment {
+  type: 'min_delivery_charge' | 'free_delivery_threshold';
+  label: string;
+  amount: number;
+}
+
+// Itemized delivery price from the quote_delivery function. Orders are charged with the same rules.
+export interface DeliveryQuote {
+  deliverable: boolean;
+  reason?: string;
+  distance_km: number;
+  zone?: { id: string; name: string } | null;
+  base_price?: number;
+  distance_price?: number;
+  adjustments?: DeliveryQuoteAdjustment[];
+  adjustment_amount?: number;
+  promo_code?: string | null;
+  promotion_discount?: number;
+  final_price?: number;
+  log_id: string;
+}
+
+interface DeliveryQuoteParams {
+  vendorId: string;
+  orderSubtotal?: number;
+  promoCode?: string | null;
+  // Saved address to deliver to; coordinates are for an address that is not saved yet
+  addressId?: string | null;
+  coordinates?: Coordinates | null;
+}
+
+// Priced for the distance from the vendor's pinned store, measured on the server
+export async function fetchDeliveryQuote({
+  vendorId,
+  orderSubtotal = 0,
+  promoCode = null,
+  addressId = null,
+  coordinates = null,
+}: DeliveryQuoteParams): Promise<DeliveryQuote> {
+  const { data, error } = await supabase.rpc('quote_delivery', {
+    p_vendor_id: vendorId,
+    p_order_subtotal: orderSubtotal,
+    p_promo_code: promoCode || null,
+    p_address_id: addressId,
+    p_delivery_latitude: coordinates?.latitude ?? null,
+    p_delivery_longitude: coordinates?.longitude ?? null,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to calculate delivery price');
+  }
+
+  return data as DeliveryQuote;
+}
@@ -0,0 +1,49 @@
+// Also imported by the edge functions (supabase/functions/_shared/geo.ts), so this file must not import anything
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Private storage bucket for photos taken when an order is handed over
+export const DELIVERY_PHOTOS_BUCKET = 'delivery-photos';
+
+// How often the deliverer's device sends a ping while an order is out for delivery
+export const LOCATION_PING_INTERVAL_MS = 15000;
+export const LOCATION_PING_DISTANCE_M = 25;
+
+// A ping older than this is shown as a stale position rather than a live one
+export const STALE_LOCATION_MS = 2 * 60 * 1000;
+
+// Used for the ETA when the deliverer's device does not report a usable speed
+const AVERAGE_DELIVERY_SPEED_KMH = 20;
+// Roads are longer than the straight line between two points
+const ROAD_DISTANCE_FACTOR = 1.3;
+const HANDOVER_MINUTES = 2;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Minutes until arrival for a straight-line distance. A reported speed is only trusted while
+// moving, so waiting at a junction does not push the ETA out to hours.
+export function estimateEtaMinutes(straightLineKm: number, speedMps?: number | null): number {
+  const reportedKmh = speedMps ? speedMps * 3.6 : 0;
+  const speedKmh = reportedKmh >= 5 ? Math.min(reportedKmh, 60) : AVERAGE_DELIVERY_SPEED_KMH;
+  const travelMinutes = ((straightLineKm * ROAD_DISTANCE_FACTOR) / speedKmh) * 60;
+
+  return Math.max(1, Math.round(travelMinutes + HANDOVER_MINUTES));
+}
+
+export function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
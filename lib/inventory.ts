@@ -0,0 +1,85 @@
+import { supabase } from '@/lib/supabase';
+import { AppNotification, StockAdjustment, StockAdjustmentReason } from '@/types/database';
+
+export const STOCK_ADJUSTMENT_REASONS: { value: StockAdjustmentReason; label: string }[] = [
+  { value: 'restock', label: 'Restock' },
+  { value: 'correction', label: 'Count correction' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'lost', label: 'Lost or stolen' },
+  { value: 'returned', label: 'Customer return' },
+  { value: 'other', label: 'Other' },
+];
+
+// 'import' is recorded by the product import and is not offered in the picker
+export function getAdjustmentReasonLabel(reason: StockAdjustmentReason): string {
+  if (reason === 'import') return 'Product import';
+  return STOCK_ADJUSTMENT_REASONS.find((item) => item.value === reason)?.label || reason;
+}
+
+// New absolute stock level for a product, or one of its variants
+export interface StockLevelChange {
+  product_id: string;
+  variant_id?: string;
+  stock_quantity: number;
+}
+
+export type StockAdjustmentEntry = StockAdjustment & {
+  products: { name: string } | null;
+  profiles: { full_name: string } | null;
+};
+
+// All changes are applied together or not at all; returns how many changed
+export async function adjustStock(
+  changes: StockLevelChange[],
+  reason: StockAdjustmentReason,
+  note?: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('adjust_product_stock', {
+    p_adjustments: changes,
+    p_reason: reason,
+    p_note: note?.trim() || null,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to update stock');
+  }
+
+  return data.adjusted as number;
+}
+
+export async function fetchStockAdjustments(vendorId: string, limit = 100): Promise<StockAdjustmentEntry[]> {
+  const { data, error } = await supabase
+    .from('stock_adjustments')
+    .select('*, products!inner(name, vendor_id), profiles(full_name)')
+    .eq('products.vendor_id', vendorId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as StockAdjustmentEntry[];
+}
+
+export async function fetchNotifications(userId: string, limit = 50): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as AppNotification[];
+}
+
+// Without ids every unread notification is marked read
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  const { data, error } = await supabase.rpc('mark_notifications_read', {
+    p_ids: ids || null,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to update notifications');
+  }
+}
@@ -0,0 +1,25 @@
+import { Order, OrderStatus } from '@/types/database';
+
+// Mirrors is_valid_order_status_transition in the database, which is what actually enforces it.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'cancelled'],
+  preparing: ['ready_for_pickup', 'out_for_delivery', 'cancelled'],
+  ready_for_pickup: ['out_for_delivery', 'delivered', 'cancelled'],
+  out_for_delivery: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+};
+
+export function getNextStatuses(status: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status] || [];
+}
+
+export function canTransitionTo(from: OrderStatus, to: OrderStatus): boolean {
+  return getNextStatuses(from).includes(to);
+}
+
+// Delivery orders are marked delivered by their assigned rider (enforced by validate_order_rider)
+export function isRiderDelivery(order: Pick<Order, 'delivery_type'>): boolean {
+  return order.delivery_type === 'delivery';
+}
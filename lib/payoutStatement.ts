@@ -0,0 +1,212 @@
+import { Platform, Alert } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { supabase } from '@/lib/supabase';
+import { VendorEarning, VendorPayout } from '@/types/database';
+
+export const PAYOUT_STATUS_LABELS: Record<VendorPayout['status'], string> = {
+  pending: 'Pending Review',
+  approved: 'Approved',
+  paid: 'Paid',
+  rejected: 'Rejected',
+};
+
+export const PAYOUT_STATUS_COLORS: Record<VendorPayout['status'], string> = {
+  pending: '#f59e0b',
+  approved: '#3b82f6',
+  paid: '#10b981',
+  rejected: '#ef4444',
+};
+
+const formatAmount = (amount: number) =>
+  `${Number(amount) < 0 ? '-' : ''}₦${Math.abs(Number(amount)).toFixed(2)}`;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+// Order earnings (and refunds and commission owed taken off them) covered by a payout: everything
+// since the vendor's previous payout request.
+export async function fetchPayoutStatementEntries(payout: VendorPayout): Promise<VendorEarning[]> {
+  const { data: previous } = await supabase
+    .from('vendor_payouts')
+    .select('created_at')
+    .eq('vendor_id', payout.vendor_id)
+    .neq('status', 'rejected')
+    .lt('created_at', payout.created_at)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  let query = supabase
+    .from('vendor_earnings')
+    .select('*')
+    .eq('vendor_id', payout.vendor_id)
+    .in('entry_type', ['order', 'refund', 'commission'])
+    .lte('created_at', payout.created_at)
+    .order('created_at', { ascending: true });
+
+  if (previous?.created_at) {
+    query = query.gt('created_at', previous.created_at);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export function generatePayoutStatementHTML(
+  payout: VendorPayout,
+  vendorName: string,
+  entries: VendorEarning[]
+) {
+  const gross = entries
+    .filter((e) => e.entry_type === 'order')
+    .reduce((sum, e) => sum + Number(e.gross_amount), 0);
+  const collected = entries
+    .filter((e) => e.entry_type === 'commission')
+    .reduce((sum, e) => sum + Number(e.gross_amount), 0);
+  const refunds = entries
+    .filter((e) => e.entry_type === 'refund')
+    .reduce((sum, e) => sum - Number(e.gross_amount), 0);
+  const commission = entries.reduce((sum, e) => sum + Number(e.commission_amount), 0);
+  const net = entries.reduce((sum, e) => sum + Number(e.net_amount), 0);
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    html, body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Arial, sans-serif;
+      color: #1f2937;
+      font-size: 13px;
+      line-height: 1.6;
+    }
+    .statement { width: 560px; padding: 28px; background: white; }
+    .header { border-bottom: 2px solid #ff8c00; padding-bottom: 14px; margin-bottom: 18px; }
+    .brand-name { font-size: 24px; font-weight: bold; color: #ff8c00; letter-spacing: 1px; }
+    .brand-tagline { font-size: 12px; color: #6b7280; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px; }
+    .row { display: flex; justify-content: space-between; margin-bottom: 6px; }
+    .label { color: #6b7280; }
+    .value { font-weight: 600; }
+    .section-title { font-size: 12px; font-weight: bold; text-transform: uppercase; color: #374151; margin: 18px 0 8px; letter-spacing: 0.5px; }
+    table { width: 100%; border-collapse: collapse; }
+    th { text-align: left; font-size: 11px; color: #6b7280; text-transform: uppercase; border-bottom: 1px solid #d1d5db; padding: 6px 4px; }
+    td { padding: 6px 4px; border-bottom: 1px dotted #e5e7eb; }
+    .num { text-align: right; }
+    .empty { color: #9ca3af; padding: 12px 4px; }
+    .total { display: flex; justify-content: space-between; margin-top: 14px; padding-top: 10px; border-top: 2px solid #1f2937; font-size: 16px; font-weight: bold; }
+    .total span:last-child { color: #ff8c00; }
+    .footer { margin-top: 24px; font-size: 11px; color: #6b7280; text-align: center; }
+  </style>
+</head>
+<body>
+  <div class="statement">
+    <div class="header">
+      <div class="brand-name">MARKETPLACE</div>
+      <div class="brand-tagline">Vendor Payout Statement</div>
+    </div>
+
+    <div class="row"><span class="label">Vendor:</span><span class="value">${vendorName}</span></div>
+    <div class="row"><span class="label">Payout Number:</span><span class="value">${payout.payout_number}</span></div>
+    <div class="row"><span class="label">Requested:</span><span class="value">${formatDate(payout.created_at)}</span></div>
+    <div class="row"><span class="label">Status:</span><span class="value">${PAYOUT_STATUS_LABELS[payout.status]}</span></div>
+    ${payout.paid_at ? `<div class="row"><span class="label">Paid:</span><span class="value">${formatDate(payout.paid_at)}</span></div>` : ''}
+    ${payout.payment_reference ? `<div class="row"><span class="label">Reference:</span><span class="value">${payout.payment_reference}</span></div>` : ''}
+
+    <div class="section-title">Earnings in this period</div>
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Description</th>
+          <th class="num">Sales</th>
+          <th class="num">Commission</th>
+          <th class="num">Net</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${entries.length === 0 ? '<tr><td colspan="5" class="empty">No order earnings in this period</td></tr>' : entries.map(e => `
+        <tr>
+          <td>${formatDate(e.created_at)}</td>
+          <td>${e.description}</td>
+          <td class="num">${formatAmount(e.gross_amount)}</td>
+          <td class="num">${formatAmount(-e.commission_amount)}</td>
+          <td class="num">${formatAmount(e.net_amount)}</td>
+        </tr>
+        `).join('')}
+      </tbody>
+    </table>
+
+    <div class="section-title">Summary</div>
+    <div class="row"><span class="label">Gross sales:</span><span class="value">${formatAmount(gross)}</span></div>
+    ${collected > 0 ? `<div class="row"><span class="label">Collected by you (cash and transfer):</span><span class="value">${formatAmount(collected)}</span></div>` : ''}
+    ${refunds > 0 ? `<div class="row"><span class="label">Refunds:</span><span class="value">${formatAmount(-refunds)}</span></div>` : ''}
+    <div class="row"><span class="label">Platform commission:</span><span class="value">${formatAmount(-commission)}</span></div>
+    <div class="row"><span class="label">Net earnings:</span><span class="value">${formatAmount(net)}</span></div>
+    <div class="total"><span>PAYOUT AMOUNT</span><span>${formatAmount(payout.amount)}</span></div>
+
+    <div class="footer">Generated on ${formatDate(new Date().toISOString())}</div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+export async function downloadPayoutStatement(payout: VendorPayout, vendorName: string) {
+  try {
+    const entries = await fetchPayoutStatementEntries(payout);
+    const html = generatePayoutStatementHTML(payout, vendorName, entries);
+    const fileName = `Payout_${payout.payout_number}.pdf`;
+
+    if (Platform.OS === 'web') {
+      const html2pdf = (await import('html2pdf.js')).default;
+
+      const tempContainer = document.createElement('div');
+      tempContainer.style.position = 'absolute';
+      tempContainer.style.left = '-9999px';
+      tempContainer.style.top = '0';
+      tempContainer.innerHTML = html;
+      document.body.appendChild(tempContainer);
+
+      const statementElement = tempContainer.querySelector<HTMLElement>('.statement');
+
+      if (statementElement) {
+        await html2pdf()
+          .set({
+            margin: 0,
+            filename: fileName,
+            image: { type: 'jpeg', quality: 0.9 },
+            html2canvas: { scale: 2, useCORS: true, logging: false },
+            jsPDF: { unit: 'px', format: [560, Math.max(statementElement.scrollHeight, 700)], orientation: 'portrait' },
+          })
+          .from(statementElement)
+          .save();
+      }
+
+      document.body.removeChild(tempContainer);
+    } else {
+      const { uri } = await Print.printToFileAsync({ html, base64: false });
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'application/pdf',
+          dialogTitle: `Download ${fileName}`,
+          UTI: 'com.adobe.pdf',
+        });
+      } else {
+        Alert.alert('Error', 'Sharing is not available on this device');
+      }
+    }
+  } catch (error: any) {
+    console.error('Error generating payout statement:', error);
+    Alert.alert('Error', `Failed to generate statement: ${error.message || 'Unknown error'}`);
+  }
+}
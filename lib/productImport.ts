@@ -0,0 +1,215 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import * as XLSX from 'xlsx';
+import { supabase } from '@/lib/supabase';
+
+// Column order of exported catalogs; imports accept these in any order
+export const PRODUCT_SHEET_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'category',
+  'price',
+  'unit',
+  'stock_quantity',
+  'is_available',
+  'discount_percentage',
+  'image_urls',
+] as const;
+
+type ProductSheetColumn = (typeof PRODUCT_SHEET_COLUMNS)[number];
+
+const COLUMN_ALIASES: Record<string, ProductSheetColumn> = {
+  product_id: 'id',
+  product_name: 'name',
+  category_name: 'category',
+  stock: 'stock_quantity',
+  quantity: 'stock_quantity',
+  available: 'is_available',
+  active: 'is_available',
+  discount: 'discount_percentage',
+  image: 'image_urls',
+  image_url: 'image_urls',
+  images: 'image_urls',
+};
+
+const SHEET_MIME_TYPES = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export type ProductSheetFormat = keyof typeof SHEET_MIME_TYPES;
+
+// One spreadsheet line; cells stay text so the server reports bad values per row
+export type ProductSheetRow = Partial<Record<Exclude<ProductSheetColumn, 'image_urls'>, string>> & {
+  row: number;
+  image_urls: string[];
+};
+
+export interface ProductImportRowResult {
+  row: number;
+  name: string | null;
+  action: 'create' | 'update' | 'error';
+  product_id: string | null;
+  new_images: number;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  dry_run: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ProductImportRowResult[];
+}
+
+const normalizeColumn = (header: string): ProductSheetColumn | null => {
+  const key = header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if ((PRODUCT_SHEET_COLUMNS as readonly string[]).includes(key)) return key as ProductSheetColumn;
+  return COLUMN_ALIASES[key] || null;
+};
+
+export function parseProductSheet(data: Uint8Array): ProductSheetRow[] {
+  // raw keeps CSV cells as typed so prices and ids are not reformatted
+  const workbook = XLSX.read(data, { type: 'array', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets');
+
+  const [header = [], ...lines] = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: true,
+  });
+  const columns = header.map((cell) => normalizeColumn(String(cell)));
+
+  if (!columns.includes('name') && !columns.includes('id')) {
+    throw new Error('The first row must name the columns, including name or id');
+  }
+
+  const rows: ProductSheetRow[] = [];
+  lines.forEach((cells, index) => {
+    if (cells.every((cell) => String(cell).trim() === '')) return;
+
+    // Header is line 1, so data starts on line 2
+    const row: ProductSheetRow = { row: index + 2, image_urls: [] };
+    columns.forEach((column, i) => {
+      if (!column) return;
+      const value = String(cells[i] ?? '').trim();
+      if (column === 'image_urls') {
+        row.image_urls = value.split(/[|\s]+/).filter(Boolean);
+      } else {
+        row[column] = value;
+      }
+    });
+    rows.push(row);
+  });
+
+  if (rows.length === 0) throw new Error('The file has no product rows');
+  return rows;
+}
+
+export async function pickProductSheet(): Promise<{ name: string; rows: ProductSheetRow[] } | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: [SHEET_MIME_TYPES.csv, 'text/comma-separated-values', SHEET_MIME_TYPES.xlsx, 'application/vnd.ms-excel'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  const data = Platform.OS === 'web' && asset.file
+    ? new Uint8Array(await asset.file.arrayBuffer())
+    : await new File(asset.uri).bytes();
+
+  return { name: asset.name, rows: parseProductSheet(data) };
+}
+
+// With dryRun nothing is written; the result previews what each row would do
+export async function importProductRows(rows: ProductSheetRow[], dryRun: boolean): Promise<ProductImportResult> {
+  const { data, error } = await supabase.rpc('import_vendor_products', {
+    p_rows: rows,
+    p_dry_run: dryRun,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to import products');
+  }
+
+  return data as ProductImportResult;
+}
+
+export async function exportProductCatalog(
+  vendorId: string,
+  businessName: string,
+  format: ProductSheetFormat
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('products')
+    .select(`
+      id,
+      name,
+      description,
+      image_url,
+      price,
+      unit,
+      stock_quantity,
+      is_available,
+      discount_percentage,
+      discount_active,
+      categories (name),
+      product_images (image_url, display_order)
+    `)
+    .eq('vendor_id', vendorId)
+    .order('name');
+
+  if (error) throw error;
+
+  const rows = (data || []).map((product: any) => {
+    const images = [...(product.product_images || [])]
+      .sort((a: any, b: any) => a.display_order - b.display_order)
+      .map((image: any) => image.image_url);
+
+    return [
+      product.id,
+      product.name,
+      product.description || '',
+      product.categories?.name || '',
+      Number(product.price),
+      product.unit,
+      product.stock_quantity,
+      product.is_available ? 'yes' : 'no',
+      product.discount_active ? product.discount_percentage : 0,
+      (images.length > 0 ? images : [product.image_url].filter(Boolean)).join(' | '),
+    ];
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([[...PRODUCT_SHEET_COLUMNS], ...rows]), 'Products');
+
+  const slug = businessName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'catalog';
+  const fileName = `${slug}-products-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+  if (Platform.OS === 'web') {
+    XLSX.writeFile(workbook, fileName, { bookType: format });
+    return rows.length;
+  }
+
+  const file = new File(Paths.cache, fileName);
+  file.create({ overwrite: true });
+  file.write(new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: format })));
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(file.uri, {
+    mimeType: SHEET_MIME_TYPES[format],
+    dialogTitle: `Export ${fileName}`,
+  });
+
+  return rows.length;
+}
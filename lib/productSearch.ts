@@ -0,0 +1,103 @@
+import { supabase } from '@/lib/supabase';
+import { Product } from '@/types/database';
+
+export type ProductSort = 'relevance' | 'price_asc' | 'price_desc' | 'rating' | 'newest';
+
+export interface ProductSearchFilters {
+  minPrice: number | null;
+  maxPrice: number | null;
+  minRating: number | null;
+  onSale: boolean;
+  inStock: boolean;
+  sort: ProductSort;
+}
+
+export const DEFAULT_SEARCH_FILTERS: ProductSearchFilters = {
+  minPrice: null,
+  maxPrice: null,
+  minRating: null,
+  onSale: false,
+  inStock: true,
+  sort: 'relevance',
+};
+
+export const SORT_OPTIONS: { value: ProductSort; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'price_asc', label: 'Price: Low to High' },
+  { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'rating', label: 'Top Rated' },
+];
+
+// Number of filters changed from the defaults, for the badge on the filter button
+export function countActiveFilters(filters: ProductSearchFilters): number {
+  return [
+    filters.minPrice !== null || filters.maxPrice !== null,
+    filters.minRating !== null,
+    filters.onSale,
+    !filters.inStock,
+    filters.sort !== DEFAULT_SEARCH_FILTERS.sort,
+  ].filter(Boolean).length;
+}
+
+interface SearchProductsParams {
+  query?: string;
+  categoryId?: string | null;
+  filters?: ProductSearchFilters;
+  limit?: number;
+  offset?: number;
+}
+
+export async function searchProducts({
+  query = '',
+  categoryId = null,
+  filters = DEFAULT_SEARCH_FILTERS,
+  limit = 16,
+  offset = 0,
+}: SearchProductsParams): Promise<{ products: Product[]; totalCount: number }> {
+  const { data, error } = await supabase.rpc('search_products', {
+    p_query: query.trim() || null,
+    p_category_id: categoryId,
+    p_min_price: filters.minPrice,
+    p_max_price: filters.maxPrice,
+    p_min_rating: filters.minRating,
+    p_on_sale: filters.onSale,
+    p_in_stock: filters.inStock,
+    p_sort: filters.sort,
+    p_limit: limit,
+    p_offset: offset,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to search products');
+  }
+
+  return {
+    products: (data.products || []) as Product[],
+    totalCount: data.total_count || 0,
+  };
+}
+
+export interface SearchSuggestions {
+  products: { id: string; name: string; image_url: string | null; price: number; unit: string }[];
+  categories: { id: string; name: string }[];
+  stores: { vendor_id: string; business_name: string; logo_url: string | null }[];
+}
+
+export async function fetchSearchSuggestions(query: string): Promise<SearchSuggestions> {
+  const { data, error } = await supabase.rpc('get_search_suggestions', {
+    p_query: query,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to load suggestions');
+  }
+
+  return {
+    products: data.products || [],
+    categories: data.categories || [],
+    stores: data.stores || [],
+  };
+}
@@ -0,0 +1,135 @@
+import { supabase } from '@/lib/supabase';
+import { ProductOption, ProductVariant } from '@/types/database';
+
+export const MAX_PRODUCT_OPTIONS = 3;
+
+// Variant rows as the vendor edits them; numbers stay strings until saved
+export interface VariantDraft {
+  id?: string;
+  options: Record<string, string>;
+  sku: string;
+  price: string;
+  stock_quantity: string;
+  image_url: string;
+  is_available: boolean;
+}
+
+export interface OptionDraft {
+  name: string;
+  values: string[];
+}
+
+export async function fetchProductVariants(
+  productId: string
+): Promise<{ options: ProductOption[]; variants: ProductVariant[] }> {
+  const { data, error } = await supabase.rpc('get_product_variants', {
+    p_product_id: productId,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to load product options');
+  }
+
+  return {
+    options: (data.options || []) as ProductOption[],
+    variants: ((data.variants || []) as ProductVariant[]).map((variant) => ({
+      ...variant,
+      price: Number(variant.price),
+    })),
+  };
+}
+
+export async function saveProductVariants(
+  productId: string,
+  options: OptionDraft[],
+  variants: VariantDraft[]
+): Promise<void> {
+  const { data, error } = await supabase.rpc('save_product_variants', {
+    p_product_id: productId,
+    p_options: options.map((option) => ({ name: option.name.trim(), values: option.values })),
+    p_variants: variants.map((variant) => ({
+      id: variant.id,
+      options: variant.options,
+      sku: variant.sku.trim() || null,
+      price: parseFloat(variant.price),
+      stock_quantity: parseInt(variant.stock_quantity, 10) || 0,
+      image_url: variant.image_url.trim() || null,
+      is_available: variant.is_available,
+    })),
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to save variants');
+  }
+}
+
+export function toVariantDrafts(variants: ProductVariant[]): VariantDraft[] {
+  return variants.map((variant) => ({
+    id: variant.id,
+    options: variant.options,
+    sku: variant.sku || '',
+    price: String(variant.price),
+    stock_quantity: String(variant.stock_quantity),
+    image_url: variant.image_url || '',
+    is_available: variant.is_available,
+  }));
+}
+
+export function variantLabel(options: OptionDraft[], selection: Record<string, string>): string {
+  return options
+    .map((option) => selection[option.name.trim()])
+    .filter(Boolean)
+    .join(' / ');
+}
+
+// One row per combination of option values. Rows the vendor already filled in are kept when their
+// combination still exists so adding a color does not wipe the prices typed for each size
+export function buildVariantDrafts(
+  options: OptionDraft[],
+  existing: VariantDraft[],
+  defaults: { price: string; stock_quantity: string }
+): VariantDraft[] {
+  const usable = options.filter((option) => option.name.trim() && option.values.length > 0);
+  if (usable.length === 0) return [];
+
+  let combinations: Record<string, string>[] = [{}];
+  for (const option of usable) {
+    combinations = combinations.flatMap((combination) =>
+      option.values.map((value) => ({ ...combination, [option.name.trim()]: value }))
+    );
+  }
+
+  const key = (selection: Record<string, string>) =>
+    usable.map((option) => selection[option.name.trim()] ?? '').join('\u0000');
+  const existingByKey = new Map(existing.map((variant) => [key(variant.options), variant]));
+
+  return combinations.map(
+    (combination) =>
+      existingByKey.get(key(combination)) || {
+        options: combination,
+        sku: '',
+        price: defaults.price,
+        stock_quantity: defaults.stock_quantity,
+        image_url: '',
+        is_available: true,
+      }
+  );
+}
+
+export function findVariant(
+  variants: ProductVariant[],
+  selection: Record<string, string>
+): ProductVariant | null {
+  return (
+    variants.find((variant) =>
+      Object.entries(variant.options).every(([name, value]) => selection[name] === value)
+    ) || null
+  );
+}
+
+// Product name with the ordered variant, as shown on carts and receipts
+export function formatItemName(name: string, variantName?: string | null): string {
+  return variantName ? `${name} (${variantName})` : name;
+}
@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '@/lib/supabase';
+
+export interface RecentSearch {
+  query: string;
+  searched_at: string;
+}
+
+const MAX_RECENT_SEARCHES = 10;
+
+const storageKey = (userId: string) => `recent_searches_${userId}`;
+
+// Same normalization as normalize_search_query, so the device and the table dedupe alike
+export const normalizeSearchQuery = (query: string) => query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+function mergeRecentSearches(...lists: RecentSearch[][]): RecentSearch[] {
+  const latest = new Map<string, RecentSearch>();
+  for (const search of lists.flat()) {
+    const key = normalizeSearchQuery(search.query);
+    const existing = latest.get(key);
+    if (!existing || new Date(search.searched_at) > new Date(existing.searched_at)) {
+      latest.set(key, search);
+    }
+  }
+
+  return [...latest.values()]
+    .sort((a, b) => new Date(b.searched_at).getTime() - new Date(a.searched_at).getTime())
+    .slice(0, MAX_RECENT_SEARCHES);
+}
+
+export async function loadRecentSearches(userId: string): Promise<RecentSearch[]> {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    return stored ? (JSON.parse(stored) as RecentSearch[]) : [];
+  } catch (error) {
+    console.error('Error reading recent searches:', error);
+    return [];
+  }
+}
+
+async function saveRecentSearches(userId: string, searches: RecentSearch[]) {
+  await AsyncStorage.setItem(storageKey(userId), JSON.stringify(searches));
+}
+
+// Merges the device list with the account's list so searches follow the customer across devices,
+// then uploads anything the table has not seen yet
+export async function syncRecentSearches(userId: string): Promise<RecentSearch[]> {
+  const local = await loadRecentSearches(userId);
+
+  const { data, error } = await supabase
+    .from('recent_searches')
+    .select('query, searched_at')
+    .eq('user_id', userId)
+    .order('searched_at', { ascending: false })
+    .limit(MAX_RECENT_SEARCHES);
+
+  if (error) throw error;
+
+  const remote: RecentSearch[] = data || [];
+  const merged = mergeRecentSearches(local, remote);
+  await saveRecentSearches(userId, merged);
+
+  const remoteTimes = new Map(remote.map((search) => [normalizeSearchQuery(search.query), search.searched_at]));
+  const unsynced = merged.filter((search) => {
+    const remoteTime = remoteTimes.get(normalizeSearchQuery(search.query));
+    return !remoteTime || new Date(search.searched_at) > new Date(remoteTime);
+  });
+
+  if (unsynced.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('recent_searches')
+      .upsert(
+        unsynced.map((search) => ({ user_id: userId, query: search.query, searched_at: search.searched_at })),
+        { onConflict: 'user_id,normalized_query' }
+      );
+
+    if (upsertError) throw upsertError;
+  }
+
+  return merged;
+}
+
+// Saves the search on the device right away; record_search logs it and updates the table
+export async function addRecentSearch(userId: string, query: string): Promise<RecentSearch[]> {
+  const trimmed = query.trim();
+  const searches = mergeRecentSearches(
+    [{ query: trimmed, searched_at: new Date().toISOString() }],
+    await loadRecentSearches(userId)
+  );
+  await saveRecentSearches(userId, searches);
+
+  const { data, error } = await supabase.rpc('record_search', { p_query: trimmed });
+  if (error || !data?.success) {
+    console.error('Error recording search:', error || data?.error);
+  }
+
+  return searches;
+}
+
+export async function removeRecentSearch(userId: string, query: string): Promise<RecentSearch[]> {
+  const key = normalizeSearchQuery(query);
+  const searches = (await loadRecentSearches(userId)).filter((search) => normalizeSearchQuery(search.query) !== key);
+  await saveRecentSearches(userId, searches);
+
+  const { error } = await supabase
+    .from('recent_searches')
+    .delete()
+    .eq('user_id', userId)
+    .eq('normalized_query', key);
+
+  if (error) throw error;
+
+  return searches;
+}
+
+export async function clearRecentSearches(userId: string): Promise<void> {
+  await saveRecentSearches(userId, []);
+
+  const { error } = await supabase
+    .from('recent_searches')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
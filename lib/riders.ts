@@ -0,0 +1,26 @@
+import { supabase } from '@/lib/supabase';
+import { RiderVehicleType } from '@/types/database';
+
+export const VEHICLE_LABELS: Record<RiderVehicleType, string> = {
+  motorcycle: 'Motorcycle',
+  bicycle: 'Bicycle',
+  car: 'Car',
+  van: 'Van',
+};
+
+export interface OrderRider {
+  full_name: string;
+  phone: string | null;
+}
+
+// Contact details of the rider of one of the user's orders; null once it is delivered or cancelled
+export async function fetchOrderRider(orderId: string): Promise<OrderRider | null> {
+  const { data, error } = await supabase.rpc('get_order_rider', { p_order_id: orderId });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to load rider');
+  }
+
+  return (data.rider as OrderRider | null) ?? null;
+}
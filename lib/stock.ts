@@ -0,0 +1,22 @@
+import { Product } from '@/types/database';
+
+export const LOW_STOCK_THRESHOLD = 10;
+
+type StockFields = Pick<Product, 'stock_quantity'> & Partial<Pick<Product, 'reserved_quantity'>>;
+
+export function getAvailableStock(product: StockFields): number {
+  return Math.max(0, product.stock_quantity - (product.reserved_quantity || 0));
+}
+
+export function getStockLabel(product: StockFields): string {
+  const available = getAvailableStock(product);
+
+  if (available === 0) return 'Out of stock';
+  if (available <= LOW_STOCK_THRESHOLD) return `Only ${available} left`;
+  return `${available} left`;
+}
+
+// Vendor-facing: at or below the product's own reorder threshold
+export function isLowStock(product: StockFields & Pick<Product, 'reorder_threshold'>): boolean {
+  return getAvailableStock(product) <= product.reorder_threshold;
+}
@@ -0,0 +1,62 @@
+import { supabase } from '@/lib/supabase';
+
+// Open/closed state from vendor_store_status. Hours are kept in the store's own time zone.
+export interface StoreStatus {
+  vendor_id: string;
+  timezone: string;
+  is_open: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  on_vacation: boolean;
+  vacation_until: string | null;
+}
+
+export async function fetchStoreStatuses(vendorIds: string[]): Promise<Record<string, StoreStatus>> {
+  if (vendorIds.length === 0) return {};
+
+  const { data, error } = await supabase.rpc('get_store_statuses', {
+    p_vendor_ids: vendorIds,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to load store hours');
+  }
+
+  return (data.statuses || {}) as Record<string, StoreStatus>;
+}
+
+// Time zone of each store, for showing times the way the store sees them
+export async function fetchStoreTimezones(vendorIds: string[]): Promise<Record<string, string>> {
+  const statuses = await fetchStoreStatuses(vendorIds);
+  return Object.fromEntries(Object.entries(statuses).map(([vendorId, status]) => [vendorId, status.timezone]));
+}
+
+// Calendar day of a moment as seen in the store's time zone, e.g. "2026-03-01"
+export function storeDay(date: Date, timezone: string): string {
+  return date.toLocaleDateString('en-CA', { timeZone: timezone });
+}
+
+function formatStoreDay(date: Date, timezone: string): string {
+  const now = new Date();
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+  if (storeDay(date, timezone) === storeDay(now, timezone)) return '';
+  if (storeDay(date, timezone) === storeDay(tomorrow, timezone)) return 'tomorrow ';
+  return `${date.toLocaleDateString('en-US', { timeZone: timezone, weekday: 'short', month: 'short', day: 'numeric' })} `;
+}
+
+// e.g. "Closed – opens at 9:00 AM", "Closed – opens tomorrow at 9:00 AM", "Closed until Mon, Mar 2"
+export function formatStoreClosed(status: StoreStatus): string {
+  if (status.on_vacation && !status.opens_at) {
+    return status.vacation_until
+      ? `Closed until ${new Date(`${status.vacation_until}T12:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' })}`
+      : 'Temporarily closed';
+  }
+
+  if (!status.opens_at) return 'Closed';
+
+  const opensAt = new Date(status.opens_at);
+  const time = opensAt.toLocaleTimeString('en-US', { timeZone: status.timezone, hour: 'numeric', minute: '2-digit' });
+  return `Closed – opens ${formatStoreDay(opensAt, status.timezone)}at ${time}`;
+}
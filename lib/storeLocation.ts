@@ -0,0 +1,13 @@
+import { Coordinates } from '@/lib/deliveryTracking';
+
+// Null until the vendor pins its store; such a store cannot be quoted for delivery
+export function vendorStoreLocation(vendor?: { latitude?: number | null; longitude?: number | null } | null): Coordinates | null {
+  if (vendor?.latitude != null && vendor?.longitude != null) {
+    return { latitude: Number(vendor.latitude), longitude: Number(vendor.longitude) };
+  }
+  return null;
+}
+
+export function formatCoordinates({ latitude, longitude }: Coordinates): string {
+  return `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+}
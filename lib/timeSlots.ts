@@ -0,0 +1,54 @@
+import { supabase } from '@/lib/supabase';
+import { storeDay } from '@/lib/storeHours';
+
+// A delivery or pickup window cut from the vendor's store hours
+export interface TimeSlot {
+  start: string;
+  end: string;
+  capacity: number;
+  booked: number;
+  available: number;
+}
+
+export async function fetchVendorTimeSlots(
+  vendorId: string,
+  deliveryType: 'pickup' | 'delivery'
+): Promise<TimeSlot[]> {
+  const { data, error } = await supabase.rpc('get_vendor_time_slots', {
+    p_vendor_id: vendorId,
+    p_delivery_type: deliveryType,
+  });
+
+  if (error) throw error;
+  if (!data?.success) {
+    throw new Error(data?.error || 'Failed to load time slots');
+  }
+
+  return (data.slots || []) as TimeSlot[];
+}
+
+// Slots are labelled in the store's time zone, like its store hours
+export function isSameStoreDay(a: Date, b: Date, timezone: string): boolean {
+  return storeDay(a, timezone) === storeDay(b, timezone);
+}
+
+export function formatSlotDay(start: string, timezone: string): string {
+  const date = new Date(start);
+  const now = new Date();
+  const tomorrow = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+  if (isSameStoreDay(date, now, timezone)) return 'Today';
+  if (isSameStoreDay(date, tomorrow, timezone)) return 'Tomorrow';
+  return date.toLocaleDateString('en-US', { timeZone: timezone, weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+// e.g. "10:00 AM – 11:00 AM"
+export function formatSlotTime(start: string, end: string, timezone: string): string {
+  const options: Intl.DateTimeFormatOptions = { timeZone: timezone, hour: 'numeric', minute: '2-digit' };
+  return `${new Date(start).toLocaleTimeString('en-US', options)} – ${new Date(end).toLocaleTimeString('en-US', options)}`;
+}
+
+// e.g. "Tomorrow, 10:00 AM – 11:00 AM"
+export function formatSlot(start: string, end: string, timezone: string): string {
+  return `${formatSlotDay(start, timezone)}, ${formatSlotTime(start, end, timezone)}`;
+}
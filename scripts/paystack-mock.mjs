@@ -0,0 +1,365 @@
+#!/usr/bin/env node
+/*
+ * Local stand-in for the parts of the Paystack API used by online payments, refunds and wallet withdrawals.
+ *
+ *   PAYSTACK_SECRET_KEY=sk_test_mock \
+ *   PAYSTACK_WEBHOOK_URL=http://127.0.0.1:54321/functions/v1/paystack-webhook \
+ *   npm run paystack:mock
+ *
+ * Then serve the edge functions with PAYSTACK_API_URL pointing here
+ * (http://host.docker.internal:4010 when they run in Docker) and the same secret key.
+ *
+ * Behaviour:
+ *   - /transaction/initialize returns a local checkout page; paying there sends a signed
+ *     charge.success webhook and redirects to the callback URL
+ *   - POST /_mock/charges/:reference/:outcome (success | failed) completes a payment without the page
+ *   - Account numbers starting with 000 cannot be resolved
+ *   - Transfers to account numbers ending in 9999 fail, everything else succeeds
+ *   - The outcome is sent as a signed webhook MOCK_TRANSFER_DELAY_MS (default 2000) after the transfer
+ *   - POST /_mock/transfers/:reference/:outcome (success | failed | reversed) sends an event on demand
+ *   - GET /_mock/transfers lists the transfers made so far
+ *   - Refunds are processed MOCK_TRANSFER_DELAY_MS after they are made (refund.processed);
+ *     POST /_mock/refunds/:id/:outcome (processed | failed) sends an event on demand
+ *   - GET /_mock/refunds lists the refunds made so far
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 4010);
+const SECRET_KEY = process.env.PAYSTACK_SECRET_KEY || 'sk_test_mock';
+const WEBHOOK_URL = process.env.PAYSTACK_WEBHOOK_URL;
+const TRANSFER_DELAY_MS = Number(process.env.MOCK_TRANSFER_DELAY_MS || 2000);
+
+const BANKS = [
+  { name: 'Access Bank', code: '044' },
+  { name: 'First Bank of Nigeria', code: '011' },
+  { name: 'Guaranty Trust Bank', code: '058' },
+  { name: 'Kuda Bank', code: '50211' },
+  { name: 'Opay', code: '999992' },
+  { name: 'United Bank For Africa', code: '033' },
+  { name: 'Wema Bank', code: '035' },
+  { name: 'Zenith Bank', code: '057' },
+];
+
+const recipients = new Map();
+const transfers = new Map();
+const transactions = new Map();
+const refunds = new Map();
+let nextTransactionId = 1000001;
+let nextRefundId = 5000001;
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+
+const postWebhook = async (event, data) => {
+  if (!WEBHOOK_URL) {
+    console.log(`[mock] ${event} for ${data.reference ?? data.transaction_reference} (no PAYSTACK_WEBHOOK_URL set)`);
+    return;
+  }
+
+  const body = JSON.stringify({ event, data });
+  const signature = crypto.createHmac('sha512', SECRET_KEY).update(body).digest('hex');
+
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-paystack-signature': signature },
+      body,
+    });
+    console.log(`[mock] ${event} for ${data.reference ?? data.transaction_reference} -> ${response.status} ${await response.text()}`);
+  } catch (error) {
+    console.error(`[mock] failed to deliver ${event}:`, error.message);
+  }
+};
+
+const sendWebhook = async (event, transfer) => {
+  transfer.status = event.replace('transfer.', '');
+
+  await postWebhook(event, {
+    amount: transfer.amount,
+    currency: 'NGN',
+    reference: transfer.reference,
+    transfer_code: transfer.transfer_code,
+    status: transfer.status,
+    reason: transfer.reason,
+    recipient: recipients.get(transfer.recipient),
+  });
+};
+
+const sendRefundWebhook = async (event, refund) => {
+  refund.status = event.replace('refund.', '');
+
+  await postWebhook(event, {
+    id: String(refund.id),
+    amount: String(refund.amount),
+    currency: 'NGN',
+    status: refund.status,
+    transaction_reference: refund.transaction_reference,
+    refund_reference: refund.refund_reference,
+  });
+};
+
+const completeCharge = async (transaction, outcome) => {
+  if (transaction.status !== 'pending') return;
+
+  transaction.status = outcome;
+  transaction.paid_at = outcome === 'success' ? new Date().toISOString() : null;
+
+  if (outcome === 'success') {
+    await postWebhook('charge.success', transaction);
+  }
+};
+
+const checkoutPage = (transaction) => `<!DOCTYPE html>
+<html>
+<head><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>Paystack Mock Checkout</title></head>
+<body style="font-family: sans-serif; max-width: 360px; margin: 40px auto; text-align: center;">
+  <h2>Paystack Mock Checkout</h2>
+  <p>${transaction.customer.email}</p>
+  <p style="font-size: 28px; font-weight: bold;">NGN ${(transaction.amount / 100).toFixed(2)}</p>
+  <p style="color: #6b7280;">${transaction.reference} &middot; ${transaction.status}</p>
+  <form method="POST" action="/_mock/charges/${encodeURIComponent(transaction.reference)}/success?redirect=1">
+    <button style="width: 100%; padding: 12px; background: #0ba4db; color: white; border: 0; border-radius: 8px;">Pay</button>
+  </form>
+  <form method="POST" action="/_mock/charges/${encodeURIComponent(transaction.reference)}/failed?redirect=1" style="margin-top: 8px;">
+    <button style="width: 100%; padding: 12px; border-radius: 8px;">Decline</button>
+  </form>
+</body>
+</html>`;
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const path = url.pathname;
+
+  if (path.startsWith('/_mock/')) {
+    if (req.method === 'GET' && path === '/_mock/transfers') {
+      return send(res, 200, [...transfers.values()]);
+    }
+
+    if (req.method === 'GET' && path === '/_mock/charges') {
+      return send(res, 200, [...transactions.values()]);
+    }
+
+    const checkoutMatch = path.match(/^\/_mock\/checkout\/([^/]+)$/);
+    if (req.method === 'GET' && checkoutMatch) {
+      const transaction = transactions.get(decodeURIComponent(checkoutMatch[1]));
+      if (!transaction) return send(res, 404, { status: false, message: 'Transaction not found' });
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end(checkoutPage(transaction));
+    }
+
+    const chargeMatch = path.match(/^\/_mock\/charges\/([^/]+)\/(success|failed)$/);
+    if (req.method === 'POST' && chargeMatch) {
+      const transaction = transactions.get(decodeURIComponent(chargeMatch[1]));
+      if (!transaction) return send(res, 404, { status: false, message: 'Transaction not found' });
+      await completeCharge(transaction, chargeMatch[2]);
+
+      if (url.searchParams.get('redirect') && transaction.callback_url) {
+        const callback = new URL(transaction.callback_url);
+        callback.searchParams.set('reference', transaction.reference);
+        res.writeHead(302, { Location: callback.toString() });
+        return res.end();
+      }
+
+      return send(res, 200, { status: true, data: transaction });
+    }
+
+    if (req.method === 'GET' && path === '/_mock/refunds') {
+      return send(res, 200, [...refunds.values()]);
+    }
+
+    const refundMatch = path.match(/^\/_mock\/refunds\/([^/]+)\/(processed|failed)$/);
+    if (req.method === 'POST' && refundMatch) {
+      const refund = refunds.get(Number(refundMatch[1]));
+      if (!refund) return send(res, 404, { status: false, message: 'Refund not found' });
+      await sendRefundWebhook(`refund.${refundMatch[2]}`, refund);
+      return send(res, 200, { status: true, data: refund });
+    }
+
+    const match = path.match(/^\/_mock\/transfers\/([^/]+)\/(success|failed|reversed)$/);
+    if (req.method === 'POST' && match) {
+      const transfer = transfers.get(decodeURIComponent(match[1]));
+      if (!transfer) return send(res, 404, { status: false, message: 'Transfer not found' });
+      await sendWebhook(`transfer.${match[2]}`, transfer);
+      return send(res, 200, { status: true, data: transfer });
+    }
+
+    return send(res, 404, { status: false, message: 'Not found' });
+  }
+
+  if (req.headers.authorization !== `Bearer ${SECRET_KEY}`) {
+    return send(res, 401, { status: false, message: 'Invalid key' });
+  }
+
+  if (req.method === 'POST' && path === '/transaction/initialize') {
+    const body = await readBody(req);
+
+    if (!body.email || !Number.isInteger(body.amount) || body.amount <= 0) {
+      return send(res, 400, { status: false, message: 'Invalid email or amount' });
+    }
+
+    const reference = body.reference || `T${crypto.randomBytes(6).toString('hex')}`;
+    if (transactions.has(reference)) {
+      return send(res, 400, { status: false, message: 'Duplicate Transaction Reference' });
+    }
+
+    const transaction = {
+      id: nextTransactionId++,
+      reference,
+      amount: body.amount,
+      currency: body.currency || 'NGN',
+      status: 'pending',
+      channel: 'card',
+      metadata: body.metadata || {},
+      customer: { email: body.email },
+      callback_url: body.callback_url,
+      paid_at: null,
+      createdAt: new Date().toISOString(),
+    };
+    transactions.set(reference, transaction);
+
+    return send(res, 200, {
+      status: true,
+      message: 'Authorization URL created',
+      data: {
+        authorization_url: `http://localhost:${PORT}/_mock/checkout/${encodeURIComponent(reference)}`,
+        access_code: crypto.randomBytes(8).toString('hex'),
+        reference,
+      },
+    });
+  }
+
+  const verifyMatch = path.match(/^\/transaction\/verify\/([^/]+)$/);
+  if (req.method === 'GET' && verifyMatch) {
+    const transaction = transactions.get(decodeURIComponent(verifyMatch[1]));
+    if (!transaction) {
+      return send(res, 400, { status: false, message: 'Transaction reference not found' });
+    }
+    return send(res, 200, { status: true, message: 'Verification successful', data: transaction });
+  }
+
+  if (req.method === 'GET' && path === '/bank') {
+    return send(res, 200, { status: true, message: 'Banks retrieved', data: BANKS });
+  }
+
+  if (req.method === 'GET' && path === '/bank/resolve') {
+    const accountNumber = url.searchParams.get('account_number') || '';
+    const bank = BANKS.find((b) => b.code === url.searchParams.get('bank_code'));
+
+    if (!bank || !/^\d{10}$/.test(accountNumber) || accountNumber.startsWith('000')) {
+      return send(res, 422, { status: false, message: 'Could not resolve account name. Check parameters or try again.' });
+    }
+
+    return send(res, 200, {
+      status: true,
+      message: 'Account number resolved',
+      data: { account_number: accountNumber, account_name: `MOCK ACCOUNT ${accountNumber.slice(-4)}`, bank_id: 1 },
+    });
+  }
+
+  if (req.method === 'POST' && path === '/transferrecipient') {
+    const body = await readBody(req);
+    const bank = BANKS.find((b) => b.code === body.bank_code);
+
+    if (!bank || !body.account_number) {
+      return send(res, 400, { status: false, message: 'Invalid recipient details' });
+    }
+
+    const recipient = {
+      recipient_code: `RCP_${crypto.randomBytes(6).toString('hex')}`,
+      type: 'nuban',
+      name: body.name,
+      currency: 'NGN',
+      details: { account_number: body.account_number, account_name: body.name, bank_code: bank.code, bank_name: bank.name },
+    };
+    recipients.set(recipient.recipient_code, recipient);
+
+    return send(res, 201, { status: true, message: 'Transfer recipient created successfully', data: recipient });
+  }
+
+  if (req.method === 'POST' && path === '/transfer') {
+    const body = await readBody(req);
+    const recipient = recipients.get(body.recipient);
+
+    if (!recipient) {
+      return send(res, 400, { status: false, message: 'Recipient specified is invalid' });
+    }
+
+    if (!Number.isInteger(body.amount) || body.amount <= 0) {
+      return send(res, 400, { status: false, message: 'Invalid amount' });
+    }
+
+    const transfer = {
+      reference: body.reference || `TRF_${crypto.randomBytes(6).toString('hex')}`,
+      transfer_code: `TRF_${crypto.randomBytes(6).toString('hex')}`,
+      amount: body.amount,
+      reason: body.reason,
+      recipient: body.recipient,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+    transfers.set(transfer.reference, transfer);
+
+    const outcome = recipient.details.account_number.endsWith('9999') ? 'transfer.failed' : 'transfer.success';
+    setTimeout(() => sendWebhook(outcome, transfer), TRANSFER_DELAY_MS);
+
+    return send(res, 200, { status: true, message: 'Transfer has been queued', data: transfer });
+  }
+
+  if (req.method === 'POST' && path === '/refund') {
+    const body = await readBody(req);
+    const transaction = transactions.get(String(body.transaction));
+
+    if (!transaction || transaction.status !== 'success') {
+      return send(res, 400, { status: false, message: 'Transaction not found or not successful' });
+    }
+
+    const refunded = [...refunds.values()]
+      .filter((r) => r.transaction_reference === transaction.reference && r.status !== 'failed')
+      .reduce((sum, r) => sum + r.amount, 0);
+    const amount = body.amount ?? transaction.amount - refunded;
+
+    if (!Number.isInteger(amount) || amount <= 0 || refunded + amount > transaction.amount) {
+      return send(res, 400, { status: false, message: 'Refund amount cannot be more than the transaction amount' });
+    }
+
+    const refund = {
+      id: nextRefundId++,
+      transaction_reference: transaction.reference,
+      refund_reference: `RFD_${crypto.randomBytes(6).toString('hex')}`,
+      amount,
+      currency: 'NGN',
+      merchant_note: body.merchant_note,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+    refunds.set(refund.id, refund);
+
+    setTimeout(() => {
+      if (refund.status === 'pending') sendRefundWebhook('refund.processed', refund);
+    }, TRANSFER_DELAY_MS);
+
+    return send(res, 200, { status: true, message: 'Refund has been queued for processing', data: refund });
+  }
+
+  return send(res, 404, { status: false, message: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Paystack mock listening on http://localhost:${PORT}`);
+});
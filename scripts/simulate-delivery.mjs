@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+/*
+ * Feeds a fake GPS track for an order into delivery_locations, as if its rider were driving
+ * to the delivery address, so the live tracking screen can be tested without a phone.
+ *
+ *   SUPABASE_URL=http://127.0.0.1:54321 \
+ *   SUPABASE_SERVICE_ROLE_KEY=... \
+ *   npm run delivery:simulate -- <order-id> [options]
+ *
+ * Options:
+ *   --from lat,lng      Start of the track (default: about 3 km north-west of the destination)
+ *   --to lat,lng        Destination (default: the order's delivery coordinates)
+ *   --speed km/h        Average travel speed (default 25)
+ *   --interval seconds  Time between pings (default 5)
+ *   --jitter metres     GPS noise added to each ping (default 10)
+ *   --deliver           Mark the order delivered once the track reaches the destination
+ *
+ * Behaviour:
+ *   - The order must be a delivery order with a rider assigned; pings are reported as that rider
+ *   - An order that is preparing or ready for pickup is moved to out_for_delivery first
+ *   - The track follows a street-like path (along one axis, then the other) rather than a straight line
+ *   - Pings are written with the service role, so the usual RLS checks are skipped
+ */
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const EARTH_RADIUS_M = 6371000;
+
+function parseArgs(argv) {
+  const options = { speed: 25, interval: 5, jitter: 10, deliver: false };
+  const positional = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--deliver') options.deliver = true;
+    else if (arg.startsWith('--')) options[arg.slice(2)] = argv[++i];
+    else positional.push(arg);
+  }
+
+  return { orderId: positional[0], ...options };
+}
+
+function parseCoordinates(value, name) {
+  const [latitude, longitude] = String(value).split(',').map(Number);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    throw new Error(`${name} must be given as lat,lng`);
+  }
+  return { latitude, longitude };
+}
+
+function offsetMetres(point, northM, eastM) {
+  const latitude = point.latitude + (northM / EARTH_RADIUS_M) * (180 / Math.PI);
+  const longitude =
+    point.longitude + (eastM / (EARTH_RADIUS_M * Math.cos((point.latitude * Math.PI) / 180))) * (180 / Math.PI);
+  return { latitude, longitude };
+}
+
+// Inverse of offsetMetres; exact enough for the short, axis-aligned legs of a track
+function metresBetween(a, b) {
+  const northM = (b.latitude - a.latitude) * (Math.PI / 180) * EARTH_RADIUS_M;
+  const eastM =
+    (b.longitude - a.longitude) * (Math.PI / 180) * EARTH_RADIUS_M * Math.cos((a.latitude * Math.PI) / 180);
+  return { northM, eastM };
+}
+
+// Points every `stepM` metres along from -> corner -> to, each with the distance left to travel
+function buildTrack(from, to, stepM) {
+  const corner = { latitude: to.latitude, longitude: from.longitude };
+  const legs = [[from, corner], [corner, to]].map(([start, end]) => {
+    const { northM, eastM } = metresBetween(start, end);
+    const heading = ((Math.atan2(eastM, northM) * 180) / Math.PI + 360) % 360;
+    return { start, end, lengthM: Math.hypot(northM, eastM), heading };
+  });
+  let remainingM = legs.reduce((total, leg) => total + leg.lengthM, 0);
+  const track = [];
+
+  for (const { start, end, lengthM, heading } of legs) {
+    const steps = Math.max(1, Math.ceil(lengthM / stepM));
+    for (let i = track.length === 0 ? 0 : 1; i <= steps; i++) {
+      const t = i / steps;
+      track.push({
+        latitude: start.latitude + (end.latitude - start.latitude) * t,
+        longitude: start.longitude + (end.longitude - start.longitude) * t,
+        heading,
+        remainingM: remainingM - lengthM * t,
+      });
+    }
+    remainingM -= lengthM;
+  }
+
+  return track;
+}
+
+async function request(path, { method = 'GET', body } = {}) {
+  const response = await fetch(`${SUPABASE_URL}${path}`, {
+    method,
+    headers: {
+      apikey: SERVICE_ROLE_KEY,
+      Authorization: `Bearer ${SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=representation',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${method} ${path} failed (${response.status}): ${text}`);
+  }
+  return text ? JSON.parse(text) : null;
+}
+
+async function setStatus(order, status, note) {
+  await request('/rest/v1/rpc/set_order_status', {
+    method: 'POST',
+    body: { p_order_id: order.id, p_status: status, p_changed_by: order.rider_id, p_note: note },
+  });
+  console.log(`Order ${order.order_number} is now ${status}`);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+  }
+  if (!options.orderId) {
+    throw new Error('Usage: npm run delivery:simulate -- <order-id> [--from lat,lng] [--to lat,lng]');
+  }
+
+  const [order] = await request(
+    `/rest/v1/orders?id=eq.${options.orderId}&select=id,order_number,status,delivery_type,rider_id,delivery_latitude,delivery_longitude`
+  );
+
+  if (!order) throw new Error('Order not found');
+  if (order.delivery_type !== 'delivery') throw new Error('Only delivery orders can be tracked');
+  if (!order.rider_id) throw new Error('Assign a rider to the order first');
+  if (['delivered', 'cancelled'].includes(order.status)) {
+    throw new Error(`Order is already ${order.status}`);
+  }
+
+  const to = options.to
+    ? parseCoordinates(options.to, '--to')
+    : order.delivery_latitude != null && order.delivery_longitude != null
+    ? { latitude: Number(order.delivery_latitude), longitude: Number(order.delivery_longitude) }
+    : null;
+  if (!to) throw new Error('The order has no delivery coordinates, pass --to lat,lng');
+
+  const from = options.from ? parseCoordinates(options.from, '--from') : offsetMetres(to, 2000, -2000);
+
+  if (order.status !== 'out_for_delivery') {
+    await setStatus(order, 'out_for_delivery', 'Picked up (simulated)');
+  }
+
+  const speedMps = (Number(options.speed) * 1000) / 3600;
+  const intervalMs = Number(options.interval) * 1000;
+  const jitterM = Number(options.jitter);
+  const track = buildTrack(from, to, speedMps * Number(options.interval));
+
+  console.log(
+    `Sending ${track.length} pings for order ${order.order_number} over ${(track[0].remainingM / 1000).toFixed(1)} km`
+  );
+
+  for (const [index, point] of track.entries()) {
+    const noisy = offsetMetres(point, (Math.random() - 0.5) * 2 * jitterM, (Math.random() - 0.5) * 2 * jitterM);
+    const arrived = index === track.length - 1;
+
+    await request('/rest/v1/delivery_locations', {
+      method: 'POST',
+      body: {
+        order_id: order.id,
+        reported_by: order.rider_id,
+        latitude: Number(noisy.latitude.toFixed(8)),
+        longitude: Number(noisy.longitude.toFixed(8)),
+        accuracy_m: jitterM,
+        heading: Math.round(point.heading),
+        speed_mps: arrived ? 0 : Number(speedMps.toFixed(2)),
+        recorded_at: new Date().toISOString(),
+      },
+    });
+
+    console.log(
+      `[${index + 1}/${track.length}] ${noisy.latitude.toFixed(5)}, ${noisy.longitude.toFixed(5)} · ${Math.round(point.remainingM)} m to go`
+    );
+
+    if (!arrived) await sleep(intervalMs);
+  }
+
+  if (options.deliver) {
+    await setStatus(order, 'delivered', 'Delivered (simulated)');
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,202 @@
+import { distanceKm as straightLineKm } from "../../../lib/deliveryTracking.ts";
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeResult extends GeoPoint {
+  formattedAddress: string | null;
+}
+
+export interface RouteResult {
+  distanceKm: number;
+  durationSeconds: number | null;
+}
+
+export type GeoProviderName = "google" | "osm" | "haversine";
+
+// A source of geocoding and routing. Either method returns null when the provider has no answer,
+// and throws when the provider itself failed, so the next provider can be tried.
+export interface GeoProvider {
+  name: GeoProviderName;
+  geocode(address: string): Promise<GeocodeResult | null>;
+  route(origin: GeoPoint, destination: GeoPoint): Promise<RouteResult | null>;
+}
+
+// Assumed speed for the duration estimate when only the straight-line distance is known
+const FALLBACK_SPEED_KMH = 25;
+
+// Cache key for an address: case, punctuation and spacing differences map to the same entry
+export const normalizeAddress = (address: string) =>
+  address
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Accepts {latitude, longitude} or a "lat,lng" string
+export const parseGeoPoint = (value: unknown): GeoPoint | null => {
+  if (value && typeof value === "object") {
+    const { latitude, longitude } = value as Record<string, unknown>;
+    const point = { latitude: Number(latitude), longitude: Number(longitude) };
+    return isValidPoint(point) ? point : null;
+  }
+
+  if (typeof value === "string") {
+    const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    const point = { latitude: Number(match[1]), longitude: Number(match[2]) };
+    return isValidPoint(point) ? point : null;
+  }
+
+  return null;
+};
+
+const isValidPoint = ({ latitude, longitude }: GeoPoint) =>
+  Number.isFinite(latitude) &&
+  Number.isFinite(longitude) &&
+  Math.abs(latitude) <= 90 &&
+  Math.abs(longitude) <= 180;
+
+export function googleProvider(apiKey: string): GeoProvider {
+  return {
+    name: "google",
+
+    async geocode(address) {
+      const response = await fetch(
+        `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(address)}&key=${apiKey}`
+      );
+      if (!response.ok) throw new Error(`Google geocoding failed (${response.status})`);
+
+      const data = await response.json();
+      if (data.status === "ZERO_RESULTS") return null;
+      if (data.status !== "OK") throw new Error(`Google geocoding failed (${data.status})`);
+
+      const result = data.results[0];
+      return {
+        latitude: result.geometry.location.lat,
+        longitude: result.geometry.location.lng,
+        formattedAddress: result.formatted_address ?? null,
+      };
+    },
+
+    async route(origin, destination) {
+      const response = await fetch(
+        `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${origin.latitude},${origin.longitude}&destinations=${destination.latitude},${destination.longitude}&key=${apiKey}`
+      );
+      if (!response.ok) throw new Error(`Google distance matrix failed (${response.status})`);
+
+      const data = await response.json();
+      if (data.status !== "OK") throw new Error(`Google distance matrix failed (${data.status})`);
+
+      const element = data.rows?.[0]?.elements?.[0];
+      if (element?.status !== "OK") return null;
+
+      return {
+        distanceKm: element.distance.value / 1000,
+        durationSeconds: element.duration.value,
+      };
+    },
+  };
+}
+
+// OpenStreetMap: Nominatim for geocoding and OSRM for road distances. Both public servers are
+// rate limited, so point NOMINATIM_URL / OSRM_URL at self-hosted instances under real traffic.
+export function osmProvider(
+  nominatimUrl = "https://nominatim.openstreetmap.org",
+  osrmUrl = "https://router.project-osrm.org",
+  userAgent = "delivery-app/1.0"
+): GeoProvider {
+  return {
+    name: "osm",
+
+    async geocode(address) {
+      const response = await fetch(
+        `${nominatimUrl}/search?format=jsonv2&limit=1&q=${encodeURIComponent(address)}`,
+        { headers: { "User-Agent": userAgent } }
+      );
+      if (!response.ok) throw new Error(`Nominatim geocoding failed (${response.status})`);
+
+      const [result] = await response.json();
+      if (!result) return null;
+
+      return {
+        latitude: Number(result.lat),
+        longitude: Number(result.lon),
+        formattedAddress: result.display_name ?? null,
+      };
+    },
+
+    async route(origin, destination) {
+      const response = await fetch(
+        `${osrmUrl}/route/v1/driving/${origin.longitude},${origin.latitude};${destination.longitude},${destination.latitude}?overview=false`,
+        { headers: { "User-Agent": userAgent } }
+      );
+      if (!response.ok) throw new Error(`OSRM routing failed (${response.status})`);
+
+      const data = await response.json();
+      if (data.code === "NoRoute") return null;
+      if (data.code !== "Ok") throw new Error(`OSRM routing failed (${data.code})`);
+
+      return {
+        distanceKm: data.routes[0].distance / 1000,
+        durationSeconds: Math.round(data.routes[0].duration),
+      };
+    },
+  };
+}
+
+// Works offline from coordinates that are already known; it cannot geocode.
+// Measures the same straight-line distance as the app's tracking screen.
+export function haversineProvider(): GeoProvider {
+  return {
+    name: "haversine",
+
+    geocode() {
+      return Promise.resolve(null);
+    },
+
+    route(origin, destination) {
+      const distanceKm = straightLineKm(origin, destination);
+      return Promise.resolve({
+        distanceKm,
+        durationSeconds: Math.round((distanceKm / FALLBACK_SPEED_KMH) * 3600),
+      });
+    },
+  };
+}
+
+// Providers in the order they are tried. GEO_PROVIDERS overrides it (e.g. "osm,haversine");
+// by default Google is used when GOOGLE_MAPS_API_KEY is set, then OpenStreetMap, then haversine.
+export function getGeoProviders(): GeoProvider[] {
+  const googleApiKey = Deno.env.get("GOOGLE_MAPS_API_KEY");
+  const configured = Deno.env.get("GEO_PROVIDERS");
+  const names = configured
+    ? configured.split(",").map((name: string) => name.trim().toLowerCase())
+    : [...(googleApiKey ? ["google"] : []), "osm", "haversine"];
+
+  const providers: GeoProvider[] = [];
+  for (const name of names) {
+    if (name === "google" && googleApiKey) {
+      providers.push(googleProvider(googleApiKey));
+    } else if (name === "osm") {
+      providers.push(
+        osmProvider(
+          Deno.env.get("NOMINATIM_URL") ?? undefined,
+          Deno.env.get("OSRM_URL") ?? undefined,
+          Deno.env.get("GEO_USER_AGENT") ?? undefined
+        )
+      );
+    } else if (name === "haversine") {
+      providers.push(haversineProvider());
+    }
+  }
+
+  // Known coordinates can always be measured, whatever else is configured
+  if (!providers.some((provider) => provider.name === "haversine")) {
+    providers.push(haversineProvider());
+  }
+
+  return providers;
+}
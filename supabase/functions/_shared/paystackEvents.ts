@@ -0,0 +1,283 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export interface PaystackEvent {
+  event: string;
+  data: Record<string, any>;
+}
+
+export interface PaystackEventResult {
+  status: "processed" | "ignored";
+  message: string;
+  [key: string]: unknown;
+}
+
+// Key used to recognise repeated deliveries of the same Paystack event
+export const getPaystackEventId = async (event: PaystackEvent, rawBody: string) => {
+  const dataId = event.data?.id ?? event.data?.reference ?? event.data?.transfer_code;
+
+  if (dataId !== undefined && dataId !== null) {
+    return `${event.event}:${dataId}`;
+  }
+
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(rawBody));
+  const hash = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  return `${event.event}:${hash}`;
+};
+
+export const getPaystackEventReference = (event: PaystackEvent): string | null =>
+  event.data?.reference ?? event.data?.transaction_reference ?? event.data?.customer?.customer_code ?? null;
+
+// Applies a verified Paystack event. Throws when the event could not be applied so it can be retried.
+export async function handlePaystackEvent(
+  supabaseClient: SupabaseClient,
+  event: PaystackEvent
+): Promise<PaystackEventResult> {
+  // Handle dedicated virtual account assignment
+  if (event.event === "dedicatedaccount.assign.success") {
+    const accountData = event.data;
+    const customerCode = accountData.customer.customer_code;
+
+    // Find user by customer_code
+    const { data: virtualAccount } = await supabaseClient
+      .from("virtual_accounts")
+      .select("*")
+      .eq("customer_code", customerCode)
+      .single();
+
+    if (!virtualAccount) {
+      return { status: "ignored", message: "Virtual account not found" };
+    }
+
+    // Update virtual account with assignment details
+    const { error: updateError } = await supabaseClient
+      .from("virtual_accounts")
+      .update({
+        account_number: accountData.dedicated_account.account_number,
+        account_name: accountData.dedicated_account.account_name,
+        bank_name: accountData.dedicated_account.bank.name,
+        bank_code: accountData.dedicated_account.bank.id.toString(),
+        assigned: accountData.dedicated_account.assigned,
+        active: accountData.dedicated_account.active,
+      })
+      .eq("customer_code", customerCode);
+
+    if (updateError) throw updateError;
+
+    console.log("Virtual account updated successfully");
+
+    return { status: "processed", message: "Virtual account updated" };
+  }
+
+  // Handle successful charge (when money is transferred to virtual account)
+  if (event.event === "charge.success" && event.data.channel === "dedicated_nuban") {
+    const chargeData = event.data;
+    const customerCode = chargeData.customer.customer_code;
+    const amount = chargeData.amount / 100; // Convert from kobo to naira
+    const reference = chargeData.reference;
+
+    // Find user by customer_code
+    const { data: virtualAccount } = await supabaseClient
+      .from("virtual_accounts")
+      .select("user_id")
+      .eq("customer_code", customerCode)
+      .single();
+
+    if (!virtualAccount) {
+      throw new Error("Virtual account not found");
+    }
+
+    const creditResult = await creditWalletTopup(
+      supabaseClient,
+      virtualAccount.user_id,
+      amount,
+      reference,
+      "Wallet funding via bank transfer"
+    );
+
+    if (creditResult.already_processed) {
+      console.log("Transaction already processed:", reference);
+      return { status: "processed", message: "Transaction already processed", reference };
+    }
+
+    console.log(`Wallet credited: ₦${amount} for user ${virtualAccount.user_id}`);
+
+    return { status: "processed", message: "Wallet credited successfully", amount, reference };
+  }
+
+  // Handle successful card/bank payments started by initialize-payment
+  if (event.event === "charge.success") {
+    return settlePaystackCharge(supabaseClient, event.data);
+  }
+
+  // Handle wallet withdrawal transfers
+  if (
+    event.event === "transfer.success" ||
+    event.event === "transfer.failed" ||
+    event.event === "transfer.reversed"
+  ) {
+    const reference = event.data.reference;
+
+    const { data: transferResult, error: transferError } = event.event === "transfer.success"
+      ? await supabaseClient.rpc("complete_wallet_withdrawal", {
+          p_reference: reference,
+        })
+      : await supabaseClient.rpc("reverse_wallet_withdrawal", {
+          p_reference: reference,
+          p_reason: event.event === "transfer.failed" ? "Transfer failed" : "Transfer reversed",
+        });
+
+    if (transferError) {
+      console.error("Error settling withdrawal:", transferError);
+      throw transferError;
+    }
+
+    if (!transferResult.success) {
+      throw new Error(transferResult.error || "Failed to settle withdrawal");
+    }
+
+    console.log(`Withdrawal ${reference} is now ${transferResult.status}`);
+
+    return { status: "processed", message: "Withdrawal updated", reference, status_after: transferResult.status };
+  }
+
+  // Handle order refunds sent back to the customer's card/account
+  if (event.event === "refund.processed" || event.event === "refund.failed") {
+    const refundData = event.data;
+
+    const { data: refundResult, error: refundError } = await supabaseClient.rpc(
+      "settle_paystack_refund",
+      {
+        p_provider_refund_id: String(refundData.id),
+        p_succeeded: event.event === "refund.processed",
+        p_reason: event.event === "refund.failed" ? "Paystack could not complete the refund" : null,
+        p_payment_reference: refundData.transaction_reference ?? null,
+        p_amount: refundData.amount !== undefined ? Number(refundData.amount) / 100 : null, // Convert from kobo to naira
+      }
+    );
+
+    if (refundError) {
+      console.error("Error settling refund:", refundError);
+      throw refundError;
+    }
+
+    if (!refundResult.success) {
+      throw new Error(refundResult.error || "Failed to settle refund");
+    }
+
+    console.log(`Refund ${refundResult.refund_number ?? refundData.id} is now ${refundResult.status}`);
+
+    return {
+      status: "processed",
+      message: refundResult.already_processed ? "Refund already settled" : "Refund updated",
+      reference: refundData.transaction_reference,
+      status_after: refundResult.status,
+    };
+  }
+
+  return { status: "ignored", message: "Event type not handled" };
+}
+
+const creditWalletTopup = async (
+  supabaseClient: SupabaseClient,
+  userId: string,
+  amount: number,
+  reference: string,
+  description: string
+) => {
+  const { data: creditResult, error: creditError } = await supabaseClient.rpc(
+    "credit_wallet_topup",
+    {
+      p_user_id: userId,
+      p_amount: amount,
+      p_reference: reference,
+      p_description: description,
+    }
+  );
+
+  if (creditError) {
+    console.error("Error crediting wallet:", creditError);
+    throw creditError;
+  }
+
+  if (!creditResult.success) {
+    throw new Error(creditResult.error || "Failed to credit wallet");
+  }
+
+  return creditResult;
+};
+
+// Applies a successful Paystack transaction: pays the checkout it was started for, or credits
+// the wallet for a top-up. Safe to call more than once for the same transaction.
+export async function settlePaystackCharge(
+  supabaseClient: SupabaseClient,
+  chargeData: Record<string, any>
+): Promise<PaystackEventResult> {
+  const reference = chargeData.reference;
+  const amount = chargeData.amount / 100; // Convert from kobo to naira
+  const paymentType = chargeData.metadata?.payment_type;
+
+  const { data: checkoutGroup } = await supabaseClient
+    .from("checkout_groups")
+    .select("id")
+    .eq("payment_reference", reference)
+    .maybeSingle();
+
+  if (checkoutGroup || paymentType === "order") {
+    const { data: confirmResult, error: confirmError } = await supabaseClient.rpc(
+      "confirm_online_payment",
+      {
+        p_reference: reference,
+        p_amount: amount,
+      }
+    );
+
+    if (confirmError) {
+      console.error("Error confirming order payment:", confirmError);
+      throw confirmError;
+    }
+
+    if (!confirmResult.success) {
+      throw new Error(confirmResult.error || "Failed to confirm order payment");
+    }
+
+    console.log(`Order payment ${reference} confirmed for ${confirmResult.group_number}`);
+
+    return {
+      status: "processed",
+      message: confirmResult.already_processed ? "Order payment already confirmed" : "Order payment confirmed",
+      payment_type: "order",
+      amount,
+      reference,
+      checkout_group_id: confirmResult.checkout_group_id,
+    };
+  }
+
+  // Anything else paid by a known user is a wallet top-up, including charges from before
+  // orders were created up front (those never got an order)
+  const userId = chargeData.metadata?.user_id;
+
+  if (!userId) {
+    return { status: "ignored", message: "Charge is not linked to an order or wallet top-up", reference };
+  }
+
+  const creditResult = await creditWalletTopup(
+    supabaseClient,
+    userId,
+    amount,
+    reference,
+    `Paystack payment - ${reference}`
+  );
+
+  console.log(`Wallet top-up ${reference} for user ${userId}: ${creditResult.already_processed ? "already credited" : "credited"}`);
+
+  return {
+    status: "processed",
+    message: creditResult.already_processed ? "Payment already processed" : "Wallet credited successfully",
+    payment_type: "wallet",
+    amount,
+    reference,
+  };
+}
@@ -6,6 +6,8 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
 };
 
+const PAYMENT_STATUSES = ['pending', 'completed', 'failed', 'refunded'];
+
 Deno.serve(async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -60,6 +62,7 @@ Deno.serve(async (req: Request) => {
         .select(`
           *,
           customer:profiles!orders_customer_id_fkey(id, full_name, email, phone),
+          rider:profiles!orders_rider_id_fkey(id, full_name, phone),
           order_items(
             id,
             quantity,
@@ -96,11 +99,62 @@ Deno.serve(async (req: Request) => {
 
     if (req.method === 'PUT' && orderId) {
       const body = await req.json();
+      const { status, note, payment_status } = body ?? {};
+
+      const unknownFields = Object.keys(body ?? {}).filter(
+        (key) => !['status', 'note', 'payment_status'].includes(key)
+      );
+      if (unknownFields.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `Fields cannot be updated: ${unknownFields.join(', ')}` }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (status === undefined && payment_status === undefined) {
+        return new Response(
+          JSON.stringify({ error: 'Nothing to update' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (payment_status !== undefined && !PAYMENT_STATUSES.includes(payment_status)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid payment status' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (status !== undefined) {
+        // Transitions are validated (and recorded in order_status_history) by the database
+        const { error: statusError } = await supabaseClient.rpc('set_order_status', {
+          p_order_id: orderId,
+          p_status: status,
+          p_changed_by: user.id,
+          p_note: typeof note === 'string' ? note : null,
+        });
+
+        if (statusError) {
+          return new Response(
+            JSON.stringify({ error: statusError.message }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
+      if (payment_status !== undefined) {
+        const { error: paymentError } = await supabaseClient
+          .from('orders')
+          .update({ payment_status, updated_at: new Date().toISOString() })
+          .eq('id', orderId);
+
+        if (paymentError) throw paymentError;
+      }
+
       const { data, error } = await supabaseClient
         .from('orders')
-        .update(body)
-        .eq('id', orderId)
         .select()
+        .eq('id', orderId)
         .single();
 
       if (error) throw error;
@@ -1,4 +1,15 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import {
+  GeocodeResult,
+  GeoPoint,
+  GeoProvider,
+  GeoProviderName,
+  RouteResult,
+  getGeoProviders,
+  normalizeAddress,
+  parseGeoPoint,
+} from "../_shared/geo.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,6 +17,36 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+// Cached coordinates are looked up again after this long
+const CACHE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+interface CalculateDistanceRequest {
+  // Address, "lat,lng" string or {latitude, longitude}; when omitted the destination is only located
+  origin?: unknown;
+  destination: unknown;
+  // Saved coordinates for the destination (e.g. DeliveryAddress.latitude/longitude), skips geocoding
+  destinationCoordinates?: unknown;
+}
+
+interface ResolvedPoint extends GeoPoint {
+  formattedAddress: string | null;
+  source: GeoProviderName | "input" | "cache";
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min${minutes === 1 ? "" : "s"}`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours} hour${hours === 1 ? "" : "s"}${rest ? ` ${rest} min${rest === 1 ? "" : "s"}` : ""}`;
+};
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -15,78 +56,153 @@ Deno.serve(async (req: Request) => {
   }
 
   try {
-    const { origin, destination } = await req.json();
-
-    if (!origin || !destination) {
-      return new Response(
-        JSON.stringify({ error: 'Missing origin or destination' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Missing authorization header" }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
     }
 
-    const googleMapsApiKey = Deno.env.get('GOOGLE_MAPS_API_KEY');
+    const { origin, destination, destinationCoordinates }: CalculateDistanceRequest = await req.json();
 
-    if (!googleMapsApiKey) {
-      return new Response(
-        JSON.stringify({ error: 'Google Maps API key not configured' }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+    if (!destination && !destinationCoordinates) {
+      return jsonResponse({ error: "Missing destination" }, 400);
     }
 
-    const url = `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${encodeURIComponent(origin)}&destinations=${encodeURIComponent(destination)}&key=${googleMapsApiKey}`;
+    // The cache is shared by every customer, so only this function may write to it
+    const cacheClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    const providers = getGeoProviders();
+
+    const geocodeWithCache = async (address: string): Promise<ResolvedPoint | null> => {
+      const key = normalizeAddress(address);
+      if (!key) return null;
+
+      const { data: cached } = await cacheClient
+        .from("geocode_cache")
+        .select("*")
+        .eq("normalized_address", key)
+        .maybeSingle();
 
-    const response = await fetch(url);
+      if (cached && Date.now() - new Date(cached.updated_at).getTime() < CACHE_TTL_MS) {
+        await cacheClient
+          .from("geocode_cache")
+          .update({ hit_count: cached.hit_count + 1 })
+          .eq("normalized_address", key);
 
-    if (!response.ok) {
-      throw new Error('Failed to calculate distance');
+        return {
+          latitude: Number(cached.latitude),
+          longitude: Number(cached.longitude),
+          formattedAddress: cached.formatted_address,
+          source: "cache",
+        };
+      }
+
+      const result = await firstResult(providers, (provider) => provider.geocode(address));
+      if (!result) return null;
+
+      const { error: cacheError } = await cacheClient.from("geocode_cache").upsert({
+        normalized_address: key,
+        address,
+        latitude: result.value.latitude,
+        longitude: result.value.longitude,
+        formatted_address: result.value.formattedAddress,
+        provider: result.provider,
+        hit_count: 0,
+        updated_at: new Date().toISOString(),
+      });
+
+      if (cacheError) {
+        console.error("Failed to cache geocode result:", cacheError.message);
+      }
+
+      return { ...result.value, source: result.provider };
+    };
+
+    const resolve = async (value: unknown, coordinates?: unknown): Promise<ResolvedPoint | null> => {
+      const point = parseGeoPoint(coordinates) ?? parseGeoPoint(value);
+      if (point) {
+        return { ...point, formattedAddress: typeof value === "string" ? value : null, source: "input" };
+      }
+
+      return typeof value === "string" ? geocodeWithCache(value) : null;
+    };
+
+    const destinationPoint = await resolve(destination, destinationCoordinates);
+    if (!destinationPoint) {
+      return jsonResponse({ error: "Address not found. Please check and try again." }, 400);
+    }
+
+    const destinationResult = {
+      latitude: destinationPoint.latitude,
+      longitude: destinationPoint.longitude,
+      formattedAddress: destinationPoint.formattedAddress,
+    };
+
+    if (!origin) {
+      return jsonResponse({ success: true, destination: destinationResult, geocodedBy: destinationPoint.source });
+    }
+
+    const originPoint = await resolve(origin);
+    if (!originPoint) {
+      return jsonResponse({ error: "Store location could not be found" }, 400);
     }
 
-    const data = await response.json();
-
-    if (data.status === 'OK' && data.rows?.[0]?.elements?.[0]?.status === 'OK') {
-      const distanceInMeters = data.rows[0].elements[0].distance.value;
-      const distanceInKm = distanceInMeters / 1000;
-      const durationInSeconds = data.rows[0].elements[0].duration.value;
-      const durationText = data.rows[0].elements[0].duration.text;
-
-      return new Response(
-        JSON.stringify({ 
-          success: true,
-          distanceKm: distanceInKm,
-          distanceText: data.rows[0].elements[0].distance.text,
-          durationSeconds: durationInSeconds,
-          durationText: durationText
-        }),
-        { 
-          status: 200, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    } else {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Address not found or unreachable',
-          status: data.rows?.[0]?.elements?.[0]?.status || data.status
-        }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+    const route = await firstResult(providers, (provider) => provider.route(originPoint, destinationPoint));
+    if (!route) {
+      return jsonResponse({ error: "Address not found or unreachable" }, 400);
     }
+
+    const { distanceKm, durationSeconds } = route.value;
+
+    return jsonResponse({
+      success: true,
+      distanceKm,
+      distanceText: `${distanceKm.toFixed(1)} km`,
+      durationSeconds,
+      durationText: durationSeconds !== null ? formatDuration(durationSeconds) : null,
+      origin: { latitude: originPoint.latitude, longitude: originPoint.longitude },
+      destination: destinationResult,
+      provider: route.provider,
+      geocodedBy: destinationPoint.source,
+    });
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
   }
-});
\ No newline at end of file
+});
+
+// Tries each provider in order, moving on when one has no answer or fails
+async function firstResult<T extends GeocodeResult | RouteResult>(
+  providers: GeoProvider[],
+  lookup: (provider: GeoProvider) => Promise<T | null>
+): Promise<{ value: T; provider: GeoProviderName } | null> {
+  for (const provider of providers) {
+    try {
+      const value = await lookup(provider);
+      if (value) return { value, provider: provider.name };
+    } catch (error) {
+      console.error(`${provider.name} provider failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return null;
+}
@@ -8,10 +8,39 @@ const corsHeaders = {
 };
 
 interface InitializePaymentRequest {
-  amount: number;
+  amount?: number;
   email: string;
+  type?: "wallet" | "order";
+  order?: {
+    delivery_type: "pickup" | "delivery";
+    delivery_address?: string | null;
+    promo_code?: string | null;
+    delivery_latitude?: number | null;
+    delivery_longitude?: number | null;
+    // Saved address book entry; the order keeps a snapshot of it
+    delivery_address_id?: string | null;
+    // Chosen slot start keyed by vendor id; missing vendors are as soon as possible
+    vendor_slots?: Record<string, string> | null;
+  };
 }
 
+// Undo an order checkout when the customer cannot be sent to Paystack
+const releaseCheckout = async (reference: string, reason: string) => {
+  const serviceClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const { data, error } = await serviceClient.rpc("release_online_checkout", {
+    p_reference: reference,
+    p_reason: reason,
+  });
+
+  if (error || !data?.success) {
+    console.error("Error releasing checkout:", error || data?.error);
+  }
+};
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -22,7 +51,8 @@ Deno.serve(async (req: Request) => {
 
   try {
     const paystackSecretKey = Deno.env.get("PAYSTACK_SECRET_KEY");
-    
+    const paystackApiUrl = Deno.env.get("PAYSTACK_API_URL") ?? "https://api.paystack.co";
+
     if (!paystackSecretKey) {
       throw new Error("Paystack secret key not configured");
     }
@@ -51,46 +81,99 @@ Deno.serve(async (req: Request) => {
       throw new Error("Unauthorized");
     }
 
-    const { amount, email }: InitializePaymentRequest = await req.json();
+    const { amount: requestedAmount, email, type = "wallet", order }: InitializePaymentRequest = await req.json();
+
+    if (!email) {
+      throw new Error("Email is required");
+    }
+
+    const reference = `${type === "order" ? "ORDPAY" : "TOPUP"}-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+    let amount = requestedAmount ?? 0;
+    let placedOrder: Record<string, any> | null = null;
+
+    // Orders are placed before the customer pays so a payment can never arrive without one;
+    // they stay pending until Paystack confirms the charge
+    if (type === "order") {
+      if (!order) {
+        throw new Error("Order details are required");
+      }
+
+      const { data: placeResult, error: placeError } = await supabaseClient.rpc("place_order", {
+        p_delivery_type: order.delivery_type,
+        p_payment_method: "online",
+        p_delivery_address: order.delivery_address ?? null,
+        p_promo_code: order.promo_code ?? null,
+        p_payment_reference: reference,
+        p_delivery_latitude: order.delivery_latitude ?? null,
+        p_delivery_longitude: order.delivery_longitude ?? null,
+        p_delivery_address_id: order.delivery_address_id ?? null,
+        p_vendor_slots: order.vendor_slots ?? null,
+      });
+
+      if (placeError) throw placeError;
+
+      if (!placeResult?.success) {
+        throw new Error(placeResult?.error || "Failed to place order");
+      }
+
+      placedOrder = placeResult;
+      amount = Number(placeResult.checkout_group.total);
+    }
 
     if (!amount || amount <= 0) {
+      if (placedOrder) {
+        await releaseCheckout(reference, "Nothing to pay online");
+        throw new Error("This order has nothing to pay online. Please choose another payment method.");
+      }
       throw new Error("Invalid amount");
     }
 
-    if (!email) {
-      throw new Error("Email is required");
-    }
+    let paystackResponse: Response;
+    let paystackData: any;
 
-    const paystackResponse = await fetch(
-      "https://api.paystack.co/transaction/initialize",
-      {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${paystackSecretKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email,
-          amount: Math.round(amount * 100),
-          currency: "NGN",
-          callback_url: `${Deno.env.get("SUPABASE_URL")}/functions/v1/verify-payment`,
-          metadata: {
-            user_id: user.id,
-            custom_fields: [
-              {
-                display_name: "User ID",
-                variable_name: "user_id",
-                value: user.id,
-              },
-            ],
+    try {
+      paystackResponse = await fetch(
+        `${paystackApiUrl}/transaction/initialize`,
+        {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${paystackSecretKey}`,
+            "Content-Type": "application/json",
           },
-        }),
+          body: JSON.stringify({
+            email,
+            amount: Math.round(amount * 100),
+            currency: "NGN",
+            reference,
+            callback_url: `${Deno.env.get("SUPABASE_URL")}/functions/v1/verify-payment`,
+            metadata: {
+              user_id: user.id,
+              payment_type: type,
+              checkout_group_id: placedOrder?.checkout_group.id,
+              custom_fields: [
+                {
+                  display_name: "User ID",
+                  variable_name: "user_id",
+                  value: user.id,
+                },
+              ],
+            },
+          }),
+        }
+      );
+      paystackData = await paystackResponse.json();
+    } catch (error) {
+      if (placedOrder) {
+        await releaseCheckout(reference, "Payment could not be started");
       }
-    );
+      throw error;
+    }
 
-    const paystackData = await paystackResponse.json();
 
     if (!paystackResponse.ok || !paystackData.status) {
+      if (placedOrder) {
+        await releaseCheckout(reference, "Payment could not be started");
+      }
       throw new Error(paystackData.message || "Failed to initialize payment");
     }
 
@@ -101,6 +184,9 @@ Deno.serve(async (req: Request) => {
           authorization_url: paystackData.data.authorization_url,
           access_code: paystackData.data.access_code,
           reference: paystackData.data.reference,
+          amount,
+          checkout_group: placedOrder?.checkout_group,
+          orders: placedOrder?.orders,
         },
       }),
       {
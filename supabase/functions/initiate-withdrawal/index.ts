@@ -0,0 +1,155 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Point this at the local mock (scripts/paystack-mock.mjs) to test offline
+const PAYSTACK_API_URL = Deno.env.get("PAYSTACK_API_URL") ?? "https://api.paystack.co";
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const paystackSecretKey = Deno.env.get("PAYSTACK_SECRET_KEY");
+
+    if (!paystackSecretKey) {
+      throw new Error("Paystack secret key not configured");
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("Missing authorization header");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { amount } = await req.json();
+    const withdrawAmount = Math.round(Number(amount) * 100) / 100;
+
+    if (!withdrawAmount || withdrawAmount < 100) {
+      throw new Error("Minimum withdrawal amount is ₦100");
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: bankAccount } = await serviceClient
+      .from("payout_bank_accounts")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!bankAccount) {
+      throw new Error("Please add a bank account first");
+    }
+
+    const reference = `WD-${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+
+    // Step 1: Take the money out of the wallet as a pending withdrawal
+    const { data: debitResult, error: debitError } = await serviceClient.rpc(
+      "start_wallet_withdrawal",
+      {
+        p_user_id: user.id,
+        p_amount: withdrawAmount,
+        p_reference: reference,
+        p_description: `Withdrawal to ${bankAccount.bank_name} ****${bankAccount.account_number.slice(-4)}`,
+      }
+    );
+
+    if (debitError) {
+      console.error("Error debiting wallet:", debitError);
+      throw new Error("Failed to start withdrawal");
+    }
+
+    if (!debitResult.success) {
+      throw new Error(debitResult.error || "Failed to start withdrawal");
+    }
+
+    // Step 2: Ask Paystack to send it; the webhook settles the outcome
+    const transferResponse = await fetch(`${PAYSTACK_API_URL}/transfer`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${paystackSecretKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        source: "balance",
+        amount: Math.round(withdrawAmount * 100), // Convert to kobo
+        recipient: bankAccount.recipient_code,
+        reference,
+        reason: "Wallet withdrawal",
+      }),
+    });
+
+    const transferData = await transferResponse.json();
+
+    if (!transferResponse.ok || !transferData.status) {
+      await serviceClient.rpc("reverse_wallet_withdrawal", {
+        p_reference: reference,
+        p_reason: "Transfer could not be started",
+      });
+
+      throw new Error(transferData.message || "Failed to initiate transfer");
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: {
+          reference,
+          amount: withdrawAmount,
+          status: transferData.data?.status ?? "pending",
+        },
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error initiating withdrawal:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred",
+      }),
+      {
+        status: 400,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,175 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Point this at the local mock (scripts/paystack-mock.mjs) to test offline
+const PAYSTACK_API_URL = Deno.env.get("PAYSTACK_API_URL") ?? "https://api.paystack.co";
+
+interface IssueRefundRequest {
+  orderId: string;
+  destination: "wallet" | "paystack";
+  reason: string;
+  items?: { order_item_id: string; quantity: number }[] | null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("Missing authorization header");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { orderId, destination, reason, items }: IssueRefundRequest = await req.json();
+
+    if (!orderId) {
+      throw new Error("Order is required");
+    }
+
+    const paystackSecretKey = Deno.env.get("PAYSTACK_SECRET_KEY");
+
+    if (destination === "paystack" && !paystackSecretKey) {
+      throw new Error("Paystack secret key not configured");
+    }
+
+    // Step 1: Record the refund as the caller, so only admins and the order's vendor can refund.
+    // Wallet refunds are completed here.
+    const { data: refundResult, error: refundError } = await supabaseClient.rpc("create_refund", {
+      p_order_id: orderId,
+      p_destination: destination,
+      p_reason: reason,
+      p_items: items && items.length > 0 ? items : null,
+    });
+
+    if (refundError) {
+      console.error("Error creating refund:", refundError);
+      throw new Error("Failed to create refund");
+    }
+
+    if (!refundResult.success) {
+      throw new Error(refundResult.error || "Failed to create refund");
+    }
+
+    const refund = refundResult.refund;
+
+    if (refund.destination !== "paystack") {
+      return new Response(
+        JSON.stringify({ success: true, data: refund }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // Step 2: Ask Paystack to return the money to the original payment; the webhook settles it
+    let paystackResponse: Response;
+    let paystackData: any;
+
+    try {
+      paystackResponse = await fetch(`${PAYSTACK_API_URL}/refund`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${paystackSecretKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          transaction: refund.payment_reference,
+          amount: Math.round(Number(refund.amount) * 100), // Convert to kobo
+          merchant_note: `${refund.refund_number}: ${refund.reason}`,
+        }),
+      });
+      paystackData = await paystackResponse.json();
+    } catch (error) {
+      await serviceClient.rpc("fail_refund", {
+        p_refund_id: refund.id,
+        p_reason: "Refund could not be sent to Paystack",
+      });
+      throw error;
+    }
+
+    if (!paystackResponse.ok || !paystackData.status) {
+      await serviceClient.rpc("fail_refund", {
+        p_refund_id: refund.id,
+        p_reason: paystackData.message || "Paystack rejected the refund",
+      });
+
+      throw new Error(paystackData.message || "Failed to start refund");
+    }
+
+    const { data: startResult, error: startError } = await serviceClient.rpc("start_paystack_refund", {
+      p_refund_id: refund.id,
+      p_provider_refund_id: String(paystackData.data.id),
+    });
+
+    if (startError || !startResult?.success) {
+      // Paystack has the refund, so leave it pending; the webhook matches it on transaction and amount
+      console.error("Error saving Paystack refund id:", startError || startResult?.error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: startResult?.refund ?? refund,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error issuing refund:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred",
+      }),
+      {
+        status: 400,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
@@ -0,0 +1,198 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Point this at the local mock (scripts/paystack-mock.mjs) to test offline
+const PAYSTACK_API_URL = Deno.env.get("PAYSTACK_API_URL") ?? "https://api.paystack.co";
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const paystackSecretKey = Deno.env.get("PAYSTACK_SECRET_KEY");
+
+    if (!paystackSecretKey) {
+      throw new Error("Paystack secret key not configured");
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("Missing authorization header");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authHeader },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseClient.auth.getUser();
+
+    if (userError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    // List banks for the picker
+    if (req.method === "GET") {
+      const banksResponse = await fetch(
+        `${PAYSTACK_API_URL}/bank?country=nigeria&currency=NGN`,
+        {
+          headers: {
+            "Authorization": `Bearer ${paystackSecretKey}`,
+          },
+        }
+      );
+
+      const banksData = await banksResponse.json();
+
+      if (!banksResponse.ok || !banksData.status) {
+        throw new Error(banksData.message || "Failed to load banks");
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: banksData.data.map((bank: { name: string; code: string }) => ({
+            name: bank.name,
+            code: bank.code,
+          })),
+        }),
+        {
+          headers: {
+            ...corsHeaders,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+    }
+
+    const { account_number, bank_code } = await req.json();
+
+    if (!/^\d{10}$/.test(account_number ?? "")) {
+      throw new Error("Account number must be 10 digits");
+    }
+
+    if (!bank_code) {
+      throw new Error("Please select a bank");
+    }
+
+    // Step 1: Resolve the account so we pay the right person
+    const resolveResponse = await fetch(
+      `${PAYSTACK_API_URL}/bank/resolve?account_number=${account_number}&bank_code=${encodeURIComponent(bank_code)}`,
+      {
+        headers: {
+          "Authorization": `Bearer ${paystackSecretKey}`,
+        },
+      }
+    );
+
+    const resolveData = await resolveResponse.json();
+
+    if (!resolveResponse.ok || !resolveData.status) {
+      throw new Error(resolveData.message || "Could not verify this account");
+    }
+
+    const accountName = resolveData.data.account_name;
+
+    // Step 2: Create the transfer recipient
+    const recipientResponse = await fetch(
+      `${PAYSTACK_API_URL}/transferrecipient`,
+      {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${paystackSecretKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          type: "nuban",
+          name: accountName,
+          account_number,
+          bank_code,
+          currency: "NGN",
+          metadata: {
+            user_id: user.id,
+          },
+        }),
+      }
+    );
+
+    const recipientData = await recipientResponse.json();
+
+    if (!recipientResponse.ok || !recipientData.status) {
+      throw new Error(recipientData.message || "Failed to register bank account");
+    }
+
+    // Step 3: Save it with the service role; clients cannot write this table
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: savedAccount, error: saveError } = await serviceClient
+      .from("payout_bank_accounts")
+      .upsert(
+        {
+          user_id: user.id,
+          bank_code,
+          bank_name: recipientData.data.details?.bank_name ?? "",
+          account_number,
+          account_name: accountName,
+          recipient_code: recipientData.data.recipient_code,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      )
+      .select()
+      .single();
+
+    if (saveError) {
+      console.error("Error saving payout bank account:", saveError);
+      throw new Error("Failed to save bank account");
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        data: savedAccount,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error with payout bank account:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "An error occurred",
+      }),
+      {
+        status: 400,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  }
+});
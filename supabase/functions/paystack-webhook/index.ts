@@ -1,6 +1,13 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { createHmac } from "node:crypto";
+import { Buffer } from "node:buffer";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import {
+  getPaystackEventId,
+  getPaystackEventReference,
+  handlePaystackEvent,
+  PaystackEvent,
+} from "../_shared/paystackEvents.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,6 +15,22 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey, X-Paystack-Signature",
 };
 
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+const isValidSignature = (body: string, signature: string, secretKey: string) => {
+  const expected = Buffer.from(createHmac("sha512", secretKey).update(body).digest("hex"));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
 Deno.serve(async (req: Request) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -16,170 +39,97 @@ Deno.serve(async (req: Request) => {
     });
   }
 
+  const paystackSecretKey = Deno.env.get("PAYSTACK_SECRET_KEY");
+
+  if (!paystackSecretKey) {
+    console.error("Webhook error: Paystack secret key not configured");
+    return jsonResponse({ error: "Paystack secret key not configured" }, 500);
+  }
+
+  // Only signed requests from Paystack are accepted
+  const signature = req.headers.get("x-paystack-signature");
+  const body = await req.text();
+
+  if (!signature) {
+    return jsonResponse({ error: "Missing signature" }, 401);
+  }
+
+  if (!isValidSignature(body, signature, paystackSecretKey)) {
+    return jsonResponse({ error: "Invalid signature" }, 401);
+  }
+
+  let event: PaystackEvent;
   try {
-    const paystackSecretKey = Deno.env.get("PAYSTACK_SECRET_KEY");
-    
-    if (!paystackSecretKey) {
-      throw new Error("Paystack secret key not configured");
-    }
+    event = JSON.parse(body);
+  } catch {
+    return jsonResponse({ error: "Invalid JSON body" }, 400);
+  }
 
-    // Verify Paystack signature
-    const signature = req.headers.get("x-paystack-signature");
-    const body = await req.text();
-    
-    if (signature) {
-      const hash = createHmac("sha512", paystackSecretKey)
-        .update(body)
-        .digest("hex");
-      
-      if (hash !== signature) {
-        throw new Error("Invalid signature");
-      }
-    }
+  if (!event?.event) {
+    return jsonResponse({ error: "Missing event type" }, 400);
+  }
 
-    const event = JSON.parse(body);
-
-    console.log("Webhook event received:", event.event);
-
-    // Create Supabase client with service role key for database operations
-    const supabaseClient = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-    );
-
-    // Handle dedicated virtual account assignment
-    if (event.event === "dedicatedaccount.assign.success") {
-      const accountData = event.data;
-      const customerCode = accountData.customer.customer_code;
-
-      // Find user by customer_code
-      const { data: virtualAccount } = await supabaseClient
-        .from("virtual_accounts")
-        .select("*")
-        .eq("customer_code", customerCode)
-        .single();
-
-      if (virtualAccount) {
-        // Update virtual account with assignment details
-        await supabaseClient
-          .from("virtual_accounts")
-          .update({
-            account_number: accountData.dedicated_account.account_number,
-            account_name: accountData.dedicated_account.account_name,
-            bank_name: accountData.dedicated_account.bank.name,
-            bank_code: accountData.dedicated_account.bank.id.toString(),
-            assigned: accountData.dedicated_account.assigned,
-            active: accountData.dedicated_account.active,
-          })
-          .eq("customer_code", customerCode);
-
-        console.log("Virtual account updated successfully");
-      }
+  console.log("Webhook event received:", event.event);
+
+  // Create Supabase client with service role key for database operations
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  // Persist the raw event before acting on it
+  const { data: recorded, error: recordError } = await supabaseClient.rpc(
+    "record_payment_webhook_event",
+    {
+      p_event_id: await getPaystackEventId(event, body),
+      p_event_type: event.event,
+      p_reference: getPaystackEventReference(event),
+      p_payload: event,
     }
+  );
 
-    // Handle successful charge (when money is transferred to virtual account)
-    if (event.event === "charge.success") {
-      const chargeData = event.data;
-
-      // Check if this is a transfer to virtual account
-      if (chargeData.channel === "dedicated_nuban") {
-        const customerCode = chargeData.customer.customer_code;
-        const amount = chargeData.amount / 100; // Convert from kobo to naira
-        const reference = chargeData.reference;
-
-        // Find user by customer_code
-        const { data: virtualAccount } = await supabaseClient
-          .from("virtual_accounts")
-          .select("user_id")
-          .eq("customer_code", customerCode)
-          .single();
-
-        if (!virtualAccount) {
-          throw new Error("Virtual account not found");
-        }
-
-        // Check if this transaction has already been processed
-        const { data: existingTransaction } = await supabaseClient
-          .from("wallet_transactions")
-          .select("id")
-          .eq("reference_id", reference)
-          .single();
-
-        if (existingTransaction) {
-          console.log("Transaction already processed:", reference);
-          return new Response(
-            JSON.stringify({ message: "Transaction already processed" }),
-            {
-              headers: {
-                ...corsHeaders,
-                "Content-Type": "application/json",
-              },
-            }
-          );
-        }
-
-        // Credit user's wallet
-        const { data: creditResult, error: creditError } = await supabaseClient.rpc(
-          "credit_wallet",
-          {
-            p_user_id: virtualAccount.user_id,
-            p_amount: amount,
-            p_description: `Wallet funding via bank transfer`,
-            p_reference_type: "topup",
-            p_reference_id: reference,
-          }
-        );
-
-        if (creditError) {
-          console.error("Error crediting wallet:", creditError);
-          throw creditError;
-        }
-
-        if (!creditResult.success) {
-          throw new Error(creditResult.error || "Failed to credit wallet");
-        }
-
-        console.log(`Wallet credited: ₦${amount} for user ${virtualAccount.user_id}`);
-
-        return new Response(
-          JSON.stringify({
-            message: "Wallet credited successfully",
-            amount,
-            reference,
-          }),
-          {
-            headers: {
-              ...corsHeaders,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-      }
-    }
+  if (recordError || !recorded?.success) {
+    console.error("Error recording webhook event:", recordError || recorded?.error);
+    return jsonResponse({ error: "Failed to record webhook event" }, 500);
+  }
+
+  const { data: claim, error: claimError } = await supabaseClient.rpc(
+    "start_payment_webhook_event",
+    { p_id: recorded.id }
+  );
+
+  if (claimError || !claim?.success) {
+    console.error("Error claiming webhook event:", claimError || claim?.error);
+    return jsonResponse({ error: "Failed to start processing webhook event" }, 500);
+  }
+
+  if (!claim.claimed) {
+    console.log(`Webhook event ${recorded.id} already ${claim.status}`);
+    return jsonResponse({ message: "Event already processed", status: claim.status });
+  }
+
+  try {
+    const result = await handlePaystackEvent(supabaseClient, event);
 
-    // Return success for all other events
-    return new Response(
-      JSON.stringify({ message: "Webhook received" }),
-      {
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+    await supabaseClient.rpc("finish_payment_webhook_event", {
+      p_id: recorded.id,
+      p_status: result.status,
+    });
+
+    return jsonResponse({ ...result });
   } catch (error) {
     console.error("Webhook error:", error);
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : "An error occurred",
-      }),
-      {
-        status: 400,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+    const message = error instanceof Error
+      ? error.message
+      : (error as { message?: string })?.message || "An error occurred";
+
+    await supabaseClient.rpc("finish_payment_webhook_event", {
+      p_id: recorded.id,
+      p_status: "failed",
+      p_error: message,
+    });
+
+    // A non-2xx response makes Paystack retry the delivery
+    return jsonResponse({ error: message }, 400);
   }
 });
@@ -0,0 +1,113 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { handlePaystackEvent, PaystackEvent } from "../_shared/paystackEvents.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+// Admin-only: runs a stored Paystack webhook event through the handlers again
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    return jsonResponse({ error: "Missing authorization header" }, 401);
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: userError } = await supabaseClient.auth.getUser(token);
+
+  if (userError || !user) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  const { data: profile } = await supabaseClient
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (profile?.role !== "admin") {
+    return jsonResponse({ error: "Admin access required" }, 403);
+  }
+
+  const { eventId } = await req.json().catch(() => ({}));
+
+  if (!eventId) {
+    return jsonResponse({ error: "eventId is required" }, 400);
+  }
+
+  const { data: claim, error: claimError } = await supabaseClient.rpc(
+    "start_payment_webhook_event",
+    { p_id: eventId, p_replayed_by: user.id }
+  );
+
+  if (claimError || !claim?.success) {
+    return jsonResponse({ error: claimError?.message || claim?.error || "Failed to start replay" }, 400);
+  }
+
+  if (!claim.claimed) {
+    return jsonResponse(
+      {
+        error: claim.status === "processing"
+          ? "This event is being processed right now"
+          : "This event has already been processed",
+        status: claim.status,
+      },
+      409
+    );
+  }
+
+  try {
+    const result = await handlePaystackEvent(supabaseClient, claim.payload as PaystackEvent);
+
+    await supabaseClient.rpc("finish_payment_webhook_event", {
+      p_id: eventId,
+      p_status: result.status,
+    });
+
+    console.log(`Webhook event ${eventId} replayed by ${user.id}: ${result.status}`);
+
+    return jsonResponse({ success: true, ...result });
+  } catch (error) {
+    const message = error instanceof Error
+      ? error.message
+      : (error as { message?: string })?.message || "An error occurred";
+
+    await supabaseClient.rpc("finish_payment_webhook_event", {
+      p_id: eventId,
+      p_status: "failed",
+      p_error: message,
+    });
+
+    console.error(`Replay of webhook event ${eventId} failed:`, error);
+
+    return jsonResponse({ success: false, status: "failed", error: message }, 400);
+  }
+});
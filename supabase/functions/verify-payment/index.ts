@@ -1,5 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { settlePaystackCharge } from "../_shared/paystackEvents.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,11 +8,19 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
 };
 
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+// Payment status check used by the app and as the Paystack callback URL.
+// The webhook normally settles the payment first; this settles it too if the webhook is late,
+// and is safe to call any number of times.
 Deno.serve(async (req: Request) => {
-  console.log("=== Paystack Callback Received ===");
-  console.log("Method:", req.method);
-  console.log("URL:", req.url);
-
   if (req.method === "OPTIONS") {
     return new Response(null, {
       status: 200,
@@ -21,6 +30,7 @@ Deno.serve(async (req: Request) => {
 
   try {
     const paystackSecretKey = Deno.env.get("PAYSTACK_SECRET_KEY");
+    const paystackApiUrl = Deno.env.get("PAYSTACK_API_URL") ?? "https://api.paystack.co";
 
     if (!paystackSecretKey) {
       console.error("PAYSTACK_SECRET_KEY not configured");
@@ -29,29 +39,37 @@ Deno.serve(async (req: Request) => {
 
     const url = new URL(req.url);
     const reference = url.searchParams.get("reference");
-    const paymentType = url.searchParams.get("type") || "wallet";
-    console.log("Payment reference:", reference);
-    console.log("Payment type:", paymentType);
 
     if (!reference) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Payment reference is required",
-        }),
-        {
-          status: 400,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+      return jsonResponse({ success: false, error: "Payment reference is required" }, 400);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // Already settled by the webhook or an earlier check
+    const { data: checkoutGroup } = await supabaseClient
+      .from("checkout_groups")
+      .select("id, total, payment_status")
+      .eq("payment_reference", reference)
+      .maybeSingle();
+
+    if (checkoutGroup?.payment_status === "completed") {
+      return jsonResponse({
+        success: true,
+        status: "completed",
+        message: "Payment already confirmed",
+        payment_type: "order",
+        amount: Number(checkoutGroup.total),
+        reference,
+        checkout_group_id: checkoutGroup.id,
+      });
     }
 
-    console.log("Verifying payment with Paystack...");
     const paystackResponse = await fetch(
-      `https://api.paystack.co/transaction/verify/${reference}`,
+      `${paystackApiUrl}/transaction/verify/${encodeURIComponent(reference)}`,
       {
         method: "GET",
         headers: {
@@ -62,8 +80,6 @@ Deno.serve(async (req: Request) => {
     );
 
     const paystackData = await paystackResponse.json();
-    console.log("Paystack response status:", paystackData.status);
-    console.log("Transaction status:", paystackData.data?.status);
 
     if (!paystackResponse.ok || !paystackData.status) {
       console.error("Paystack verification failed:", paystackData.message);
@@ -73,129 +89,32 @@ Deno.serve(async (req: Request) => {
     const transactionData = paystackData.data;
 
     if (transactionData.status !== "success") {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: "Payment was not successful",
-          status: transactionData.status,
-        }),
-        {
-          status: 400,
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-    }
-
-    const userId = transactionData.metadata?.user_id;
-    const amount = transactionData.amount / 100;
-    console.log("User ID:", userId, "Amount:", amount);
-
-    if (!userId) {
-      console.error("User ID not found in metadata");
-      throw new Error("User ID not found in transaction metadata");
-    }
-
-    if (paymentType === "order") {
-      console.log("✅ Order payment verified successfully (funds go to merchant)");
-      return new Response(
-        JSON.stringify({
-          success: true,
-          message: "Payment verified successfully",
-          amount,
-          reference,
-        }),
-        {
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        }
-      );
-    }
-
-    const supabaseClient = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-    );
-
-    const { data: existingTransaction } = await supabaseClient
-      .from("wallet_transactions")
-      .select("id")
-      .eq("reference_id", reference)
-      .maybeSingle();
-
-    if (existingTransaction) {
-      console.log("Payment already processed, skipping");
-      return new Response(
-        JSON.stringify({
-          success: true,
-          message: "Payment already processed",
-          amount,
-        }),
-        {
-          headers: {
-            ...corsHeaders,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+      return jsonResponse({
+        success: false,
+        status: transactionData.status,
+        error: transactionData.status === "failed" || transactionData.status === "abandoned"
+          ? "Payment was not successful"
+          : "Payment has not been completed yet",
+      });
     }
 
-    console.log("Crediting wallet...");
-
-    const { data: walletData, error: walletError } = await supabaseClient.rpc(
-      "credit_wallet",
-      {
-        p_user_id: userId,
-        p_amount: amount,
-        p_description: `Paystack payment - ${reference}`,
-        p_reference_type: "topup",
-        p_reference_id: reference,
-      }
-    );
-
-    if (walletError) {
-      console.error("Error crediting wallet:", walletError);
-      throw new Error("Failed to credit wallet");
-    }
+    const result = await settlePaystackCharge(supabaseClient, transactionData);
 
-    if (!walletData.success) {
-      console.error("Failed to credit wallet:", walletData.error);
-      throw new Error(walletData.error || "Failed to credit wallet");
+    if (result.status === "ignored") {
+      throw new Error(result.message);
     }
 
-    console.log("✅ Wallet credited successfully!");
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: "Payment verified and wallet credited successfully",
-        amount,
-        reference,
-      }),
-      {
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+    return jsonResponse({ success: true, ...result, status: "completed" });
   } catch (error) {
     console.error("Error verifying payment:", error);
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error instanceof Error ? error.message : "An error occurred",
-      }),
+    return jsonResponse(
       {
-        status: 400,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
-        },
-      }
+        success: false,
+        error: error instanceof Error
+          ? error.message
+          : (error as { message?: string })?.message || "An error occurred",
+      },
+      400
     );
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,274 @@
+/*
+  # Add Atomic Order Placement Function
+
+  1. Changes to Orders Table
+    - Ensure `discount_amount`, `promo_code` and `promo_id` columns exist (written by checkout)
+    - Add `payment_reference` column to store the Paystack reference of online payments
+
+  2. New Functions
+    - `place_order` - Places the calling customer's cart as an order in a single transaction
+      - Recomputes unit prices (including active product discounts) from `products`
+      - Validates product availability and stock for every cart line
+      - Looks up the delivery fee from `delivery_zones` using the supplied distance
+      - Validates the promo code and increments its usage count
+      - Debits the wallet through `debit_wallet` for wallet payments
+      - Inserts `orders` and `order_items` and clears the customer's cart
+      - Returns `{ success, order }` or `{ success: false, error }`
+
+  3. Security
+    - SECURITY DEFINER, always acts on auth.uid() so customers can only place their own orders
+    - Any failure rolls back every write made by the function (wallet debit, order, items, cart, promo)
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'discount_amount'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN discount_amount numeric(10, 2) DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'promo_code'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN promo_code text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'promo_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN promo_id uuid REFERENCES promotions(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'payment_reference'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN payment_reference text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_distance_km numeric DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_line record;
+  v_vendor_count integer;
+  v_vendor_id uuid;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_promo promotions%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_order_number text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(p_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT count(DISTINCT p.vendor_id), min(p.vendor_id::text)::uuid
+  INTO v_vendor_count, v_vendor_id
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_customer_id;
+
+  IF v_vendor_count > 1 THEN
+    RAISE EXCEPTION 'Your cart contains items from more than one vendor';
+  END IF;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.is_available,
+      p.stock_quantity,
+      c.quantity,
+      CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+  LOOP
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.stock_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', v_line.stock_quantity, v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  -- Delivery fee from the distance band covering the address
+  IF p_delivery_type = 'delivery' THEN
+    IF p_distance_km IS NULL THEN
+      RAISE EXCEPTION 'Delivery distance could not be determined';
+    END IF;
+
+    SELECT price INTO v_delivery_fee
+    FROM delivery_zones
+    WHERE is_active = true
+      AND p_distance_km >= min_distance_km
+      AND p_distance_km <= max_distance_km
+    ORDER BY min_distance_km
+    LIMIT 1;
+
+    IF NOT FOUND OR v_delivery_fee IS NULL OR v_delivery_fee <= 0 THEN
+      RAISE EXCEPTION 'No delivery zone covers your location';
+    END IF;
+  END IF;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_order_number := 'ORD-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint;
+
+  INSERT INTO orders (
+    customer_id, vendor_id, order_number, subtotal, delivery_fee,
+    discount_amount, promo_code, promo_id, total, delivery_type,
+    delivery_address, status, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, v_vendor_id, v_order_number, v_subtotal, v_delivery_fee,
+    v_discount, v_promo.code, v_promo.id, v_total, p_delivery_type,
+    CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_address ELSE 'N/A' END,
+    'pending', p_payment_method,
+    CASE
+      WHEN p_payment_method = 'wallet' OR p_payment_reference IS NOT NULL THEN 'completed'
+      ELSE 'pending'
+    END,
+    p_payment_reference
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+  SELECT
+    v_order.id,
+    c.product_id,
+    c.quantity,
+    prices.unit_price,
+    prices.unit_price * c.quantity
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN p.discount_active AND p.discount_percentage > 0
+        THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+      ELSE p.price
+    END AS unit_price
+  ) prices
+  WHERE c.user_id = v_customer_id;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      'Payment for order ' || v_order_number,
+      'order',
+      v_order.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, numeric, text, text) TO authenticated;
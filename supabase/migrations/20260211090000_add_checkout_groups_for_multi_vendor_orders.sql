@@ -0,0 +1,356 @@
+/*
+  # Split Multi-Vendor Carts into Per-Vendor Orders
+
+  1. New Tables
+    - `checkout_groups` - One row per checkout, parent of the per-vendor orders it produced
+      - `id` (uuid, primary key)
+      - `customer_id` (uuid, foreign key to profiles)
+      - `group_number` (text, unique) - Customer-facing purchase number
+      - `subtotal`, `delivery_fee`, `discount_amount`, `total` (numeric) - Combined amounts
+      - `promo_code` (text) / `promo_id` (uuid)
+      - `payment_method`, `payment_status`, `payment_reference` (text)
+      - `created_at` (timestamp)
+
+  2. Changes to Orders Table
+    - Add `checkout_group_id` referencing `checkout_groups`
+
+  3. Updated Functions
+    - `place_order` now groups the cart by product vendor and creates one order per vendor
+      - The delivery fee is split evenly across the vendor orders
+      - Promo discounts are split in proportion to each vendor's subtotal
+        (free delivery promos waive each order's share of the delivery fee)
+      - The wallet is debited once for the combined total
+      - Returns `{ success, checkout_group, orders }`
+
+  4. Security
+    - Enable RLS on `checkout_groups`
+    - Customers can view their own checkout groups, admins can view all
+    - Rows are only written by `place_order`
+*/
+
+CREATE TABLE IF NOT EXISTS checkout_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  group_number text UNIQUE NOT NULL,
+  subtotal numeric(10, 2) NOT NULL DEFAULT 0,
+  delivery_fee numeric(10, 2) NOT NULL DEFAULT 0,
+  discount_amount numeric(10, 2) NOT NULL DEFAULT 0,
+  total numeric(10, 2) NOT NULL DEFAULT 0,
+  promo_code text,
+  promo_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+  payment_method text NOT NULL CHECK (payment_method IN ('transfer', 'online', 'wallet', 'cash_on_delivery')),
+  payment_status text NOT NULL DEFAULT 'pending' CHECK (payment_status IN ('pending', 'completed', 'failed')),
+  payment_reference text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE checkout_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own checkout groups"
+  ON checkout_groups FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Admins can view all checkout groups"
+  ON checkout_groups FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'checkout_group_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN checkout_group_id uuid REFERENCES checkout_groups(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_checkout_groups_customer_id ON checkout_groups(customer_id);
+CREATE INDEX IF NOT EXISTS idx_orders_checkout_group_id ON orders(checkout_group_id);
+
+DROP FUNCTION IF EXISTS place_order(text, text, text, numeric, text, text);
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_distance_km numeric DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_line record;
+  v_vendor record;
+  v_vendor_count integer;
+  v_vendor_index integer := 0;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_fee_share numeric;
+  v_discount_share numeric;
+  v_fee_allocated numeric := 0;
+  v_discount_allocated numeric := 0;
+  v_promo promotions%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_orders jsonb := '[]'::jsonb;
+  v_stamp text;
+  v_payment_status text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(p_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.is_available,
+      p.stock_quantity,
+      c.quantity,
+      CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+  LOOP
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.stock_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', v_line.stock_quantity, v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT count(DISTINCT p.vendor_id) INTO v_vendor_count
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_customer_id;
+
+  -- Delivery fee from the distance band covering the address
+  IF p_delivery_type = 'delivery' THEN
+    IF p_distance_km IS NULL THEN
+      RAISE EXCEPTION 'Delivery distance could not be determined';
+    END IF;
+
+    SELECT price INTO v_delivery_fee
+    FROM delivery_zones
+    WHERE is_active = true
+      AND p_distance_km >= min_distance_km
+      AND p_distance_km <= max_distance_km
+    ORDER BY min_distance_km
+    LIMIT 1;
+
+    IF NOT FOUND OR v_delivery_fee IS NULL OR v_delivery_fee <= 0 THEN
+      RAISE EXCEPTION 'No delivery zone covers your location';
+    END IF;
+  END IF;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_stamp := floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text;
+  v_payment_status := CASE
+    WHEN p_payment_method = 'wallet' OR p_payment_reference IS NOT NULL THEN 'completed'
+    ELSE 'pending'
+  END;
+
+  INSERT INTO checkout_groups (
+    customer_id, group_number, subtotal, delivery_fee, discount_amount, total,
+    promo_code, promo_id, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, 'CHK-' || v_stamp, v_subtotal, v_delivery_fee, v_discount, v_total,
+    v_promo.code, v_promo.id, p_payment_method, v_payment_status, p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  -- One order per vendor; the last vendor absorbs rounding remainders
+  FOR v_vendor IN
+    SELECT
+      p.vendor_id,
+      sum(
+        CASE
+          WHEN p.discount_active AND p.discount_percentage > 0
+            THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+          ELSE p.price
+        END * c.quantity
+      ) AS subtotal
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+    GROUP BY p.vendor_id
+    ORDER BY p.vendor_id
+  LOOP
+    v_vendor_index := v_vendor_index + 1;
+
+    IF v_vendor_index = v_vendor_count THEN
+      v_fee_share := v_delivery_fee - v_fee_allocated;
+      v_discount_share := v_discount - v_discount_allocated;
+    ELSE
+      v_fee_share := round(v_delivery_fee / v_vendor_count, 2);
+      IF v_promo.discount_type = 'free_delivery' THEN
+        v_discount_share := v_fee_share;
+      ELSIF v_subtotal > 0 THEN
+        v_discount_share := round(v_discount * v_vendor.subtotal / v_subtotal, 2);
+      ELSE
+        v_discount_share := 0;
+      END IF;
+    END IF;
+
+    v_fee_allocated := v_fee_allocated + v_fee_share;
+    v_discount_allocated := v_discount_allocated + v_discount_share;
+
+    INSERT INTO orders (
+      customer_id, vendor_id, checkout_group_id, order_number, subtotal, delivery_fee,
+      discount_amount, promo_code, promo_id, total, delivery_type,
+      delivery_address, status, payment_method, payment_status, payment_reference
+    ) VALUES (
+      v_customer_id, v_vendor.vendor_id, v_group.id,
+      CASE WHEN v_vendor_count = 1 THEN 'ORD-' || v_stamp ELSE 'ORD-' || v_stamp || '-' || v_vendor_index END,
+      v_vendor.subtotal, v_fee_share,
+      v_discount_share, v_promo.code, v_promo.id,
+      greatest(0, v_vendor.subtotal + v_fee_share - v_discount_share),
+      p_delivery_type,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_address ELSE 'N/A' END,
+      'pending', p_payment_method, v_payment_status, p_payment_reference
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order.id,
+      c.product_id,
+      c.quantity,
+      prices.unit_price,
+      prices.unit_price * c.quantity
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    ) prices
+    WHERE c.user_id = v_customer_id
+      AND p.vendor_id = v_vendor.vendor_id;
+
+    v_orders := v_orders || to_jsonb(v_order);
+  END LOOP;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      CASE
+        WHEN v_vendor_count = 1 THEN 'Payment for order ' || v_order.order_number
+        ELSE 'Payment for purchase ' || v_group.group_number
+      END,
+      'order',
+      v_group.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkout_group', to_jsonb(v_group),
+    'orders', v_orders
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, numeric, text, text) TO authenticated;
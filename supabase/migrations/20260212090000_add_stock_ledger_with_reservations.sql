@@ -0,0 +1,462 @@
+/*
+  # Add Stock Ledger with Reservations
+
+  1. Changes to Products Table
+    - Add `reserved_quantity` (integer, default 0) - Units held by placed orders that are not yet confirmed
+    - Units available to new orders are `stock_quantity - reserved_quantity`
+
+  2. New Tables
+    - `stock_movements` - Ledger of every stock change caused by an order
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `order_id` (uuid, foreign key to orders)
+      - `movement_type` (text: 'reservation', 'release', 'sale', 'restock')
+      - `quantity` (integer, always positive)
+      - `created_by` (uuid) - User whose action caused the movement
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `reserve_order_stock` - Reserves stock for every item of a newly placed order
+    - `handle_order_stock_on_status_change` - Trigger function on orders
+      - Order leaves `pending` (confirmed or later): reserved units become a sale and leave `stock_quantity`
+      - Order becomes `cancelled`: open reservations are released and sold units are restocked
+    - `place_order` now rejects lines whose quantity exceeds the available stock and reserves stock
+
+  4. Security
+    - Enable RLS on `stock_movements`
+    - Vendors can view movements for their own products, admins can view all
+    - Rows are only written by the functions above
+
+  5. Notes
+    - Orders placed before this migration have no reservations and are left untouched by the trigger
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'reserved_quantity'
+  ) THEN
+    ALTER TABLE products ADD COLUMN reserved_quantity integer DEFAULT 0 NOT NULL;
+    ALTER TABLE products ADD CONSTRAINT products_reserved_quantity_non_negative CHECK (reserved_quantity >= 0);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES orders(id) ON DELETE CASCADE,
+  movement_type text NOT NULL CHECK (movement_type IN ('reservation', 'release', 'sale', 'restock')),
+  quantity integer NOT NULL CHECK (quantity > 0),
+  created_by uuid,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view own product stock movements"
+  ON stock_movements FOR SELECT
+  TO authenticated
+  USING (
+    product_id IN (
+      SELECT id FROM products WHERE vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all stock movements"
+  ON stock_movements FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_order_id ON stock_movements(order_id);
+
+-- Reserve stock for every item of an order
+CREATE OR REPLACE FUNCTION reserve_order_stock(p_order_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO stock_movements (product_id, order_id, movement_type, quantity, created_by)
+  SELECT product_id, order_id, 'reservation', quantity, p_user_id
+  FROM order_items
+  WHERE order_id = p_order_id;
+
+  UPDATE products p
+  SET reserved_quantity = p.reserved_quantity + items.quantity,
+      updated_at = now()
+  FROM (
+    SELECT product_id, sum(quantity) AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) items
+  WHERE p.id = items.product_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_order_stock(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Convert, release or restock an order's stock when its status changes
+CREATE OR REPLACE FUNCTION handle_order_stock_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status OR NEW.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_item IN
+    SELECT
+      product_id,
+      sum(CASE movement_type
+        WHEN 'reservation' THEN quantity
+        WHEN 'release' THEN -quantity
+        WHEN 'sale' THEN -quantity
+        ELSE 0
+      END) AS reserved_open,
+      sum(CASE movement_type
+        WHEN 'sale' THEN quantity
+        WHEN 'restock' THEN -quantity
+        ELSE 0
+      END) AS sold_open
+    FROM stock_movements
+    WHERE order_id = NEW.id
+    GROUP BY product_id
+  LOOP
+    IF NEW.status = 'cancelled' THEN
+      IF v_item.reserved_open > 0 THEN
+        UPDATE products
+        SET reserved_quantity = greatest(0, reserved_quantity - v_item.reserved_open),
+            updated_at = now()
+        WHERE id = v_item.product_id;
+
+        INSERT INTO stock_movements (product_id, order_id, movement_type, quantity, created_by)
+        VALUES (v_item.product_id, NEW.id, 'release', v_item.reserved_open, auth.uid());
+      END IF;
+
+      IF v_item.sold_open > 0 THEN
+        UPDATE products
+        SET stock_quantity = stock_quantity + v_item.sold_open,
+            updated_at = now()
+        WHERE id = v_item.product_id;
+
+        INSERT INTO stock_movements (product_id, order_id, movement_type, quantity, created_by)
+        VALUES (v_item.product_id, NEW.id, 'restock', v_item.sold_open, auth.uid());
+      END IF;
+    ELSIF v_item.reserved_open > 0 THEN
+      UPDATE products
+      SET stock_quantity = greatest(0, stock_quantity - v_item.reserved_open),
+          reserved_quantity = greatest(0, reserved_quantity - v_item.reserved_open),
+          updated_at = now()
+      WHERE id = v_item.product_id;
+
+      INSERT INTO stock_movements (product_id, order_id, movement_type, quantity, created_by)
+      VALUES (v_item.product_id, NEW.id, 'sale', v_item.reserved_open, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_handle_order_stock ON orders;
+
+CREATE TRIGGER trigger_handle_order_stock
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_order_stock_on_status_change();
+
+-- Reject oversold lines and reserve stock when placing orders
+CREATE OR REPLACE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_distance_km numeric DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_line record;
+  v_vendor record;
+  v_vendor_count integer;
+  v_vendor_index integer := 0;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_fee_share numeric;
+  v_discount_share numeric;
+  v_fee_allocated numeric := 0;
+  v_discount_allocated numeric := 0;
+  v_promo promotions%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_orders jsonb := '[]'::jsonb;
+  v_stamp text;
+  v_payment_status text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(p_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.is_available,
+      p.stock_quantity - p.reserved_quantity AS available_quantity,
+      c.quantity,
+      CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+  LOOP
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.available_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', greatest(v_line.available_quantity, 0), v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT count(DISTINCT p.vendor_id) INTO v_vendor_count
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_customer_id;
+
+  -- Delivery fee from the distance band covering the address
+  IF p_delivery_type = 'delivery' THEN
+    IF p_distance_km IS NULL THEN
+      RAISE EXCEPTION 'Delivery distance could not be determined';
+    END IF;
+
+    SELECT price INTO v_delivery_fee
+    FROM delivery_zones
+    WHERE is_active = true
+      AND p_distance_km >= min_distance_km
+      AND p_distance_km <= max_distance_km
+    ORDER BY min_distance_km
+    LIMIT 1;
+
+    IF NOT FOUND OR v_delivery_fee IS NULL OR v_delivery_fee <= 0 THEN
+      RAISE EXCEPTION 'No delivery zone covers your location';
+    END IF;
+  END IF;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_stamp := floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text;
+  v_payment_status := CASE
+    WHEN p_payment_method = 'wallet' OR p_payment_reference IS NOT NULL THEN 'completed'
+    ELSE 'pending'
+  END;
+
+  INSERT INTO checkout_groups (
+    customer_id, group_number, subtotal, delivery_fee, discount_amount, total,
+    promo_code, promo_id, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, 'CHK-' || v_stamp, v_subtotal, v_delivery_fee, v_discount, v_total,
+    v_promo.code, v_promo.id, p_payment_method, v_payment_status, p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  -- One order per vendor; the last vendor absorbs rounding remainders
+  FOR v_vendor IN
+    SELECT
+      p.vendor_id,
+      sum(
+        CASE
+          WHEN p.discount_active AND p.discount_percentage > 0
+            THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+          ELSE p.price
+        END * c.quantity
+      ) AS subtotal
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+    GROUP BY p.vendor_id
+    ORDER BY p.vendor_id
+  LOOP
+    v_vendor_index := v_vendor_index + 1;
+
+    IF v_vendor_index = v_vendor_count THEN
+      v_fee_share := v_delivery_fee - v_fee_allocated;
+      v_discount_share := v_discount - v_discount_allocated;
+    ELSE
+      v_fee_share := round(v_delivery_fee / v_vendor_count, 2);
+      IF v_promo.discount_type = 'free_delivery' THEN
+        v_discount_share := v_fee_share;
+      ELSIF v_subtotal > 0 THEN
+        v_discount_share := round(v_discount * v_vendor.subtotal / v_subtotal, 2);
+      ELSE
+        v_discount_share := 0;
+      END IF;
+    END IF;
+
+    v_fee_allocated := v_fee_allocated + v_fee_share;
+    v_discount_allocated := v_discount_allocated + v_discount_share;
+
+    INSERT INTO orders (
+      customer_id, vendor_id, checkout_group_id, order_number, subtotal, delivery_fee,
+      discount_amount, promo_code, promo_id, total, delivery_type,
+      delivery_address, status, payment_method, payment_status, payment_reference
+    ) VALUES (
+      v_customer_id, v_vendor.vendor_id, v_group.id,
+      CASE WHEN v_vendor_count = 1 THEN 'ORD-' || v_stamp ELSE 'ORD-' || v_stamp || '-' || v_vendor_index END,
+      v_vendor.subtotal, v_fee_share,
+      v_discount_share, v_promo.code, v_promo.id,
+      greatest(0, v_vendor.subtotal + v_fee_share - v_discount_share),
+      p_delivery_type,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_address ELSE 'N/A' END,
+      'pending', p_payment_method, v_payment_status, p_payment_reference
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order.id,
+      c.product_id,
+      c.quantity,
+      prices.unit_price,
+      prices.unit_price * c.quantity
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    ) prices
+    WHERE c.user_id = v_customer_id
+      AND p.vendor_id = v_vendor.vendor_id;
+
+    PERFORM reserve_order_stock(v_order.id, v_customer_id);
+
+    v_orders := v_orders || to_jsonb(v_order);
+  END LOOP;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      CASE
+        WHEN v_vendor_count = 1 THEN 'Payment for order ' || v_order.order_number
+        ELSE 'Payment for purchase ' || v_group.group_number
+      END,
+      'order',
+      v_group.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkout_group', to_jsonb(v_group),
+    'orders', v_orders
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, numeric, text, text) TO authenticated;
@@ -0,0 +1,301 @@
+/*
+  # Add Customer Order Cancellation with Wallet Refunds
+
+  1. Changes to Orders Table
+    - Add `cancellation_reason` (text) - Reason picked when the order was cancelled
+    - Add `cancelled_by` (uuid) - User who cancelled the order or approved the cancellation
+    - Allow `payment_status` to be 'refunded'
+
+  2. New Tables
+    - `order_cancellation_requests` - Cancellation requests for orders the vendor is already preparing
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders)
+      - `customer_id` (uuid) - Customer asking for the cancellation
+      - `vendor_id` (uuid) - Vendor who has to approve or reject it
+      - `reason` (text) - Reason picked by the customer
+      - `details` (text, optional) - Extra information from the customer
+      - `status` (text: 'pending', 'approved', 'rejected')
+      - `vendor_response` (text, optional) - Note from the vendor
+      - `resolved_by` (uuid), `resolved_at` (timestamp)
+      - `created_at` (timestamp)
+
+  3. Functions
+    - `cancel_order_with_refund` - Internal helper that cancels an order and refunds paid
+      wallet/online orders to the customer's wallet through `credit_wallet` (reference type 'refund')
+    - `cancel_order` - Customer entry point
+      - `pending` / `confirmed` orders are cancelled and refunded immediately
+      - `preparing` orders get a pending cancellation request for the vendor
+    - `respond_to_cancellation_request` - Vendor (or admin) approves or rejects a request;
+      approving cancels and refunds the order
+
+  4. Security
+    - Enable RLS on `order_cancellation_requests`
+    - Customers can view their own requests, vendors requests for their orders, admins all
+    - Rows are only written by the functions above
+    - `cancel_order_with_refund` cannot be called directly by clients
+
+  5. Notes
+    - `cancelled_at` is set by the existing order status timestamp trigger
+    - Reserved and sold stock is returned by the stock ledger trigger when the order is cancelled
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancellation_reason'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancellation_reason text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'cancelled_by'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN cancelled_by uuid;
+  END IF;
+END $$;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_payment_status_check
+  CHECK (payment_status IN ('pending', 'completed', 'failed', 'refunded'));
+
+CREATE TABLE IF NOT EXISTS order_cancellation_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL,
+  reason text NOT NULL,
+  details text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  vendor_response text,
+  resolved_by uuid,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE order_cancellation_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own cancellation requests"
+  ON order_cancellation_requests FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Vendors can view cancellation requests for own orders"
+  ON order_cancellation_requests FOR SELECT
+  TO authenticated
+  USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all cancellation requests"
+  ON order_cancellation_requests FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_order_cancellation_requests_order_id ON order_cancellation_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_cancellation_requests_vendor_id ON order_cancellation_requests(vendor_id);
+
+-- Only one open request per order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_cancellation_requests_one_pending
+  ON order_cancellation_requests(order_id)
+  WHERE status = 'pending';
+
+ALTER PUBLICATION supabase_realtime ADD TABLE order_cancellation_requests;
+
+-- Cancel an order and refund what the customer already paid
+CREATE OR REPLACE FUNCTION cancel_order_with_refund(
+  p_order_id uuid,
+  p_reason text,
+  p_cancelled_by uuid
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_refund_result jsonb;
+  v_refund boolean;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled';
+  END IF;
+
+  v_refund := v_order.payment_status = 'completed'
+    AND v_order.payment_method IN ('wallet', 'online')
+    AND v_order.total > 0;
+
+  IF v_refund THEN
+    v_refund_result := credit_wallet(
+      v_order.customer_id,
+      v_order.total,
+      'Refund for cancelled order ' || v_order.order_number,
+      'refund',
+      v_order.id::text
+    );
+
+    IF NOT coalesce((v_refund_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_refund_result->>'error', 'Failed to refund order');
+    END IF;
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = p_reason,
+      cancelled_by = p_cancelled_by,
+      payment_status = CASE WHEN v_refund THEN 'refunded' ELSE payment_status END,
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION cancel_order_with_refund(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Customer cancels an order, or asks the vendor to once preparation has started
+CREATE OR REPLACE FUNCTION cancel_order(
+  p_order_id uuid,
+  p_reason text,
+  p_details text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+  v_request order_cancellation_requests%ROWTYPE;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to cancel an order';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please choose a reason for cancelling';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND customer_id = v_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status IN ('pending', 'confirmed') THEN
+    v_order := cancel_order_with_refund(
+      v_order.id,
+      trim(p_reason) || coalesce(': ' || nullif(trim(p_details), ''), ''),
+      v_customer_id
+    );
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'action', 'cancelled',
+      'refunded', v_order.payment_status = 'refunded',
+      'order', to_jsonb(v_order)
+    );
+  END IF;
+
+  IF v_order.status = 'preparing' THEN
+    IF EXISTS (
+      SELECT 1 FROM order_cancellation_requests
+      WHERE order_id = v_order.id AND status = 'pending'
+    ) THEN
+      RAISE EXCEPTION 'A cancellation request for this order is already waiting for the vendor';
+    END IF;
+
+    INSERT INTO order_cancellation_requests (order_id, customer_id, vendor_id, reason, details)
+    VALUES (v_order.id, v_customer_id, v_order.vendor_id, trim(p_reason), nullif(trim(p_details), ''))
+    RETURNING * INTO v_request;
+
+    RETURN jsonb_build_object(
+      'success', true,
+      'action', 'requested',
+      'request', to_jsonb(v_request)
+    );
+  END IF;
+
+  RAISE EXCEPTION 'This order can no longer be cancelled';
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cancel_order(uuid, text, text) TO authenticated;
+
+-- Vendor (or admin) approves or rejects a cancellation request
+CREATE OR REPLACE FUNCTION respond_to_cancellation_request(
+  p_request_id uuid,
+  p_approve boolean,
+  p_response text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_request order_cancellation_requests%ROWTYPE;
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request
+  FROM order_cancellation_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (v_request.vendor_id IS DISTINCT FROM v_user_id AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Cancellation request not found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This cancellation request has already been handled';
+  END IF;
+
+  IF p_approve THEN
+    v_order := cancel_order_with_refund(
+      v_request.order_id,
+      v_request.reason || coalesce(': ' || v_request.details, ''),
+      v_user_id
+    );
+  END IF;
+
+  UPDATE order_cancellation_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      vendor_response = nullif(trim(p_response), ''),
+      resolved_by = v_user_id,
+      resolved_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'request', to_jsonb(v_request),
+    'refunded', coalesce(v_order.payment_status = 'refunded', false)
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION respond_to_cancellation_request(uuid, boolean, text) TO authenticated;
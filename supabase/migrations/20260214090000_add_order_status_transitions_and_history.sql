@@ -0,0 +1,290 @@
+/*
+  # Enforce Order Status Transitions and Record Status History
+
+  1. New Tables
+    - `order_status_history` - One row per status an order has been in
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders)
+      - `from_status` (order_status, null for the initial status)
+      - `to_status` (order_status)
+      - `changed_by` (uuid) - User who made the change, null for system changes
+      - `note` (text, optional)
+      - `created_at` (timestamp)
+
+  2. Allowed Transitions
+    - pending          -> confirmed, cancelled
+    - confirmed        -> preparing, cancelled
+    - preparing        -> ready_for_pickup, out_for_delivery, cancelled
+    - ready_for_pickup -> out_for_delivery, delivered, cancelled
+    - out_for_delivery -> delivered, cancelled
+    - delivered and cancelled are final
+
+  3. Functions
+    - `is_valid_order_status_transition` - Checks a transition against the graph above
+    - `validate_order_status_transition` - BEFORE UPDATE trigger rejecting any other transition,
+      whoever makes the update (vendor, admin, edge function or database function)
+    - `record_order_status_history` - AFTER INSERT/UPDATE trigger writing `order_status_history`
+    - `set_order_status` - Internal helper changing the status with an optional note and actor;
+      cancellations go through `cancel_order_with_refund` so paid orders are refunded
+    - `update_order_status` - Vendor/admin entry point wrapping `set_order_status`
+
+  4. Security
+    - Enable RLS on `order_status_history`
+    - Customers can view the history of their orders, vendors of orders they received, admins all
+    - Rows are only written by the trigger
+    - `set_order_status` can only be called with the service role (used by the admin-orders function)
+
+  5. Notes
+    - History is backfilled from the existing `*_at` timestamp columns
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status order_status,
+  to_status order_status NOT NULL,
+  changed_by uuid,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders WHERE customer_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Vendors can view status history of own orders"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders WHERE vendor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order status history"
+  ON order_status_history FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id, created_at);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE order_status_history;
+
+-- Transition graph
+CREATE OR REPLACE FUNCTION is_valid_order_status_transition(p_from order_status, p_to order_status)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_from
+    WHEN 'pending' THEN p_to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN p_to IN ('preparing', 'cancelled')
+    WHEN 'preparing' THEN p_to IN ('ready_for_pickup', 'out_for_delivery', 'cancelled')
+    WHEN 'ready_for_pickup' THEN p_to IN ('out_for_delivery', 'delivered', 'cancelled')
+    WHEN 'out_for_delivery' THEN p_to IN ('delivered', 'cancelled')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION validate_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status IS DISTINCT FROM NEW.status
+    AND NOT is_valid_order_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_validate_order_status_transition ON orders;
+
+CREATE TRIGGER trigger_validate_order_status_transition
+  BEFORE UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_order_status_transition();
+
+-- History rows for every status an order enters
+CREATE OR REPLACE FUNCTION record_order_status_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changed_by uuid;
+  v_note text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_changed_by := coalesce(
+    nullif(current_setting('app.order_status_changed_by', true), '')::uuid,
+    CASE WHEN NEW.status = 'cancelled' THEN NEW.cancelled_by END,
+    auth.uid()
+  );
+
+  v_note := coalesce(
+    nullif(current_setting('app.order_status_note', true), ''),
+    CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END
+  );
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    CASE WHEN TG_OP = 'INSERT' THEN coalesce(v_changed_by, NEW.customer_id) ELSE v_changed_by END,
+    v_note
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_record_order_status_history ON orders;
+
+CREATE TRIGGER trigger_record_order_status_history
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status_history();
+
+-- Change an order's status on behalf of a user
+CREATE OR REPLACE FUNCTION set_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_changed_by uuid,
+  p_note text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF p_status IS NULL OR p_status NOT IN (SELECT unnest(enum_range(NULL::order_status))::text) THEN
+    RAISE EXCEPTION 'Invalid order status';
+  END IF;
+
+  IF v_order.status = p_status::order_status THEN
+    RETURN v_order;
+  END IF;
+
+  IF NOT is_valid_order_status_transition(v_order.status, p_status::order_status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', v_order.status, p_status;
+  END IF;
+
+  PERFORM set_config('app.order_status_changed_by', coalesce(p_changed_by::text, ''), true);
+  PERFORM set_config('app.order_status_note', coalesce(nullif(trim(p_note), ''), ''), true);
+
+  IF p_status = 'cancelled' THEN
+    v_order := cancel_order_with_refund(
+      p_order_id,
+      coalesce(nullif(trim(p_note), ''), 'Cancelled by the store'),
+      p_changed_by
+    );
+  ELSE
+    UPDATE orders
+    SET status = p_status::order_status,
+        updated_at = now()
+    WHERE id = p_order_id
+    RETURNING * INTO v_order;
+  END IF;
+
+  PERFORM set_config('app.order_status_changed_by', '', true);
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_order_status(uuid, text, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_order_status(uuid, text, uuid, text) TO service_role;
+
+-- Vendor or admin changes an order's status
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (v_order.vendor_id IS DISTINCT FROM v_user_id AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  v_order := set_order_status(p_order_id, p_status, v_user_id, p_note);
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_order_status(uuid, text, text) TO authenticated;
+
+-- Backfill history from the status timestamp columns
+INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, created_at)
+SELECT o.id, NULL, 'pending', o.customer_id, o.created_at
+FROM orders o
+WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
+
+INSERT INTO order_status_history (order_id, from_status, to_status, note, created_at)
+SELECT
+  steps.order_id,
+  lag(steps.to_status, 1, 'pending'::order_status) OVER (PARTITION BY steps.order_id ORDER BY steps.created_at),
+  steps.to_status,
+  steps.note,
+  steps.created_at
+FROM (
+  SELECT o.id AS order_id, st.to_status, s.created_at,
+    CASE WHEN st.to_status = 'cancelled' THEN o.cancellation_reason END AS note
+  FROM orders o
+  CROSS JOIN LATERAL (
+    VALUES
+      ('confirmed', o.confirmed_at),
+      ('preparing', o.preparing_at),
+      ('ready_for_pickup', o.ready_for_pickup_at),
+      ('out_for_delivery', o.out_for_delivery_at),
+      ('delivered', o.delivered_at),
+      ('cancelled', o.cancelled_at)
+  ) AS s(status_name, created_at)
+  CROSS JOIN LATERAL (SELECT s.status_name::order_status AS to_status) st
+  WHERE s.created_at IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM order_status_history h
+      WHERE h.order_id = o.id AND h.to_status <> 'pending'
+    )
+) steps;
@@ -0,0 +1,397 @@
+/*
+  # Add Platform Commission, Vendor Earnings Ledger and Payouts
+
+  1. New Tables
+    - `commission_rates` - Percentage the platform keeps from each sale
+      - `id` (uuid, primary key)
+      - `scope` (text: 'global', 'vendor', 'category')
+      - `vendor_id` (uuid, profile of the vendor) - Set for vendor rates
+      - `category_id` (uuid, foreign key to categories) - Set for category rates
+      - `rate` (numeric, 0-100)
+      - `created_at`, `updated_at` (timestamps)
+    - `vendor_payouts` - Payout requests made by vendors
+      - `id` (uuid, primary key)
+      - `vendor_id` (uuid, profile of the vendor)
+      - `payout_number` (text, unique, e.g. PAY-1700000000000)
+      - `amount` (numeric)
+      - `status` (text: 'pending', 'approved', 'paid', 'rejected')
+      - `vendor_note`, `admin_note` (text, optional)
+      - `payment_reference` (text, optional) - Bank transfer reference once paid
+      - `reviewed_by` (uuid), `reviewed_at`, `paid_at` (timestamps)
+      - `created_at` (timestamp)
+    - `vendor_earnings` - Ledger of money owed to vendors
+      - `id` (uuid, primary key)
+      - `vendor_id` (uuid, profile of the vendor)
+      - `order_id` (uuid, foreign key to orders) - Set for order entries
+      - `payout_id` (uuid, foreign key to vendor_payouts) - Set for payout entries
+      - `entry_type` (text: 'order', 'payout')
+      - `gross_amount` (numeric) - Item subtotal of the order
+      - `commission_amount` (numeric) - Platform commission on the order
+      - `net_amount` (numeric) - Signed change to the vendor balance
+      - `description` (text)
+      - `created_at` (timestamp)
+
+  2. Commission Resolution
+    - Each order item uses the vendor rate if set, otherwise the rate of the product's category,
+      otherwise the global rate (seeded at 10%)
+
+  3. Functions
+    - `get_commission_rate` - Effective rate for a vendor and category
+    - `credit_vendor_earnings_on_delivery` - Trigger on orders; when an order is both `delivered`
+      and paid it adds one 'order' ledger entry (items subtotal minus commission)
+    - `get_vendor_balance` - Earned, commission, paid out, pending and available amounts
+    - `request_vendor_payout` - Vendor asks for a payout of (part of) the available balance
+    - `update_vendor_payout_status` - Admin approves (debits the ledger), rejects or marks as paid
+
+  4. Security
+    - Enable RLS on all new tables
+    - Everyone signed in can read commission rates, only admins can change them
+    - Vendors can view their own ledger and payouts, admins can view all
+    - Ledger and payout rows are only written by the functions above
+
+  5. Notes
+    - Delivery fees stay with the platform and promo discounts are funded by the platform
+    - Orders delivered before this migration are not added to the ledger
+*/
+
+CREATE TABLE IF NOT EXISTS commission_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope text NOT NULL CHECK (scope IN ('global', 'vendor', 'category')),
+  vendor_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  rate numeric(5, 2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT commission_rates_scope_target CHECK (
+    (scope = 'global' AND vendor_id IS NULL AND category_id IS NULL) OR
+    (scope = 'vendor' AND vendor_id IS NOT NULL AND category_id IS NULL) OR
+    (scope = 'category' AND category_id IS NOT NULL AND vendor_id IS NULL)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_rates_global ON commission_rates(scope) WHERE scope = 'global';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_rates_vendor ON commission_rates(vendor_id) WHERE scope = 'vendor';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commission_rates_category ON commission_rates(category_id) WHERE scope = 'category';
+
+ALTER TABLE commission_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view commission rates"
+  ON commission_rates FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can insert commission rates"
+  ON commission_rates FOR INSERT
+  TO authenticated
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can update commission rates"
+  ON commission_rates FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Admins can delete commission rates"
+  ON commission_rates FOR DELETE
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO commission_rates (scope, rate)
+SELECT 'global', 10
+WHERE NOT EXISTS (SELECT 1 FROM commission_rates WHERE scope = 'global');
+
+CREATE TABLE IF NOT EXISTS vendor_payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  payout_number text UNIQUE NOT NULL,
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'paid', 'rejected')),
+  vendor_note text,
+  admin_note text,
+  payment_reference text,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE vendor_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view own payouts"
+  ON vendor_payouts FOR SELECT
+  TO authenticated
+  USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all payouts"
+  ON vendor_payouts FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_vendor_payouts_vendor_id ON vendor_payouts(vendor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vendor_payouts_status ON vendor_payouts(status);
+
+CREATE TABLE IF NOT EXISTS vendor_earnings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  payout_id uuid REFERENCES vendor_payouts(id) ON DELETE SET NULL,
+  entry_type text NOT NULL CHECK (entry_type IN ('order', 'payout')),
+  gross_amount numeric(10, 2) NOT NULL DEFAULT 0,
+  commission_amount numeric(10, 2) NOT NULL DEFAULT 0,
+  net_amount numeric(10, 2) NOT NULL,
+  description text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+-- An order is only ever credited once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_earnings_order ON vendor_earnings(order_id) WHERE entry_type = 'order';
+CREATE INDEX IF NOT EXISTS idx_vendor_earnings_vendor_id ON vendor_earnings(vendor_id, created_at DESC);
+
+ALTER TABLE vendor_earnings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Vendors can view own earnings"
+  ON vendor_earnings FOR SELECT
+  TO authenticated
+  USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all earnings"
+  ON vendor_earnings FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE vendor_payouts;
+ALTER PUBLICATION supabase_realtime ADD TABLE vendor_earnings;
+
+-- Effective commission rate: vendor, then category, then global
+CREATE OR REPLACE FUNCTION get_commission_rate(p_vendor_id uuid, p_category_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT rate FROM commission_rates WHERE scope = 'vendor' AND vendor_id = p_vendor_id),
+    (SELECT rate FROM commission_rates WHERE scope = 'category' AND category_id = p_category_id),
+    (SELECT rate FROM commission_rates WHERE scope = 'global'),
+    0
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_commission_rate(uuid, uuid) TO authenticated;
+
+-- Credit the vendor once an order is delivered and paid
+CREATE OR REPLACE FUNCTION credit_vendor_earnings_on_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_gross numeric;
+  v_commission numeric;
+BEGIN
+  IF NEW.status <> 'delivered' OR NEW.payment_status <> 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM vendor_earnings
+    WHERE order_id = NEW.id AND entry_type = 'order'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    coalesce(sum(oi.subtotal), 0),
+    coalesce(sum(round(oi.subtotal * get_commission_rate(NEW.vendor_id, p.category_id) / 100, 2)), 0)
+  INTO v_gross, v_commission
+  FROM order_items oi
+  LEFT JOIN products p ON p.id = oi.product_id
+  WHERE oi.order_id = NEW.id;
+
+  IF v_gross <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO vendor_earnings (
+    vendor_id, order_id, entry_type, gross_amount, commission_amount, net_amount, description
+  ) VALUES (
+    NEW.vendor_id, NEW.id, 'order', v_gross, v_commission, v_gross - v_commission,
+    'Earnings for order ' || NEW.order_number
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_credit_vendor_earnings ON orders;
+
+CREATE TRIGGER trigger_credit_vendor_earnings
+  AFTER UPDATE OF status, payment_status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION credit_vendor_earnings_on_delivery();
+
+-- Balance summary for a vendor (the vendor themself or an admin)
+CREATE OR REPLACE FUNCTION get_vendor_balance(p_vendor_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id uuid := coalesce(p_vendor_id, auth.uid());
+  v_gross numeric;
+  v_commission numeric;
+  v_earned numeric;
+  v_paid_out numeric;
+  v_pending numeric;
+BEGIN
+  IF v_vendor_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Not allowed to view this balance';
+  END IF;
+
+  SELECT
+    coalesce(sum(gross_amount) FILTER (WHERE entry_type = 'order'), 0),
+    coalesce(sum(commission_amount) FILTER (WHERE entry_type = 'order'), 0),
+    coalesce(sum(net_amount) FILTER (WHERE entry_type = 'order'), 0),
+    coalesce(-sum(net_amount) FILTER (WHERE entry_type = 'payout'), 0)
+  INTO v_gross, v_commission, v_earned, v_paid_out
+  FROM vendor_earnings
+  WHERE vendor_id = v_vendor_id;
+
+  SELECT coalesce(sum(amount), 0) INTO v_pending
+  FROM vendor_payouts
+  WHERE vendor_id = v_vendor_id AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'gross_sales', v_gross,
+    'commission', v_commission,
+    'earned', v_earned,
+    'paid_out', v_paid_out,
+    'pending_payouts', v_pending,
+    'available', v_earned - v_paid_out - v_pending
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_vendor_balance(uuid) TO authenticated;
+
+-- Vendor requests a payout
+CREATE OR REPLACE FUNCTION request_vendor_payout(
+  p_amount numeric,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id uuid := auth.uid();
+  v_balance jsonb;
+  v_payout vendor_payouts%ROWTYPE;
+BEGIN
+  IF v_vendor_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = v_vendor_id AND role = 'vendor'
+  ) THEN
+    RAISE EXCEPTION 'Only vendors can request payouts';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Please enter a valid amount';
+  END IF;
+
+  -- Serialise requests from the same vendor so the balance check holds
+  PERFORM 1 FROM profiles WHERE id = v_vendor_id FOR UPDATE;
+
+  v_balance := get_vendor_balance(v_vendor_id);
+
+  IF round(p_amount, 2) > (v_balance->>'available')::numeric THEN
+    RAISE EXCEPTION 'Amount exceeds your available balance of ₦%',
+      to_char((v_balance->>'available')::numeric, 'FM999999990.00');
+  END IF;
+
+  INSERT INTO vendor_payouts (vendor_id, payout_number, amount, vendor_note)
+  VALUES (
+    v_vendor_id,
+    'PAY-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+    round(p_amount, 2),
+    nullif(trim(p_note), '')
+  )
+  RETURNING * INTO v_payout;
+
+  RETURN jsonb_build_object('success', true, 'payout', to_jsonb(v_payout));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_vendor_payout(numeric, text) TO authenticated;
+
+-- Admin moves a payout along: pending -> approved/rejected, approved -> paid
+CREATE OR REPLACE FUNCTION update_vendor_payout_status(
+  p_payout_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payout vendor_payouts%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_payout FROM vendor_payouts WHERE id = p_payout_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout not found';
+  END IF;
+
+  IF NOT (
+    (v_payout.status = 'pending' AND p_status IN ('approved', 'rejected')) OR
+    (v_payout.status = 'approved' AND p_status = 'paid')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change payout from % to %', v_payout.status, p_status;
+  END IF;
+
+  IF p_status = 'approved' THEN
+    INSERT INTO vendor_earnings (vendor_id, payout_id, entry_type, net_amount, description)
+    VALUES (
+      v_payout.vendor_id, v_payout.id, 'payout', -v_payout.amount,
+      'Payout ' || v_payout.payout_number
+    );
+  END IF;
+
+  UPDATE vendor_payouts
+  SET status = p_status,
+      admin_note = coalesce(nullif(trim(p_note), ''), admin_note),
+      payment_reference = coalesce(nullif(trim(p_payment_reference), ''), payment_reference),
+      reviewed_by = CASE WHEN p_status IN ('approved', 'rejected') THEN auth.uid() ELSE reviewed_by END,
+      reviewed_at = CASE WHEN p_status IN ('approved', 'rejected') THEN now() ELSE reviewed_at END,
+      paid_at = CASE WHEN p_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = p_payout_id
+  RETURNING * INTO v_payout;
+
+  RETURN jsonb_build_object('success', true, 'payout', to_jsonb(v_payout));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_vendor_payout_status(uuid, text, text, text) TO authenticated;
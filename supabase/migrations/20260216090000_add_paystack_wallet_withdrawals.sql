@@ -0,0 +1,193 @@
+/*
+  # Add Bank Transfer Wallet Withdrawals through Paystack Transfers
+
+  1. New Tables
+    - `payout_bank_accounts` - Bank account a user withdraws their wallet to
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles, unique)
+      - `bank_code` (text) - Paystack bank code
+      - `bank_name` (text)
+      - `account_number` (text)
+      - `account_name` (text) - Name returned by Paystack account resolve
+      - `recipient_code` (text) - Paystack transfer recipient
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes to Wallet Transactions
+    - Allow `status` to be 'reversed' for withdrawals whose transfer failed or was reversed
+
+  3. Functions (service role only, called by the edge functions)
+    - `start_wallet_withdrawal` - Debits the wallet and records a `pending` withdrawal
+      with the transfer reference as `reference_id`
+    - `complete_wallet_withdrawal` - Marks the withdrawal `completed` (transfer.success)
+    - `reverse_wallet_withdrawal` - Marks the withdrawal `reversed` and credits the amount back
+      (transfer.failed / transfer.reversed, or when Paystack rejects the transfer outright)
+
+  4. Security
+    - Enable RLS on `payout_bank_accounts`
+    - Users can view and remove their own account; accounts are only saved by the
+      `payout-bank-account` edge function after Paystack has resolved them
+    - Admins can view all accounts
+
+  5. Notes
+    - Completing and reversing are idempotent so repeated webhook deliveries are harmless
+*/
+
+CREATE TABLE IF NOT EXISTS payout_bank_accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid UNIQUE NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  bank_code text NOT NULL,
+  bank_name text NOT NULL,
+  account_number text NOT NULL,
+  account_name text NOT NULL,
+  recipient_code text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE payout_bank_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payout bank account"
+  ON payout_bank_accounts FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own payout bank account"
+  ON payout_bank_accounts FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can view all payout bank accounts"
+  ON payout_bank_accounts FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+ALTER TABLE wallet_transactions DROP CONSTRAINT IF EXISTS wallet_transactions_status_check;
+ALTER TABLE wallet_transactions ADD CONSTRAINT wallet_transactions_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'reversed'));
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_reference ON wallet_transactions(reference_type, reference_id);
+
+-- Debit the wallet and hold the withdrawal as pending until Paystack reports back
+CREATE OR REPLACE FUNCTION start_wallet_withdrawal(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_description text DEFAULT 'Withdrawal to bank account'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  IF p_amount IS NULL OR p_amount < 100 THEN
+    RAISE EXCEPTION 'Minimum withdrawal amount is ₦100';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM wallet_transactions
+    WHERE reference_type = 'withdrawal' AND reference_id = p_reference
+  ) THEN
+    RAISE EXCEPTION 'Withdrawal reference already used';
+  END IF;
+
+  v_result := debit_wallet(p_user_id, p_amount, p_description, 'withdrawal', p_reference);
+
+  IF NOT coalesce((v_result->>'success')::boolean, false) THEN
+    RAISE EXCEPTION '%', coalesce(v_result->>'error', 'Failed to debit wallet');
+  END IF;
+
+  UPDATE wallet_transactions
+  SET status = 'pending'
+  WHERE id = (v_result->>'transaction_id')::uuid;
+
+  RETURN v_result;
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+-- Transfer went through
+CREATE OR REPLACE FUNCTION complete_wallet_withdrawal(p_reference text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM wallet_transactions
+  WHERE reference_type = 'withdrawal' AND reference_id = p_reference AND type = 'debit'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal not found');
+  END IF;
+
+  IF v_transaction.status = 'pending' THEN
+    UPDATE wallet_transactions SET status = 'completed' WHERE id = v_transaction.id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', CASE WHEN v_transaction.status = 'pending' THEN 'completed' ELSE v_transaction.status END);
+END;
+$$;
+
+-- Transfer failed or was reversed: give the money back
+CREATE OR REPLACE FUNCTION reverse_wallet_withdrawal(
+  p_reference text,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction wallet_transactions%ROWTYPE;
+  v_result jsonb;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM wallet_transactions
+  WHERE reference_type = 'withdrawal' AND reference_id = p_reference AND type = 'debit'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Withdrawal not found');
+  END IF;
+
+  IF v_transaction.status = 'reversed' THEN
+    RETURN jsonb_build_object('success', true, 'status', 'reversed');
+  END IF;
+
+  v_result := credit_wallet(
+    v_transaction.user_id,
+    v_transaction.amount,
+    'Reversed withdrawal' || coalesce(': ' || nullif(trim(p_reason), ''), ''),
+    'withdrawal',
+    p_reference
+  );
+
+  IF NOT coalesce((v_result->>'success')::boolean, false) THEN
+    RAISE EXCEPTION '%', coalesce(v_result->>'error', 'Failed to credit wallet');
+  END IF;
+
+  UPDATE wallet_transactions SET status = 'reversed' WHERE id = v_transaction.id;
+
+  RETURN jsonb_build_object('success', true, 'status', 'reversed');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION start_wallet_withdrawal(uuid, numeric, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_wallet_withdrawal(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reverse_wallet_withdrawal(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_wallet_withdrawal(uuid, numeric, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_wallet_withdrawal(text) TO service_role;
+GRANT EXECUTE ON FUNCTION reverse_wallet_withdrawal(text, text) TO service_role;
@@ -0,0 +1,127 @@
+/*
+  # Restrict Wallet Crediting to Trusted Server Paths
+
+  1. Security
+    - `credit_wallet` and `debit_wallet` can only be executed by the service role
+      (edge functions) and by other database functions; clients can no longer call them
+    - Drop the stale `debit_wallet(uuid, numeric, text, text, uuid)` overload left behind when
+      `reference_id` became text, which was still callable by clients
+    - New trigger `protect_wallet_balance` rejects changes to `profiles.wallet_balance` made
+      directly by the `anon`/`authenticated` roles (the "update own profile" policy allowed it)
+      and starts client-created profiles at a zero balance
+
+  2. Functions
+    - `pay_order_with_wallet` - Customer pays one of their own unpaid orders from their wallet;
+      the amount is always the order total, never a client-supplied value
+
+  3. Notes
+    - Wallet top-ups are only completed by the `verify-payment` and `paystack-webhook` edge functions
+    - Functions such as `place_order` and `cancel_order_with_refund` keep working because they
+      run as their owner (SECURITY DEFINER)
+*/
+
+DROP FUNCTION IF EXISTS debit_wallet(uuid, numeric, text, text, uuid);
+
+REVOKE EXECUTE ON FUNCTION credit_wallet(uuid, numeric, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION debit_wallet(uuid, numeric, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION credit_wallet(uuid, numeric, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION debit_wallet(uuid, numeric, text, text, text) TO service_role;
+
+-- Balances only move through the wallet functions
+CREATE OR REPLACE FUNCTION protect_wallet_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.wallet_balance := 0;
+  ELSIF NEW.wallet_balance IS DISTINCT FROM OLD.wallet_balance THEN
+    RAISE EXCEPTION 'Wallet balance cannot be changed directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_wallet_balance ON profiles;
+
+CREATE TRIGGER trigger_protect_wallet_balance
+  BEFORE INSERT OR UPDATE OF wallet_balance ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_wallet_balance();
+
+-- Customer pays an unpaid order from their wallet
+CREATE OR REPLACE FUNCTION pay_order_with_wallet(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to pay for an order';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id AND customer_id = v_customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_status <> 'pending' THEN
+    RAISE EXCEPTION 'This order has already been paid';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This order has been cancelled';
+  END IF;
+
+  IF v_order.total <= 0 THEN
+    RAISE EXCEPTION 'Nothing to pay for this order';
+  END IF;
+
+  v_debit_result := debit_wallet(
+    v_customer_id,
+    v_order.total,
+    'Payment for order ' || v_order.order_number,
+    'order',
+    v_order.id::text
+  );
+
+  IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+    RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+  END IF;
+
+  UPDATE orders
+  SET payment_method = 'wallet',
+      payment_status = 'completed',
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', to_jsonb(v_order),
+    'balance_after', (v_debit_result->>'balance_after')::numeric
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION pay_order_with_wallet(uuid) TO authenticated;
@@ -0,0 +1,192 @@
+/*
+  # Add Payment Webhook Event Log
+
+  1. New Tables
+    - `payment_webhook_events` - Every signed Paystack webhook the platform has received
+      - `id` (uuid, primary key)
+      - `provider` (text) - 'paystack'
+      - `event_id` (text, unique) - Paystack event type plus the id of the object it is about,
+        so repeated deliveries of the same event map to one row
+      - `event_type` (text) - e.g. 'charge.success', 'transfer.failed'
+      - `reference` (text) - Payment/transfer reference or customer code, for searching
+      - `payload` (jsonb) - Raw event body
+      - `status` (text) - received, processing, processed, ignored, failed
+      - `attempts` (integer) - Number of times processing was started
+      - `last_error` (text) - Error from the most recent failed attempt
+      - `last_attempt_at`, `processed_at` (timestamps)
+      - `last_replayed_by` (uuid, foreign key to profiles) - Admin who last replayed the event
+      - `last_replayed_at` (timestamp)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Functions (service role only, called by the edge functions)
+    - `record_payment_webhook_event` - Stores a delivery, or returns the existing row for a repeat
+    - `start_payment_webhook_event` - Claims an event for processing; refuses events that are
+      already processed/ignored or currently being processed
+    - `finish_payment_webhook_event` - Records the outcome of an attempt
+
+  3. Security
+    - Enable RLS on `payment_webhook_events`; only admins can view events
+    - Events are written by the `paystack-webhook` and `replay-webhook-event` edge functions
+
+  4. Notes
+    - An attempt left in 'processing' for more than 5 minutes (e.g. the function timed out) can be claimed again
+*/
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider text NOT NULL DEFAULT 'paystack',
+  event_id text UNIQUE NOT NULL,
+  event_type text NOT NULL,
+  reference text,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'ignored', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  last_attempt_at timestamptz,
+  processed_at timestamptz,
+  last_replayed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  last_replayed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_status ON payment_webhook_events(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_reference ON payment_webhook_events(reference);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_created_at ON payment_webhook_events(created_at DESC);
+
+ALTER TABLE payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook events"
+  ON payment_webhook_events FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Store a delivery; repeats of the same event return the row that already exists
+CREATE OR REPLACE FUNCTION record_payment_webhook_event(
+  p_event_id text,
+  p_event_type text,
+  p_reference text,
+  p_payload jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event payment_webhook_events%ROWTYPE;
+  v_duplicate boolean := false;
+BEGIN
+  INSERT INTO payment_webhook_events (event_id, event_type, reference, payload)
+  VALUES (p_event_id, p_event_type, p_reference, p_payload)
+  ON CONFLICT (event_id) DO NOTHING
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    v_duplicate := true;
+
+    SELECT * INTO v_event
+    FROM payment_webhook_events
+    WHERE event_id = p_event_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'id', v_event.id,
+    'status', v_event.status,
+    'duplicate', v_duplicate
+  );
+END;
+$$;
+
+-- Claim an event for processing (webhook delivery or admin replay)
+CREATE OR REPLACE FUNCTION start_payment_webhook_event(
+  p_id uuid,
+  p_replayed_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event payment_webhook_events%ROWTYPE;
+BEGIN
+  SELECT * INTO v_event
+  FROM payment_webhook_events
+  WHERE id = p_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Webhook event not found');
+  END IF;
+
+  IF v_event.status IN ('processed', 'ignored')
+    OR (v_event.status = 'processing' AND v_event.last_attempt_at > now() - interval '5 minutes') THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'claimed', false,
+      'status', v_event.status,
+      'payload', v_event.payload
+    );
+  END IF;
+
+  UPDATE payment_webhook_events
+  SET status = 'processing',
+      attempts = attempts + 1,
+      last_attempt_at = now(),
+      last_replayed_by = coalesce(p_replayed_by, last_replayed_by),
+      last_replayed_at = CASE WHEN p_replayed_by IS NOT NULL THEN now() ELSE last_replayed_at END,
+      updated_at = now()
+  WHERE id = p_id
+  RETURNING * INTO v_event;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'claimed', true,
+    'status', v_event.status,
+    'attempts', v_event.attempts,
+    'payload', v_event.payload
+  );
+END;
+$$;
+
+-- Record how an attempt ended
+CREATE OR REPLACE FUNCTION finish_payment_webhook_event(
+  p_id uuid,
+  p_status text,
+  p_error text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_status NOT IN ('processed', 'ignored', 'failed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid webhook event status');
+  END IF;
+
+  UPDATE payment_webhook_events
+  SET status = p_status,
+      last_error = CASE WHEN p_status = 'failed' THEN p_error ELSE NULL END,
+      processed_at = CASE WHEN p_status = 'failed' THEN processed_at ELSE now() END,
+      updated_at = now()
+  WHERE id = p_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Webhook event not found');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', p_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_payment_webhook_event(text, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION start_payment_webhook_event(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_payment_webhook_event(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_payment_webhook_event(text, text, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION start_payment_webhook_event(uuid, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION finish_payment_webhook_event(uuid, text, text) TO service_role;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE payment_webhook_events;
@@ -0,0 +1,553 @@
+/*
+  # Confirm Online Order Payments on the Server
+
+  1. Changes to `place_order`
+    - Orders paid online are created `pending` with the Paystack reference attached; they are
+      only marked paid once Paystack confirms the charge (a client-supplied reference no longer
+      marks an order paid)
+    - Online orders must carry a payment reference, and a reference can only be used once
+
+  2. Functions (service role only, called by the edge functions)
+    - `confirm_online_payment` - Marks the orders of a checkout paid from a successful charge.
+      Idempotent. Money for orders that were cancelled or paid another way in the meantime,
+      and any overpayment, is credited to the customer's wallet
+    - `release_online_checkout` - Cancels a checkout whose payment could not be started, puts
+      the items back in the cart and returns the promo code use
+    - `credit_wallet_topup` - Credits a wallet top-up at most once per payment reference, even
+      when the webhook and the payment redirect arrive at the same time
+
+  3. Client Functions
+    - `abandon_online_checkout` - Customer backs out of the payment page; releases their own
+      unpaid checkout. A payment that still arrives afterwards is credited to their wallet
+
+  4. Notes
+    - `initialize-payment` now places the order before sending the customer to Paystack, so a
+      payment completed after the app was closed still lands on an order
+    - `checkout_groups.payment_reference` gets a unique index
+*/
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_checkout_groups_payment_reference
+  ON checkout_groups(payment_reference)
+  WHERE payment_reference IS NOT NULL;
+
+-- Online orders wait for Paystack before they count as paid
+CREATE OR REPLACE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_distance_km numeric DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_line record;
+  v_vendor record;
+  v_vendor_count integer;
+  v_vendor_index integer := 0;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_fee_share numeric;
+  v_discount_share numeric;
+  v_fee_allocated numeric := 0;
+  v_discount_allocated numeric := 0;
+  v_promo promotions%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_orders jsonb := '[]'::jsonb;
+  v_stamp text;
+  v_payment_status text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(p_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  IF p_payment_method = 'online' AND coalesce(trim(p_payment_reference), '') = '' THEN
+    RAISE EXCEPTION 'Online payments must be started from the payment page';
+  END IF;
+
+  IF p_payment_reference IS NOT NULL AND EXISTS (
+    SELECT 1 FROM checkout_groups WHERE payment_reference = p_payment_reference
+  ) THEN
+    RAISE EXCEPTION 'Payment reference already used';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.is_available,
+      p.stock_quantity - p.reserved_quantity AS available_quantity,
+      c.quantity,
+      CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+  LOOP
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.available_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', greatest(v_line.available_quantity, 0), v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT count(DISTINCT p.vendor_id) INTO v_vendor_count
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_customer_id;
+
+  -- Delivery fee from the distance band covering the address
+  IF p_delivery_type = 'delivery' THEN
+    IF p_distance_km IS NULL THEN
+      RAISE EXCEPTION 'Delivery distance could not be determined';
+    END IF;
+
+    SELECT price INTO v_delivery_fee
+    FROM delivery_zones
+    WHERE is_active = true
+      AND p_distance_km >= min_distance_km
+      AND p_distance_km <= max_distance_km
+    ORDER BY min_distance_km
+    LIMIT 1;
+
+    IF NOT FOUND OR v_delivery_fee IS NULL OR v_delivery_fee <= 0 THEN
+      RAISE EXCEPTION 'No delivery zone covers your location';
+    END IF;
+  END IF;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_stamp := floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text;
+  -- Online payments stay pending until Paystack confirms the charge
+  v_payment_status := CASE WHEN p_payment_method = 'wallet' THEN 'completed' ELSE 'pending' END;
+
+  INSERT INTO checkout_groups (
+    customer_id, group_number, subtotal, delivery_fee, discount_amount, total,
+    promo_code, promo_id, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, 'CHK-' || v_stamp, v_subtotal, v_delivery_fee, v_discount, v_total,
+    v_promo.code, v_promo.id, p_payment_method, v_payment_status, p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  -- One order per vendor; the last vendor absorbs rounding remainders
+  FOR v_vendor IN
+    SELECT
+      p.vendor_id,
+      sum(
+        CASE
+          WHEN p.discount_active AND p.discount_percentage > 0
+            THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+          ELSE p.price
+        END * c.quantity
+      ) AS subtotal
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+    GROUP BY p.vendor_id
+    ORDER BY p.vendor_id
+  LOOP
+    v_vendor_index := v_vendor_index + 1;
+
+    IF v_vendor_index = v_vendor_count THEN
+      v_fee_share := v_delivery_fee - v_fee_allocated;
+      v_discount_share := v_discount - v_discount_allocated;
+    ELSE
+      v_fee_share := round(v_delivery_fee / v_vendor_count, 2);
+      IF v_promo.discount_type = 'free_delivery' THEN
+        v_discount_share := v_fee_share;
+      ELSIF v_subtotal > 0 THEN
+        v_discount_share := round(v_discount * v_vendor.subtotal / v_subtotal, 2);
+      ELSE
+        v_discount_share := 0;
+      END IF;
+    END IF;
+
+    v_fee_allocated := v_fee_allocated + v_fee_share;
+    v_discount_allocated := v_discount_allocated + v_discount_share;
+
+    INSERT INTO orders (
+      customer_id, vendor_id, checkout_group_id, order_number, subtotal, delivery_fee,
+      discount_amount, promo_code, promo_id, total, delivery_type,
+      delivery_address, status, payment_method, payment_status, payment_reference
+    ) VALUES (
+      v_customer_id, v_vendor.vendor_id, v_group.id,
+      CASE WHEN v_vendor_count = 1 THEN 'ORD-' || v_stamp ELSE 'ORD-' || v_stamp || '-' || v_vendor_index END,
+      v_vendor.subtotal, v_fee_share,
+      v_discount_share, v_promo.code, v_promo.id,
+      greatest(0, v_vendor.subtotal + v_fee_share - v_discount_share),
+      p_delivery_type,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_address ELSE 'N/A' END,
+      'pending', p_payment_method, v_payment_status, p_payment_reference
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order.id,
+      c.product_id,
+      c.quantity,
+      prices.unit_price,
+      prices.unit_price * c.quantity
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    ) prices
+    WHERE c.user_id = v_customer_id
+      AND p.vendor_id = v_vendor.vendor_id;
+
+    PERFORM reserve_order_stock(v_order.id, v_customer_id);
+
+    v_orders := v_orders || to_jsonb(v_order);
+  END LOOP;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      CASE
+        WHEN v_vendor_count = 1 THEN 'Payment for order ' || v_order.order_number
+        ELSE 'Payment for purchase ' || v_group.group_number
+      END,
+      'order',
+      v_group.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkout_group', to_jsonb(v_group),
+    'orders', v_orders
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, numeric, text, text) TO authenticated;
+
+-- Paystack confirmed the charge for a checkout
+CREATE OR REPLACE FUNCTION confirm_online_payment(
+  p_reference text,
+  p_amount numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group checkout_groups%ROWTYPE;
+  v_unpayable numeric;
+  v_credit_result jsonb;
+BEGIN
+  SELECT * INTO v_group
+  FROM checkout_groups
+  WHERE payment_reference = p_reference AND payment_method = 'online'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No checkout found for payment %', p_reference;
+  END IF;
+
+  IF v_group.payment_status = 'completed' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_processed', true,
+      'checkout_group_id', v_group.id,
+      'group_number', v_group.group_number
+    );
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < v_group.total THEN
+    RAISE EXCEPTION 'Amount paid (₦%) is less than the checkout total (₦%)',
+      to_char(coalesce(p_amount, 0), 'FM999999990.00'), to_char(v_group.total, 'FM999999990.00');
+  END IF;
+
+  PERFORM 1 FROM orders WHERE checkout_group_id = v_group.id FOR UPDATE;
+
+  -- Orders cancelled or paid another way while the customer was on the payment page
+  SELECT coalesce(sum(total), 0) INTO v_unpayable
+  FROM orders
+  WHERE checkout_group_id = v_group.id
+    AND (status = 'cancelled' OR payment_status <> 'pending');
+
+  UPDATE orders
+  SET payment_status = 'completed',
+      updated_at = now()
+  WHERE checkout_group_id = v_group.id
+    AND status <> 'cancelled'
+    AND payment_status = 'pending';
+
+  v_unpayable := v_unpayable + (p_amount - v_group.total);
+
+  IF v_unpayable > 0 THEN
+    v_credit_result := credit_wallet(
+      v_group.customer_id,
+      v_unpayable,
+      'Refund for online payment on purchase ' || v_group.group_number,
+      'refund',
+      p_reference
+    );
+
+    IF NOT coalesce((v_credit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_credit_result->>'error', 'Failed to credit wallet');
+    END IF;
+  END IF;
+
+  UPDATE checkout_groups
+  SET payment_status = 'completed'
+  WHERE id = v_group.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_processed', false,
+    'checkout_group_id', v_group.id,
+    'group_number', v_group.group_number,
+    'credited_to_wallet', v_unpayable
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+-- The customer never reached Paystack: undo the checkout
+CREATE OR REPLACE FUNCTION release_online_checkout(
+  p_reference text,
+  p_reason text DEFAULT 'Payment could not be started'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group checkout_groups%ROWTYPE;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_group
+  FROM checkout_groups
+  WHERE payment_reference = p_reference AND payment_method = 'online'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No checkout found for payment %', p_reference;
+  END IF;
+
+  IF v_group.payment_status = 'completed' THEN
+    RAISE EXCEPTION 'This checkout has already been paid';
+  END IF;
+
+  IF v_group.payment_status = 'failed' THEN
+    RETURN jsonb_build_object('success', true, 'already_processed', true);
+  END IF;
+
+  INSERT INTO carts (user_id, product_id, quantity)
+  SELECT v_group.customer_id, oi.product_id, sum(oi.quantity)
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.checkout_group_id = v_group.id
+    AND o.status = 'pending'
+  GROUP BY oi.product_id
+  ON CONFLICT (user_id, product_id)
+  DO UPDATE SET quantity = carts.quantity + EXCLUDED.quantity;
+
+  FOR v_order_id IN
+    SELECT id FROM orders
+    WHERE checkout_group_id = v_group.id
+      AND status = 'pending'
+      AND payment_status = 'pending'
+  LOOP
+    PERFORM cancel_order_with_refund(v_order_id, p_reason, NULL);
+  END LOOP;
+
+  UPDATE orders
+  SET payment_status = 'failed'
+  WHERE checkout_group_id = v_group.id
+    AND payment_status = 'pending';
+
+  IF v_group.promo_id IS NOT NULL THEN
+    UPDATE promotions
+    SET usage_count = greatest(coalesce(usage_count, 0) - 1, 0)
+    WHERE id = v_group.promo_id;
+  END IF;
+
+  UPDATE checkout_groups
+  SET payment_status = 'failed'
+  WHERE id = v_group.id;
+
+  RETURN jsonb_build_object('success', true, 'already_processed', false);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+-- Credit a top-up once, however many times Paystack or the client report it
+CREATE OR REPLACE FUNCTION credit_wallet_topup(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reference text,
+  p_description text DEFAULT 'Wallet top-up'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('wallet_topup:' || p_reference));
+
+  IF EXISTS (
+    SELECT 1 FROM wallet_transactions
+    WHERE reference_type = 'topup' AND reference_id = p_reference
+  ) THEN
+    RETURN jsonb_build_object('success', true, 'already_processed', true);
+  END IF;
+
+  v_result := credit_wallet(p_user_id, p_amount, p_description, 'topup', p_reference);
+
+  RETURN v_result || jsonb_build_object('already_processed', false);
+END;
+$$;
+
+-- Customer backed out of the payment page
+CREATE OR REPLACE FUNCTION abandon_online_checkout(p_reference text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'You must be logged in');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM checkout_groups
+    WHERE payment_reference = p_reference
+      AND payment_method = 'online'
+      AND customer_id = auth.uid()
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Checkout not found');
+  END IF;
+
+  RETURN release_online_checkout(p_reference, 'Payment cancelled by customer');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION confirm_online_payment(text, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_online_checkout(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION credit_wallet_topup(uuid, numeric, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_online_payment(text, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION release_online_checkout(text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION credit_wallet_topup(uuid, numeric, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION abandon_online_checkout(text) TO authenticated;
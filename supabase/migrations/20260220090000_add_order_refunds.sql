@@ -0,0 +1,757 @@
+/*
+  # Add Order Refunds with Partial Refunds and Refund to Original Payment
+
+  1. New Tables
+    - `refunds` - Money returned to a customer for an order
+      - `id` (uuid, primary key)
+      - `refund_number` (text, unique, e.g. RF-1700000000000)
+      - `order_id` (uuid, foreign key to orders)
+      - `customer_id` (uuid) - Customer receiving the refund
+      - `vendor_id` (uuid) - Vendor of the order
+      - `refund_type` (text: 'full', 'partial', 'cancellation')
+      - `amount` (numeric)
+      - `destination` (text: 'wallet', 'paystack') - Wallet credit or back to the card/account
+        the order was paid with
+      - `status` (text: 'pending', 'processing', 'completed', 'failed')
+      - `reason` (text)
+      - `payment_reference` (text) - Paystack transaction being refunded
+      - `provider_refund_id` (text) - Paystack refund id
+      - `failure_reason` (text)
+      - `issued_by` (uuid) - Admin, vendor or customer (cancellations) who issued it
+      - `completed_at` (timestamp)
+      - `created_at`, `updated_at` (timestamps)
+    - `refund_items` - Order items (and quantities) a refund covers
+      - `id` (uuid, primary key)
+      - `refund_id` (uuid, foreign key to refunds)
+      - `order_item_id` (uuid, foreign key to order_items)
+      - `quantity` (integer)
+      - `amount` (numeric) - Item value refunded, used for the vendor ledger
+
+  2. Changes to Existing Tables
+    - `orders.refunded_amount` (numeric) - Total of completed refunds
+    - `order_items.refunded_quantity` (integer) - Units covered by completed refunds
+    - `vendor_earnings` gets a `refund_id` and the 'refund' entry type
+
+  3. Client Functions
+    - `create_refund` - Admin or the order's vendor refunds a paid order in full or for
+      selected items; wallet refunds complete immediately, Paystack refunds are sent by the
+      `issue-refund` edge function
+
+  4. Functions (internal / service role)
+    - `record_refund` - Validates and stores a refund and its items
+    - `complete_refund` - Credits the wallet (wallet refunds), updates the refunded totals and
+      takes the refunded items off the vendor's earnings
+    - `start_paystack_refund` - Stores the Paystack refund id once Paystack accepted the refund
+    - `settle_paystack_refund` - Completes or fails a Paystack refund (refund.processed / refund.failed)
+    - `fail_refund` - Marks a refund that could not be made as failed
+    - `cancel_order_with_refund` now records its refund in `refunds` and only refunds what has
+      not been refunded already
+    - `credit_vendor_earnings_on_delivery` leaves out items refunded before delivery
+    - `get_vendor_balance` reports refunds
+
+  5. Security
+    - Enable RLS on `refunds` and `refund_items`
+    - Customers can view refunds for their orders, vendors for their own orders, admins all
+    - Rows are only written by the functions above
+
+  6. Notes
+    - Refunds in progress count against the refundable amount so an order can never be refunded twice
+    - An order whose completed refunds reach its total moves to payment status 'refunded'
+    - Delivery fees are refunded by the platform; only item amounts come off vendor earnings
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'refunded_amount'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN refunded_amount numeric(10, 2) NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'refunded_quantity'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN refunded_quantity integer NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_number text UNIQUE NOT NULL,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  vendor_id uuid NOT NULL,
+  refund_type text NOT NULL CHECK (refund_type IN ('full', 'partial', 'cancellation')),
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  destination text NOT NULL CHECK (destination IN ('wallet', 'paystack')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  reason text NOT NULL,
+  payment_reference text,
+  provider_refund_id text UNIQUE,
+  failure_reason text,
+  issued_by uuid,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id uuid NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  amount numeric(10, 2) NOT NULL CHECK (amount >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_vendor_id ON refunds(vendor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refunds_customer_id ON refunds(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund_id ON refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_refund_items_order_item_id ON refund_items(order_item_id);
+
+ALTER TABLE refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Vendors can view refunds for own orders"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (vendor_id = auth.uid());
+
+CREATE POLICY "Admins can view all refunds"
+  ON refunds FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Users can view items of visible refunds"
+  ON refund_items FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM refunds
+      WHERE refunds.id = refund_items.refund_id
+        AND (refunds.customer_id = auth.uid() OR refunds.vendor_id = auth.uid() OR is_admin())
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE refunds;
+
+ALTER TABLE vendor_earnings ADD COLUMN IF NOT EXISTS refund_id uuid REFERENCES refunds(id) ON DELETE SET NULL;
+
+ALTER TABLE vendor_earnings DROP CONSTRAINT IF EXISTS vendor_earnings_entry_type_check;
+ALTER TABLE vendor_earnings ADD CONSTRAINT vendor_earnings_entry_type_check
+  CHECK (entry_type IN ('order', 'payout', 'refund'));
+
+-- A refund is only ever taken off the vendor's earnings once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_earnings_refund ON vendor_earnings(refund_id) WHERE entry_type = 'refund';
+
+-- Validate and store a refund. p_items is null for everything not yet refunded, otherwise
+-- [{ "order_item_id": uuid, "quantity": int }]. Refunds in progress count as refunded.
+CREATE OR REPLACE FUNCTION record_refund(
+  p_order_id uuid,
+  p_refund_type text,
+  p_destination text,
+  p_reason text,
+  p_issued_by uuid,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_refund refunds%ROWTYPE;
+  v_remaining numeric;
+  v_items_amount numeric;
+  v_amount numeric;
+  v_bad_item uuid;
+  v_lines jsonb;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please enter a reason for the refund';
+  END IF;
+
+  IF p_destination NOT IN ('wallet', 'paystack') THEN
+    RAISE EXCEPTION 'Invalid refund destination';
+  END IF;
+
+  IF p_destination = 'paystack'
+    AND (v_order.payment_method <> 'online' OR coalesce(v_order.payment_reference, '') = '') THEN
+    RAISE EXCEPTION 'Only orders paid online can be refunded to the original payment method';
+  END IF;
+
+  SELECT v_order.total - coalesce(sum(amount), 0) INTO v_remaining
+  FROM refunds
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  IF v_remaining <= 0 THEN
+    RAISE EXCEPTION 'This order has already been fully refunded';
+  END IF;
+
+  IF p_items IS NOT NULL AND (jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0) THEN
+    RAISE EXCEPTION 'Please choose the items to refund';
+  END IF;
+
+  SELECT (item->>'order_item_id')::uuid INTO v_bad_item
+  FROM jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) AS item
+  WHERE NOT EXISTS (
+    SELECT 1 FROM order_items
+    WHERE id = (item->>'order_item_id')::uuid AND order_id = p_order_id
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Item % is not part of this order', v_bad_item;
+  END IF;
+
+  -- Units of each item still refundable and how many this refund covers
+  WITH requested AS (
+    SELECT (item->>'order_item_id')::uuid AS order_item_id, sum((item->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) AS item
+    GROUP BY 1
+  ),
+  available AS (
+    SELECT
+      oi.id,
+      oi.unit_price,
+      oi.quantity - coalesce((
+        SELECT sum(ri.quantity)
+        FROM refund_items ri
+        JOIN refunds r ON r.id = ri.refund_id
+        WHERE ri.order_item_id = oi.id AND r.status <> 'failed'
+      ), 0) AS available
+    FROM order_items oi
+    WHERE oi.order_id = p_order_id
+  )
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'order_item_id', a.id,
+    'unit_price', a.unit_price,
+    'available', a.available,
+    'quantity', CASE WHEN p_items IS NULL THEN a.available ELSE coalesce(r.quantity, 0) END
+  )), '[]'::jsonb)
+  INTO v_lines
+  FROM available a
+  LEFT JOIN requested r ON r.order_item_id = a.id;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_lines) AS line
+    WHERE (line->>'quantity')::integer < 0
+      OR (line->>'quantity')::integer > (line->>'available')::integer
+  ) THEN
+    RAISE EXCEPTION 'Refund quantity is more than what is left to refund for an item';
+  END IF;
+
+  IF p_items IS NULL THEN
+    v_amount := v_remaining;
+  ELSE
+    SELECT coalesce(sum((line->>'unit_price')::numeric * (line->>'quantity')::integer), 0)
+    INTO v_items_amount
+    FROM jsonb_array_elements(v_lines) AS line;
+
+    IF v_items_amount <= 0 THEN
+      RAISE EXCEPTION 'Please choose the items to refund';
+    END IF;
+
+    -- Discounts can make the items worth more than what is left of the order total
+    v_amount := least(v_items_amount, v_remaining);
+  END IF;
+
+  INSERT INTO refunds (
+    refund_number, order_id, customer_id, vendor_id, refund_type, amount,
+    destination, reason, payment_reference, issued_by
+  ) VALUES (
+    'RF-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint,
+    v_order.id, v_order.customer_id, v_order.vendor_id, p_refund_type, round(v_amount, 2),
+    p_destination, trim(p_reason),
+    CASE WHEN p_destination = 'paystack' THEN v_order.payment_reference END,
+    p_issued_by
+  )
+  RETURNING * INTO v_refund;
+
+  INSERT INTO refund_items (refund_id, order_item_id, quantity, amount)
+  SELECT
+    v_refund.id,
+    (line->>'order_item_id')::uuid,
+    (line->>'quantity')::integer,
+    round((line->>'unit_price')::numeric * (line->>'quantity')::integer, 2)
+  FROM jsonb_array_elements(v_lines) AS line
+  WHERE (line->>'quantity')::integer > 0;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- Apply a refund once the money has been returned
+CREATE OR REPLACE FUNCTION complete_refund(p_refund_id uuid)
+RETURNS refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund refunds%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_credit_result jsonb;
+  v_gross numeric;
+  v_commission numeric;
+BEGIN
+  SELECT * INTO v_refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status = 'completed' THEN
+    RETURN v_refund;
+  END IF;
+
+  IF v_refund.status = 'failed' THEN
+    RAISE EXCEPTION 'Refund % has failed and cannot be completed', v_refund.refund_number;
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_refund.order_id FOR UPDATE;
+
+  IF v_refund.destination = 'wallet' THEN
+    v_credit_result := credit_wallet(
+      v_refund.customer_id,
+      v_refund.amount,
+      'Refund ' || v_refund.refund_number || ' for order ' || v_order.order_number,
+      'refund',
+      v_refund.id::text
+    );
+
+    IF NOT coalesce((v_credit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_credit_result->>'error', 'Failed to refund order');
+    END IF;
+  END IF;
+
+  UPDATE refunds
+  SET status = 'completed',
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_refund_id
+  RETURNING * INTO v_refund;
+
+  UPDATE order_items oi
+  SET refunded_quantity = oi.refunded_quantity + ri.quantity
+  FROM refund_items ri
+  WHERE ri.refund_id = p_refund_id AND ri.order_item_id = oi.id;
+
+  UPDATE orders
+  SET refunded_amount = refunded_amount + v_refund.amount,
+      payment_status = CASE
+        WHEN refunded_amount + v_refund.amount >= total THEN 'refunded'
+        ELSE payment_status
+      END,
+      updated_at = now()
+  WHERE id = v_order.id;
+
+  -- Take the items back off earnings the vendor has already been credited with; orders that
+  -- are not delivered yet leave refunded items out when they are credited
+  IF EXISTS (
+    SELECT 1 FROM vendor_earnings
+    WHERE order_id = v_order.id AND entry_type = 'order'
+  ) THEN
+    SELECT
+      coalesce(sum(ri.amount), 0),
+      coalesce(sum(round(ri.amount * get_commission_rate(v_order.vendor_id, p.category_id) / 100, 2)), 0)
+    INTO v_gross, v_commission
+    FROM refund_items ri
+    JOIN order_items oi ON oi.id = ri.order_item_id
+    LEFT JOIN products p ON p.id = oi.product_id
+    WHERE ri.refund_id = p_refund_id;
+
+    IF v_gross > 0 THEN
+      INSERT INTO vendor_earnings (
+        vendor_id, order_id, refund_id, entry_type, gross_amount, commission_amount, net_amount, description
+      ) VALUES (
+        v_order.vendor_id, v_order.id, v_refund.id, 'refund', -v_gross, -v_commission, -(v_gross - v_commission),
+        'Refund ' || v_refund.refund_number || ' for order ' || v_order.order_number
+      );
+    END IF;
+  END IF;
+
+  RETURN v_refund;
+END;
+$$;
+
+-- Record a refund that could not be made
+CREATE OR REPLACE FUNCTION fail_refund(
+  p_refund_id uuid,
+  p_reason text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_refund FROM refunds WHERE id = p_refund_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status = 'completed' THEN
+    RAISE EXCEPTION 'Refund % has already been completed', v_refund.refund_number;
+  END IF;
+
+  UPDATE refunds
+  SET status = 'failed',
+      failure_reason = coalesce(failure_reason, p_reason),
+      updated_at = now()
+  WHERE id = p_refund_id
+  RETURNING * INTO v_refund;
+
+  RETURN jsonb_build_object('success', true, 'status', v_refund.status);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+-- Admin or the order's vendor refunds an order
+CREATE OR REPLACE FUNCTION create_refund(
+  p_order_id uuid,
+  p_destination text,
+  p_reason text,
+  p_items jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+  v_refund refunds%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_order.vendor_id IS DISTINCT FROM v_user_id AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_status <> 'completed' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  v_refund := record_refund(
+    p_order_id,
+    CASE WHEN p_items IS NULL THEN 'full' ELSE 'partial' END,
+    p_destination,
+    p_reason,
+    v_user_id,
+    p_items
+  );
+
+  IF v_refund.destination = 'wallet' THEN
+    v_refund := complete_refund(v_refund.id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'refund', to_jsonb(v_refund));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+-- Paystack accepted the refund; it completes when refund.processed arrives
+CREATE OR REPLACE FUNCTION start_paystack_refund(
+  p_refund_id uuid,
+  p_provider_refund_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund refunds%ROWTYPE;
+BEGIN
+  UPDATE refunds
+  SET status = 'processing',
+      provider_refund_id = p_provider_refund_id,
+      updated_at = now()
+  WHERE id = p_refund_id AND destination = 'paystack' AND status = 'pending'
+  RETURNING * INTO v_refund;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending Paystack refund not found';
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'refund', to_jsonb(v_refund));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+-- Settle a Paystack refund from its webhook; repeated deliveries are harmless.
+-- Refunds whose Paystack id was never saved are matched on transaction and amount.
+CREATE OR REPLACE FUNCTION settle_paystack_refund(
+  p_provider_refund_id text,
+  p_succeeded boolean,
+  p_reason text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL,
+  p_amount numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_refund refunds%ROWTYPE;
+  v_fail_result jsonb;
+BEGIN
+  SELECT * INTO v_refund
+  FROM refunds
+  WHERE provider_refund_id = p_provider_refund_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_refund
+    FROM refunds
+    WHERE destination = 'paystack'
+      AND status = 'pending'
+      AND provider_refund_id IS NULL
+      AND payment_reference = p_payment_reference
+      AND amount = p_amount
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Refund % not found', p_provider_refund_id;
+    END IF;
+
+    UPDATE refunds
+    SET provider_refund_id = p_provider_refund_id,
+        updated_at = now()
+    WHERE id = v_refund.id;
+  END IF;
+
+  IF v_refund.status IN ('completed', 'failed') THEN
+    RETURN jsonb_build_object('success', true, 'status', v_refund.status, 'already_processed', true);
+  END IF;
+
+  IF p_succeeded THEN
+    v_refund := complete_refund(v_refund.id);
+  ELSE
+    v_fail_result := fail_refund(v_refund.id, coalesce(p_reason, 'Paystack could not complete the refund'));
+
+    IF NOT coalesce((v_fail_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', v_fail_result->>'error';
+    END IF;
+
+    v_refund.status := 'failed';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', v_refund.status,
+    'refund_number', v_refund.refund_number,
+    'already_processed', false
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+-- Cancel an order and refund what the customer paid and has not had back yet
+CREATE OR REPLACE FUNCTION cancel_order_with_refund(
+  p_order_id uuid,
+  p_reason text,
+  p_cancelled_by uuid
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_refund refunds%ROWTYPE;
+  v_outstanding numeric;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.status IN ('delivered', 'cancelled') THEN
+    RAISE EXCEPTION 'This order can no longer be cancelled';
+  END IF;
+
+  SELECT v_order.total - coalesce(sum(amount), 0) INTO v_outstanding
+  FROM refunds
+  WHERE order_id = p_order_id AND status <> 'failed';
+
+  IF v_order.payment_status = 'completed'
+    AND v_order.payment_method IN ('wallet', 'online')
+    AND v_outstanding > 0 THEN
+    v_refund := record_refund(
+      p_order_id,
+      'cancellation',
+      'wallet',
+      coalesce(nullif(trim(p_reason), ''), 'Order cancelled'),
+      p_cancelled_by
+    );
+    PERFORM complete_refund(v_refund.id);
+  END IF;
+
+  UPDATE orders
+  SET status = 'cancelled',
+      cancellation_reason = p_reason,
+      cancelled_by = p_cancelled_by,
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Credit the vendor once an order is delivered and paid, leaving out refunded items
+CREATE OR REPLACE FUNCTION credit_vendor_earnings_on_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_gross numeric;
+  v_commission numeric;
+BEGIN
+  IF NEW.status <> 'delivered' OR NEW.payment_status <> 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM vendor_earnings
+    WHERE order_id = NEW.id AND entry_type = 'order'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    coalesce(sum(kept.amount), 0),
+    coalesce(sum(round(kept.amount * get_commission_rate(NEW.vendor_id, kept.category_id) / 100, 2)), 0)
+  INTO v_gross, v_commission
+  FROM (
+    SELECT
+      oi.subtotal - coalesce((
+        SELECT sum(ri.amount)
+        FROM refund_items ri
+        JOIN refunds r ON r.id = ri.refund_id
+        WHERE ri.order_item_id = oi.id AND r.status = 'completed'
+      ), 0) AS amount,
+      p.category_id
+    FROM order_items oi
+    LEFT JOIN products p ON p.id = oi.product_id
+    WHERE oi.order_id = NEW.id
+  ) kept;
+
+  IF v_gross <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO vendor_earnings (
+    vendor_id, order_id, entry_type, gross_amount, commission_amount, net_amount, description
+  ) VALUES (
+    NEW.vendor_id, NEW.id, 'order', v_gross, v_commission, v_gross - v_commission,
+    'Earnings for order ' || NEW.order_number
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Balance summary for a vendor (the vendor themself or an admin)
+CREATE OR REPLACE FUNCTION get_vendor_balance(p_vendor_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id uuid := coalesce(p_vendor_id, auth.uid());
+  v_gross numeric;
+  v_refunds numeric;
+  v_commission numeric;
+  v_earned numeric;
+  v_paid_out numeric;
+  v_pending numeric;
+BEGIN
+  IF v_vendor_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Not allowed to view this balance';
+  END IF;
+
+  SELECT
+    coalesce(sum(gross_amount) FILTER (WHERE entry_type = 'order'), 0),
+    coalesce(-sum(gross_amount) FILTER (WHERE entry_type = 'refund'), 0),
+    coalesce(sum(commission_amount) FILTER (WHERE entry_type IN ('order', 'refund')), 0),
+    coalesce(sum(net_amount) FILTER (WHERE entry_type IN ('order', 'refund')), 0),
+    coalesce(-sum(net_amount) FILTER (WHERE entry_type = 'payout'), 0)
+  INTO v_gross, v_refunds, v_commission, v_earned, v_paid_out
+  FROM vendor_earnings
+  WHERE vendor_id = v_vendor_id;
+
+  SELECT coalesce(sum(amount), 0) INTO v_pending
+  FROM vendor_payouts
+  WHERE vendor_id = v_vendor_id AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'gross_sales', v_gross,
+    'refunds', v_refunds,
+    'commission', v_commission,
+    'earned', v_earned,
+    'paid_out', v_paid_out,
+    'pending_payouts', v_pending,
+    'available', v_earned - v_paid_out - v_pending
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_refund(uuid, text, text, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_refund(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_refund(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION start_paystack_refund(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_paystack_refund(text, boolean, text, text, numeric) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fail_refund(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION start_paystack_refund(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION settle_paystack_refund(text, boolean, text, text, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION create_refund(uuid, text, text, jsonb) TO authenticated;
@@ -0,0 +1,12 @@
+/*
+  # Add Rider Role
+
+  1. Changes
+    - Add 'rider' value to the user_role enum type for dispatch riders who deliver orders
+
+  2. Notes
+    - Kept in its own migration because a new enum value cannot be used in the
+      transaction that adds it; rider assignment follows in the next migration
+*/
+
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'rider';
@@ -0,0 +1,327 @@
+/*
+  # Assign Dispatch Riders to Delivery Orders
+
+  1. Changes to Existing Tables
+    - `profiles`
+      - `vehicle_type` (text, optional) - motorcycle, bicycle, car or van, set during rider onboarding
+      - `vehicle_plate_number` (text, optional)
+    - `orders`
+      - `rider_id` (uuid, foreign key to profiles, optional) - Rider delivering the order
+      - `rider_assigned_at` (timestamp, optional)
+
+  2. Functions
+    - `validate_order_rider` - BEFORE UPDATE trigger on orders:
+      - only riders can be assigned, only to delivery orders that are not delivered or cancelled
+      - sets `rider_assigned_at` whenever the rider changes
+      - a delivery order can only be marked delivered by its assigned rider (admins and
+        system changes are exempt), however the update is made
+    - `update_order_status` - Now also lets the assigned rider mark the order picked up
+      (`out_for_delivery`) or `delivered`
+    - `assign_order_rider` - Vendor/admin entry point assigning or removing (null) a rider
+    - `get_available_riders` - Riders a vendor or admin can assign, with their active delivery count
+    - `is_rider_viewing_customer` / `is_viewing_order_rider` - Policy helpers
+
+  3. Security
+    - Riders can view the orders assigned to them, their items, the customers they deliver to
+      and the stores they pick up from
+    - Customers and vendors can view the rider of their orders
+    - `assign_order_rider` and `get_available_riders` check the caller themselves
+
+  4. Notes
+    - Pickup orders are still completed by the vendor
+    - Delivery orders already out for delivery need a rider assigned (or an admin) to be completed
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'vehicle_type'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN vehicle_type text
+      CHECK (vehicle_type IN ('motorcycle', 'bicycle', 'car', 'van'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'vehicle_plate_number'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN vehicle_plate_number text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'rider_id'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN rider_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'rider_assigned_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN rider_assigned_at timestamptz;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_rider_id ON orders(rider_id, status) WHERE rider_id IS NOT NULL;
+
+-- Policy helpers (SECURITY DEFINER so the profiles policies do not recurse through orders)
+CREATE OR REPLACE FUNCTION is_rider_viewing_customer(p_customer_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM orders o
+    WHERE o.customer_id = p_customer_id
+      AND o.rider_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_viewing_order_rider(p_rider_id uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM orders o
+    WHERE o.rider_id = p_rider_id
+      AND (o.customer_id = auth.uid() OR o.vendor_id = auth.uid())
+  );
+$$;
+
+CREATE POLICY "Riders can view assigned orders"
+  ON orders FOR SELECT
+  TO authenticated
+  USING (rider_id = auth.uid());
+
+CREATE POLICY "Riders can view items of assigned orders"
+  ON order_items FOR SELECT
+  TO authenticated
+  USING (
+    order_id IN (
+      SELECT id FROM orders WHERE rider_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Riders can view their delivery customers"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_rider_viewing_customer(id));
+
+CREATE POLICY "Users can view the riders of their orders"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (is_viewing_order_rider(id));
+
+CREATE POLICY "Riders can view stores they pick up from"
+  ON vendors FOR SELECT
+  TO authenticated
+  USING (
+    user_id IN (
+      SELECT vendor_id FROM orders WHERE rider_id = auth.uid()
+    )
+  );
+
+-- Rider assignment and delivery rules, whoever makes the update
+CREATE OR REPLACE FUNCTION validate_order_rider()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid;
+BEGIN
+  IF NEW.rider_id IS DISTINCT FROM OLD.rider_id THEN
+    IF OLD.status IN ('delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Cannot change the rider of a % order', OLD.status;
+    END IF;
+
+    IF NEW.rider_id IS NOT NULL THEN
+      IF NEW.delivery_type <> 'delivery' THEN
+        RAISE EXCEPTION 'Only delivery orders can be assigned a rider';
+      END IF;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = NEW.rider_id
+          AND role = 'rider'
+          AND NOT coalesce(is_suspended, false)
+      ) THEN
+        RAISE EXCEPTION 'Rider not found';
+      END IF;
+    END IF;
+
+    NEW.rider_assigned_at := CASE WHEN NEW.rider_id IS NULL THEN NULL ELSE now() END;
+  END IF;
+
+  IF NEW.status = 'delivered'
+    AND OLD.status IS DISTINCT FROM 'delivered'
+    AND NEW.delivery_type = 'delivery' THEN
+    v_actor := coalesce(
+      nullif(current_setting('app.order_status_changed_by', true), '')::uuid,
+      auth.uid()
+    );
+
+    IF v_actor IS NOT NULL
+      AND v_actor IS DISTINCT FROM NEW.rider_id
+      AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_actor AND role = 'admin') THEN
+      IF NEW.rider_id IS NULL THEN
+        RAISE EXCEPTION 'Assign a rider to deliver this order';
+      END IF;
+
+      RAISE EXCEPTION 'Only the assigned rider can mark this order delivered';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_validate_order_rider ON orders;
+
+CREATE TRIGGER trigger_validate_order_rider
+  BEFORE UPDATE OF rider_id, status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_order_rider();
+
+-- Vendor, admin or the assigned rider changes an order's status
+CREATE OR REPLACE FUNCTION update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  IF NOT FOUND OR (
+    v_order.vendor_id IS DISTINCT FROM v_user_id
+    AND v_order.rider_id IS DISTINCT FROM v_user_id
+    AND NOT is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Riders only pick orders up and deliver them
+  IF v_order.rider_id = v_user_id
+    AND v_order.vendor_id IS DISTINCT FROM v_user_id
+    AND NOT is_admin()
+    AND coalesce(p_status, '') NOT IN ('out_for_delivery', 'delivered') THEN
+    RAISE EXCEPTION 'Riders can only mark orders picked up or delivered';
+  END IF;
+
+  v_order := set_order_status(p_order_id, p_status, v_user_id, p_note);
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_order_status(uuid, text, text) TO authenticated;
+
+-- Vendor or admin assigns a rider to an order, or removes it with a null rider
+CREATE OR REPLACE FUNCTION assign_order_rider(
+  p_order_id uuid,
+  p_rider_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR (v_order.vendor_id IS DISTINCT FROM v_user_id AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  UPDATE orders
+  SET rider_id = p_rider_id,
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_order_rider(uuid, uuid) TO authenticated;
+
+-- Riders a vendor or admin can assign, least busy first
+CREATE OR REPLACE FUNCTION get_available_riders()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_riders jsonb;
+BEGIN
+  IF NOT is_admin() AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'vendor'
+  ) THEN
+    RAISE EXCEPTION 'Only vendors and admins can assign riders';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(r ORDER BY r.active_deliveries, r.full_name), '[]'::jsonb)
+  INTO v_riders
+  FROM (
+    SELECT
+      p.id,
+      p.full_name,
+      p.phone,
+      p.vehicle_type,
+      p.vehicle_plate_number,
+      (
+        SELECT count(*)
+        FROM orders o
+        WHERE o.rider_id = p.id
+          AND o.status NOT IN ('delivered', 'cancelled')
+      ) AS active_deliveries
+    FROM profiles p
+    WHERE p.role = 'rider'
+      AND NOT coalesce(p.is_suspended, false)
+  ) r;
+
+  RETURN jsonb_build_object('success', true, 'riders', v_riders);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_available_riders() TO authenticated;
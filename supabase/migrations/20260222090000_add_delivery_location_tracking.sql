@@ -0,0 +1,96 @@
+/*
+  # Live Delivery Location Tracking
+
+  1. Changes to Existing Tables
+    - `orders`
+      - `delivery_latitude` (decimal, optional) - Coordinates of the delivery address, used for the ETA
+      - `delivery_longitude` (decimal, optional)
+
+  2. New Tables
+    - `delivery_locations` - Location pings shared by whoever is delivering an order
+      - `id` (uuid, primary key)
+      - `order_id` (uuid, foreign key to orders)
+      - `reported_by` (uuid, foreign key to profiles) - Rider delivering the order
+      - `latitude` / `longitude` (decimal)
+      - `accuracy_m` (numeric, optional) - Reported accuracy in metres
+      - `heading` (numeric, optional) - Degrees from north
+      - `speed_mps` (numeric, optional) - Metres per second
+      - `recorded_at` (timestamp) - When the position was taken on the device
+
+  3. Security
+    - Enable RLS on `delivery_locations`
+    - The customer, vendor and rider of an order (and admins) can view its pings
+    - Pings can only be added by the order's assigned rider while it is out for delivery
+    - Pings cannot be changed or removed by users
+
+  4. Notes
+    - Vendor staff who deliver their own orders do so as riders assigned to the order
+    - `delivery_locations` is added to the realtime publication so the tracking screen
+      receives pings as they are recorded
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_latitude'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_latitude decimal(10, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_longitude'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_longitude decimal(11, 8);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS delivery_locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  reported_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  latitude decimal(10, 8) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude decimal(11, 8) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  accuracy_m numeric CHECK (accuracy_m IS NULL OR accuracy_m >= 0),
+  heading numeric,
+  speed_mps numeric CHECK (speed_mps IS NULL OR speed_mps >= 0),
+  recorded_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_delivery_locations_order ON delivery_locations(order_id, recorded_at DESC);
+
+ALTER TABLE delivery_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order participants can view delivery locations"
+  ON delivery_locations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_locations.order_id
+      AND (
+        orders.customer_id = auth.uid()
+        OR orders.vendor_id = auth.uid()
+        OR orders.rider_id = auth.uid()
+      )
+    )
+    OR is_admin()
+  );
+
+CREATE POLICY "Riders can share locations for orders out for delivery"
+  ON delivery_locations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    reported_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = delivery_locations.order_id
+      AND orders.status = 'out_for_delivery'
+      AND orders.delivery_type = 'delivery'
+      AND orders.rider_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE delivery_locations;
@@ -0,0 +1,283 @@
+/*
+  # Proof of Delivery
+
+  1. Changes to Existing Tables
+    - `orders`
+      - `delivery_confirmed_at` (timestamp, optional) - When the rider entered the customer's delivery code
+      - `delivery_confirmed_by` (uuid, foreign key to profiles, optional)
+      - `delivery_photo_path` (text, optional) - Photo taken at handover, in the `delivery-photos` bucket
+
+  2. New Tables
+    - `order_delivery_codes` - The 4-digit code the customer gives the rider on handover
+      - `order_id` (uuid, primary key, foreign key to orders)
+      - `code` (text) - Four digits
+      - `failed_attempts` (integer) - Incorrect codes entered so far
+      - `created_at` (timestamp)
+
+  3. Storage
+    - Private `delivery-photos` bucket, one folder per order id
+
+  4. Functions
+    - `create_order_delivery_code` - Trigger giving every delivery order a code
+    - `confirm_delivery` - Rider entry point: checks the code, stores the photo and marks the order delivered
+    - `validate_order_rider` - The assigned rider can now only complete a delivery through `confirm_delivery`
+
+  5. Security
+    - Enable RLS on `order_delivery_codes`; only the customer (and admins) can read the code,
+      so the rider has to get it from them at the door
+    - Riders can upload photos for orders they are delivering; the order's customer, vendor,
+      rider and admins can view them
+
+  6. Notes
+    - After 5 incorrect codes the order is locked and an admin has to complete it
+    - Admins and system changes can still mark delivery orders delivered without a code
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_confirmed_at'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_confirmed_at timestamptz;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_confirmed_by'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_confirmed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'delivery_photo_path'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN delivery_photo_path text;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS order_delivery_codes (
+  order_id uuid PRIMARY KEY REFERENCES orders(id) ON DELETE CASCADE,
+  code text NOT NULL CHECK (code ~ '^[0-9]{4}$'),
+  failed_attempts integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE order_delivery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view delivery codes for their orders"
+  ON order_delivery_codes FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_delivery_codes.order_id
+      AND orders.customer_id = auth.uid()
+    )
+    OR is_admin()
+  );
+
+CREATE OR REPLACE FUNCTION create_order_delivery_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.delivery_type = 'delivery' THEN
+    INSERT INTO order_delivery_codes (order_id, code)
+    VALUES (NEW.id, lpad(floor(random() * 10000)::int::text, 4, '0'))
+    ON CONFLICT (order_id) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_create_order_delivery_code ON orders;
+
+CREATE TRIGGER trigger_create_order_delivery_code
+  AFTER INSERT OR UPDATE OF delivery_type ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION create_order_delivery_code();
+
+-- Delivery orders still on their way get a code too
+INSERT INTO order_delivery_codes (order_id, code)
+SELECT id, lpad(floor(random() * 10000)::int::text, 4, '0')
+FROM orders
+WHERE delivery_type = 'delivery'
+  AND status NOT IN ('delivered', 'cancelled')
+ON CONFLICT (order_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION validate_order_rider()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid;
+BEGIN
+  IF NEW.rider_id IS DISTINCT FROM OLD.rider_id THEN
+    IF OLD.status IN ('delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Cannot change the rider of a % order', OLD.status;
+    END IF;
+
+    IF NEW.rider_id IS NOT NULL THEN
+      IF NEW.delivery_type <> 'delivery' THEN
+        RAISE EXCEPTION 'Only delivery orders can be assigned a rider';
+      END IF;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = NEW.rider_id
+          AND role = 'rider'
+          AND NOT coalesce(is_suspended, false)
+      ) THEN
+        RAISE EXCEPTION 'Rider not found';
+      END IF;
+    END IF;
+
+    NEW.rider_assigned_at := CASE WHEN NEW.rider_id IS NULL THEN NULL ELSE now() END;
+  END IF;
+
+  IF NEW.status = 'delivered'
+    AND OLD.status IS DISTINCT FROM 'delivered'
+    AND NEW.delivery_type = 'delivery' THEN
+    v_actor := coalesce(
+      nullif(current_setting('app.order_status_changed_by', true), '')::uuid,
+      auth.uid()
+    );
+
+    IF v_actor IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_actor AND role = 'admin') THEN
+      IF v_actor IS DISTINCT FROM NEW.rider_id THEN
+        IF NEW.rider_id IS NULL THEN
+          RAISE EXCEPTION 'Assign a rider to deliver this order';
+        END IF;
+
+        RAISE EXCEPTION 'Only the assigned rider can mark this order delivered';
+      END IF;
+
+      IF NEW.delivery_confirmed_at IS NULL THEN
+        RAISE EXCEPTION 'Enter the delivery code from the customer to complete this order';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Assigned rider completes a delivery with the customer's code and an optional photo
+CREATE OR REPLACE FUNCTION confirm_delivery(
+  p_order_id uuid,
+  p_code text,
+  p_photo_path text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+  v_code order_delivery_codes%ROWTYPE;
+  v_max_attempts constant integer := 5;
+BEGIN
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.rider_id IS DISTINCT FROM v_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF v_order.status <> 'out_for_delivery' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Mark the order picked up before delivering it');
+  END IF;
+
+  SELECT * INTO v_code FROM order_delivery_codes WHERE order_id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This order has no delivery code. Contact support to complete it');
+  END IF;
+
+  IF v_code.failed_attempts >= v_max_attempts THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Too many incorrect codes. Contact support to complete this delivery'
+    );
+  END IF;
+
+  IF p_code IS DISTINCT FROM v_code.code THEN
+    UPDATE order_delivery_codes
+    SET failed_attempts = failed_attempts + 1
+    WHERE order_id = p_order_id;
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Incorrect delivery code',
+      'attempts_remaining', v_max_attempts - v_code.failed_attempts - 1
+    );
+  END IF;
+
+  IF p_photo_path IS NOT NULL AND p_photo_path NOT LIKE p_order_id::text || '/%' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid delivery photo');
+  END IF;
+
+  UPDATE orders
+  SET delivery_confirmed_at = now(),
+      delivery_confirmed_by = v_user_id,
+      delivery_photo_path = p_photo_path
+  WHERE id = p_order_id;
+
+  PERFORM set_order_status(p_order_id, 'delivered', v_user_id, 'Delivery code confirmed');
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION confirm_delivery(uuid, text, text) TO authenticated;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('delivery-photos', 'delivery-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Riders can upload photos for their deliveries"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'delivery-photos' AND
+  EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id::text = (storage.foldername(name))[1]
+    AND orders.rider_id = auth.uid()
+    AND orders.status = 'out_for_delivery'
+  )
+);
+
+CREATE POLICY "Order participants can view delivery photos"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'delivery-photos' AND (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id::text = (storage.foldername(name))[1]
+      AND (
+        orders.customer_id = auth.uid()
+        OR orders.vendor_id = auth.uid()
+        OR orders.rider_id = auth.uid()
+      )
+    )
+    OR is_admin()
+  )
+);
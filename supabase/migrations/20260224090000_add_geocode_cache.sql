@@ -0,0 +1,39 @@
+/*
+  # Geocode Cache
+
+  1. New Tables
+    - `geocode_cache` - Coordinates looked up for delivery addresses by the calculate-distance function
+      - `normalized_address` (text, primary key) - Lowercased address with punctuation and extra spaces removed
+      - `address` (text) - Address as it was first looked up
+      - `latitude` / `longitude` (decimal)
+      - `formatted_address` (text, optional) - Address as the provider knows it
+      - `provider` (text) - Provider that resolved it (google or osm)
+      - `hit_count` (integer) - Times the entry has been reused
+      - `created_at` / `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `geocode_cache`
+    - Only the service role (the edge function) reads and writes entries; admins can view them
+
+  3. Notes
+    - Entries older than the function's cache lifetime are looked up again and overwritten
+*/
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  normalized_address text PRIMARY KEY,
+  address text NOT NULL,
+  latitude decimal(10, 8) NOT NULL,
+  longitude decimal(11, 8) NOT NULL,
+  formatted_address text,
+  provider text NOT NULL CHECK (provider IN ('google', 'osm')),
+  hit_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view geocode cache"
+  ON geocode_cache FOR SELECT
+  TO authenticated
+  USING (is_admin());
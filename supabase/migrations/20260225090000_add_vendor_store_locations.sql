@@ -0,0 +1,352 @@
+/*
+  # Per-Vendor Store Locations
+
+  1. Changes to `vendors`
+    - `latitude` / `longitude` (decimal, optional) - Store location pinned by the vendor; delivery
+      distances are measured from here
+
+  2. Changes to `place_order`
+    - New `p_vendor_distances` (jsonb) - Delivery distance in km from each vendor's store, keyed by
+      vendor id. `p_distance_km` is still used for vendors missing from it
+    - Each vendor order is charged the delivery fee for its own distance instead of an equal share
+      of one fee; the checkout group's fee is their sum
+    - Addresses beyond a vendor's `vendor_settings.delivery_radius` are rejected
+    - New `p_delivery_latitude` / `p_delivery_longitude` are stored on delivery orders
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'latitude'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN latitude decimal(10, 8);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'vendors' AND column_name = 'longitude'
+  ) THEN
+    ALTER TABLE vendors ADD COLUMN longitude decimal(11, 8);
+  END IF;
+END $$;
+
+DROP FUNCTION IF EXISTS place_order(text, text, text, numeric, text, text);
+
+CREATE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_distance_km numeric DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL,
+  p_vendor_distances jsonb DEFAULT NULL,
+  p_delivery_latitude numeric DEFAULT NULL,
+  p_delivery_longitude numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_line record;
+  v_vendor record;
+  v_vendor_count integer;
+  v_vendor_index integer := 0;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_vendor_fees jsonb := '{}'::jsonb;
+  v_vendor_fee numeric;
+  v_distance numeric;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_fee_share numeric;
+  v_discount_share numeric;
+  v_discount_allocated numeric := 0;
+  v_promo promotions%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_orders jsonb := '[]'::jsonb;
+  v_stamp text;
+  v_payment_status text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(p_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  IF p_payment_method = 'online' AND coalesce(trim(p_payment_reference), '') = '' THEN
+    RAISE EXCEPTION 'Online payments must be started from the payment page';
+  END IF;
+
+  IF p_payment_reference IS NOT NULL AND EXISTS (
+    SELECT 1 FROM checkout_groups WHERE payment_reference = p_payment_reference
+  ) THEN
+    RAISE EXCEPTION 'Payment reference already used';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.is_available,
+      p.stock_quantity - p.reserved_quantity AS available_quantity,
+      c.quantity,
+      CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+  LOOP
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.available_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', greatest(v_line.available_quantity, 0), v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT count(DISTINCT p.vendor_id) INTO v_vendor_count
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_customer_id;
+
+  -- Each vendor delivers from its own store: its fee comes from the distance band covering the
+  -- address as measured from that store, and the address must be inside its delivery radius
+  IF p_delivery_type = 'delivery' THEN
+    FOR v_vendor IN
+      SELECT DISTINCT p.vendor_id, v.business_name, vs.delivery_radius
+      FROM carts c
+      JOIN products p ON p.id = c.product_id
+      LEFT JOIN vendors v ON v.user_id = p.vendor_id
+      LEFT JOIN vendor_settings vs ON vs.vendor_id = v.id
+      WHERE c.user_id = v_customer_id
+    LOOP
+      v_distance := coalesce((p_vendor_distances->>v_vendor.vendor_id::text)::numeric, p_distance_km);
+
+      IF v_distance IS NULL THEN
+        RAISE EXCEPTION 'Delivery distance could not be determined';
+      END IF;
+
+      IF v_vendor.delivery_radius IS NOT NULL AND v_distance > v_vendor.delivery_radius THEN
+        RAISE EXCEPTION '% only delivers within % km of the store',
+          coalesce(v_vendor.business_name, 'This vendor'), trim_scale(v_vendor.delivery_radius);
+      END IF;
+
+      SELECT price INTO v_vendor_fee
+      FROM delivery_zones
+      WHERE is_active = true
+        AND v_distance >= min_distance_km
+        AND v_distance <= max_distance_km
+      ORDER BY min_distance_km
+      LIMIT 1;
+
+      IF NOT FOUND OR v_vendor_fee IS NULL OR v_vendor_fee <= 0 THEN
+        RAISE EXCEPTION 'No delivery zone covers your location';
+      END IF;
+
+      v_vendor_fees := v_vendor_fees || jsonb_build_object(v_vendor.vendor_id::text, v_vendor_fee);
+      v_delivery_fee := v_delivery_fee + v_vendor_fee;
+    END LOOP;
+  END IF;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_stamp := floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text;
+  -- Online payments stay pending until Paystack confirms the charge
+  v_payment_status := CASE WHEN p_payment_method = 'wallet' THEN 'completed' ELSE 'pending' END;
+
+  INSERT INTO checkout_groups (
+    customer_id, group_number, subtotal, delivery_fee, discount_amount, total,
+    promo_code, promo_id, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, 'CHK-' || v_stamp, v_subtotal, v_delivery_fee, v_discount, v_total,
+    v_promo.code, v_promo.id, p_payment_method, v_payment_status, p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  -- One order per vendor carrying its own delivery fee; the last vendor absorbs discount rounding
+  FOR v_vendor IN
+    SELECT
+      p.vendor_id,
+      sum(
+        CASE
+          WHEN p.discount_active AND p.discount_percentage > 0
+            THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+          ELSE p.price
+        END * c.quantity
+      ) AS subtotal
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+    GROUP BY p.vendor_id
+    ORDER BY p.vendor_id
+  LOOP
+    v_vendor_index := v_vendor_index + 1;
+    v_fee_share := coalesce((v_vendor_fees->>v_vendor.vendor_id::text)::numeric, 0);
+
+    IF v_vendor_index = v_vendor_count THEN
+      v_discount_share := v_discount - v_discount_allocated;
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount_share := v_fee_share;
+    ELSIF v_subtotal > 0 THEN
+      v_discount_share := round(v_discount * v_vendor.subtotal / v_subtotal, 2);
+    ELSE
+      v_discount_share := 0;
+    END IF;
+
+    v_discount_allocated := v_discount_allocated + v_discount_share;
+
+    INSERT INTO orders (
+      customer_id, vendor_id, checkout_group_id, order_number, subtotal, delivery_fee,
+      discount_amount, promo_code, promo_id, total, delivery_type,
+      delivery_address, delivery_latitude, delivery_longitude,
+      status, payment_method, payment_status, payment_reference
+    ) VALUES (
+      v_customer_id, v_vendor.vendor_id, v_group.id,
+      CASE WHEN v_vendor_count = 1 THEN 'ORD-' || v_stamp ELSE 'ORD-' || v_stamp || '-' || v_vendor_index END,
+      v_vendor.subtotal, v_fee_share,
+      v_discount_share, v_promo.code, v_promo.id,
+      greatest(0, v_vendor.subtotal + v_fee_share - v_discount_share),
+      p_delivery_type,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_address ELSE 'N/A' END,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_latitude END,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_longitude END,
+      'pending', p_payment_method, v_payment_status, p_payment_reference
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order.id,
+      c.product_id,
+      c.quantity,
+      prices.unit_price,
+      prices.unit_price * c.quantity
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    ) prices
+    WHERE c.user_id = v_customer_id
+      AND p.vendor_id = v_vendor.vendor_id;
+
+    PERFORM reserve_order_stock(v_order.id, v_customer_id);
+
+    v_orders := v_orders || to_jsonb(v_order);
+  END LOOP;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      CASE
+        WHEN v_vendor_count = 1 THEN 'Payment for order ' || v_order.order_number
+        ELSE 'Payment for purchase ' || v_group.group_number
+      END,
+      'order',
+      v_group.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkout_group', to_jsonb(v_group),
+    'orders', v_orders
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, numeric, text, text, jsonb, numeric, numeric) TO authenticated;
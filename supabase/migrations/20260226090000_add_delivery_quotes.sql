@@ -0,0 +1,518 @@
+/*
+  # Server-Side Delivery Quotes
+
+  1. New Functions
+    - `calculate_delivery_quote` (internal) - Prices a delivery of a given distance with one set of
+      rules and returns an itemized quote:
+      - Deliveries beyond `delivery_pricing.max_delivery_distance_km`, or beyond the vendor's
+        `vendor_settings.delivery_radius` when a vendor is given, are not deliverable
+      - Base price: the flat price of the active `delivery_zones` band covering the distance;
+        outside every band, `default_base_price` plus `default_price_per_km` for the distance
+      - Adjustments: topped up to `min_delivery_charge`, then free when the order subtotal reaches
+        `free_delivery_threshold`
+      - Promo: a valid `free_delivery` promo code takes the remaining fee off. Percentage and fixed
+        amount promos apply to the order subtotal, not to delivery
+    - `quote_delivery` - Client entry point: returns the quote and records it in `delivery_logs`
+      (action `calculate`)
+
+  2. Changes to `place_order`
+    - Each vendor's delivery fee comes from `calculate_delivery_quote` using the checkout subtotal,
+      so the free delivery threshold, minimum charge and maximum distance now apply to orders
+    - Distances no band covers are priced with the default rates instead of being rejected
+    - Each delivery order gets a `delivery_logs` row (action `order_placed`) with its quote
+*/
+
+CREATE OR REPLACE FUNCTION calculate_delivery_quote(
+  p_distance_km numeric,
+  p_order_subtotal numeric DEFAULT 0,
+  p_promo_code text DEFAULT NULL,
+  p_vendor_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pricing delivery_pricing%ROWTYPE;
+  v_zone delivery_zones%ROWTYPE;
+  v_promo promotions%ROWTYPE;
+  v_vendor record;
+  v_base_price numeric := 0;
+  v_distance_price numeric := 0;
+  v_fee numeric;
+  v_adjustments jsonb := '[]'::jsonb;
+  v_promotion_discount numeric := 0;
+BEGIN
+  IF p_distance_km IS NULL OR p_distance_km < 0 THEN
+    RAISE EXCEPTION 'Delivery distance could not be determined';
+  END IF;
+
+  SELECT * INTO v_pricing
+  FROM delivery_pricing
+  ORDER BY updated_at DESC NULLS LAST
+  LIMIT 1;
+
+  IF v_pricing.max_delivery_distance_km > 0 AND p_distance_km > v_pricing.max_delivery_distance_km THEN
+    RETURN jsonb_build_object(
+      'deliverable', false,
+      'distance_km', p_distance_km,
+      'reason', format('We only deliver within %s km', trim_scale(v_pricing.max_delivery_distance_km))
+    );
+  END IF;
+
+  IF p_vendor_id IS NOT NULL THEN
+    SELECT v.business_name, vs.delivery_radius INTO v_vendor
+    FROM vendors v
+    LEFT JOIN vendor_settings vs ON vs.vendor_id = v.id
+    WHERE v.user_id = p_vendor_id;
+
+    IF FOUND AND v_vendor.delivery_radius IS NOT NULL AND p_distance_km > v_vendor.delivery_radius THEN
+      RETURN jsonb_build_object(
+        'deliverable', false,
+        'distance_km', p_distance_km,
+        'reason', format('%s only delivers within %s km of the store',
+          coalesce(v_vendor.business_name, 'This vendor'), trim_scale(v_vendor.delivery_radius))
+      );
+    END IF;
+  END IF;
+
+  SELECT * INTO v_zone
+  FROM delivery_zones
+  WHERE is_active = true
+    AND p_distance_km >= min_distance_km
+    AND p_distance_km <= max_distance_km
+  ORDER BY min_distance_km
+  LIMIT 1;
+
+  IF FOUND THEN
+    v_base_price := v_zone.price;
+  ELSE
+    v_base_price := coalesce(v_pricing.default_base_price, 0);
+    v_distance_price := round(coalesce(v_pricing.default_price_per_km, 0) * p_distance_km, 2);
+  END IF;
+
+  v_fee := v_base_price + v_distance_price;
+
+  IF v_fee < coalesce(v_pricing.min_delivery_charge, 0) THEN
+    v_adjustments := v_adjustments || jsonb_build_object(
+      'type', 'min_delivery_charge',
+      'label', 'Minimum delivery charge',
+      'amount', v_pricing.min_delivery_charge - v_fee
+    );
+    v_fee := v_pricing.min_delivery_charge;
+  END IF;
+
+  IF coalesce(v_pricing.free_delivery_threshold, 0) > 0
+    AND coalesce(p_order_subtotal, 0) >= v_pricing.free_delivery_threshold
+    AND v_fee > 0
+  THEN
+    v_adjustments := v_adjustments || jsonb_build_object(
+      'type', 'free_delivery_threshold',
+      'label', format('Free delivery on orders of ₦%s or more', to_char(v_pricing.free_delivery_threshold, 'FM999999990.00')),
+      'amount', -v_fee
+    );
+    v_fee := 0;
+  END IF;
+
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+      AND now() BETWEEN valid_from AND valid_until
+      AND (usage_limit IS NULL OR coalesce(usage_count, 0) < usage_limit)
+      AND coalesce(min_order_amount, 0) <= coalesce(p_order_subtotal, 0);
+
+    IF FOUND AND v_promo.discount_type = 'free_delivery' THEN
+      v_promotion_discount := v_fee;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'deliverable', true,
+    'distance_km', p_distance_km,
+    'zone', CASE WHEN v_zone.id IS NOT NULL THEN jsonb_build_object('id', v_zone.id, 'name', v_zone.name) END,
+    'base_price', v_base_price,
+    'distance_price', v_distance_price,
+    'adjustments', v_adjustments,
+    'adjustment_amount', v_fee - v_base_price - v_distance_price,
+    'promo_code', v_promo.code,
+    'promotion_discount', v_promotion_discount,
+    'final_price', greatest(0, v_fee - v_promotion_discount)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION calculate_delivery_quote(numeric, numeric, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Quote shown to the customer before ordering; every quote is logged
+CREATE OR REPLACE FUNCTION quote_delivery(
+  p_distance_km numeric,
+  p_order_subtotal numeric DEFAULT 0,
+  p_promo_code text DEFAULT NULL,
+  p_vendor_id uuid DEFAULT NULL,
+  p_address_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_quote jsonb;
+  v_log_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to get a delivery quote';
+  END IF;
+
+  IF p_address_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM delivery_addresses WHERE id = p_address_id AND user_id = v_user_id
+  ) THEN
+    RAISE EXCEPTION 'Address not found';
+  END IF;
+
+  v_quote := calculate_delivery_quote(p_distance_km, p_order_subtotal, p_promo_code, p_vendor_id);
+
+  INSERT INTO delivery_logs (
+    user_id, address_id, action, details, zone_id, distance_km, base_price, distance_price,
+    promotion_discount, adjustment_amount, final_price
+  ) VALUES (
+    v_user_id, p_address_id, 'calculate', v_quote || jsonb_build_object('vendor_id', p_vendor_id),
+    (v_quote->'zone'->>'id')::uuid, p_distance_km,
+    (v_quote->>'base_price')::numeric, (v_quote->>'distance_price')::numeric,
+    coalesce((v_quote->>'promotion_discount')::numeric, 0),
+    coalesce((v_quote->>'adjustment_amount')::numeric, 0),
+    (v_quote->>'final_price')::numeric
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN jsonb_build_object('success', true, 'log_id', v_log_id) || v_quote;
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_delivery(numeric, numeric, text, uuid, uuid) TO authenticated;
+
+-- Delivery fees come from the shared quote
+CREATE OR REPLACE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_distance_km numeric DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL,
+  p_vendor_distances jsonb DEFAULT NULL,
+  p_delivery_latitude numeric DEFAULT NULL,
+  p_delivery_longitude numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_line record;
+  v_vendor record;
+  v_vendor_count integer;
+  v_vendor_index integer := 0;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_vendor_quotes jsonb := '{}'::jsonb;
+  v_quote jsonb;
+  v_distance numeric;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_fee_share numeric;
+  v_discount_share numeric;
+  v_discount_allocated numeric := 0;
+  v_promo promotions%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_orders jsonb := '[]'::jsonb;
+  v_stamp text;
+  v_payment_status text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(p_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  IF p_payment_method = 'online' AND coalesce(trim(p_payment_reference), '') = '' THEN
+    RAISE EXCEPTION 'Online payments must be started from the payment page';
+  END IF;
+
+  IF p_payment_reference IS NOT NULL AND EXISTS (
+    SELECT 1 FROM checkout_groups WHERE payment_reference = p_payment_reference
+  ) THEN
+    RAISE EXCEPTION 'Payment reference already used';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT
+      p.name,
+      p.is_available,
+      p.stock_quantity - p.reserved_quantity AS available_quantity,
+      c.quantity,
+      CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+  LOOP
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.available_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', greatest(v_line.available_quantity, 0), v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT count(DISTINCT p.vendor_id) INTO v_vendor_count
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  WHERE c.user_id = v_customer_id;
+
+  -- Each vendor delivers from its own store and is quoted for its own distance
+  IF p_delivery_type = 'delivery' THEN
+    FOR v_vendor IN
+      SELECT DISTINCT p.vendor_id
+      FROM carts c
+      JOIN products p ON p.id = c.product_id
+      WHERE c.user_id = v_customer_id
+    LOOP
+      v_distance := coalesce((p_vendor_distances->>v_vendor.vendor_id::text)::numeric, p_distance_km);
+      v_quote := calculate_delivery_quote(v_distance, v_subtotal, NULL, v_vendor.vendor_id);
+
+      IF NOT (v_quote->>'deliverable')::boolean THEN
+        RAISE EXCEPTION '%', v_quote->>'reason';
+      END IF;
+
+      v_vendor_quotes := v_vendor_quotes || jsonb_build_object(v_vendor.vendor_id::text, v_quote);
+      v_delivery_fee := v_delivery_fee + (v_quote->>'final_price')::numeric;
+    END LOOP;
+  END IF;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_stamp := floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text;
+  -- Online payments stay pending until Paystack confirms the charge
+  v_payment_status := CASE WHEN p_payment_method = 'wallet' THEN 'completed' ELSE 'pending' END;
+
+  INSERT INTO checkout_groups (
+    customer_id, group_number, subtotal, delivery_fee, discount_amount, total,
+    promo_code, promo_id, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, 'CHK-' || v_stamp, v_subtotal, v_delivery_fee, v_discount, v_total,
+    v_promo.code, v_promo.id, p_payment_method, v_payment_status, p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  -- One order per vendor carrying its own delivery fee; the last vendor absorbs discount rounding
+  FOR v_vendor IN
+    SELECT
+      p.vendor_id,
+      sum(
+        CASE
+          WHEN p.discount_active AND p.discount_percentage > 0
+            THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+          ELSE p.price
+        END * c.quantity
+      ) AS subtotal
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    WHERE c.user_id = v_customer_id
+    GROUP BY p.vendor_id
+    ORDER BY p.vendor_id
+  LOOP
+    v_vendor_index := v_vendor_index + 1;
+    v_quote := v_vendor_quotes->(v_vendor.vendor_id::text);
+    v_fee_share := coalesce((v_quote->>'final_price')::numeric, 0);
+
+    IF v_vendor_index = v_vendor_count THEN
+      v_discount_share := v_discount - v_discount_allocated;
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount_share := v_fee_share;
+    ELSIF v_subtotal > 0 THEN
+      v_discount_share := round(v_discount * v_vendor.subtotal / v_subtotal, 2);
+    ELSE
+      v_discount_share := 0;
+    END IF;
+
+    v_discount_allocated := v_discount_allocated + v_discount_share;
+
+    INSERT INTO orders (
+      customer_id, vendor_id, checkout_group_id, order_number, subtotal, delivery_fee,
+      discount_amount, promo_code, promo_id, total, delivery_type,
+      delivery_address, delivery_latitude, delivery_longitude,
+      status, payment_method, payment_status, payment_reference
+    ) VALUES (
+      v_customer_id, v_vendor.vendor_id, v_group.id,
+      CASE WHEN v_vendor_count = 1 THEN 'ORD-' || v_stamp ELSE 'ORD-' || v_stamp || '-' || v_vendor_index END,
+      v_vendor.subtotal, v_fee_share,
+      v_discount_share, v_promo.code, v_promo.id,
+      greatest(0, v_vendor.subtotal + v_fee_share - v_discount_share),
+      p_delivery_type,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_address ELSE 'N/A' END,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_latitude END,
+      CASE WHEN p_delivery_type = 'delivery' THEN p_delivery_longitude END,
+      'pending', p_payment_method, v_payment_status, p_payment_reference
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, quantity, unit_price, subtotal)
+    SELECT
+      v_order.id,
+      c.product_id,
+      c.quantity,
+      prices.unit_price,
+      prices.unit_price * c.quantity
+    FROM carts c
+    JOIN products p ON p.id = c.product_id
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN p.discount_active AND p.discount_percentage > 0
+          THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+        ELSE p.price
+      END AS unit_price
+    ) prices
+    WHERE c.user_id = v_customer_id
+      AND p.vendor_id = v_vendor.vendor_id;
+
+    PERFORM reserve_order_stock(v_order.id, v_customer_id);
+
+    IF v_quote IS NOT NULL THEN
+      INSERT INTO delivery_logs (
+        user_id, order_id, action, details, zone_id, distance_km, base_price, distance_price,
+        promotion_discount, adjustment_amount, final_price
+      ) VALUES (
+        v_customer_id, v_order.id, 'order_placed', v_quote,
+        (v_quote->'zone'->>'id')::uuid, (v_quote->>'distance_km')::numeric,
+        (v_quote->>'base_price')::numeric, (v_quote->>'distance_price')::numeric,
+        CASE WHEN v_promo.discount_type = 'free_delivery' THEN v_discount_share ELSE 0 END,
+        coalesce((v_quote->>'adjustment_amount')::numeric, 0),
+        CASE WHEN v_promo.discount_type = 'free_delivery' THEN 0 ELSE v_fee_share END
+      );
+    END IF;
+
+    v_orders := v_orders || to_jsonb(v_order);
+  END LOOP;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      CASE
+        WHEN v_vendor_count = 1 THEN 'Payment for order ' || v_order.order_number
+        ELSE 'Payment for purchase ' || v_group.group_number
+      END,
+      'order',
+      v_group.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkout_group', to_jsonb(v_group),
+    'orders', v_orders
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, numeric, text, text, jsonb, numeric, numeric) TO authenticated;
@@ -0,0 +1,245 @@
+/*
+  # Ranked Product Search
+
+  1. Extensions
+    - `pg_trgm` - Trigram matching so misspelled and partly typed words still find products
+
+  2. Changes to `products`
+    - `search_document` (tsvector) - Weighted full-text document: name, then category and store
+      name, then description
+    - `search_text` (text) - Name, category and store name for trigram matching
+    - Both are kept up to date by triggers on `products`, `categories` and `vendors`
+
+  3. New Functions
+    - `search_products` - One entry point for the home feed: text search ranked by relevance with
+      typo tolerance, category, price, rating, discount and stock filters, and price, rating or
+      newest sorting. Products of stores on vacation are left out
+
+  4. Removed Functions
+    - `get_vendors_on_vacation` - The home feed now leaves these stores out inside `search_products`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_document'
+  ) THEN
+    ALTER TABLE products ADD COLUMN search_document tsvector;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'search_text'
+  ) THEN
+    ALTER TABLE products ADD COLUMN search_text text;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION product_search_document(
+  p_name text,
+  p_description text,
+  p_category_name text,
+  p_business_name text
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english', coalesce(p_name, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(p_category_name, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(p_business_name, '')), 'B')
+    || setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_product_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_category_name text;
+  v_business_name text;
+BEGIN
+  SELECT name INTO v_category_name FROM categories WHERE id = NEW.category_id;
+  SELECT business_name INTO v_business_name FROM vendors WHERE user_id = NEW.vendor_id;
+
+  NEW.search_document := product_search_document(NEW.name, NEW.description, v_category_name, v_business_name);
+  NEW.search_text := lower(concat_ws(' ', NEW.name, v_category_name, v_business_name));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_product_search ON products;
+CREATE TRIGGER refresh_product_search
+  BEFORE INSERT OR UPDATE OF name, description, category_id, vendor_id ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_product_search();
+
+-- Renaming a category or store changes what its products can be found by
+CREATE OR REPLACE FUNCTION refresh_related_product_search()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE products p
+  SET
+    search_document = product_search_document(p.name, p.description, c.name, v.business_name),
+    search_text = lower(concat_ws(' ', p.name, c.name, v.business_name))
+  FROM categories c, vendors v
+  WHERE c.id = p.category_id
+    AND v.user_id = p.vendor_id
+    AND CASE TG_TABLE_NAME
+      WHEN 'categories' THEN p.category_id = NEW.id
+      ELSE p.vendor_id = NEW.user_id
+    END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_category_product_search ON categories;
+CREATE TRIGGER refresh_category_product_search
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION refresh_related_product_search();
+
+DROP TRIGGER IF EXISTS refresh_vendor_product_search ON vendors;
+CREATE TRIGGER refresh_vendor_product_search
+  AFTER UPDATE OF business_name ON vendors
+  FOR EACH ROW
+  WHEN (OLD.business_name IS DISTINCT FROM NEW.business_name)
+  EXECUTE FUNCTION refresh_related_product_search();
+
+UPDATE products p
+SET
+  search_document = product_search_document(
+    p.name,
+    p.description,
+    (SELECT name FROM categories WHERE id = p.category_id),
+    (SELECT business_name FROM vendors WHERE user_id = p.vendor_id)
+  ),
+  search_text = lower(concat_ws(
+    ' ',
+    p.name,
+    (SELECT name FROM categories WHERE id = p.category_id),
+    (SELECT business_name FROM vendors WHERE user_id = p.vendor_id)
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_products_search_document ON products USING gin(search_document);
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm ON products USING gin(search_text gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_min_price numeric DEFAULT NULL,
+  p_max_price numeric DEFAULT NULL,
+  p_min_rating numeric DEFAULT NULL,
+  p_on_sale boolean DEFAULT false,
+  p_in_stock boolean DEFAULT true,
+  p_sort text DEFAULT 'relevance',
+  p_limit integer DEFAULT 16,
+  p_offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query text := lower(trim(coalesce(p_query, '')));
+  v_tsquery tsquery;
+  v_sort text := coalesce(p_sort, 'relevance');
+  v_limit integer := least(greatest(coalesce(p_limit, 16), 1), 50);
+  v_products jsonb;
+  v_total bigint;
+BEGIN
+  IF v_sort NOT IN ('relevance', 'price_asc', 'price_desc', 'rating', 'newest') THEN
+    RAISE EXCEPTION 'Invalid sort option';
+  END IF;
+
+  -- Without a search term there is nothing to rank by
+  IF v_query = '' AND v_sort = 'relevance' THEN
+    v_sort := 'newest';
+  END IF;
+
+  v_tsquery := websearch_to_tsquery('english', v_query);
+
+  -- Loose enough for one or two typos in a word, e.g. "tomatoe" or "plaintain"
+  PERFORM set_config('pg_trgm.word_similarity_threshold', '0.45', true);
+
+  SELECT coalesce(jsonb_agg(page.product ORDER BY page.position), '[]'::jsonb), coalesce(max(page.total_count), 0)
+  INTO v_products, v_total
+  FROM (
+    SELECT
+      to_jsonb(p) - 'search_document' - 'search_text' AS product,
+      count(*) OVER () AS total_count,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN v_sort = 'relevance' THEN s.relevance END DESC,
+          CASE WHEN v_sort = 'price_asc' THEN s.unit_price END ASC,
+          CASE WHEN v_sort = 'price_desc' THEN s.unit_price END DESC,
+          CASE WHEN v_sort = 'rating' THEN p.rating END DESC,
+          p.created_at DESC,
+          p.id
+      ) AS position
+    FROM products p
+    JOIN vendors v ON v.user_id = p.vendor_id
+    LEFT JOIN vendor_settings vs ON vs.vendor_id = v.id
+    CROSS JOIN LATERAL (
+      SELECT
+        CASE
+          WHEN p.discount_active AND p.discount_percentage > 0
+            THEN round(p.price * (1 - p.discount_percentage / 100.0), 2)
+          ELSE p.price
+        END AS unit_price,
+        CASE
+          WHEN v_query = '' THEN 0
+          ELSE ts_rank_cd(p.search_document, v_tsquery) * 2 + word_similarity(v_query, p.search_text)
+        END AS relevance
+    ) s
+    WHERE p.is_available
+      AND (NOT coalesce(p_in_stock, true) OR p.stock_quantity - p.reserved_quantity > 0)
+      AND (p_category_id IS NULL OR p.category_id = p_category_id)
+      AND (p_min_price IS NULL OR s.unit_price >= p_min_price)
+      AND (p_max_price IS NULL OR s.unit_price <= p_max_price)
+      AND (p_min_rating IS NULL OR p.rating >= p_min_rating)
+      AND (NOT coalesce(p_on_sale, false) OR (p.discount_active AND p.discount_percentage > 0))
+      AND NOT (
+        coalesce(vs.is_on_vacation, false)
+        AND (vs.vacation_until IS NULL OR vs.vacation_until > (now() AT TIME ZONE vs.timezone)::date)
+      )
+      AND (
+        v_query = ''
+        OR p.search_document @@ v_tsquery
+        OR v_query <% p.search_text
+      )
+    ORDER BY position
+    LIMIT v_limit
+    OFFSET greatest(coalesce(p_offset, 0), 0)
+  ) page;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'products', v_products,
+    'total_count', v_total
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_products(text, uuid, numeric, numeric, numeric, boolean, boolean, text, integer, integer) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_vendors_on_vacation();
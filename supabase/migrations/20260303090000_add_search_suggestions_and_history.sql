@@ -0,0 +1,354 @@
+/*
+  # Search Suggestions, Recent Searches and Search Insights
+
+  1. New Tables
+    - `search_queries` - One row per search a customer runs, with how many products it found
+      - `user_id` (uuid, optional) - Who searched; kept empty once the account is deleted
+      - `query` (text) - What was typed
+      - `normalized_query` (text) - Lowercased, trimmed and single-spaced, used for grouping
+      - `result_count` (integer) - Products `search_products` found for it
+    - `recent_searches` - Each customer's last searches, synced with the copy kept on the device
+      - `user_id` (uuid) - Owner
+      - `query` (text) - What was typed, as shown in the list
+      - `normalized_query` (text) - One row per customer and query
+      - `searched_at` (timestamptz) - Last time it was searched
+
+  2. New Functions
+    - `normalize_search_query` - Shared normalization for both tables
+    - `record_search` - Logs a search, counts its results and moves it to the top of the
+      customer's recent searches
+    - `get_search_suggestions` - Product, category and store matches for partly typed queries
+    - `get_search_insights` - Admin report of the most searched and zero-result queries
+
+  3. Security
+    - Enable RLS on both tables
+    - Customers manage their own recent searches; only admins can read `search_queries`, which is
+      only written by `record_search`
+    - Each customer keeps at most 10 recent searches
+*/
+
+CREATE OR REPLACE FUNCTION normalize_search_query(p_query text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(trim(coalesce(p_query, '')), '\s+', ' ', 'g'));
+$$;
+
+CREATE TABLE IF NOT EXISTS search_queries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  query text NOT NULL,
+  normalized_query text NOT NULL,
+  result_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE search_queries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view search queries"
+  ON search_queries FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_created_at ON search_queries(created_at);
+CREATE INDEX IF NOT EXISTS idx_search_queries_normalized_query ON search_queries(normalized_query);
+
+CREATE TABLE IF NOT EXISTS recent_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  query text NOT NULL CHECK (length(trim(query)) > 0),
+  normalized_query text NOT NULL,
+  searched_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, normalized_query)
+);
+
+ALTER TABLE recent_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recent searches"
+  ON recent_searches FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can add own recent searches"
+  ON recent_searches FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own recent searches"
+  ON recent_searches FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own recent searches"
+  ON recent_searches FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_recent_searches_user_searched_at ON recent_searches(user_id, searched_at DESC);
+
+-- The device sends the query as typed; the key it is deduplicated on is always derived here
+CREATE OR REPLACE FUNCTION set_recent_search_normalized_query()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.query := trim(NEW.query);
+  NEW.normalized_query := normalize_search_query(NEW.query);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_recent_search_normalized_query ON recent_searches;
+CREATE TRIGGER set_recent_search_normalized_query
+  BEFORE INSERT OR UPDATE OF query ON recent_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION set_recent_search_normalized_query();
+
+CREATE OR REPLACE FUNCTION trim_recent_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM recent_searches
+  WHERE user_id = NEW.user_id
+    AND id NOT IN (
+      SELECT id FROM recent_searches
+      WHERE user_id = NEW.user_id
+      ORDER BY searched_at DESC
+      LIMIT 10
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trim_recent_searches ON recent_searches;
+CREATE TRIGGER trim_recent_searches
+  AFTER INSERT ON recent_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION trim_recent_searches();
+
+CREATE OR REPLACE FUNCTION record_search(p_query text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_query text := trim(coalesce(p_query, ''));
+  v_normalized text := normalize_search_query(p_query);
+  v_result_count integer;
+BEGIN
+  IF length(v_normalized) < 2 THEN
+    RAISE EXCEPTION 'Search term is too short';
+  END IF;
+
+  IF length(v_query) > 100 THEN
+    RAISE EXCEPTION 'Search term is too long';
+  END IF;
+
+  v_result_count := coalesce((search_products(v_query, p_limit => 1)->>'total_count')::integer, 0);
+
+  INSERT INTO search_queries (user_id, query, normalized_query, result_count)
+  VALUES (v_user_id, v_query, v_normalized, v_result_count);
+
+  IF v_user_id IS NOT NULL THEN
+    INSERT INTO recent_searches (user_id, query, searched_at)
+    VALUES (v_user_id, v_query, now())
+    ON CONFLICT (user_id, normalized_query)
+    DO UPDATE SET query = EXCLUDED.query, searched_at = EXCLUDED.searched_at;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'result_count', v_result_count
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_search(text) TO authenticated;
+
+-- Matches for the search box while typing. Products come from search_products so they are ranked
+-- and filtered the same way as the results page
+CREATE OR REPLACE FUNCTION get_search_suggestions(
+  p_query text,
+  p_limit integer DEFAULT 5
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query text := normalize_search_query(p_query);
+  v_limit integer := least(greatest(coalesce(p_limit, 5), 1), 10);
+  v_products jsonb;
+  v_categories jsonb;
+  v_stores jsonb;
+BEGIN
+  IF length(v_query) < 2 THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'products', '[]'::jsonb,
+      'categories', '[]'::jsonb,
+      'stores', '[]'::jsonb
+    );
+  END IF;
+
+  SELECT coalesce(jsonb_agg(
+    jsonb_build_object(
+      'id', p->>'id',
+      'name', p->>'name',
+      'image_url', p->>'image_url',
+      'price', (p->>'price')::numeric,
+      'unit', p->>'unit'
+    )
+  ), '[]'::jsonb)
+  INTO v_products
+  FROM jsonb_array_elements(search_products(v_query, p_limit => v_limit)->'products') p;
+
+  PERFORM set_config('pg_trgm.word_similarity_threshold', '0.45', true);
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('id', c.id, 'name', c.name) ORDER BY c.score DESC, c.name), '[]'::jsonb)
+  INTO v_categories
+  FROM (
+    SELECT id, name, word_similarity(v_query, lower(name)) AS score
+    FROM categories
+    WHERE is_active
+      AND (lower(name) LIKE '%' || v_query || '%' OR v_query <% lower(name))
+    ORDER BY score DESC, name
+    LIMIT 3
+  ) c;
+
+  SELECT coalesce(jsonb_agg(
+    jsonb_build_object('vendor_id', s.user_id, 'business_name', s.business_name, 'logo_url', s.logo_url)
+    ORDER BY s.score DESC, s.business_name
+  ), '[]'::jsonb)
+  INTO v_stores
+  FROM (
+    SELECT v.user_id, v.business_name, v.logo_url, word_similarity(v_query, lower(v.business_name)) AS score
+    FROM vendors v
+    LEFT JOIN vendor_settings vs ON vs.vendor_id = v.id
+    WHERE v.is_active
+      AND v.is_verified
+      AND (lower(v.business_name) LIKE '%' || v_query || '%' OR v_query <% lower(v.business_name))
+      AND NOT (
+        coalesce(vs.is_on_vacation, false)
+        AND (vs.vacation_until IS NULL OR vs.vacation_until > (now() AT TIME ZONE vs.timezone)::date)
+      )
+    ORDER BY score DESC, v.business_name
+    LIMIT 3
+  ) s;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'products', v_products,
+    'categories', v_categories,
+    'stores', v_stores
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_search_suggestions(text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_search_insights(
+  p_days integer DEFAULT 30,
+  p_limit integer DEFAULT 20
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since timestamptz := now() - make_interval(days => least(greatest(coalesce(p_days, 30), 1), 365));
+  v_limit integer := least(greatest(coalesce(p_limit, 20), 1), 100);
+  v_total bigint;
+  v_zero_total bigint;
+  v_top jsonb;
+  v_zero jsonb;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT count(*), count(*) FILTER (WHERE result_count = 0)
+  INTO v_total, v_zero_total
+  FROM search_queries
+  WHERE created_at >= v_since;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(q) ORDER BY q.searches DESC, q.query), '[]'::jsonb)
+  INTO v_top
+  FROM (
+    SELECT
+      normalized_query AS query,
+      count(*) AS searches,
+      count(DISTINCT user_id) AS customers,
+      round(avg(result_count), 1) AS avg_results,
+      max(created_at) AS last_searched_at
+    FROM search_queries
+    WHERE created_at >= v_since
+    GROUP BY normalized_query
+    ORDER BY searches DESC, query
+    LIMIT v_limit
+  ) q;
+
+  -- Queries whose latest search still found nothing are the catalog gaps worth fixing
+  SELECT coalesce(jsonb_agg(to_jsonb(q) ORDER BY q.searches DESC, q.query), '[]'::jsonb)
+  INTO v_zero
+  FROM (
+    SELECT
+      normalized_query AS query,
+      count(*) AS searches,
+      count(DISTINCT user_id) AS customers,
+      max(created_at) AS last_searched_at
+    FROM search_queries sq
+    WHERE created_at >= v_since
+      AND result_count = 0
+      AND NOT EXISTS (
+        SELECT 1 FROM search_queries later
+        WHERE later.normalized_query = sq.normalized_query
+          AND later.created_at > sq.created_at
+          AND later.result_count > 0
+      )
+    GROUP BY normalized_query
+    ORDER BY searches DESC, query
+    LIMIT v_limit
+  ) q;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'total_searches', v_total,
+    'zero_result_searches', v_zero_total,
+    'top_queries', v_top,
+    'zero_result_queries', v_zero
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_search_insights(integer, integer) TO authenticated;
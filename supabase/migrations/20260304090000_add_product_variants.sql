@@ -0,0 +1,1114 @@
+/*
+  # Product Variants
+
+  1. New Tables
+    - `product_options` - Option types a product comes in, e.g. Size or Color (at most 3 per product)
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `name` (text, unique per product)
+      - `position` (integer) - Display order
+    - `product_option_values` - Values of an option, e.g. Small, Medium, Large
+      - `id` (uuid, primary key)
+      - `option_id` (uuid, foreign key to product_options)
+      - `value` (text, unique per option)
+      - `position` (integer)
+    - `product_variants` - One sellable SKU per combination of option values
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `name` (text) - Option values joined in option order, e.g. "Large / Red"
+      - `sku` (text, optional, unique per product)
+      - `price` (numeric) - Price before the product's discount
+      - `stock_quantity` / `reserved_quantity` (integer) - Same ledger as products
+      - `image_url` (text, optional) - Shown when the customer picks this variant
+      - `is_available` (boolean)
+      - `position` (integer)
+    - `product_variant_values` - Option values that make up each variant
+
+  2. Changes to Existing Tables
+    - `products.has_variants` (boolean) - Set while a product has variants; the product's price becomes
+      the lowest variant price and its stock the sum of its variants so listings and search keep working
+    - `carts.variant_id` - Chosen variant; a product can be in the cart once per variant
+    - `order_items.variant_id` / `order_items.variant_name` - Variant ordered, with its name copied so
+      receipts survive later edits
+    - `stock_movements.variant_id` - Variant whose stock moved
+
+  3. New Functions
+    - `get_product_variants` - Options and variants of a product with each variant's option values
+    - `save_product_variants` - Replaces a product's options and variants in one go (vendor or admin)
+    - `cart_lines` (internal) - A customer's cart priced and stocked per variant
+    - `apply_stock_change` (internal) - Moves stock on a variant, or on the product when there is none
+
+  4. Changes to Stock and Checkout
+    - `reserve_order_stock` and `handle_order_stock_on_status_change` move variant stock for lines
+      with a variant and product stock otherwise
+    - `place_order` prices, validates and records lines per variant, and rejects products that need
+      an option chosen
+    - `release_online_checkout` puts the same variants back in the cart
+
+  5. Security
+    - Everyone signed in can read options and variants
+    - Rows are only written through `save_product_variants`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'has_variants'
+  ) THEN
+    ALTER TABLE products ADD COLUMN has_variants boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS product_options (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS product_option_values (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  option_id uuid NOT NULL REFERENCES product_options(id) ON DELETE CASCADE,
+  value text NOT NULL CHECK (length(trim(value)) > 0),
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (option_id, value)
+);
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  sku text,
+  price decimal(10,2) NOT NULL CHECK (price > 0),
+  stock_quantity integer NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  reserved_quantity integer NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+  image_url text,
+  is_available boolean NOT NULL DEFAULT true,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (product_id, sku),
+  UNIQUE (id, product_id)
+);
+
+CREATE TABLE IF NOT EXISTS product_variant_values (
+  variant_id uuid NOT NULL REFERENCES product_variants(id) ON DELETE CASCADE,
+  option_value_id uuid NOT NULL REFERENCES product_option_values(id) ON DELETE CASCADE,
+  PRIMARY KEY (variant_id, option_value_id)
+);
+
+ALTER TABLE product_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_option_values ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE product_variant_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product options"
+  ON product_options FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view product option values"
+  ON product_option_values FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view product variants"
+  ON product_variants FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Anyone can view product variant values"
+  ON product_variant_values FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_product_options_product_id ON product_options(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_option_values_option_id ON product_option_values(option_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_variant_values_option_value_id ON product_variant_values(option_value_id);
+
+-- The variant must belong to the cart line's product
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'carts' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE carts ADD COLUMN variant_id uuid;
+    ALTER TABLE carts ADD CONSTRAINT carts_variant_id_fkey
+      FOREIGN KEY (variant_id, product_id) REFERENCES product_variants(id, product_id) ON DELETE CASCADE;
+    ALTER TABLE carts DROP CONSTRAINT IF EXISTS carts_user_id_product_id_key;
+    ALTER TABLE carts ADD CONSTRAINT carts_user_id_product_id_variant_id_key
+      UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'order_items' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE order_items ADD COLUMN variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL;
+    ALTER TABLE order_items ADD COLUMN variant_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'stock_movements' AND column_name = 'variant_id'
+  ) THEN
+    ALTER TABLE stock_movements ADD COLUMN variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_carts_variant_id ON carts(variant_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_variant_id ON order_items(variant_id);
+
+-- Keep the product's listing price and stock in line with its variants. Unavailable variants
+-- neither set the "from" price nor count as stock
+CREATE OR REPLACE FUNCTION sync_product_from_variants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+  UPDATE products p
+  SET has_variants = totals.variant_count > 0,
+      price = CASE WHEN totals.variant_count > 0 THEN totals.min_price ELSE p.price END,
+      stock_quantity = CASE WHEN totals.variant_count > 0 THEN totals.stock_quantity ELSE p.stock_quantity END,
+      reserved_quantity = CASE WHEN totals.variant_count > 0 THEN totals.reserved_quantity ELSE p.reserved_quantity END,
+      updated_at = now()
+  FROM (
+    SELECT
+      count(*) AS variant_count,
+      coalesce(min(price) FILTER (WHERE is_available), min(price)) AS min_price,
+      coalesce(sum(stock_quantity) FILTER (WHERE is_available), 0) AS stock_quantity,
+      coalesce(sum(reserved_quantity) FILTER (WHERE is_available), 0) AS reserved_quantity
+    FROM product_variants
+    WHERE product_id = v_product_id
+  ) totals
+  WHERE p.id = v_product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_product_from_variants ON product_variants;
+
+CREATE TRIGGER trigger_sync_product_from_variants
+  AFTER INSERT OR UPDATE OR DELETE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_from_variants();
+
+CREATE OR REPLACE FUNCTION get_product_variants(p_product_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'success', true,
+    'options', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', o.id,
+          'name', o.name,
+          'values', coalesce((
+            SELECT jsonb_agg(ov.value ORDER BY ov.position)
+            FROM product_option_values ov
+            WHERE ov.option_id = o.id
+          ), '[]'::jsonb)
+        )
+        ORDER BY o.position
+      )
+      FROM product_options o
+      WHERE o.product_id = p_product_id
+    ), '[]'::jsonb),
+    'variants', coalesce((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', v.id,
+          'name', v.name,
+          'sku', v.sku,
+          'price', v.price,
+          'stock_quantity', v.stock_quantity,
+          'reserved_quantity', v.reserved_quantity,
+          'image_url', v.image_url,
+          'is_available', v.is_available,
+          'options', coalesce((
+            SELECT jsonb_object_agg(o.name, ov.value)
+            FROM product_variant_values vv
+            JOIN product_option_values ov ON ov.id = vv.option_value_id
+            JOIN product_options o ON o.id = ov.option_id
+            WHERE vv.variant_id = v.id
+          ), '{}'::jsonb)
+        )
+        ORDER BY v.position
+      )
+      FROM product_variants v
+      WHERE v.product_id = p_product_id
+    ), '[]'::jsonb)
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_product_variants(uuid) TO authenticated;
+
+-- Replace a product's options and variants. p_options is [{name, values: [text]}] and p_variants is
+-- [{id?, options: {option name: value}, sku, price, stock_quantity, image_url, is_available}];
+-- variants sent with an id are updated in place so carts pointing at them survive the edit
+CREATE OR REPLACE FUNCTION save_product_variants(
+  p_product_id uuid,
+  p_options jsonb,
+  p_variants jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+  v_options jsonb := coalesce(p_options, '[]'::jsonb);
+  v_variants jsonb := coalesce(p_variants, '[]'::jsonb);
+  v_option jsonb;
+  v_option_name text;
+  v_option_id uuid;
+  v_option_count integer;
+  v_variant jsonb;
+  v_variant_id uuid;
+  v_position integer;
+  v_value_ids uuid[];
+  v_value_count integer;
+  v_name text;
+  v_names text[] := '{}';
+  v_price numeric;
+  v_stock integer;
+  v_blocked text;
+BEGIN
+  SELECT * INTO v_product
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF v_product.vendor_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'You can only edit your own products';
+  END IF;
+
+  v_option_count := jsonb_array_length(v_options);
+
+  IF v_option_count > 3 THEN
+    RAISE EXCEPTION 'A product can have at most 3 options';
+  END IF;
+
+  IF v_option_count > 0 AND jsonb_array_length(v_variants) = 0 THEN
+    RAISE EXCEPTION 'Add at least one variant';
+  END IF;
+
+  IF v_option_count = 0 AND jsonb_array_length(v_variants) > 0 THEN
+    RAISE EXCEPTION 'Add an option before adding variants';
+  END IF;
+
+  -- Variants holding units for open orders cannot be removed until those orders settle
+  SELECT v.name INTO v_blocked
+  FROM product_variants v
+  WHERE v.product_id = p_product_id
+    AND v.reserved_quantity > 0
+    AND v.id NOT IN (
+      SELECT (x->>'id')::uuid
+      FROM jsonb_array_elements(v_variants) x
+      WHERE x->>'id' IS NOT NULL
+    )
+  LIMIT 1;
+
+  IF v_blocked IS NOT NULL THEN
+    RAISE EXCEPTION '% has units held by open orders and cannot be removed', v_blocked;
+  END IF;
+
+  DELETE FROM product_variants v
+  WHERE v.product_id = p_product_id
+    AND v.id NOT IN (
+      SELECT (x->>'id')::uuid
+      FROM jsonb_array_elements(v_variants) x
+      WHERE x->>'id' IS NOT NULL
+    );
+
+  DELETE FROM product_options o
+  WHERE o.product_id = p_product_id
+    AND o.name NOT IN (
+      SELECT trim(x->>'name') FROM jsonb_array_elements(v_options) x
+    );
+
+  FOR v_option, v_position IN
+    SELECT x, i FROM jsonb_array_elements(v_options) WITH ORDINALITY AS t(x, i)
+  LOOP
+    v_option_name := trim(v_option->>'name');
+
+    IF coalesce(v_option_name, '') = '' THEN
+      RAISE EXCEPTION 'Every option needs a name';
+    END IF;
+
+    IF jsonb_array_length(coalesce(v_option->'values', '[]'::jsonb)) = 0 THEN
+      RAISE EXCEPTION 'Add at least one value for %', v_option_name;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements_text(v_option->'values') x
+      GROUP BY lower(trim(x))
+      HAVING count(*) > 1 OR lower(trim(x)) = ''
+    ) THEN
+      RAISE EXCEPTION 'Values of % must be filled in and different from each other', v_option_name;
+    END IF;
+
+    INSERT INTO product_options (product_id, name, position)
+    VALUES (p_product_id, v_option_name, v_position)
+    ON CONFLICT (product_id, name) DO UPDATE SET position = EXCLUDED.position
+    RETURNING id INTO v_option_id;
+
+    DELETE FROM product_option_values ov
+    WHERE ov.option_id = v_option_id
+      AND ov.value NOT IN (
+        SELECT trim(x) FROM jsonb_array_elements_text(v_option->'values') x
+      );
+
+    INSERT INTO product_option_values (option_id, value, position)
+    SELECT v_option_id, trim(x), i
+    FROM jsonb_array_elements_text(v_option->'values') WITH ORDINALITY AS t(x, i)
+    ON CONFLICT (option_id, value) DO UPDATE SET position = EXCLUDED.position;
+  END LOOP;
+
+  FOR v_variant, v_position IN
+    SELECT x, i FROM jsonb_array_elements(v_variants) WITH ORDINALITY AS t(x, i)
+  LOOP
+    SELECT
+      array_agg(ov.id ORDER BY o.position),
+      string_agg(ov.value, ' / ' ORDER BY o.position),
+      count(*)
+    INTO v_value_ids, v_name, v_value_count
+    FROM product_options o
+    JOIN product_option_values ov
+      ON ov.option_id = o.id
+     AND ov.value = trim(v_variant->'options'->>o.name)
+    WHERE o.product_id = p_product_id;
+
+    IF v_value_count <> v_option_count THEN
+      RAISE EXCEPTION 'Choose a value of every option for each variant';
+    END IF;
+
+    IF v_name = ANY(v_names) THEN
+      RAISE EXCEPTION 'There is more than one % variant', v_name;
+    END IF;
+
+    v_names := v_names || v_name;
+    v_price := (v_variant->>'price')::numeric;
+    v_stock := coalesce((v_variant->>'stock_quantity')::integer, 0);
+
+    IF v_price IS NULL OR v_price <= 0 THEN
+      RAISE EXCEPTION 'Enter a price for %', v_name;
+    END IF;
+
+    IF v_stock < 0 THEN
+      RAISE EXCEPTION 'Stock for % cannot be negative', v_name;
+    END IF;
+
+    IF v_variant->>'id' IS NOT NULL THEN
+      UPDATE product_variants
+      SET name = v_name,
+          sku = nullif(trim(v_variant->>'sku'), ''),
+          price = v_price,
+          stock_quantity = v_stock,
+          image_url = nullif(trim(v_variant->>'image_url'), ''),
+          is_available = coalesce((v_variant->>'is_available')::boolean, true),
+          position = v_position,
+          updated_at = now()
+      WHERE id = (v_variant->>'id')::uuid
+        AND product_id = p_product_id
+      RETURNING id INTO v_variant_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant % no longer exists', v_name;
+      END IF;
+    ELSE
+      INSERT INTO product_variants (
+        product_id, name, sku, price, stock_quantity, image_url, is_available, position
+      ) VALUES (
+        p_product_id,
+        v_name,
+        nullif(trim(v_variant->>'sku'), ''),
+        v_price,
+        v_stock,
+        nullif(trim(v_variant->>'image_url'), ''),
+        coalesce((v_variant->>'is_available')::boolean, true),
+        v_position
+      )
+      RETURNING id INTO v_variant_id;
+    END IF;
+
+    DELETE FROM product_variant_values WHERE variant_id = v_variant_id;
+
+    INSERT INTO product_variant_values (variant_id, option_value_id)
+    SELECT v_variant_id, unnest(v_value_ids);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'variant_count', jsonb_array_length(v_variants)
+  );
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Each variant needs its own SKU'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_product_variants(uuid, jsonb, jsonb) TO authenticated;
+
+-- A customer's cart with each line priced and stocked from its variant when it has one
+CREATE OR REPLACE FUNCTION cart_lines(p_user_id uuid)
+RETURNS TABLE (
+  product_id uuid,
+  variant_id uuid,
+  vendor_id uuid,
+  name text,
+  variant_name text,
+  is_available boolean,
+  needs_variant boolean,
+  available_quantity integer,
+  quantity integer,
+  unit_price numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.product_id,
+    c.variant_id,
+    p.vendor_id,
+    CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || v.name || ')' END,
+    v.name,
+    p.is_available AND coalesce(v.is_available, true),
+    p.has_variants AND v.id IS NULL,
+    coalesce(v.stock_quantity - v.reserved_quantity, p.stock_quantity - p.reserved_quantity),
+    c.quantity,
+    CASE
+      WHEN p.discount_active AND p.discount_percentage > 0
+        THEN round(coalesce(v.price, p.price) * (1 - p.discount_percentage / 100.0), 2)
+      ELSE coalesce(v.price, p.price)
+    END
+  FROM carts c
+  JOIN products p ON p.id = c.product_id
+  LEFT JOIN product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = p_user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION cart_lines(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Move stock on the variant when there is one, otherwise on the product
+CREATE OR REPLACE FUNCTION apply_stock_change(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_stock_change integer,
+  p_reserved_change integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET stock_quantity = greatest(0, stock_quantity + p_stock_change),
+        reserved_quantity = greatest(0, reserved_quantity + p_reserved_change),
+        updated_at = now()
+    WHERE id = p_variant_id;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE products
+  SET stock_quantity = greatest(0, stock_quantity + p_stock_change),
+      reserved_quantity = greatest(0, reserved_quantity + p_reserved_change),
+      updated_at = now()
+  WHERE id = p_product_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_stock_change(uuid, uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reserve_order_stock(p_order_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  INSERT INTO stock_movements (product_id, variant_id, order_id, movement_type, quantity, created_by)
+  SELECT product_id, variant_id, order_id, 'reservation', quantity, p_user_id
+  FROM order_items
+  WHERE order_id = p_order_id;
+
+  FOR v_item IN
+    SELECT product_id, variant_id, sum(quantity)::integer AS quantity
+    FROM order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id, variant_id
+  LOOP
+    PERFORM apply_stock_change(v_item.product_id, v_item.variant_id, 0, v_item.quantity);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_order_stock(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION handle_order_stock_on_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item record;
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status OR NEW.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_item IN
+    SELECT
+      product_id,
+      variant_id,
+      sum(CASE movement_type
+        WHEN 'reservation' THEN quantity
+        WHEN 'release' THEN -quantity
+        WHEN 'sale' THEN -quantity
+        ELSE 0
+      END)::integer AS reserved_open,
+      sum(CASE movement_type
+        WHEN 'sale' THEN quantity
+        WHEN 'restock' THEN -quantity
+        ELSE 0
+      END)::integer AS sold_open
+    FROM stock_movements
+    WHERE order_id = NEW.id
+    GROUP BY product_id, variant_id
+  LOOP
+    IF NEW.status = 'cancelled' THEN
+      IF v_item.reserved_open > 0 THEN
+        PERFORM apply_stock_change(v_item.product_id, v_item.variant_id, 0, -v_item.reserved_open);
+
+        INSERT INTO stock_movements (product_id, variant_id, order_id, movement_type, quantity, created_by)
+        VALUES (v_item.product_id, v_item.variant_id, NEW.id, 'release', v_item.reserved_open, auth.uid());
+      END IF;
+
+      IF v_item.sold_open > 0 THEN
+        PERFORM apply_stock_change(v_item.product_id, v_item.variant_id, v_item.sold_open, 0);
+
+        INSERT INTO stock_movements (product_id, variant_id, order_id, movement_type, quantity, created_by)
+        VALUES (v_item.product_id, v_item.variant_id, NEW.id, 'restock', v_item.sold_open, auth.uid());
+      END IF;
+    ELSIF v_item.reserved_open > 0 THEN
+      PERFORM apply_stock_change(v_item.product_id, v_item.variant_id, -v_item.reserved_open, -v_item.reserved_open);
+
+      INSERT INTO stock_movements (product_id, variant_id, order_id, movement_type, quantity, created_by)
+      VALUES (v_item.product_id, v_item.variant_id, NEW.id, 'sale', v_item.reserved_open, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Failed online payments put the same variants back in the cart
+CREATE OR REPLACE FUNCTION release_online_checkout(
+  p_reference text,
+  p_reason text DEFAULT 'Payment could not be started'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group checkout_groups%ROWTYPE;
+  v_order_id uuid;
+BEGIN
+  SELECT * INTO v_group
+  FROM checkout_groups
+  WHERE payment_reference = p_reference AND payment_method = 'online'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No checkout found for payment %', p_reference;
+  END IF;
+
+  IF v_group.payment_status = 'completed' THEN
+    RAISE EXCEPTION 'This checkout has already been paid';
+  END IF;
+
+  IF v_group.payment_status = 'failed' THEN
+    RETURN jsonb_build_object('success', true, 'already_processed', true);
+  END IF;
+
+  INSERT INTO carts (user_id, product_id, variant_id, quantity)
+  SELECT v_group.customer_id, oi.product_id, oi.variant_id, sum(oi.quantity)
+  FROM order_items oi
+  JOIN orders o ON o.id = oi.order_id
+  WHERE o.checkout_group_id = v_group.id
+    AND o.status = 'pending'
+  GROUP BY oi.product_id, oi.variant_id
+  ON CONFLICT (user_id, product_id, variant_id)
+  DO UPDATE SET quantity = carts.quantity + EXCLUDED.quantity;
+
+  FOR v_order_id IN
+    SELECT id FROM orders
+    WHERE checkout_group_id = v_group.id
+      AND status = 'pending'
+      AND payment_status = 'pending'
+  LOOP
+    PERFORM cancel_order_with_refund(v_order_id, p_reason, NULL);
+  END LOOP;
+
+  UPDATE orders
+  SET payment_status = 'failed'
+  WHERE checkout_group_id = v_group.id
+    AND payment_status = 'pending';
+
+  IF v_group.promo_id IS NOT NULL THEN
+    UPDATE promotions
+    SET usage_count = greatest(coalesce(usage_count, 0) - 1, 0)
+    WHERE id = v_group.promo_id;
+  END IF;
+
+  UPDATE checkout_groups
+  SET payment_status = 'failed'
+  WHERE id = v_group.id;
+
+  RETURN jsonb_build_object('success', true, 'already_processed', false);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_distance_km numeric DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL,
+  p_vendor_distances jsonb DEFAULT NULL,
+  p_delivery_latitude numeric DEFAULT NULL,
+  p_delivery_longitude numeric DEFAULT NULL,
+  p_delivery_address_id uuid DEFAULT NULL,
+  p_vendor_slots jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_address delivery_addresses%ROWTYPE;
+  v_address_snapshot jsonb;
+  v_delivery_address text := p_delivery_address;
+  v_delivery_latitude numeric := p_delivery_latitude;
+  v_delivery_longitude numeric := p_delivery_longitude;
+  v_line record;
+  v_vendor record;
+  v_vendor_count integer;
+  v_vendor_index integer := 0;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_vendor_quotes jsonb := '{}'::jsonb;
+  v_quote jsonb;
+  v_store_status jsonb;
+  v_slot_start timestamptz;
+  v_slot jsonb;
+  v_booked_slots jsonb := '{}'::jsonb;
+  v_distance numeric;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_fee_share numeric;
+  v_discount_share numeric;
+  v_discount_allocated numeric := 0;
+  v_promo promotions%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_orders jsonb := '[]'::jsonb;
+  v_stamp text;
+  v_payment_status text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  -- A saved address is copied onto the orders so later address book edits do not change them
+  IF p_delivery_type = 'delivery' AND p_delivery_address_id IS NOT NULL THEN
+    SELECT * INTO v_address
+    FROM delivery_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_customer_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Delivery address not found';
+    END IF;
+
+    IF coalesce(trim(v_address.recipient_name), '') = '' OR coalesce(trim(v_address.phone), '') = '' THEN
+      RAISE EXCEPTION 'Add a recipient name and phone number to this address';
+    END IF;
+
+    v_delivery_latitude := coalesce(p_delivery_latitude, v_address.latitude);
+    v_delivery_longitude := coalesce(p_delivery_longitude, v_address.longitude);
+
+    v_address_snapshot := jsonb_build_object(
+      'address_id', v_address.id,
+      'label', v_address.label,
+      'recipient_name', v_address.recipient_name,
+      'phone', v_address.phone,
+      'address_line1', v_address.address_line1,
+      'address_line2', nullif(trim(v_address.address_line2), ''),
+      'city', v_address.city,
+      'state', v_address.state,
+      'postal_code', v_address.postal_code,
+      'latitude', v_delivery_latitude,
+      'longitude', v_delivery_longitude
+    );
+
+    v_delivery_address := concat_ws(
+      E'\n',
+      v_address.recipient_name,
+      v_address.phone,
+      concat_ws(
+        ', ',
+        v_address.address_line1,
+        nullif(trim(v_address.address_line2), ''),
+        v_address.city,
+        v_address.state,
+        nullif(trim(v_address.postal_code), '')
+      )
+    );
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(v_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  IF p_payment_method = 'online' AND coalesce(trim(p_payment_reference), '') = '' THEN
+    RAISE EXCEPTION 'Online payments must be started from the payment page';
+  END IF;
+
+  IF p_payment_reference IS NOT NULL AND EXISTS (
+    SELECT 1 FROM checkout_groups WHERE payment_reference = p_payment_reference
+  ) THEN
+    RAISE EXCEPTION 'Payment reference already used';
+  END IF;
+
+  -- Lock the products and variants in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  PERFORM 1
+  FROM product_variants v
+  JOIN carts c ON c.variant_id = v.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF v;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT * FROM cart_lines(v_customer_id)
+  LOOP
+    IF v_line.needs_variant THEN
+      RAISE EXCEPTION 'Choose an option for % in your cart', v_line.name;
+    END IF;
+
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.available_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', greatest(v_line.available_quantity, 0), v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT count(DISTINCT l.vendor_id) INTO v_vendor_count
+  FROM cart_lines(v_customer_id) l;
+
+  -- Each vendor delivers from its own store and is quoted for its own distance
+  IF p_delivery_type = 'delivery' THEN
+    FOR v_vendor IN
+      SELECT DISTINCT l.vendor_id
+      FROM cart_lines(v_customer_id) l
+    LOOP
+      v_distance := coalesce((p_vendor_distances->>v_vendor.vendor_id::text)::numeric, p_distance_km);
+      v_quote := calculate_delivery_quote(v_distance, v_subtotal, NULL, v_vendor.vendor_id);
+
+      IF NOT (v_quote->>'deliverable')::boolean THEN
+        RAISE EXCEPTION '%', v_quote->>'reason';
+      END IF;
+
+      v_vendor_quotes := v_vendor_quotes || jsonb_build_object(v_vendor.vendor_id::text, v_quote);
+      v_delivery_fee := v_delivery_fee + (v_quote->>'final_price')::numeric;
+    END LOOP;
+  END IF;
+
+  -- Closed stores only take scheduled orders, and scheduled vendors must still have room in the
+  -- chosen slot; the vendor row lock keeps two checkouts from taking the last place at once
+  FOR v_vendor IN
+    SELECT DISTINCT l.vendor_id, v.business_name
+    FROM cart_lines(v_customer_id) l
+    LEFT JOIN vendors v ON v.user_id = l.vendor_id
+  LOOP
+    v_store_status := vendor_store_status(v_vendor.vendor_id);
+    v_slot_start := (p_vendor_slots->>v_vendor.vendor_id::text)::timestamptz;
+
+    IF (v_store_status->>'on_vacation')::boolean THEN
+      RAISE EXCEPTION '% is closed for a while and is not taking orders', coalesce(v_vendor.business_name, 'This vendor');
+    END IF;
+
+    IF v_slot_start IS NULL AND NOT (v_store_status->>'is_open')::boolean THEN
+      RAISE EXCEPTION '% is closed right now. Choose a time for when it opens', coalesce(v_vendor.business_name, 'This vendor');
+    END IF;
+
+    CONTINUE WHEN v_slot_start IS NULL;
+
+    PERFORM 1 FROM vendors WHERE user_id = v_vendor.vendor_id FOR UPDATE;
+
+    SELECT s INTO v_slot
+    FROM jsonb_array_elements(vendor_time_slots(v_vendor.vendor_id, p_delivery_type)) s
+    WHERE (s->>'start')::timestamptz = v_slot_start;
+
+    IF v_slot IS NULL THEN
+      RAISE EXCEPTION 'The selected time for % is no longer available', coalesce(v_vendor.business_name, 'this vendor');
+    END IF;
+
+    IF (v_slot->>'available')::integer < 1 THEN
+      RAISE EXCEPTION 'The selected time for % is fully booked', coalesce(v_vendor.business_name, 'this vendor');
+    END IF;
+
+    v_booked_slots := v_booked_slots || jsonb_build_object(v_vendor.vendor_id::text, v_slot);
+  END LOOP;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_stamp := floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text;
+  -- Online payments stay pending until Paystack confirms the charge
+  v_payment_status := CASE WHEN p_payment_method = 'wallet' THEN 'completed' ELSE 'pending' END;
+
+  INSERT INTO checkout_groups (
+    customer_id, group_number, subtotal, delivery_fee, discount_amount, total,
+    promo_code, promo_id, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, 'CHK-' || v_stamp, v_subtotal, v_delivery_fee, v_discount, v_total,
+    v_promo.code, v_promo.id, p_payment_method, v_payment_status, p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  -- One order per vendor carrying its own delivery fee; the last vendor absorbs discount rounding
+  FOR v_vendor IN
+    SELECT l.vendor_id, sum(l.unit_price * l.quantity) AS subtotal
+    FROM cart_lines(v_customer_id) l
+    GROUP BY l.vendor_id
+    ORDER BY l.vendor_id
+  LOOP
+    v_vendor_index := v_vendor_index + 1;
+    v_quote := v_vendor_quotes->(v_vendor.vendor_id::text);
+    v_fee_share := coalesce((v_quote->>'final_price')::numeric, 0);
+
+    IF v_vendor_index = v_vendor_count THEN
+      v_discount_share := v_discount - v_discount_allocated;
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount_share := v_fee_share;
+    ELSIF v_subtotal > 0 THEN
+      v_discount_share := round(v_discount * v_vendor.subtotal / v_subtotal, 2);
+    ELSE
+      v_discount_share := 0;
+    END IF;
+
+    v_discount_allocated := v_discount_allocated + v_discount_share;
+    v_slot := v_booked_slots->(v_vendor.vendor_id::text);
+
+    INSERT INTO orders (
+      customer_id, vendor_id, checkout_group_id, order_number, subtotal, delivery_fee,
+      discount_amount, promo_code, promo_id, total, delivery_type,
+      delivery_address, delivery_latitude, delivery_longitude,
+      delivery_address_id, delivery_address_snapshot, scheduled_slot_start, scheduled_slot_end,
+      status, payment_method, payment_status, payment_reference
+    ) VALUES (
+      v_customer_id, v_vendor.vendor_id, v_group.id,
+      CASE WHEN v_vendor_count = 1 THEN 'ORD-' || v_stamp ELSE 'ORD-' || v_stamp || '-' || v_vendor_index END,
+      v_vendor.subtotal, v_fee_share,
+      v_discount_share, v_promo.code, v_promo.id,
+      greatest(0, v_vendor.subtotal + v_fee_share - v_discount_share),
+      p_delivery_type,
+      CASE WHEN p_delivery_type = 'delivery' THEN v_delivery_address ELSE 'N/A' END,
+      CASE WHEN p_delivery_type = 'delivery' THEN v_delivery_latitude END,
+      CASE WHEN p_delivery_type = 'delivery' THEN v_delivery_longitude END,
+      v_address.id, v_address_snapshot,
+      (v_slot->>'start')::timestamptz, (v_slot->>'end')::timestamptz,
+      'pending', p_payment_method, v_payment_status, p_payment_reference
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, variant_id, variant_name, quantity, unit_price, subtotal)
+    SELECT
+      v_order.id,
+      l.product_id,
+      l.variant_id,
+      l.variant_name,
+      l.quantity,
+      l.unit_price,
+      l.unit_price * l.quantity
+    FROM cart_lines(v_customer_id) l
+    WHERE l.vendor_id = v_vendor.vendor_id;
+
+    PERFORM reserve_order_stock(v_order.id, v_customer_id);
+
+    IF v_quote IS NOT NULL THEN
+      INSERT INTO delivery_logs (
+        user_id, order_id, action, details, zone_id, distance_km, base_price, distance_price,
+        promotion_discount, adjustment_amount, final_price
+      ) VALUES (
+        v_customer_id, v_order.id, 'order_placed', v_quote,
+        (v_quote->'zone'->>'id')::uuid, (v_quote->>'distance_km')::numeric,
+        (v_quote->>'base_price')::numeric, (v_quote->>'distance_price')::numeric,
+        CASE WHEN v_promo.discount_type = 'free_delivery' THEN v_discount_share ELSE 0 END,
+        coalesce((v_quote->>'adjustment_amount')::numeric, 0),
+        CASE WHEN v_promo.discount_type = 'free_delivery' THEN 0 ELSE v_fee_share END
+      );
+    END IF;
+
+    v_orders := v_orders || to_jsonb(v_order);
+  END LOOP;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      CASE
+        WHEN v_vendor_count = 1 THEN 'Payment for order ' || v_order.order_number
+        ELSE 'Payment for purchase ' || v_group.group_number
+      END,
+      'order',
+      v_group.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkout_group', to_jsonb(v_group),
+    'orders', v_orders
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, numeric, text, text, jsonb, numeric, numeric, uuid, jsonb) TO authenticated;
@@ -0,0 +1,312 @@
+/*
+  # Vendor Product Import
+
+  1. New Functions
+    - `import_vendor_products(p_rows, p_dry_run)` - Validates spreadsheet rows from a vendor's product file and,
+      unless it is a dry run, creates or updates the products and adds their images
+      - Each row is a JSON object with text cells: `id`, `name`, `description`, `category`, `price`, `unit`,
+        `stock_quantity`, `is_available`, `discount_percentage`, plus `image_urls` (array) and `row` (line number)
+      - Rows match an existing product by `id`, or by name within the vendor's catalog, and are created otherwise
+      - Blank cells keep the current value of an existing product
+      - Categories are matched by name against active categories
+      - Image URLs are added to `product_images` when the product does not already have them
+      - Returns one result per row with its action (`create`, `update` or `error`) and errors, plus totals
+      - Rows with errors are skipped; the valid rows are still imported
+
+  2. Notes
+    - Price and stock of products with variants are managed per variant, so a row may only repeat them
+    - At most 1000 rows per call
+
+  3. Security
+    - Only vendors can call the function and it only touches the caller's own products
+*/
+
+CREATE OR REPLACE FUNCTION import_vendor_products(
+  p_rows jsonb,
+  p_dry_run boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id uuid := auth.uid();
+  v_row jsonb;
+  v_index bigint;
+  v_line integer;
+  v_errors text[];
+  v_existing products%ROWTYPE;
+  v_match_count integer;
+  v_text text;
+  v_key text;
+  v_name text;
+  v_description text;
+  v_category_id uuid;
+  v_price numeric;
+  v_unit text;
+  v_stock integer;
+  v_is_available boolean;
+  v_discount integer;
+  v_image_urls text[];
+  v_url text;
+  v_new_images integer;
+  v_product_id uuid;
+  v_action text;
+  v_seen jsonb := '{}'::jsonb;
+  v_results jsonb := '[]'::jsonb;
+  v_created integer := 0;
+  v_updated integer := 0;
+  v_failed integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM vendors WHERE user_id = v_vendor_id) THEN
+    RAISE EXCEPTION 'Only vendors can import products';
+  END IF;
+
+  IF p_rows IS NULL OR jsonb_typeof(p_rows) <> 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RAISE EXCEPTION 'The file has no product rows';
+  END IF;
+
+  IF jsonb_array_length(p_rows) > 1000 THEN
+    RAISE EXCEPTION 'Import at most 1000 products at a time';
+  END IF;
+
+  FOR v_row, v_index IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_rows) WITH ORDINALITY
+  LOOP
+    v_errors := '{}';
+    v_existing := NULL;
+    v_product_id := NULL;
+    v_line := CASE WHEN v_row->>'row' ~ '^\d+$' THEN (v_row->>'row')::integer ELSE v_index::integer + 1 END;
+    v_name := nullif(btrim(v_row->>'name'), '');
+
+    -- Find the product this row updates, if any
+    v_text := nullif(btrim(v_row->>'id'), '');
+    IF v_text IS NOT NULL THEN
+      IF v_text !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+        v_errors := v_errors || 'id is not a valid product id'::text;
+      ELSE
+        SELECT * INTO v_existing
+        FROM products
+        WHERE id = v_text::uuid AND vendor_id = v_vendor_id;
+
+        IF NOT FOUND THEN
+          v_errors := v_errors || 'No product with this id in your catalog'::text;
+        END IF;
+      END IF;
+    ELSIF v_name IS NOT NULL THEN
+      SELECT count(*) INTO v_match_count
+      FROM products
+      WHERE vendor_id = v_vendor_id AND lower(name) = lower(v_name);
+
+      IF v_match_count > 1 THEN
+        v_errors := v_errors || format('Several products are named "%s"; add their id to pick one', v_name);
+      ELSIF v_match_count = 1 THEN
+        SELECT * INTO v_existing
+        FROM products
+        WHERE vendor_id = v_vendor_id AND lower(name) = lower(v_name);
+      END IF;
+    END IF;
+
+    IF v_name IS NULL THEN
+      v_name := v_existing.name;
+      IF v_name IS NULL THEN
+        v_errors := v_errors || 'Name is required'::text;
+      END IF;
+    ELSIF length(v_name) > 200 THEN
+      v_errors := v_errors || 'Name must be 200 characters or fewer'::text;
+    END IF;
+
+    v_description := coalesce(nullif(btrim(v_row->>'description'), ''), v_existing.description);
+
+    v_text := nullif(btrim(v_row->>'category'), '');
+    IF v_text IS NULL THEN
+      v_category_id := v_existing.category_id;
+      IF v_category_id IS NULL THEN
+        v_errors := v_errors || 'Category is required'::text;
+      END IF;
+    ELSE
+      SELECT id INTO v_category_id
+      FROM categories
+      WHERE lower(name) = lower(v_text) AND is_active = true;
+
+      IF NOT FOUND THEN
+        v_errors := v_errors || format('Unknown category "%s"', v_text);
+      END IF;
+    END IF;
+
+    v_text := nullif(replace(btrim(v_row->>'price'), ',', ''), '');
+    IF v_text IS NULL THEN
+      v_price := v_existing.price;
+      IF v_price IS NULL THEN
+        v_errors := v_errors || 'Price is required'::text;
+      END IF;
+    ELSIF v_text !~ '^\d{1,8}(\.\d{1,2})?$' OR v_text::numeric <= 0 THEN
+      v_errors := v_errors || 'Price must be a number above 0'::text;
+    ELSE
+      v_price := v_text::numeric;
+    END IF;
+
+    v_text := nullif(btrim(v_row->>'stock_quantity'), '');
+    IF v_text IS NULL THEN
+      v_stock := v_existing.stock_quantity;
+      IF v_stock IS NULL THEN
+        v_errors := v_errors || 'Stock quantity is required'::text;
+      END IF;
+    ELSIF v_text !~ '^\d{1,9}$' THEN
+      v_errors := v_errors || 'Stock quantity must be a whole number'::text;
+    ELSE
+      v_stock := v_text::integer;
+    END IF;
+
+    IF v_existing.has_variants
+      AND (v_price IS DISTINCT FROM v_existing.price OR v_stock IS DISTINCT FROM v_existing.stock_quantity)
+    THEN
+      v_errors := v_errors || 'Price and stock of this product are set per variant; change them in the app'::text;
+    END IF;
+
+    v_unit := coalesce(nullif(btrim(v_row->>'unit'), ''), v_existing.unit, 'piece');
+
+    v_text := lower(nullif(btrim(v_row->>'is_available'), ''));
+    IF v_text IS NULL THEN
+      v_is_available := coalesce(v_existing.is_available, true);
+    ELSIF v_text IN ('yes', 'y', 'true', '1', 'active') THEN
+      v_is_available := true;
+    ELSIF v_text IN ('no', 'n', 'false', '0', 'inactive') THEN
+      v_is_available := false;
+    ELSE
+      v_errors := v_errors || 'is_available must be yes or no'::text;
+    END IF;
+
+    v_text := nullif(replace(btrim(v_row->>'discount_percentage'), '%', ''), '');
+    IF v_text IS NULL THEN
+      v_discount := CASE WHEN v_existing.discount_active THEN v_existing.discount_percentage ELSE 0 END;
+    ELSIF v_text !~ '^\d{1,3}$' OR v_text::integer > 100 THEN
+      v_errors := v_errors || 'Discount must be a whole number from 0 to 100'::text;
+    ELSE
+      v_discount := v_text::integer;
+    END IF;
+
+    v_image_urls := '{}';
+    IF jsonb_typeof(v_row->'image_urls') = 'array' THEN
+      SELECT coalesce(array_agg(images.url ORDER BY images.position), '{}') INTO v_image_urls
+      FROM (
+        SELECT btrim(url) AS url, min(position) AS position
+        FROM jsonb_array_elements_text(v_row->'image_urls') WITH ORDINALITY AS listed(url, position)
+        WHERE btrim(url) <> ''
+        GROUP BY btrim(url)
+      ) images;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM unnest(v_image_urls) AS url WHERE url !~* '^https?://') THEN
+      v_errors := v_errors || 'Image URLs must start with http:// or https://'::text;
+    END IF;
+
+    SELECT count(*) INTO v_new_images
+    FROM unnest(v_image_urls) AS url
+    WHERE v_existing.id IS NULL
+      OR NOT EXISTS (
+        SELECT 1 FROM product_images pi
+        WHERE pi.product_id = v_existing.id AND pi.image_url = url
+      );
+
+    -- A product may only appear once per file
+    v_key := coalesce(v_existing.id::text, lower(v_name));
+    IF v_key IS NOT NULL THEN
+      IF v_seen ? v_key THEN
+        v_errors := v_errors || format('Same product as row %s', v_seen->>v_key);
+      ELSE
+        v_seen := v_seen || jsonb_build_object(v_key, v_line);
+      END IF;
+    END IF;
+
+    IF cardinality(v_errors) > 0 THEN
+      v_action := 'error';
+      v_failed := v_failed + 1;
+    ELSIF v_existing.id IS NOT NULL THEN
+      v_action := 'update';
+      v_updated := v_updated + 1;
+    ELSE
+      v_action := 'create';
+      v_created := v_created + 1;
+    END IF;
+
+    IF NOT p_dry_run AND v_action <> 'error' THEN
+      IF v_action = 'update' THEN
+        v_product_id := v_existing.id;
+
+        UPDATE products
+        SET name = v_name,
+            description = v_description,
+            category_id = v_category_id,
+            price = v_price,
+            unit = v_unit,
+            stock_quantity = v_stock,
+            is_available = v_is_available,
+            discount_percentage = v_discount,
+            discount_active = v_discount > 0,
+            updated_at = now()
+        WHERE id = v_product_id;
+      ELSE
+        INSERT INTO products (
+          vendor_id, category_id, name, description, price, unit, stock_quantity,
+          is_available, discount_percentage, discount_active
+        )
+        VALUES (
+          v_vendor_id, v_category_id, v_name, v_description, v_price, v_unit, v_stock,
+          v_is_available, v_discount, v_discount > 0
+        )
+        RETURNING id INTO v_product_id;
+      END IF;
+
+      FOREACH v_url IN ARRAY v_image_urls LOOP
+        IF NOT EXISTS (
+          SELECT 1 FROM product_images
+          WHERE product_id = v_product_id AND image_url = v_url
+        ) THEN
+          INSERT INTO product_images (product_id, image_url, display_order, is_primary)
+          SELECT
+            v_product_id,
+            v_url,
+            coalesce(max(display_order) + 1, 0),
+            NOT coalesce(bool_or(is_primary), false)
+          FROM product_images
+          WHERE product_id = v_product_id;
+        END IF;
+      END LOOP;
+
+      -- Products without a cover image take their primary image
+      UPDATE products p
+      SET image_url = pi.image_url
+      FROM product_images pi
+      WHERE p.id = v_product_id
+        AND p.image_url IS NULL
+        AND pi.product_id = v_product_id
+        AND pi.is_primary;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'row', v_line,
+      'name', v_name,
+      'action', v_action,
+      'product_id', coalesce(v_product_id, v_existing.id),
+      'new_images', CASE WHEN v_action = 'error' THEN 0 ELSE v_new_images END,
+      'errors', to_jsonb(v_errors)
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'dry_run', p_dry_run,
+    'created', v_created,
+    'updated', v_updated,
+    'failed', v_failed,
+    'rows', v_results
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_vendor_products(jsonb, boolean) TO authenticated;
@@ -0,0 +1,364 @@
+/*
+  # Inventory Management
+
+  1. Changes to Existing Tables
+    - `products.reorder_threshold` (integer, default 10) - Vendors are alerted once available stock
+      (stock minus units reserved for open orders) drops to this level
+    - `products.auto_hidden` (boolean) - Set when a product was hidden automatically because it sold out,
+      so it can be listed again automatically once it is restocked
+
+  2. New Tables
+    - `stock_adjustments` - History of manual stock changes
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, foreign key to products)
+      - `variant_id` (uuid, optional, foreign key to product_variants) / `variant_name` (text)
+      - `previous_quantity` / `new_quantity` (integer) and `delta` (generated)
+      - `reason` (text: 'restock', 'correction', 'damaged', 'lost', 'returned', 'other')
+      - `note` (text, optional)
+      - `created_by` (uuid, foreign key to profiles) - Who made the change
+      - `created_at` (timestamptz)
+    - `notifications` - In-app messages for a user
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `type` (text) - e.g. 'low_stock', 'out_of_stock'
+      - `title` / `message` (text)
+      - `data` (jsonb) - Ids the app needs to open the related screen
+      - `read_at` (timestamptz, null while unread)
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `adjust_product_stock(p_adjustments, p_reason, p_note)` - Sets new stock levels for several products or
+      variants at once and records each change (vendor or admin)
+    - `mark_notifications_read(p_ids)` - Marks the caller's notifications read, all of them when no ids are given
+    - `manage_product_availability` (trigger) - Hides a product when its available stock reaches zero and lists it
+      again when stock returns, unless the vendor changed its visibility by hand
+    - `notify_product_stock_level` (trigger) - Notifies the vendor when available stock falls to the reorder
+      threshold or runs out
+
+  4. Security
+    - Vendors can view adjustments of their own products, admins can view all
+    - Users can view their own notifications
+    - Adjustments and notifications are only written by the functions above
+    - Real-time enabled for `notifications`
+
+  5. Notes
+    - Repeated alerts are skipped while an unread alert of the same kind exists for the product
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'reorder_threshold'
+  ) THEN
+    ALTER TABLE products ADD COLUMN reorder_threshold integer NOT NULL DEFAULT 10 CHECK (reorder_threshold >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'auto_hidden'
+  ) THEN
+    ALTER TABLE products ADD COLUMN auto_hidden boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS stock_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL,
+  variant_name text,
+  previous_quantity integer NOT NULL,
+  new_quantity integer NOT NULL CHECK (new_quantity >= 0),
+  delta integer GENERATED ALWAYS AS (new_quantity - previous_quantity) STORED,
+  reason text NOT NULL CHECK (reason IN ('restock', 'correction', 'damaged', 'lost', 'returned', 'other')),
+  note text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_product_id ON stock_adjustments(product_id, created_at DESC);
+
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Vendors can view own stock adjustments" ON stock_adjustments;
+CREATE POLICY "Vendors can view own stock adjustments"
+  ON stock_adjustments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM products
+      WHERE products.id = stock_adjustments.product_id
+        AND products.vendor_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view all stock adjustments" ON stock_adjustments;
+CREATE POLICY "Admins can view all stock adjustments"
+  ON stock_adjustments FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  message text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+
+CREATE OR REPLACE FUNCTION manage_product_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_old_available integer := greatest(0, OLD.stock_quantity - OLD.reserved_quantity);
+  v_new_available integer := greatest(0, NEW.stock_quantity - NEW.reserved_quantity);
+BEGIN
+  IF NEW.is_available IS DISTINCT FROM OLD.is_available THEN
+    -- The vendor's own choice wins over automatic listing
+    NEW.auto_hidden := false;
+  ELSIF v_new_available = 0 AND v_old_available > 0 AND NEW.is_available THEN
+    NEW.is_available := false;
+    NEW.auto_hidden := true;
+  ELSIF v_new_available > 0 AND OLD.auto_hidden THEN
+    NEW.is_available := true;
+    NEW.auto_hidden := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_manage_product_availability ON products;
+
+CREATE TRIGGER trigger_manage_product_availability
+  BEFORE UPDATE OF stock_quantity, reserved_quantity, is_available ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION manage_product_availability();
+
+CREATE OR REPLACE FUNCTION notify_product_stock_level()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old_available integer := greatest(0, OLD.stock_quantity - OLD.reserved_quantity);
+  v_new_available integer := greatest(0, NEW.stock_quantity - NEW.reserved_quantity);
+  v_type text;
+  v_title text;
+  v_message text;
+BEGIN
+  IF v_new_available = 0 AND v_old_available > 0 THEN
+    v_type := 'out_of_stock';
+    v_title := 'Out of stock';
+    v_message := CASE
+      WHEN NEW.auto_hidden THEN format('%s is out of stock and hidden from customers until you restock it', NEW.name)
+      ELSE format('%s is out of stock', NEW.name)
+    END;
+  ELSIF v_new_available > 0
+    AND v_new_available <= NEW.reorder_threshold
+    AND v_old_available > NEW.reorder_threshold
+  THEN
+    v_type := 'low_stock';
+    v_title := 'Low stock';
+    v_message := format('%s is down to %s left. Time to reorder.', NEW.name, v_new_available);
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM notifications
+    WHERE user_id = NEW.vendor_id
+      AND type = v_type
+      AND read_at IS NULL
+      AND data->>'product_id' = NEW.id::text
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, data)
+  VALUES (
+    NEW.vendor_id,
+    v_type,
+    v_title,
+    v_message,
+    jsonb_build_object('product_id', NEW.id, 'available_quantity', v_new_available)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_product_stock_level() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS trigger_notify_product_stock_level ON products;
+
+CREATE TRIGGER trigger_notify_product_stock_level
+  AFTER UPDATE OF stock_quantity, reserved_quantity, reorder_threshold ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_product_stock_level();
+
+CREATE OR REPLACE FUNCTION adjust_product_stock(
+  p_adjustments jsonb,
+  p_reason text,
+  p_note text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_variant product_variants%ROWTYPE;
+  v_variant_id uuid;
+  v_label text;
+  v_previous integer;
+  v_reserved integer;
+  v_new integer;
+  v_count integer := 0;
+BEGIN
+  IF p_reason IS NULL OR p_reason NOT IN ('restock', 'correction', 'damaged', 'lost', 'returned', 'other') THEN
+    RAISE EXCEPTION 'Choose a reason for the adjustment';
+  END IF;
+
+  IF p_adjustments IS NULL OR jsonb_typeof(p_adjustments) <> 'array' OR jsonb_array_length(p_adjustments) = 0 THEN
+    RAISE EXCEPTION 'There is nothing to adjust';
+  END IF;
+
+  IF jsonb_array_length(p_adjustments) > 500 THEN
+    RAISE EXCEPTION 'Adjust at most 500 items at a time';
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(p_adjustments)
+  LOOP
+    IF coalesce(v_item->>'stock_quantity', '') !~ '^\d{1,9}$' THEN
+      RAISE EXCEPTION 'Stock must be a whole number of 0 or more';
+    END IF;
+
+    v_new := (v_item->>'stock_quantity')::integer;
+    v_variant_id := nullif(v_item->>'variant_id', '')::uuid;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found';
+    END IF;
+
+    IF v_product.vendor_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+      RAISE EXCEPTION 'You can only adjust stock of your own products';
+    END IF;
+
+    IF v_variant_id IS NOT NULL THEN
+      SELECT * INTO v_variant
+      FROM product_variants
+      WHERE id = v_variant_id AND product_id = v_product.id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant not found';
+      END IF;
+
+      v_label := format('%s (%s)', v_product.name, v_variant.name);
+      v_previous := v_variant.stock_quantity;
+      v_reserved := v_variant.reserved_quantity;
+    ELSE
+      IF v_product.has_variants THEN
+        RAISE EXCEPTION '% has variants; adjust the stock of each variant', v_product.name;
+      END IF;
+
+      v_label := v_product.name;
+      v_previous := v_product.stock_quantity;
+      v_reserved := v_product.reserved_quantity;
+    END IF;
+
+    -- Units promised to open orders must stay in stock
+    IF v_new < v_reserved THEN
+      RAISE EXCEPTION '% has % reserved for open orders; stock cannot go below that', v_label, v_reserved;
+    END IF;
+
+    CONTINUE WHEN v_new = v_previous;
+
+    IF v_variant_id IS NOT NULL THEN
+      UPDATE product_variants
+      SET stock_quantity = v_new,
+          updated_at = now()
+      WHERE id = v_variant_id;
+    ELSE
+      UPDATE products
+      SET stock_quantity = v_new,
+          updated_at = now()
+      WHERE id = v_product.id;
+    END IF;
+
+    INSERT INTO stock_adjustments (
+      product_id, variant_id, variant_name, previous_quantity, new_quantity, reason, note, created_by
+    )
+    VALUES (
+      v_product.id,
+      v_variant_id,
+      CASE WHEN v_variant_id IS NOT NULL THEN v_variant.name END,
+      v_previous,
+      v_new,
+      p_reason,
+      nullif(btrim(p_note), ''),
+      auth.uid()
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'adjusted', v_count);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION adjust_product_stock(jsonb, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'updated', v_count);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
@@ -0,0 +1,447 @@
+/*
+  # Measure Delivery Distances on the Server
+
+  1. New Functions
+    - `store_delivery_distance_km(p_vendor_id, p_latitude, p_longitude)` (internal) - Straight-line
+      distance in km from the vendor's pinned store (`vendors.latitude` / `longitude`) to a delivery
+      location. Fails when the store has not been pinned or the delivery location is missing
+
+  2. Changes to `place_order`
+    - `p_distance_km` and `p_vendor_distances` are removed; each vendor's delivery fee and radius check
+      use the distance measured from its store to the order's delivery coordinates
+    - Delivery orders need coordinates: those saved with the chosen address, otherwise
+      `p_delivery_latitude` / `p_delivery_longitude`
+*/
+
+CREATE OR REPLACE FUNCTION store_delivery_distance_km(
+  p_vendor_id uuid,
+  p_latitude numeric,
+  p_longitude numeric
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_store record;
+BEGIN
+  IF p_latitude IS NULL OR p_longitude IS NULL THEN
+    RAISE EXCEPTION 'Locate the delivery address before ordering';
+  END IF;
+
+  IF p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'The delivery location is not valid';
+  END IF;
+
+  SELECT business_name, latitude, longitude INTO v_store
+  FROM vendors
+  WHERE user_id = p_vendor_id;
+
+  IF v_store.latitude IS NULL OR v_store.longitude IS NULL THEN
+    RAISE EXCEPTION '% has not set its store location yet, so it cannot deliver',
+      coalesce(v_store.business_name, 'This vendor');
+  END IF;
+
+  RETURN round((
+    6371 * 2 * asin(sqrt(
+      power(sin(radians(p_latitude - v_store.latitude) / 2), 2)
+      + cos(radians(v_store.latitude)) * cos(radians(p_latitude))
+        * power(sin(radians(p_longitude - v_store.longitude) / 2), 2)
+    ))
+  )::numeric, 2);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION store_delivery_distance_km(uuid, numeric, numeric) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS place_order(text, text, text, numeric, text, text, jsonb, numeric, numeric, uuid, jsonb);
+
+CREATE FUNCTION place_order(
+  p_delivery_type text,
+  p_payment_method text,
+  p_delivery_address text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL,
+  p_delivery_latitude numeric DEFAULT NULL,
+  p_delivery_longitude numeric DEFAULT NULL,
+  p_delivery_address_id uuid DEFAULT NULL,
+  p_vendor_slots jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id uuid := auth.uid();
+  v_address delivery_addresses%ROWTYPE;
+  v_address_snapshot jsonb;
+  v_delivery_address text := p_delivery_address;
+  v_delivery_latitude numeric := p_delivery_latitude;
+  v_delivery_longitude numeric := p_delivery_longitude;
+  v_line record;
+  v_vendor record;
+  v_vendor_count integer;
+  v_vendor_index integer := 0;
+  v_subtotal numeric := 0;
+  v_delivery_fee numeric := 0;
+  v_vendor_quotes jsonb := '{}'::jsonb;
+  v_quote jsonb;
+  v_store_status jsonb;
+  v_slot_start timestamptz;
+  v_slot jsonb;
+  v_booked_slots jsonb := '{}'::jsonb;
+  v_distance numeric;
+  v_discount numeric := 0;
+  v_total numeric;
+  v_fee_share numeric;
+  v_discount_share numeric;
+  v_discount_allocated numeric := 0;
+  v_promo promotions%ROWTYPE;
+  v_group checkout_groups%ROWTYPE;
+  v_order orders%ROWTYPE;
+  v_orders jsonb := '[]'::jsonb;
+  v_stamp text;
+  v_payment_status text;
+  v_debit_result jsonb;
+BEGIN
+  IF v_customer_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to place an order';
+  END IF;
+
+  IF p_delivery_type NOT IN ('pickup', 'delivery') THEN
+    RAISE EXCEPTION 'Invalid delivery type';
+  END IF;
+
+  IF p_payment_method NOT IN ('transfer', 'online', 'wallet', 'cash_on_delivery') THEN
+    RAISE EXCEPTION 'Invalid payment method';
+  END IF;
+
+  -- A saved address is copied onto the orders so later address book edits do not change them
+  IF p_delivery_type = 'delivery' AND p_delivery_address_id IS NOT NULL THEN
+    SELECT * INTO v_address
+    FROM delivery_addresses
+    WHERE id = p_delivery_address_id AND user_id = v_customer_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Delivery address not found';
+    END IF;
+
+    IF coalesce(trim(v_address.recipient_name), '') = '' OR coalesce(trim(v_address.phone), '') = '' THEN
+      RAISE EXCEPTION 'Add a recipient name and phone number to this address';
+    END IF;
+
+    -- Coordinates saved with the address win; the given ones are for addresses located at checkout
+    v_delivery_latitude := coalesce(v_address.latitude, p_delivery_latitude);
+    v_delivery_longitude := coalesce(v_address.longitude, p_delivery_longitude);
+
+    v_address_snapshot := jsonb_build_object(
+      'address_id', v_address.id,
+      'label', v_address.label,
+      'recipient_name', v_address.recipient_name,
+      'phone', v_address.phone,
+      'address_line1', v_address.address_line1,
+      'address_line2', nullif(trim(v_address.address_line2), ''),
+      'city', v_address.city,
+      'state', v_address.state,
+      'postal_code', v_address.postal_code,
+      'latitude', v_delivery_latitude,
+      'longitude', v_delivery_longitude
+    );
+
+    v_delivery_address := concat_ws(
+      E'\n',
+      v_address.recipient_name,
+      v_address.phone,
+      concat_ws(
+        ', ',
+        v_address.address_line1,
+        nullif(trim(v_address.address_line2), ''),
+        v_address.city,
+        v_address.state,
+        nullif(trim(v_address.postal_code), '')
+      )
+    );
+  END IF;
+
+  IF p_delivery_type = 'delivery' AND coalesce(trim(v_delivery_address), '') = '' THEN
+    RAISE EXCEPTION 'Please provide a delivery address';
+  END IF;
+
+  IF p_payment_method = 'online' AND coalesce(trim(p_payment_reference), '') = '' THEN
+    RAISE EXCEPTION 'Online payments must be started from the payment page';
+  END IF;
+
+  IF p_payment_reference IS NOT NULL AND EXISTS (
+    SELECT 1 FROM checkout_groups WHERE payment_reference = p_payment_reference
+  ) THEN
+    RAISE EXCEPTION 'Payment reference already used';
+  END IF;
+
+  -- Lock the products and variants in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM products p
+  JOIN carts c ON c.product_id = p.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  PERFORM 1
+  FROM product_variants v
+  JOIN carts c ON c.variant_id = v.id
+  WHERE c.user_id = v_customer_id
+  FOR UPDATE OF v;
+
+  -- Validate stock and recompute prices from the catalog
+  FOR v_line IN
+    SELECT * FROM cart_lines(v_customer_id)
+  LOOP
+    IF v_line.needs_variant THEN
+      RAISE EXCEPTION 'Choose an option for % in your cart', v_line.name;
+    END IF;
+
+    IF NOT v_line.is_available THEN
+      RAISE EXCEPTION '% is no longer available', v_line.name;
+    END IF;
+
+    IF v_line.available_quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of % left in stock', greatest(v_line.available_quantity, 0), v_line.name;
+    END IF;
+
+    v_subtotal := v_subtotal + v_line.unit_price * v_line.quantity;
+  END LOOP;
+
+  SELECT count(DISTINCT l.vendor_id) INTO v_vendor_count
+  FROM cart_lines(v_customer_id) l;
+
+  -- Each vendor delivers from its own store and is quoted for the distance from it
+  IF p_delivery_type = 'delivery' THEN
+    FOR v_vendor IN
+      SELECT DISTINCT l.vendor_id
+      FROM cart_lines(v_customer_id) l
+    LOOP
+      v_distance := store_delivery_distance_km(v_vendor.vendor_id, v_delivery_latitude, v_delivery_longitude);
+      v_quote := calculate_delivery_quote(v_distance, v_subtotal, NULL, v_vendor.vendor_id);
+
+      IF NOT (v_quote->>'deliverable')::boolean THEN
+        RAISE EXCEPTION '%', v_quote->>'reason';
+      END IF;
+
+      v_vendor_quotes := v_vendor_quotes || jsonb_build_object(v_vendor.vendor_id::text, v_quote);
+      v_delivery_fee := v_delivery_fee + (v_quote->>'final_price')::numeric;
+    END LOOP;
+  END IF;
+
+  -- Closed stores only take scheduled orders, and scheduled vendors must still have room in the
+  -- chosen slot; the vendor row lock keeps two checkouts from taking the last place at once
+  FOR v_vendor IN
+    SELECT DISTINCT l.vendor_id, v.business_name
+    FROM cart_lines(v_customer_id) l
+    LEFT JOIN vendors v ON v.user_id = l.vendor_id
+  LOOP
+    v_store_status := vendor_store_status(v_vendor.vendor_id);
+    v_slot_start := (p_vendor_slots->>v_vendor.vendor_id::text)::timestamptz;
+
+    IF (v_store_status->>'on_vacation')::boolean THEN
+      RAISE EXCEPTION '% is closed for a while and is not taking orders', coalesce(v_vendor.business_name, 'This vendor');
+    END IF;
+
+    IF v_slot_start IS NULL AND NOT (v_store_status->>'is_open')::boolean THEN
+      RAISE EXCEPTION '% is closed right now. Choose a time for when it opens', coalesce(v_vendor.business_name, 'This vendor');
+    END IF;
+
+    CONTINUE WHEN v_slot_start IS NULL;
+
+    PERFORM 1 FROM vendors WHERE user_id = v_vendor.vendor_id FOR UPDATE;
+
+    SELECT s INTO v_slot
+    FROM jsonb_array_elements(vendor_time_slots(v_vendor.vendor_id, p_delivery_type)) s
+    WHERE (s->>'start')::timestamptz = v_slot_start;
+
+    IF v_slot IS NULL THEN
+      RAISE EXCEPTION 'The selected time for % is no longer available', coalesce(v_vendor.business_name, 'this vendor');
+    END IF;
+
+    IF (v_slot->>'available')::integer < 1 THEN
+      RAISE EXCEPTION 'The selected time for % is fully booked', coalesce(v_vendor.business_name, 'this vendor');
+    END IF;
+
+    v_booked_slots := v_booked_slots || jsonb_build_object(v_vendor.vendor_id::text, v_slot);
+  END LOOP;
+
+  -- Promo code validation
+  IF coalesce(trim(p_promo_code), '') <> '' THEN
+    SELECT * INTO v_promo
+    FROM promotions
+    WHERE code = upper(trim(p_promo_code))
+      AND is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid promo code';
+    END IF;
+
+    IF now() < v_promo.valid_from THEN
+      RAISE EXCEPTION 'This promo code is not yet active';
+    END IF;
+
+    IF now() > v_promo.valid_until THEN
+      RAISE EXCEPTION 'This promo code has expired';
+    END IF;
+
+    IF v_promo.usage_limit IS NOT NULL AND coalesce(v_promo.usage_count, 0) >= v_promo.usage_limit THEN
+      RAISE EXCEPTION 'This promo code has reached its usage limit';
+    END IF;
+
+    IF v_promo.min_order_amount IS NOT NULL AND v_subtotal < v_promo.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₦%', to_char(v_promo.min_order_amount, 'FM999999990.00');
+    END IF;
+
+    IF v_promo.discount_type = 'percentage' THEN
+      v_discount := v_subtotal * v_promo.discount_value / 100;
+      IF v_promo.max_discount_amount IS NOT NULL THEN
+        v_discount := least(v_discount, v_promo.max_discount_amount);
+      END IF;
+    ELSIF v_promo.discount_type = 'fixed_amount' THEN
+      v_discount := least(v_promo.discount_value, v_subtotal);
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount := v_delivery_fee;
+    END IF;
+
+    v_discount := round(v_discount, 2);
+
+    UPDATE promotions
+    SET usage_count = coalesce(usage_count, 0) + 1
+    WHERE id = v_promo.id;
+  END IF;
+
+  v_total := greatest(0, v_subtotal + v_delivery_fee - v_discount);
+  v_stamp := floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint::text;
+  -- Online payments stay pending until Paystack confirms the charge
+  v_payment_status := CASE WHEN p_payment_method = 'wallet' THEN 'completed' ELSE 'pending' END;
+
+  INSERT INTO checkout_groups (
+    customer_id, group_number, subtotal, delivery_fee, discount_amount, total,
+    promo_code, promo_id, payment_method, payment_status, payment_reference
+  ) VALUES (
+    v_customer_id, 'CHK-' || v_stamp, v_subtotal, v_delivery_fee, v_discount, v_total,
+    v_promo.code, v_promo.id, p_payment_method, v_payment_status, p_payment_reference
+  )
+  RETURNING * INTO v_group;
+
+  -- One order per vendor carrying its own delivery fee; the last vendor absorbs discount rounding
+  FOR v_vendor IN
+    SELECT l.vendor_id, sum(l.unit_price * l.quantity) AS subtotal
+    FROM cart_lines(v_customer_id) l
+    GROUP BY l.vendor_id
+    ORDER BY l.vendor_id
+  LOOP
+    v_vendor_index := v_vendor_index + 1;
+    v_quote := v_vendor_quotes->(v_vendor.vendor_id::text);
+    v_fee_share := coalesce((v_quote->>'final_price')::numeric, 0);
+
+    IF v_vendor_index = v_vendor_count THEN
+      v_discount_share := v_discount - v_discount_allocated;
+    ELSIF v_promo.discount_type = 'free_delivery' THEN
+      v_discount_share := v_fee_share;
+    ELSIF v_subtotal > 0 THEN
+      v_discount_share := round(v_discount * v_vendor.subtotal / v_subtotal, 2);
+    ELSE
+      v_discount_share := 0;
+    END IF;
+
+    v_discount_allocated := v_discount_allocated + v_discount_share;
+    v_slot := v_booked_slots->(v_vendor.vendor_id::text);
+
+    INSERT INTO orders (
+      customer_id, vendor_id, checkout_group_id, order_number, subtotal, delivery_fee,
+      discount_amount, promo_code, promo_id, total, delivery_type,
+      delivery_address, delivery_latitude, delivery_longitude,
+      delivery_address_id, delivery_address_snapshot, scheduled_slot_start, scheduled_slot_end,
+      status, payment_method, payment_status, payment_reference
+    ) VALUES (
+      v_customer_id, v_vendor.vendor_id, v_group.id,
+      CASE WHEN v_vendor_count = 1 THEN 'ORD-' || v_stamp ELSE 'ORD-' || v_stamp || '-' || v_vendor_index END,
+      v_vendor.subtotal, v_fee_share,
+      v_discount_share, v_promo.code, v_promo.id,
+      greatest(0, v_vendor.subtotal + v_fee_share - v_discount_share),
+      p_delivery_type,
+      CASE WHEN p_delivery_type = 'delivery' THEN v_delivery_address ELSE 'N/A' END,
+      CASE WHEN p_delivery_type = 'delivery' THEN v_delivery_latitude END,
+      CASE WHEN p_delivery_type = 'delivery' THEN v_delivery_longitude END,
+      v_address.id, v_address_snapshot,
+      (v_slot->>'start')::timestamptz, (v_slot->>'end')::timestamptz,
+      'pending', p_payment_method, v_payment_status, p_payment_reference
+    )
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_items (order_id, product_id, variant_id, variant_name, quantity, unit_price, subtotal)
+    SELECT
+      v_order.id,
+      l.product_id,
+      l.variant_id,
+      l.variant_name,
+      l.quantity,
+      l.unit_price,
+      l.unit_price * l.quantity
+    FROM cart_lines(v_customer_id) l
+    WHERE l.vendor_id = v_vendor.vendor_id;
+
+    PERFORM reserve_order_stock(v_order.id, v_customer_id);
+
+    IF v_quote IS NOT NULL THEN
+      INSERT INTO delivery_logs (
+        user_id, order_id, action, details, zone_id, distance_km, base_price, distance_price,
+        promotion_discount, adjustment_amount, final_price
+      ) VALUES (
+        v_customer_id, v_order.id, 'order_placed', v_quote,
+        (v_quote->'zone'->>'id')::uuid, (v_quote->>'distance_km')::numeric,
+        (v_quote->>'base_price')::numeric, (v_quote->>'distance_price')::numeric,
+        CASE WHEN v_promo.discount_type = 'free_delivery' THEN v_discount_share ELSE 0 END,
+        coalesce((v_quote->>'adjustment_amount')::numeric, 0),
+        CASE WHEN v_promo.discount_type = 'free_delivery' THEN 0 ELSE v_fee_share END
+      );
+    END IF;
+
+    v_orders := v_orders || to_jsonb(v_order);
+  END LOOP;
+
+  IF p_payment_method = 'wallet' THEN
+    v_debit_result := debit_wallet(
+      v_customer_id,
+      v_total,
+      CASE
+        WHEN v_vendor_count = 1 THEN 'Payment for order ' || v_order.order_number
+        ELSE 'Payment for purchase ' || v_group.group_number
+      END,
+      'order',
+      v_group.id::text
+    );
+
+    IF NOT coalesce((v_debit_result->>'success')::boolean, false) THEN
+      RAISE EXCEPTION '%', coalesce(v_debit_result->>'error', 'Failed to process wallet payment');
+    END IF;
+  END IF;
+
+  DELETE FROM carts WHERE user_id = v_customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'checkout_group', to_jsonb(v_group),
+    'orders', v_orders
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION place_order(text, text, text, text, text, numeric, numeric, uuid, jsonb) TO authenticated;
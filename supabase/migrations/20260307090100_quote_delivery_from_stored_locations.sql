@@ -0,0 +1,84 @@
+/*
+  # Quote Deliveries From Stored Locations
+
+  1. Changes to `quote_delivery`
+    - `p_distance_km` is removed; the quote is for the distance from the vendor's pinned store to the
+      delivery location, measured with `store_delivery_distance_km`, as `place_order` does
+    - `p_vendor_id` is now required
+    - The delivery location comes from the saved address (`p_address_id`), or from
+      `p_delivery_latitude` / `p_delivery_longitude` for an address that has not been saved yet
+*/
+
+DROP FUNCTION IF EXISTS quote_delivery(numeric, numeric, text, uuid, uuid);
+
+-- Quote shown to the customer before ordering; every quote is logged
+CREATE FUNCTION quote_delivery(
+  p_vendor_id uuid,
+  p_order_subtotal numeric DEFAULT 0,
+  p_promo_code text DEFAULT NULL,
+  p_address_id uuid DEFAULT NULL,
+  p_delivery_latitude numeric DEFAULT NULL,
+  p_delivery_longitude numeric DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_address delivery_addresses%ROWTYPE;
+  v_distance numeric;
+  v_quote jsonb;
+  v_log_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to get a delivery quote';
+  END IF;
+
+  IF p_vendor_id IS NULL THEN
+    RAISE EXCEPTION 'Choose the store to deliver from';
+  END IF;
+
+  IF p_address_id IS NOT NULL THEN
+    SELECT * INTO v_address
+    FROM delivery_addresses
+    WHERE id = p_address_id AND user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Address not found';
+    END IF;
+  END IF;
+
+  v_distance := store_delivery_distance_km(
+    p_vendor_id,
+    coalesce(v_address.latitude, p_delivery_latitude),
+    coalesce(v_address.longitude, p_delivery_longitude)
+  );
+
+  v_quote := calculate_delivery_quote(v_distance, p_order_subtotal, p_promo_code, p_vendor_id);
+
+  INSERT INTO delivery_logs (
+    user_id, address_id, action, details, zone_id, distance_km, base_price, distance_price,
+    promotion_discount, adjustment_amount, final_price
+  ) VALUES (
+    v_user_id, p_address_id, 'calculate', v_quote || jsonb_build_object('vendor_id', p_vendor_id),
+    (v_quote->'zone'->>'id')::uuid, v_distance,
+    (v_quote->>'base_price')::numeric, (v_quote->>'distance_price')::numeric,
+    coalesce((v_quote->>'promotion_discount')::numeric, 0),
+    coalesce((v_quote->>'adjustment_amount')::numeric, 0),
+    (v_quote->>'final_price')::numeric
+  )
+  RETURNING id INTO v_log_id;
+
+  RETURN jsonb_build_object('success', true, 'log_id', v_log_id) || v_quote;
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_delivery(uuid, numeric, text, uuid, numeric, numeric) TO authenticated;
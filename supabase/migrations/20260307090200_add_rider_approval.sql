@@ -0,0 +1,172 @@
+/*
+  # Add Rider Approval
+
+  1. Changes to profiles table
+    - Add `rider_status` column (pending, approved, rejected), like `vendor_status`; admins
+      give the reason for a rejection in `rejection_reason`
+
+  2. Functions
+    - `protect_rider_status` - BEFORE INSERT/UPDATE trigger on profiles: client-created riders
+      always start pending, and only admins can change a rider's status (the "update own
+      profile" policy would otherwise let riders approve themselves)
+    - `validate_order_rider` - Only approved riders can be assigned to an order
+    - `get_available_riders` - Only lists approved riders
+
+  3. Notes
+    - Riders that signed up before this migration are pending until an admin approves them;
+      deliveries already assigned to them are not affected
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'rider_status'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN rider_status text NOT NULL DEFAULT 'pending';
+  END IF;
+END $$;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_rider_status_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_rider_status_check
+  CHECK (rider_status IN ('pending', 'approved', 'rejected'));
+
+UPDATE profiles SET rider_status = 'approved' WHERE role <> 'rider';
+
+-- Riders are approved by admins only
+CREATE OR REPLACE FUNCTION protect_rider_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.rider_status := CASE WHEN NEW.role = 'rider' THEN 'pending' ELSE 'approved' END;
+  ELSIF NEW.rider_status IS DISTINCT FROM OLD.rider_status THEN
+    RAISE EXCEPTION 'Only admins can approve riders';
+  ELSIF NEW.role = 'rider' AND OLD.role IS DISTINCT FROM 'rider' THEN
+    NEW.rider_status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_rider_status ON profiles;
+
+CREATE TRIGGER trigger_protect_rider_status
+  BEFORE INSERT OR UPDATE OF rider_status, role ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_rider_status();
+
+-- Rider assignment and delivery rules, whoever makes the update
+CREATE OR REPLACE FUNCTION validate_order_rider()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid;
+BEGIN
+  IF NEW.rider_id IS DISTINCT FROM OLD.rider_id THEN
+    IF OLD.status IN ('delivered', 'cancelled') THEN
+      RAISE EXCEPTION 'Cannot change the rider of a % order', OLD.status;
+    END IF;
+
+    IF NEW.rider_id IS NOT NULL THEN
+      IF NEW.delivery_type <> 'delivery' THEN
+        RAISE EXCEPTION 'Only delivery orders can be assigned a rider';
+      END IF;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM profiles
+        WHERE id = NEW.rider_id
+          AND role = 'rider'
+          AND rider_status = 'approved'
+          AND NOT coalesce(is_suspended, false)
+      ) THEN
+        RAISE EXCEPTION 'Rider not found';
+      END IF;
+    END IF;
+
+    NEW.rider_assigned_at := CASE WHEN NEW.rider_id IS NULL THEN NULL ELSE now() END;
+  END IF;
+
+  IF NEW.status = 'delivered'
+    AND OLD.status IS DISTINCT FROM 'delivered'
+    AND NEW.delivery_type = 'delivery' THEN
+    v_actor := coalesce(
+      nullif(current_setting('app.order_status_changed_by', true), '')::uuid,
+      auth.uid()
+    );
+
+    IF v_actor IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = v_actor AND role = 'admin') THEN
+      IF v_actor IS DISTINCT FROM NEW.rider_id THEN
+        IF NEW.rider_id IS NULL THEN
+          RAISE EXCEPTION 'Assign a rider to deliver this order';
+        END IF;
+
+        RAISE EXCEPTION 'Only the assigned rider can mark this order delivered';
+      END IF;
+
+      IF NEW.delivery_confirmed_at IS NULL THEN
+        RAISE EXCEPTION 'Enter the delivery code from the customer to complete this order';
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Approved riders a vendor or admin can assign, least busy first
+CREATE OR REPLACE FUNCTION get_available_riders()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_riders jsonb;
+BEGIN
+  IF NOT is_admin() AND NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'vendor'
+  ) THEN
+    RAISE EXCEPTION 'Only vendors and admins can assign riders';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(r ORDER BY r.active_deliveries, r.full_name), '[]'::jsonb)
+  INTO v_riders
+  FROM (
+    SELECT
+      p.id,
+      p.full_name,
+      p.phone,
+      p.vehicle_type,
+      p.vehicle_plate_number,
+      (
+        SELECT count(*)
+        FROM orders o
+        WHERE o.rider_id = p.id
+          AND o.status NOT IN ('delivered', 'cancelled')
+      ) AS active_deliveries
+    FROM profiles p
+    WHERE p.role = 'rider'
+      AND p.rider_status = 'approved'
+      AND NOT coalesce(p.is_suspended, false)
+  ) r;
+
+  RETURN jsonb_build_object('success', true, 'riders', v_riders);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
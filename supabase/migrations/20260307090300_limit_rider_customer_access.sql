@@ -0,0 +1,53 @@
+/*
+  # Limit Riders to the Contact Details of Active Deliveries
+
+  1. Security
+    - Drop the "Riders can view their delivery customers" policy on profiles, which exposed the
+      whole profile (wallet balance included) of every customer a rider had ever delivered to,
+      and its `is_rider_viewing_customer` helper
+
+  2. Functions
+    - `get_delivery_customers` - Name and phone of the customer of each order the calling rider
+      is delivering; orders stop being listed once they are delivered or cancelled
+*/
+
+DROP POLICY IF EXISTS "Riders can view their delivery customers" ON profiles;
+
+DROP FUNCTION IF EXISTS is_rider_viewing_customer(uuid);
+
+-- Customer contact details for the caller's active deliveries, keyed by order id
+CREATE OR REPLACE FUNCTION get_delivery_customers()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to view delivery customers';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'customers', (
+      SELECT coalesce(
+        jsonb_object_agg(o.id, jsonb_build_object('full_name', p.full_name, 'phone', p.phone)),
+        '{}'::jsonb
+      )
+      FROM orders o
+      JOIN profiles p ON p.id = o.customer_id
+      WHERE o.rider_id = auth.uid()
+        AND o.status NOT IN ('delivered', 'cancelled')
+    )
+  );
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_delivery_customers() TO authenticated;
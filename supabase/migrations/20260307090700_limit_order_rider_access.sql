@@ -0,0 +1,63 @@
+/*
+  # Limit Customers and Vendors to the Contact Details of an Order's Rider
+
+  1. Security
+    - Drop the "Users can view the riders of their orders" policy on profiles, which exposed the
+      whole profile (wallet balance included) of every rider who had ever delivered one of the
+      caller's orders, and its `is_viewing_order_rider` helper
+
+  2. Functions
+    - `get_order_rider(p_order_id)` - Name and phone of the rider of one of the caller's orders
+      (as its customer or vendor, or an admin); the rider stops being returned once the order is
+      delivered or cancelled
+*/
+
+DROP POLICY IF EXISTS "Users can view the riders of their orders" ON profiles;
+
+DROP FUNCTION IF EXISTS is_viewing_order_rider(uuid);
+
+-- Contact details of the rider delivering an active order
+CREATE OR REPLACE FUNCTION get_order_rider(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+  v_rider jsonb;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to view the rider';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id;
+
+  IF NOT FOUND OR (
+    v_order.customer_id IS DISTINCT FROM auth.uid()
+    AND v_order.vendor_id IS DISTINCT FROM auth.uid()
+    AND NOT is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.rider_id IS NOT NULL AND v_order.status NOT IN ('delivered', 'cancelled') THEN
+    SELECT jsonb_build_object('full_name', full_name, 'phone', phone) INTO v_rider
+    FROM profiles
+    WHERE id = v_order.rider_id;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'rider', v_rider);
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_order_rider(uuid) TO authenticated;
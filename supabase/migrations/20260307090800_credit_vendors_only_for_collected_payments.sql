@@ -0,0 +1,200 @@
+/*
+  # Credit Vendors Only for Payments the Platform Collected
+
+  1. Changes to vendor_earnings table
+    - New `commission` entry type: commission a vendor owes on an order they were paid for
+      directly (cash on delivery or bank transfer). `gross_amount` is what the vendor collected
+      and `net_amount` is the commission, taken off the vendor's balance
+
+  2. Functions
+    - `credit_vendor_earnings_on_delivery` - Orders paid online or from the wallet are credited
+      as before; cash on delivery and bank transfer orders record the commission owed instead
+    - `get_vendor_balance` - Adds `collected_sales` (sales the vendor collected themselves) and
+      counts commission owed on them
+    - `mark_order_paid(p_order_id)` - The order's vendor (or an admin) confirms a cash on delivery
+      or bank transfer payment; replaces the vendor's direct update of `payment_status`
+
+  3. Notes
+    - Cash and bank transfer orders already credited as earnings are turned into commission
+      entries, so their amounts can no longer be paid out
+*/
+
+ALTER TABLE vendor_earnings DROP CONSTRAINT IF EXISTS vendor_earnings_entry_type_check;
+ALTER TABLE vendor_earnings ADD CONSTRAINT vendor_earnings_entry_type_check
+  CHECK (entry_type IN ('order', 'payout', 'refund', 'commission'));
+
+-- An order is only ever charged commission once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendor_earnings_commission ON vendor_earnings(order_id) WHERE entry_type = 'commission';
+
+UPDATE vendor_earnings e
+SET entry_type = 'commission',
+    net_amount = -e.commission_amount,
+    description = 'Commission on order ' || o.order_number
+FROM orders o
+WHERE o.id = e.order_id
+  AND e.entry_type = 'order'
+  AND o.payment_method NOT IN ('online', 'wallet');
+
+-- Credit the vendor once an order is delivered and paid, leaving out refunded items. Vendors
+-- keep the money of orders they were paid for directly and owe the commission on them instead.
+CREATE OR REPLACE FUNCTION credit_vendor_earnings_on_delivery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_gross numeric;
+  v_commission numeric;
+BEGIN
+  IF NEW.status <> 'delivered' OR NEW.payment_status <> 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM vendor_earnings
+    WHERE order_id = NEW.id AND entry_type IN ('order', 'commission')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    coalesce(sum(kept.amount), 0),
+    coalesce(sum(round(kept.amount * get_commission_rate(NEW.vendor_id, kept.category_id) / 100, 2)), 0)
+  INTO v_gross, v_commission
+  FROM (
+    SELECT
+      oi.subtotal - coalesce((
+        SELECT sum(ri.amount)
+        FROM refund_items ri
+        JOIN refunds r ON r.id = ri.refund_id
+        WHERE ri.order_item_id = oi.id AND r.status = 'completed'
+      ), 0) AS amount,
+      p.category_id
+    FROM order_items oi
+    LEFT JOIN products p ON p.id = oi.product_id
+    WHERE oi.order_id = NEW.id
+  ) kept;
+
+  IF v_gross <= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.payment_method IN ('online', 'wallet') THEN
+    INSERT INTO vendor_earnings (
+      vendor_id, order_id, entry_type, gross_amount, commission_amount, net_amount, description
+    ) VALUES (
+      NEW.vendor_id, NEW.id, 'order', v_gross, v_commission, v_gross - v_commission,
+      'Earnings for order ' || NEW.order_number
+    );
+  ELSIF v_commission > 0 THEN
+    INSERT INTO vendor_earnings (
+      vendor_id, order_id, entry_type, gross_amount, commission_amount, net_amount, description
+    ) VALUES (
+      NEW.vendor_id, NEW.id, 'commission', v_gross, v_commission, -v_commission,
+      'Commission on order ' || NEW.order_number
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Balance summary for a vendor (the vendor themself or an admin)
+CREATE OR REPLACE FUNCTION get_vendor_balance(p_vendor_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vendor_id uuid := coalesce(p_vendor_id, auth.uid());
+  v_gross numeric;
+  v_collected numeric;
+  v_refunds numeric;
+  v_commission numeric;
+  v_earned numeric;
+  v_paid_out numeric;
+  v_pending numeric;
+BEGIN
+  IF v_vendor_id IS DISTINCT FROM auth.uid() AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Not allowed to view this balance';
+  END IF;
+
+  SELECT
+    coalesce(sum(gross_amount) FILTER (WHERE entry_type = 'order'), 0),
+    coalesce(sum(gross_amount) FILTER (WHERE entry_type = 'commission'), 0),
+    coalesce(-sum(gross_amount) FILTER (WHERE entry_type = 'refund'), 0),
+    coalesce(sum(commission_amount) FILTER (WHERE entry_type IN ('order', 'refund', 'commission')), 0),
+    coalesce(sum(net_amount) FILTER (WHERE entry_type IN ('order', 'refund', 'commission')), 0),
+    coalesce(-sum(net_amount) FILTER (WHERE entry_type = 'payout'), 0)
+  INTO v_gross, v_collected, v_refunds, v_commission, v_earned, v_paid_out
+  FROM vendor_earnings
+  WHERE vendor_id = v_vendor_id;
+
+  SELECT coalesce(sum(amount), 0) INTO v_pending
+  FROM vendor_payouts
+  WHERE vendor_id = v_vendor_id AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'gross_sales', v_gross,
+    'collected_sales', v_collected,
+    'refunds', v_refunds,
+    'commission', v_commission,
+    'earned', v_earned,
+    'paid_out', v_paid_out,
+    'pending_payouts', v_pending,
+    'available', v_earned - v_paid_out - v_pending
+  );
+END;
+$$;
+
+-- Vendor (or admin) confirms a payment made to the vendor in cash or by bank transfer
+CREATE OR REPLACE FUNCTION mark_order_paid(p_order_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (v_order.vendor_id IS DISTINCT FROM auth.uid() AND NOT is_admin()) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_method NOT IN ('cash_on_delivery', 'transfer') THEN
+    RAISE EXCEPTION 'Only cash on delivery and bank transfer orders can be marked as paid';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot be marked as paid';
+  END IF;
+
+  IF v_order.payment_status IN ('completed', 'refunded') THEN
+    RAISE EXCEPTION 'This order has already been paid';
+  END IF;
+
+  UPDATE orders
+  SET payment_status = 'completed',
+      updated_at = now()
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN jsonb_build_object('success', true, 'order', to_jsonb(v_order));
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_order_paid(uuid) TO authenticated;
@@ -0,0 +1,52 @@
+/*
+  # Stop Direct Updates of Order Status, Payment and Totals
+
+  1. Security
+    - Drop the "Vendors can update own orders" policy: it let vendors write any column of their
+      orders, so `UPDATE orders SET status = 'cancelled'` skipped `cancel_order_with_refund`
+      (no refund, no stock release) and payment status and totals could be set at will
+    - `protect_order_fields` - BEFORE UPDATE trigger on orders: the `anon`/`authenticated` roles
+      cannot change an order's status, payment, totals or rider directly, whatever policies
+      allow. These only change through `update_order_status`, `cancel_order_with_refund`,
+      `mark_order_paid` and the other order functions, or the admin-orders edge function
+
+  2. Notes
+    - Vendors and riders already work on orders only through those functions
+*/
+
+DROP POLICY IF EXISTS "Vendors can update own orders" ON orders;
+
+-- Order state only moves through the functions that check and record it
+CREATE OR REPLACE FUNCTION protect_order_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.subtotal IS DISTINCT FROM OLD.subtotal
+    OR NEW.delivery_fee IS DISTINCT FROM OLD.delivery_fee
+    OR NEW.tax IS DISTINCT FROM OLD.tax
+    OR NEW.total IS DISTINCT FROM OLD.total
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.refunded_amount IS DISTINCT FROM OLD.refunded_amount
+    OR NEW.rider_id IS DISTINCT FROM OLD.rider_id
+  THEN
+    RAISE EXCEPTION 'Order status, payment and totals cannot be changed directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_protect_order_fields ON orders;
+
+CREATE TRIGGER trigger_protect_order_fields
+  BEFORE UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_order_fields();
@@ -0,0 +1,115 @@
+-- Wallet crediting is limited to the service role and database functions.
+-- Run against a local Supabase database with: supabase test db
+BEGIN;
+
+SELECT plan(13);
+
+-- Fixtures: a customer with ₦1,000, a second user and an unpaid order for each
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'wallet-customer@example.com'),
+  ('00000000-0000-0000-0000-00000000a002', 'wallet-other@example.com');
+
+INSERT INTO profiles (id, email, full_name, role, wallet_balance) VALUES
+  ('00000000-0000-0000-0000-00000000a001', 'wallet-customer@example.com', 'Wallet Customer', 'customer', 1000),
+  ('00000000-0000-0000-0000-00000000a002', 'wallet-other@example.com', 'Other Customer', 'customer', 0);
+
+INSERT INTO orders (
+  id, order_number, customer_id, vendor_id, status, subtotal, delivery_fee, total,
+  delivery_address, payment_method, payment_status
+) VALUES
+  ('00000000-0000-0000-0000-00000000b001', 'ORD-WALLET-1', '00000000-0000-0000-0000-00000000a001',
+   '00000000-0000-0000-0000-00000000a002', 'pending', 300, 0, 300, 'Test address', 'transfer', 'pending'),
+  ('00000000-0000-0000-0000-00000000b002', 'ORD-WALLET-2', '00000000-0000-0000-0000-00000000a002',
+   '00000000-0000-0000-0000-00000000a002', 'pending', 300, 0, 300, 'Test address', 'transfer', 'pending');
+
+SELECT ok(
+  has_function_privilege('service_role', 'credit_wallet(uuid, numeric, text, text, text)', 'EXECUTE'),
+  'service role can credit wallets'
+);
+
+SELECT hasnt_function(
+  'debit_wallet', ARRAY['uuid', 'numeric', 'text', 'text', 'uuid'],
+  'stale uuid overload of debit_wallet is gone'
+);
+
+-- Anonymous callers
+SET LOCAL ROLE anon;
+
+SELECT throws_ok(
+  $$ SELECT credit_wallet('00000000-0000-0000-0000-00000000a001', 1000000, 'Free money', 'topup', NULL) $$,
+  '42501', NULL,
+  'anon cannot call credit_wallet'
+);
+
+RESET ROLE;
+
+-- Signed-in customer
+SELECT set_config('request.jwt.claim.sub', '00000000-0000-0000-0000-00000000a001', true);
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000a001", "role": "authenticated"}', true);
+SET LOCAL ROLE authenticated;
+
+SELECT throws_ok(
+  $$ SELECT credit_wallet('00000000-0000-0000-0000-00000000a001', 1000000, 'Free money', 'topup', NULL) $$,
+  '42501', NULL,
+  'authenticated users cannot call credit_wallet'
+);
+
+SELECT throws_ok(
+  $$ SELECT debit_wallet('00000000-0000-0000-0000-00000000a002', 1, 'Take money', 'order', NULL) $$,
+  '42501', NULL,
+  'authenticated users cannot call debit_wallet'
+);
+
+SELECT throws_ok(
+  $$ UPDATE profiles SET wallet_balance = 1000000 WHERE id = '00000000-0000-0000-0000-00000000a001' $$,
+  'Wallet balance cannot be changed directly',
+  'authenticated users cannot set their wallet balance through the profile'
+);
+
+SELECT lives_ok(
+  $$ UPDATE profiles SET full_name = 'Renamed Customer' WHERE id = '00000000-0000-0000-0000-00000000a001' $$,
+  'other profile fields can still be updated'
+);
+
+SELECT is(
+  pay_order_with_wallet('00000000-0000-0000-0000-00000000b002') ->> 'error',
+  'Order not found',
+  'customers cannot pay for orders they do not own'
+);
+
+SELECT is(
+  pay_order_with_wallet('00000000-0000-0000-0000-00000000b001') ->> 'success',
+  'true',
+  'customers can pay their own unpaid order from the wallet'
+);
+
+SELECT is(
+  pay_order_with_wallet('00000000-0000-0000-0000-00000000b001') ->> 'error',
+  'This order has already been paid',
+  'an order cannot be paid twice'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT wallet_balance FROM profiles WHERE id = '00000000-0000-0000-0000-00000000a001'),
+  700.00::numeric,
+  'wallet was only debited by the order total and never credited'
+);
+
+SELECT is(
+  (SELECT payment_status FROM orders WHERE id = '00000000-0000-0000-0000-00000000b001'),
+  'completed',
+  'paid order is marked completed'
+);
+
+SELECT is(
+  (SELECT count(*) FROM wallet_transactions
+   WHERE user_id = '00000000-0000-0000-0000-00000000a001' AND type = 'credit'),
+  0::bigint,
+  'no credit transactions were recorded for the customer'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;
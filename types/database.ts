@@ -1,7 +1,11 @@
-export type UserRole = 'customer' | 'vendor' | 'admin';
+export type UserRole = 'customer' | 'vendor' | 'admin' | 'rider';
 
 export type VendorStatus = 'pending' | 'approved' | 'rejected';
 
+export type RiderStatus = 'pending' | 'approved' | 'rejected';
+
+export type RiderVehicleType = 'motorcycle' | 'bicycle' | 'car' | 'van';
+
 export type OrderStatus =
   | 'pending'
   | 'confirmed'
@@ -25,6 +29,9 @@ export interface Profile {
   business_phone?: string;
   business_license?: string;
   rejection_reason?: string;
+  vehicle_type?: RiderVehicleType;
+  vehicle_plate_number?: string;
+  rider_status: RiderStatus;
   is_suspended: boolean;
   suspended_at?: string;
   suspended_by?: string;
@@ -67,6 +74,8 @@ export interface Vendor {
   city: string;
   state: string;
   postal_code: string;
+  latitude?: number | null;
+  longitude?: number | null;
   is_verified: boolean;
   is_active: boolean;
   rating: number;
@@ -85,16 +94,69 @@ export interface Product {
   price: number;
   unit: string;
   stock_quantity: number;
+  reserved_quantity: number;
   is_available: boolean;
   is_featured: boolean;
   rating: number;
   total_reviews: number;
   discount_percentage: number;
   discount_active: boolean;
+  has_variants: boolean;
+  reorder_threshold: number;
+  // Hidden automatically when it sold out; listed again on restock
+  auto_hidden: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface ProductOption {
+  id: string;
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  name: string;
+  sku: string | null;
+  price: number;
+  stock_quantity: number;
+  reserved_quantity: number;
+  image_url: string | null;
+  is_available: boolean;
+  // Option name to value, e.g. { Size: 'Large', Color: 'Red' }
+  options: Record<string, string>;
+}
+
+export type StockMovementType = 'reservation' | 'release' | 'sale' | 'restock';
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  variant_id?: string;
+  order_id?: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  created_by?: string;
+  created_at: string;
+}
+
+export type StockAdjustmentReason = 'restock' | 'correction' | 'damaged' | 'lost' | 'returned' | 'other' | 'import';
+
+export interface StockAdjustment {
+  id: string;
+  product_id: string;
+  variant_id?: string;
+  variant_name?: string;
+  previous_quantity: number;
+  new_quantity: number;
+  delta: number;
+  reason: StockAdjustmentReason;
+  note?: string;
+  created_by?: string;
+  created_at: string;
+}
+
 export interface ProductImage {
   id: string;
   product_id: string;
@@ -108,18 +170,36 @@ export interface Cart {
   id: string;
   user_id: string;
   product_id: string;
+  variant_id?: string | null;
   quantity: number;
   created_at: string;
   updated_at: string;
 }
 
 export type PaymentMethod = 'transfer' | 'online' | 'wallet' | 'cash_on_delivery';
-export type PaymentStatus = 'pending' | 'completed' | 'failed';
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+export interface CheckoutGroup {
+  id: string;
+  customer_id: string;
+  group_number: string;
+  subtotal: number;
+  delivery_fee: number;
+  discount_amount: number;
+  total: number;
+  promo_code?: string;
+  promo_id?: string;
+  payment_method: PaymentMethod;
+  payment_status: PaymentStatus;
+  payment_reference?: string;
+  created_at: string;
+}
 
 export interface Order {
   id: string;
   customer_id: string;
   vendor_id: string;
+  checkout_group_id?: string;
   order_number: string;
   status: OrderStatus;
   subtotal: number;
@@ -130,21 +210,145 @@ export interface Order {
   delivery_type: 'pickup' | 'delivery';
   payment_method: PaymentMethod;
   payment_status: PaymentStatus;
+  payment_reference?: string;
+  discount_amount?: number;
+  promo_code?: string;
+  promo_id?: string;
   notes?: string;
+  cancellation_reason?: string;
+  cancelled_by?: string;
+  cancelled_at?: string;
+  refunded_amount?: number;
+  rider_id?: string;
+  rider_assigned_at?: string;
+  delivery_latitude?: number;
+  delivery_longitude?: number;
+  delivery_confirmed_at?: string;
+  delivery_confirmed_by?: string;
+  delivery_photo_path?: string;
+  delivered_at?: string;
+  delivery_address_id?: string;
+  delivery_address_snapshot?: DeliveryAddressSnapshot;
+  scheduled_slot_start?: string;
+  scheduled_slot_end?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface DeliveryAddressSnapshot {
+  address_id: string;
+  label?: string | null;
+  recipient_name: string;
+  phone: string;
+  address_line1: string;
+  address_line2?: string | null;
+  city: string;
+  state: string;
+  postal_code: string;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export interface OrderDeliveryCode {
+  order_id: string;
+  code: string;
+  failed_attempts: number;
+  created_at: string;
+}
+
+export interface DeliveryLocation {
+  id: string;
+  order_id: string;
+  reported_by: string;
+  latitude: number;
+  longitude: number;
+  accuracy_m?: number;
+  heading?: number;
+  speed_mps?: number;
+  recorded_at: string;
+  created_at: string;
+}
+
+export interface AvailableRider {
+  id: string;
+  full_name: string;
+  phone?: string;
+  vehicle_type?: RiderVehicleType;
+  vehicle_plate_number?: string;
+  active_deliveries: number;
+}
+
+export interface OrderStatusHistory {
+  id: string;
+  order_id: string;
+  from_status?: OrderStatus;
+  to_status: OrderStatus;
+  changed_by?: string;
+  note?: string;
+  created_at: string;
+}
+
+export type CancellationRequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface OrderCancellationRequest {
+  id: string;
+  order_id: string;
+  customer_id: string;
+  vendor_id: string;
+  reason: string;
+  details?: string;
+  status: CancellationRequestStatus;
+  vendor_response?: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
 export interface OrderItem {
   id: string;
   order_id: string;
   product_id: string;
+  variant_id?: string | null;
+  variant_name?: string | null;
   quantity: number;
   unit_price: number;
   subtotal: number;
+  refunded_quantity?: number;
   created_at: string;
 }
 
+export type RefundDestination = 'wallet' | 'paystack';
+
+export type RefundStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface Refund {
+  id: string;
+  refund_number: string;
+  order_id: string;
+  customer_id: string;
+  vendor_id: string;
+  refund_type: 'full' | 'partial' | 'cancellation';
+  amount: number;
+  destination: RefundDestination;
+  status: RefundStatus;
+  reason: string;
+  payment_reference?: string;
+  provider_refund_id?: string;
+  failure_reason?: string;
+  issued_by?: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RefundItem {
+  id: string;
+  refund_id: string;
+  order_item_id: string;
+  quantity: number;
+  amount: number;
+}
+
 export interface Review {
   id: string;
   product_id: string;
@@ -202,6 +406,9 @@ export interface DeliveryPricing {
 export interface DeliveryAddress {
   id: string;
   user_id: string;
+  label?: string;
+  recipient_name?: string;
+  phone?: string;
   address_line1: string;
   address_line2?: string;
   city: string;
@@ -305,3 +512,93 @@ export interface Wishlist {
   product_id: string;
   created_at: string;
 }
+
+export type CommissionScope = 'global' | 'vendor' | 'category';
+
+export interface CommissionRate {
+  id: string;
+  scope: CommissionScope;
+  vendor_id?: string;
+  category_id?: string;
+  rate: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// 'commission' is owed on orders the vendor was paid for directly (cash on delivery, bank transfer)
+export type VendorEarningType = 'order' | 'payout' | 'refund' | 'commission';
+
+export interface VendorEarning {
+  id: string;
+  vendor_id: string;
+  order_id?: string;
+  payout_id?: string;
+  refund_id?: string;
+  entry_type: VendorEarningType;
+  gross_amount: number;
+  commission_amount: number;
+  net_amount: number;
+  description: string;
+  created_at: string;
+}
+
+export type PayoutStatus = 'pending' | 'approved' | 'paid' | 'rejected';
+
+export interface VendorPayout {
+  id: string;
+  vendor_id: string;
+  payout_number: string;
+  amount: number;
+  status: PayoutStatus;
+  vendor_note?: string;
+  admin_note?: string;
+  payment_reference?: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  paid_at?: string;
+  created_at: string;
+}
+
+export interface VendorBalance {
+  gross_sales: number;
+  collected_sales: number;
+  refunds: number;
+  commission: number;
+  earned: number;
+  paid_out: number;
+  pending_payouts: number;
+  available: number;
+}
+
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'ignored' | 'failed';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  provider: string;
+  event_id: string;
+  event_type: string;
+  reference?: string;
+  payload: Record<string, any>;
+  status: WebhookEventStatus;
+  attempts: number;
+  last_error?: string;
+  last_attempt_at?: string;
+  processed_at?: string;
+  last_replayed_by?: string;
+  last_replayed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NotificationType = 'low_stock' | 'out_of_stock';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Record<string, any>;
+  read_at?: string;
+  created_at: string;
+}